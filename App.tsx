@@ -15,26 +15,25 @@ import { OfflineBanner } from '@components/ui/OfflineBanner';
 import ErrorBoundary from '@components/ErrorBoundary';
 
 import { initOffline } from '@services/offline';
+import { initCampusTime } from '@services/campusTimeService';
+import { initAttendancePolicy } from '@services/attendancePolicyService';
 import createLogger from '@utils/logger';
 
 const log = createLogger('App');
 
 export default function App() {
-  const [isReady, setIsReady] = React.useState(false);
-
   React.useEffect(() => {
-    // Initialize offline service (database, migration)
-    // Block rendering until ready to ensure migration completes before UI reads data
+    // Open the offline database and run pending migrations. Storage reads
+    // wait on this internally; the splash screen shows progress and holds
+    // navigation until it settles.
     initOffline()
-      .then(() => log.info("Offline service ready"))
+      .then(status => log.info(`Offline service ready (schema v${status.toVersion})`))
       .catch(err => log.error("Failed to init offline service:", err))
-      .finally(() => setIsReady(true));
+      // Campus timezone / period times and the attendance policy (cached
+      // settings apply offline)
+      .then(() => Promise.all([initCampusTime(), initAttendancePolicy()]));
   }, []);
 
-  if (!isReady) {
-    return null; // Or return a SplashScreen component here
-  }
-
   return (
     <ErrorBoundary>
       <GestureHandlerRootView style={{ flex: 1 }}>
@@ -1759,6 +1759,1814 @@ SELECT cron.schedule(
   $$SELECT cleanup_old_history()$$
 );
 
+-- ============================================================================
+-- 19. ROTATING BEACON TOKENS
+-- ============================================================================
+-- Student beacons advertise a token that rotates every 60 seconds:
+--   token = first 128 bits of HMAC-SHA256(beacon_secret, floor(epoch / 60))
+-- Scanners record the token they matched; this trigger re-derives it on upload
+-- so a replayed or spoofed UUID cannot mark a student present.
+-- Must stay in sync with src/services/beaconTokenService.ts
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+ALTER TABLE students ADD COLUMN IF NOT EXISTS beacon_secret TEXT;
+
+ALTER TABLE attendance_logs ADD COLUMN IF NOT EXISTS beacon_token TEXT;
+ALTER TABLE attendance_logs ADD COLUMN IF NOT EXISTS beacon_window BIGINT;
+ALTER TABLE attendance_logs ADD COLUMN IF NOT EXISTS beacon_verified BOOLEAN;
+
+CREATE OR REPLACE FUNCTION beacon_token_matches(p_secret TEXT, p_token TEXT, p_window BIGINT)
+RETURNS BOOLEAN AS $$
+  SELECT lower(replace(p_token, '-', '')) =
+         substr(encode(hmac(p_window::text, p_secret, 'sha256'), 'hex'), 1, 32);
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION verify_beacon_detection()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_secret TEXT;
+  v_expected_window BIGINT;
+BEGIN
+  IF NEW.beacon_token IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT beacon_secret INTO v_secret FROM students WHERE id = NEW.student_id;
+  v_expected_window := floor(extract(epoch FROM COALESCE(NEW.detected_at, NEW.marked_at, NOW())) / 60);
+
+  NEW.beacon_verified := v_secret IS NOT NULL
+    AND NEW.beacon_window IS NOT NULL
+    AND abs(NEW.beacon_window - v_expected_window) <= 1
+    AND beacon_token_matches(v_secret, NEW.beacon_token, NEW.beacon_window);
+
+  IF NOT NEW.beacon_verified AND NEW.status = 'present' THEN
+    NEW.status := 'absent';
+    NEW.notes := concat_ws(' | ', NEW.notes, 'Beacon token failed server verification');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_verify_beacon_detection ON attendance_logs;
+CREATE TRIGGER trigger_verify_beacon_detection
+  BEFORE INSERT ON attendance_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION verify_beacon_detection();
+
+-- ============================================================================
+-- 20. BLE PRESENCE THRESHOLDS
+-- ============================================================================
+-- Read by src/services/presenceService.ts. "rooms" holds per-room overrides
+-- keyed by master_timetables.room.
+
+INSERT INTO public.app_config (key, value, description) VALUES
+    ('ble_presence',
+     '{"default": {"min_rssi": -85, "min_sightings": 3, "min_dwell_seconds": 15, "smoothing": 0.4, "window_seconds": 60}, "rooms": {}}',
+     'BLE presence model thresholds (default + per-room overrides)')
+ON CONFLICT (key) DO NOTHING;
+
+-- Room profiles written by Beacon Doctor calibration. Faculty cannot update
+-- app_config directly, so this merges a single room under "rooms". Only the
+-- PresenceConfigEntry fields are accepted, each within a sane range.
+CREATE OR REPLACE FUNCTION save_room_presence_profile(p_room TEXT, p_profile JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_config JSONB;
+  v_key TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF COALESCE(public.auth_user_role(), '') NOT IN
+     ('faculty', 'class_incharge', 'lab_incharge', 'hod', 'principal', 'management', 'developer') THEN
+    RAISE EXCEPTION 'Not allowed to calibrate rooms';
+  END IF;
+
+  IF p_room IS NULL OR trim(p_room) = '' OR length(trim(p_room)) > 50 THEN
+    RAISE EXCEPTION 'Room is required';
+  END IF;
+
+  IF p_profile IS NULL OR jsonb_typeof(p_profile) <> 'object' THEN
+    RAISE EXCEPTION 'Profile must be an object';
+  END IF;
+
+  FOR v_key IN SELECT jsonb_object_keys(p_profile) LOOP
+    IF v_key NOT IN ('min_rssi', 'min_sightings', 'min_dwell_seconds', 'smoothing',
+                     'window_seconds', 'calibrated_at', 'calibration') THEN
+      RAISE EXCEPTION 'Unknown profile field: %', v_key;
+    END IF;
+  END LOOP;
+
+  IF p_profile ? 'min_rssi' AND (jsonb_typeof(p_profile -> 'min_rssi') <> 'number'
+     OR (p_profile ->> 'min_rssi')::NUMERIC NOT BETWEEN -120 AND -10) THEN
+    RAISE EXCEPTION 'min_rssi must be between -120 and -10 dBm';
+  END IF;
+  IF p_profile ? 'min_sightings' AND (jsonb_typeof(p_profile -> 'min_sightings') <> 'number'
+     OR (p_profile ->> 'min_sightings')::NUMERIC NOT BETWEEN 1 AND 20) THEN
+    RAISE EXCEPTION 'min_sightings must be between 1 and 20';
+  END IF;
+  IF p_profile ? 'min_dwell_seconds' AND (jsonb_typeof(p_profile -> 'min_dwell_seconds') <> 'number'
+     OR (p_profile ->> 'min_dwell_seconds')::NUMERIC NOT BETWEEN 0 AND 600) THEN
+    RAISE EXCEPTION 'min_dwell_seconds must be between 0 and 600';
+  END IF;
+  IF p_profile ? 'smoothing' AND (jsonb_typeof(p_profile -> 'smoothing') <> 'number'
+     OR (p_profile ->> 'smoothing')::NUMERIC <= 0 OR (p_profile ->> 'smoothing')::NUMERIC > 1) THEN
+    RAISE EXCEPTION 'smoothing must be above 0 and at most 1';
+  END IF;
+  IF p_profile ? 'window_seconds' AND (jsonb_typeof(p_profile -> 'window_seconds') <> 'number'
+     OR (p_profile ->> 'window_seconds')::NUMERIC NOT BETWEEN 5 AND 600) THEN
+    RAISE EXCEPTION 'window_seconds must be between 5 and 600';
+  END IF;
+  IF p_profile ? 'calibrated_at' AND (jsonb_typeof(p_profile -> 'calibrated_at') <> 'string'
+     OR p_profile ->> 'calibrated_at' !~ '^\d{4}-\d{2}-\d{2}T') THEN
+    RAISE EXCEPTION 'calibrated_at must be an ISO timestamp';
+  END IF;
+  -- Three spots of summary statistics; the size cap keeps app_config small
+  IF p_profile ? 'calibration' AND (jsonb_typeof(p_profile -> 'calibration') <> 'object'
+     OR length((p_profile -> 'calibration')::TEXT) > 2000) THEN
+    RAISE EXCEPTION 'calibration must be a small object';
+  END IF;
+
+  SELECT value INTO v_config FROM app_config WHERE key = 'ble_presence';
+  v_config := COALESCE(v_config, '{"default": {}, "rooms": {}}'::jsonb);
+  v_config := jsonb_set(
+    v_config,
+    ARRAY['rooms', upper(trim(p_room))],
+    p_profile || jsonb_build_object('calibrated_by', auth.uid()),
+    true
+  );
+
+  INSERT INTO app_config (key, value, description)
+  VALUES ('ble_presence', v_config, 'BLE presence model thresholds (default + per-room overrides)')
+  ON CONFLICT (key) DO UPDATE SET value = EXCLUDED.value, updated_at = NOW();
+
+  RETURN v_config;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 21. SCAN SESSION EVENT LOGS
+-- ============================================================================
+-- Compact timeline recorded by the scanner (detections with RSSI / strategy /
+-- device, manual overrides, timer changes, rescans, auto-pilot toggles).
+-- One row per upload; replayed in the history edit screen.
+
+CREATE TABLE IF NOT EXISTS public.attendance_scan_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    session_id UUID NOT NULL REFERENCES public.attendance_sessions(id) ON DELETE CASCADE,
+    uploaded_by UUID NOT NULL REFERENCES public.profiles(id),
+    events JSONB NOT NULL DEFAULT '[]',
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scan_events_session ON public.attendance_scan_events(session_id);
+
+ALTER TABLE public.attendance_scan_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "scan_events_insert_own" ON public.attendance_scan_events
+    FOR INSERT WITH CHECK (uploaded_by = auth.uid());
+
+CREATE POLICY "scan_events_faculty_read" ON public.attendance_scan_events
+    FOR SELECT USING (
+        uploaded_by = auth.uid() OR
+        EXISTS (
+            SELECT 1 FROM public.attendance_sessions
+            WHERE id = attendance_scan_events.session_id
+                AND (faculty_id = auth.uid() OR substitute_faculty_id = auth.uid())
+        )
+    );
+
+CREATE POLICY "scan_events_hod_read" ON public.attendance_scan_events
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.attendance_sessions sess
+            WHERE sess.id = session_id
+                AND public.auth_user_role() = 'hod'
+                AND sess.target_dept = public.auth_user_dept()
+        )
+    );
+
+CREATE POLICY "scan_events_admin" ON public.attendance_scan_events
+    FOR ALL USING (public.auth_user_role() IN ('management', 'developer'));
+
+-- ============================================================================
+-- 22. PROXY-PHONE FLAGS
+-- ============================================================================
+-- The scanner flags students whose beacon was answered by a phone that also
+-- answered for another student ('shared_device') or whose detections kept
+-- bouncing between phones ('device_hopping'). Flagged students are never
+-- auto-marked; the flags are stored per log for the class incharge to review.
+
+ALTER TABLE attendance_logs ADD COLUMN IF NOT EXISTS proxy_flags TEXT[];
+
+CREATE INDEX IF NOT EXISTS idx_logs_proxy_flags ON public.attendance_logs(session_id)
+    WHERE proxy_flags IS NOT NULL;
+
+CREATE POLICY "logs_incharge_read" ON public.attendance_logs
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.attendance_sessions sess
+            JOIN public.class_incharges ci
+                ON ci.dept = sess.target_dept
+                AND ci.year = sess.target_year
+                AND ci.section = sess.target_section
+            WHERE sess.id = attendance_logs.session_id
+                AND ci.faculty_id = auth.uid()
+                AND ci.is_active = TRUE
+        )
+    );
+
+-- ============================================================================
+-- 23. LATE ARRIVAL / EARLY EXIT
+-- ============================================================================
+-- The scanner keeps running through the period and records when each student
+-- was first and last seen. Late = first seen after the grace period from the
+-- slot's start_time; left early = not seen in the final exit window. Both are
+-- flags on a present log, not extra statuses, so valid_counts is unaffected.
+-- Settings are read by src/services/punctualityService.ts.
+
+ALTER TABLE attendance_logs ADD COLUMN IF NOT EXISTS first_seen_at TIMESTAMPTZ;
+ALTER TABLE attendance_logs ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMPTZ;
+ALTER TABLE attendance_logs ADD COLUMN IF NOT EXISTS is_late BOOLEAN DEFAULT FALSE;
+ALTER TABLE attendance_logs ADD COLUMN IF NOT EXISTS left_early BOOLEAN DEFAULT FALSE;
+
+ALTER TABLE attendance_sessions ADD COLUMN IF NOT EXISTS late_count INTEGER DEFAULT 0;
+ALTER TABLE attendance_sessions ADD COLUMN IF NOT EXISTS left_early_count INTEGER DEFAULT 0;
+
+INSERT INTO public.app_config (key, value, description) VALUES
+    ('punctuality',
+     '{"grace_minutes": 10, "exit_window_minutes": 10}',
+     'Late-arrival grace period and early-exit window (minutes)')
+ON CONFLICT (key) DO NOTHING;
+
+-- ============================================================================
+-- 24. MULTI-SCANNER (CO-SCAN) SESSIONS
+-- ============================================================================
+-- Large halls are out of range of a single phone. The session owner opens a
+-- co-scan and shares its join code; every device (owner included) scans on
+-- its own and submits through merge_coscan_submission(), which folds all
+-- uploads into ONE attendance_sessions row owned by the host with a union of
+-- presence. Read by src/services/coScanService.ts.
+
+CREATE TABLE IF NOT EXISTS public.coscan_sessions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    owner_id UUID NOT NULL REFERENCES public.profiles(id),
+    join_code TEXT NOT NULL UNIQUE,
+    date DATE NOT NULL,
+    slot_id TEXT NOT NULL,
+    subject_id UUID NOT NULL REFERENCES public.subjects(id),
+    target_dept TEXT NOT NULL,
+    target_year INTEGER NOT NULL,
+    target_section TEXT NOT NULL,
+    batch INTEGER,
+    start_time TEXT,
+    end_time TEXT,
+    room TEXT,
+    -- The merged session, created by the first upload
+    session_id UUID REFERENCES public.attendance_sessions(id) ON DELETE SET NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.coscan_contributors (
+    coscan_id UUID NOT NULL REFERENCES public.coscan_sessions(id) ON DELETE CASCADE,
+    device_id TEXT NOT NULL,
+    faculty_id UUID NOT NULL REFERENCES public.profiles(id),
+    joined_at TIMESTAMPTZ DEFAULT NOW(),
+    -- Heartbeat while the scanner is open ("connected" = seen recently)
+    last_seen_at TIMESTAMPTZ DEFAULT NOW(),
+    submitted_at TIMESTAMPTZ,
+    present_count INTEGER DEFAULT 0,
+    PRIMARY KEY (coscan_id, device_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_coscan_owner_date ON public.coscan_sessions(owner_id, date);
+
+-- Which device first saw the student (merged sessions only)
+ALTER TABLE attendance_logs ADD COLUMN IF NOT EXISTS detected_by_device TEXT;
+
+-- Membership check outside RLS (a contributors policy cannot query itself)
+CREATE OR REPLACE FUNCTION public.is_coscan_member(p_coscan_id UUID)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.coscan_sessions WHERE id = p_coscan_id AND owner_id = auth.uid()
+  ) OR EXISTS (
+    SELECT 1 FROM public.coscan_contributors WHERE coscan_id = p_coscan_id AND faculty_id = auth.uid()
+  )
+$$ LANGUAGE sql SECURITY DEFINER STABLE;
+
+GRANT EXECUTE ON FUNCTION public.is_coscan_member(UUID) TO authenticated;
+
+ALTER TABLE public.coscan_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.coscan_contributors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "coscan_owner" ON public.coscan_sessions
+    FOR ALL USING (owner_id = auth.uid()) WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "coscan_member_read" ON public.coscan_sessions
+    FOR SELECT USING (public.is_coscan_member(id));
+
+CREATE POLICY "coscan_contributors_member_read" ON public.coscan_contributors
+    FOR SELECT USING (public.is_coscan_member(coscan_id));
+
+-- Heartbeat / leave; joining goes through join_coscan_session()
+CREATE POLICY "coscan_contributors_own" ON public.coscan_contributors
+    FOR UPDATE USING (faculty_id = auth.uid());
+
+CREATE POLICY "coscan_contributors_own_delete" ON public.coscan_contributors
+    FOR DELETE USING (faculty_id = auth.uid());
+
+CREATE POLICY "coscan_admin" ON public.coscan_sessions
+    FOR ALL USING (public.auth_user_role() IN ('management', 'developer'));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.coscan_contributors;
+
+-- Join by code. Returns the class details the contributor needs to scan.
+CREATE OR REPLACE FUNCTION join_coscan_session(p_code TEXT, p_device_id TEXT)
+RETURNS JSONB AS $$
+DECLARE
+  v_coscan coscan_sessions%ROWTYPE;
+  v_subject subjects%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_coscan FROM coscan_sessions
+  WHERE join_code = upper(trim(p_code)) AND expires_at > NOW();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Co-scan code is invalid or has expired';
+  END IF;
+
+  INSERT INTO coscan_contributors (coscan_id, device_id, faculty_id)
+  VALUES (v_coscan.id, p_device_id, auth.uid())
+  ON CONFLICT (coscan_id, device_id) DO UPDATE
+    SET faculty_id = EXCLUDED.faculty_id, last_seen_at = NOW();
+
+  SELECT * INTO v_subject FROM subjects WHERE id = v_coscan.subject_id;
+
+  RETURN to_jsonb(v_coscan) || jsonb_build_object(
+    'subject', jsonb_build_object('id', v_subject.id, 'name', v_subject.name, 'code', v_subject.code)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Fold one device's upload into the merged session. Presence is a union:
+-- present beats absent, od / leave (manual excuses) beat both. Safe to call
+-- again for the same device (queued retries). Records are validated against
+-- the co-scan's class like upsert_attendance_session (section 27); the ones
+-- that fail are skipped and returned per student.
+--
+-- returns: { session_id, rejected: [{ student_id, reason }] }
+DROP FUNCTION IF EXISTS merge_coscan_submission(UUID, TEXT, INTEGER, JSONB);
+CREATE OR REPLACE FUNCTION merge_coscan_submission(
+  p_coscan_id UUID,
+  p_device_id TEXT,
+  p_total_students INTEGER,
+  p_attendance JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+  v_coscan coscan_sessions%ROWTYPE;
+  v_session_id UUID;
+  v_present INTEGER;
+  v_rejected JSONB;
+  v_valid_count INTEGER;
+BEGIN
+  IF NOT public.is_coscan_member(p_coscan_id) THEN
+    RAISE EXCEPTION 'Not a member of this co-scan';
+  END IF;
+
+  -- Serialises concurrent uploads for the same co-scan
+  SELECT * INTO v_coscan FROM coscan_sessions WHERE id = p_coscan_id FOR UPDATE;
+
+  -- Roster validation: only students of the co-scan's class
+  CREATE TEMP TABLE IF NOT EXISTS coscan_records (
+    rec JSONB, student_id UUID, reason TEXT
+  ) ON COMMIT DROP;
+  DELETE FROM coscan_records;
+
+  INSERT INTO coscan_records (rec, student_id, reason)
+  SELECT
+    rec,
+    s.id,
+    CASE
+      WHEN rec->>'status' IS NULL OR rec->>'status' NOT IN ('present', 'absent', 'od', 'leave') THEN 'invalid_status'
+      WHEN s.id IS NULL THEN 'unknown_student'
+      WHEN s.dept <> v_coscan.target_dept
+        OR s.year <> v_coscan.target_year
+        OR s.section <> v_coscan.target_section THEN 'not_in_roster'
+    END
+  FROM jsonb_array_elements(p_attendance) AS rec
+  LEFT JOIN students s ON s.id::TEXT = rec->>'studentId';
+
+  SELECT
+    COALESCE(jsonb_agg(jsonb_build_object('student_id', rec->>'studentId', 'reason', reason))
+      FILTER (WHERE reason IS NOT NULL), '[]'::JSONB),
+    COUNT(*) FILTER (WHERE reason IS NULL)
+  INTO v_rejected, v_valid_count
+  FROM coscan_records;
+
+  IF v_valid_count = 0 THEN
+    RAISE EXCEPTION 'All records rejected by roster validation';
+  END IF;
+
+  v_session_id := v_coscan.session_id;
+  IF v_session_id IS NULL THEN
+    INSERT INTO attendance_sessions (
+      faculty_id, subject_id, date, slot_id, start_time,
+      target_dept, target_year, target_section, batch, total_students,
+      is_synced, synced_at
+    ) VALUES (
+      v_coscan.owner_id, v_coscan.subject_id, v_coscan.date, v_coscan.slot_id, NOW(),
+      v_coscan.target_dept, v_coscan.target_year, v_coscan.target_section, v_coscan.batch, p_total_students,
+      TRUE, NOW()
+    )
+    RETURNING id INTO v_session_id;
+
+    UPDATE coscan_sessions SET session_id = v_session_id WHERE id = p_coscan_id;
+  END IF;
+
+  INSERT INTO attendance_logs AS l (
+    session_id, student_id, status, detected_at, marked_at, is_manual,
+    beacon_token, beacon_window, proxy_flags,
+    first_seen_at, last_seen_at, is_late, left_early, detected_by_device
+  )
+  SELECT
+    v_session_id,
+    student_id,
+    (rec->>'status')::attendance_status,
+    (rec->>'detectedAt')::TIMESTAMPTZ,
+    NOW(),
+    rec->>'beaconToken' IS NULL,
+    rec->>'beaconToken',
+    (rec->>'tokenWindow')::BIGINT,
+    CASE WHEN jsonb_array_length(COALESCE(rec->'proxyFlags', '[]')) > 0
+      THEN ARRAY(SELECT jsonb_array_elements_text(rec->'proxyFlags')) END,
+    (rec->>'firstSeenAt')::TIMESTAMPTZ,
+    (rec->>'lastSeenAt')::TIMESTAMPTZ,
+    COALESCE((rec->>'isLate')::BOOLEAN, FALSE),
+    COALESCE((rec->>'leftEarly')::BOOLEAN, FALSE),
+    CASE WHEN rec->>'status' = 'present' THEN p_device_id END
+  FROM coscan_records
+  WHERE reason IS NULL
+  ON CONFLICT (session_id, student_id) DO UPDATE SET
+    status = CASE
+      WHEN EXCLUDED.status IN ('od', 'leave') THEN EXCLUDED.status
+      WHEN l.status = 'absent' THEN EXCLUDED.status
+      ELSE l.status
+    END,
+    detected_at = LEAST(l.detected_at, EXCLUDED.detected_at),
+    is_manual = l.is_manual AND EXCLUDED.is_manual,
+    beacon_token = COALESCE(l.beacon_token, EXCLUDED.beacon_token),
+    beacon_window = COALESCE(l.beacon_window, EXCLUDED.beacon_window),
+    proxy_flags = CASE
+      WHEN l.proxy_flags IS NULL THEN EXCLUDED.proxy_flags
+      WHEN EXCLUDED.proxy_flags IS NULL THEN l.proxy_flags
+      ELSE ARRAY(SELECT DISTINCT unnest(l.proxy_flags || EXCLUDED.proxy_flags))
+    END,
+    first_seen_at = LEAST(l.first_seen_at, EXCLUDED.first_seen_at),
+    last_seen_at = GREATEST(l.last_seen_at, EXCLUDED.last_seen_at),
+    -- Late / left early only if every device that saw the student agrees
+    is_late = CASE
+      WHEN l.status <> 'present' THEN EXCLUDED.is_late
+      WHEN EXCLUDED.status <> 'present' THEN l.is_late
+      ELSE l.is_late AND EXCLUDED.is_late
+    END,
+    left_early = CASE
+      WHEN l.status <> 'present' THEN EXCLUDED.left_early
+      WHEN EXCLUDED.status <> 'present' THEN l.left_early
+      ELSE l.left_early AND EXCLUDED.left_early
+    END,
+    detected_by_device = COALESCE(l.detected_by_device, EXCLUDED.detected_by_device);
+
+  UPDATE attendance_sessions sess SET
+    total_students = GREATEST(sess.total_students, p_total_students),
+    present_count = c.present,
+    absent_count = c.absent,
+    od_count = c.od,
+    leave_count = c.leave,
+    late_count = c.late,
+    left_early_count = c.left_early,
+    end_time = NOW(),
+    synced_at = NOW()
+  FROM (
+    SELECT
+      COUNT(*) FILTER (WHERE status = 'present') AS present,
+      COUNT(*) FILTER (WHERE status = 'absent') AS absent,
+      COUNT(*) FILTER (WHERE status = 'od') AS od,
+      COUNT(*) FILTER (WHERE status = 'leave') AS leave,
+      COUNT(*) FILTER (WHERE status = 'present' AND is_late) AS late,
+      COUNT(*) FILTER (WHERE status = 'present' AND left_early) AS left_early
+    FROM attendance_logs WHERE session_id = v_session_id
+  ) c
+  WHERE sess.id = v_session_id;
+
+  SELECT COUNT(*) INTO v_present
+  FROM coscan_records
+  WHERE reason IS NULL AND rec->>'status' = 'present';
+
+  INSERT INTO coscan_contributors (coscan_id, device_id, faculty_id, submitted_at, present_count)
+  VALUES (p_coscan_id, p_device_id, auth.uid(), NOW(), v_present)
+  ON CONFLICT (coscan_id, device_id) DO UPDATE
+    SET submitted_at = NOW(), present_count = EXCLUDED.present_count, last_seen_at = NOW();
+
+  RETURN jsonb_build_object('session_id', v_session_id, 'rejected', v_rejected);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- 25. SESSION VERSIONS (OFFLINE SYNC CONFLICT DETECTION)
+-- ============================================================================
+-- Every change to a session or its logs bumps attendance_sessions.version.
+-- A queued offline submission remembers the version it was based on; if the
+-- server copy moved on in the meantime the uploader parks the submission as
+-- a conflict for the faculty to resolve in Sync Manager instead of
+-- overwriting it.
+
+ALTER TABLE attendance_sessions ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE attendance_sessions ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+CREATE OR REPLACE FUNCTION bump_session_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.version := OLD.version + 1;
+  NEW.updated_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_bump_session_version ON attendance_sessions;
+CREATE TRIGGER trigger_bump_session_version
+  BEFORE UPDATE ON attendance_sessions
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_session_version();
+
+-- Log edits (history edits, re-syncs) touch the parent session, which bumps it
+CREATE OR REPLACE FUNCTION touch_session_on_log_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE attendance_sessions
+  SET updated_at = NOW()
+  WHERE id = COALESCE(NEW.session_id, OLD.session_id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS trigger_touch_session_on_log_change ON attendance_logs;
+CREATE TRIGGER trigger_touch_session_on_log_change
+  AFTER UPDATE OR DELETE ON attendance_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_session_on_log_change();
+
+-- ============================================================================
+-- 26. DEAD-LETTER SUBMISSIONS
+-- ============================================================================
+-- Offline submissions that exhausted their retries stay on the phone in a
+-- local dead-letter table. A faculty member can hand one to their HOD, who
+-- sees the full payload and error history here and can fix it server-side.
+
+CREATE TABLE IF NOT EXISTS public.dead_letter_submissions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    faculty_id UUID NOT NULL REFERENCES public.profiles(id),
+    submission_id TEXT NOT NULL,
+    target_dept TEXT,
+    payload JSONB NOT NULL,
+    error_history JSONB DEFAULT '[]',
+    note TEXT,
+    status TEXT NOT NULL DEFAULT 'open',
+    dead_at TIMESTAMPTZ,
+    resolved_by UUID REFERENCES public.profiles(id),
+    resolved_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT valid_dead_letter_status CHECK (status IN ('open', 'resolved', 'discarded')),
+    UNIQUE(faculty_id, submission_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_dead_letters_dept ON public.dead_letter_submissions(target_dept, status);
+
+ALTER TABLE public.dead_letter_submissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "dead_letters_own" ON public.dead_letter_submissions
+    FOR ALL USING (faculty_id = auth.uid())
+    WITH CHECK (faculty_id = auth.uid());
+
+CREATE POLICY "dead_letters_hod" ON public.dead_letter_submissions
+    FOR ALL USING (
+        public.auth_user_role() = 'hod'
+        AND target_dept = public.auth_user_dept()
+    );
+
+CREATE POLICY "dead_letters_admin" ON public.dead_letter_submissions
+    FOR ALL USING (public.auth_user_role() IN ('management', 'developer'));
+
+-- ============================================================================
+-- 27. ATOMIC SESSION UPLOAD
+-- ============================================================================
+-- One call writes the session and all its logs in a single transaction, so a
+-- killed app can no longer leave a session with counts but no logs. Calls are
+-- idempotent on the client's submission ID (queued retries), and a session
+-- that moved past the client's base version is reported as a conflict
+-- instead of being overwritten (see section 25). Records that fail roster
+-- validation are skipped and returned per student.
+--
+-- payload: {
+--   client_id, subject_id, slot_id, date, target_dept, target_year,
+--   target_section, batch, total_students, start_time,
+--   is_substitute, original_faculty_id,
+--   base_session_id, base_version, force,
+--   records: [{ studentId, status, detectedAt, beaconToken, tokenWindow,
+--               proxyFlags, firstSeenAt, lastSeenAt, isLate, leftEarly }]
+-- }
+-- returns: { status: applied | duplicate | conflict | rejected,
+--            session_id, version, rejected: [{ student_id, reason }] }
+
+ALTER TABLE attendance_sessions ADD COLUMN IF NOT EXISTS client_submission_id TEXT UNIQUE;
+
+CREATE OR REPLACE FUNCTION upsert_attendance_session(payload JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_uid UUID := auth.uid();
+  v_client_id TEXT := payload->>'client_id';
+  v_is_substitute BOOLEAN := COALESCE((payload->>'is_substitute')::BOOLEAN, FALSE);
+  v_faculty_id UUID;
+  v_date DATE := COALESCE((payload->>'date')::DATE, CURRENT_DATE);
+  v_slot_id TEXT := COALESCE(payload->>'slot_id', '0');
+  v_existing attendance_sessions%ROWTYPE;
+  v_session_id UUID;
+  v_version INTEGER;
+  v_rejected JSONB;
+  v_valid_count INTEGER;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_faculty_id := CASE
+    WHEN v_is_substitute AND payload->>'original_faculty_id' IS NOT NULL
+      THEN (payload->>'original_faculty_id')::UUID
+    ELSE v_uid
+  END;
+
+  -- Already applied (retry of an upload whose response was lost)
+  SELECT * INTO v_existing FROM attendance_sessions WHERE client_submission_id = v_client_id;
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'status', 'duplicate', 'session_id', v_existing.id,
+      'version', v_existing.version, 'rejected', '[]'::JSONB
+    );
+  END IF;
+
+  -- Serialise uploads for the same faculty/date/slot
+  PERFORM pg_advisory_xact_lock(hashtext(v_faculty_id::TEXT || v_date::TEXT || v_slot_id));
+
+  SELECT * INTO v_existing FROM attendance_sessions
+  WHERE faculty_id = v_faculty_id AND date = v_date AND slot_id = v_slot_id
+  FOR UPDATE;
+  v_session_id := v_existing.id;
+
+  IF v_session_id IS NOT NULL
+     AND NOT COALESCE((payload->>'force')::BOOLEAN, FALSE)
+     AND (v_session_id::TEXT IS DISTINCT FROM payload->>'base_session_id'
+          OR v_existing.version IS DISTINCT FROM (payload->>'base_version')::INTEGER) THEN
+    RETURN jsonb_build_object(
+      'status', 'conflict', 'session_id', v_session_id,
+      'version', v_existing.version, 'rejected', '[]'::JSONB
+    );
+  END IF;
+
+  -- Roster validation
+  CREATE TEMP TABLE IF NOT EXISTS upload_records (
+    rec JSONB, student_id UUID, reason TEXT
+  ) ON COMMIT DROP;
+  DELETE FROM upload_records;
+
+  INSERT INTO upload_records (rec, student_id, reason)
+  SELECT
+    rec,
+    s.id,
+    CASE
+      WHEN rec->>'status' NOT IN ('present', 'absent', 'od', 'leave') THEN 'invalid_status'
+      WHEN s.id IS NULL THEN 'unknown_student'
+      WHEN s.dept <> payload->>'target_dept'
+        OR s.year <> (payload->>'target_year')::INTEGER
+        OR s.section <> payload->>'target_section' THEN 'not_in_roster'
+    END
+  FROM jsonb_array_elements(payload->'records') AS rec
+  LEFT JOIN students s ON s.id::TEXT = rec->>'studentId';
+
+  SELECT
+    COALESCE(jsonb_agg(jsonb_build_object('student_id', rec->>'studentId', 'reason', reason))
+      FILTER (WHERE reason IS NOT NULL), '[]'::JSONB),
+    COUNT(*) FILTER (WHERE reason IS NULL)
+  INTO v_rejected, v_valid_count
+  FROM upload_records;
+
+  IF v_valid_count = 0 THEN
+    RETURN jsonb_build_object(
+      'status', 'rejected', 'session_id', v_session_id,
+      'version', v_existing.version, 'rejected', v_rejected
+    );
+  END IF;
+
+  IF v_session_id IS NULL THEN
+    INSERT INTO attendance_sessions (
+      faculty_id, subject_id, date, slot_id, start_time,
+      target_dept, target_year, target_section, batch, total_students,
+      is_substitute, substitute_faculty_id, client_submission_id
+    ) VALUES (
+      v_faculty_id, (payload->>'subject_id')::UUID, v_date, v_slot_id,
+      COALESCE((payload->>'start_time')::TIMESTAMPTZ, NOW()),
+      payload->>'target_dept', (payload->>'target_year')::INTEGER, payload->>'target_section',
+      (payload->>'batch')::INTEGER, (payload->>'total_students')::INTEGER,
+      v_is_substitute, CASE WHEN v_is_substitute THEN v_uid END, v_client_id
+    )
+    RETURNING id INTO v_session_id;
+  ELSE
+    UPDATE attendance_sessions SET
+      subject_id = (payload->>'subject_id')::UUID,
+      client_submission_id = v_client_id
+    WHERE id = v_session_id;
+
+    -- Students no longer part of this upload
+    DELETE FROM attendance_logs
+    WHERE session_id = v_session_id
+      AND student_id NOT IN (SELECT student_id FROM upload_records WHERE reason IS NULL);
+  END IF;
+
+  INSERT INTO attendance_logs AS l (
+    session_id, student_id, status, detected_at, marked_at, is_manual,
+    beacon_token, beacon_window, proxy_flags,
+    first_seen_at, last_seen_at, is_late, left_early
+  )
+  SELECT
+    v_session_id,
+    student_id,
+    (rec->>'status')::attendance_status,
+    (rec->>'detectedAt')::TIMESTAMPTZ,
+    NOW(),
+    rec->>'beaconToken' IS NULL,
+    rec->>'beaconToken',
+    (rec->>'tokenWindow')::BIGINT,
+    CASE WHEN jsonb_array_length(COALESCE(rec->'proxyFlags', '[]')) > 0
+      THEN ARRAY(SELECT jsonb_array_elements_text(rec->'proxyFlags')) END,
+    (rec->>'firstSeenAt')::TIMESTAMPTZ,
+    (rec->>'lastSeenAt')::TIMESTAMPTZ,
+    COALESCE((rec->>'isLate')::BOOLEAN, FALSE),
+    COALESCE((rec->>'leftEarly')::BOOLEAN, FALSE)
+  FROM upload_records
+  WHERE reason IS NULL
+  ON CONFLICT (session_id, student_id) DO UPDATE SET
+    status = EXCLUDED.status,
+    detected_at = EXCLUDED.detected_at,
+    marked_at = EXCLUDED.marked_at,
+    is_manual = EXCLUDED.is_manual,
+    beacon_token = EXCLUDED.beacon_token,
+    beacon_window = EXCLUDED.beacon_window,
+    proxy_flags = EXCLUDED.proxy_flags,
+    first_seen_at = EXCLUDED.first_seen_at,
+    last_seen_at = EXCLUDED.last_seen_at,
+    is_late = EXCLUDED.is_late,
+    left_early = EXCLUDED.left_early;
+
+  UPDATE attendance_sessions sess SET
+    total_students = GREATEST((payload->>'total_students')::INTEGER, c.total),
+    present_count = c.present,
+    absent_count = c.absent,
+    od_count = c.od,
+    leave_count = c.leave,
+    late_count = c.late,
+    left_early_count = c.left_early,
+    end_time = NOW(),
+    is_synced = TRUE,
+    synced_at = NOW()
+  FROM (
+    SELECT
+      COUNT(*) AS total,
+      COUNT(*) FILTER (WHERE status = 'present') AS present,
+      COUNT(*) FILTER (WHERE status = 'absent') AS absent,
+      COUNT(*) FILTER (WHERE status = 'od') AS od,
+      COUNT(*) FILTER (WHERE status = 'leave') AS leave,
+      COUNT(*) FILTER (WHERE status = 'present' AND is_late) AS late,
+      COUNT(*) FILTER (WHERE status = 'present' AND left_early) AS left_early
+    FROM attendance_logs WHERE session_id = v_session_id
+  ) c
+  WHERE sess.id = v_session_id
+  RETURNING sess.version INTO v_version;
+
+  RETURN jsonb_build_object(
+    'status', 'applied', 'session_id', v_session_id,
+    'version', v_version, 'rejected', v_rejected
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 28. ROSTER DELTA SYNC
+-- ============================================================================
+-- Phones ask for students of a class changed since their high-water mark
+-- (students.updated_at, maintained by update_students_updated_at). Inactive
+-- rows are returned too, so the phone can drop them as tombstones.
+
+CREATE INDEX IF NOT EXISTS idx_students_class_updated_at
+    ON public.students(dept, year, section, updated_at);
+
+-- ============================================================================
+-- 29. FACULTY READ ACCESS TO PERMISSIONS
+-- ============================================================================
+-- Faculty pre-mark OD / leave when a scan starts and cache the active
+-- permissions of their classes for offline scans, so they need to read them
+-- (not manage them) for the students they teach or substitute for today.
+
+CREATE POLICY "permissions_faculty_read" ON public.attendance_permissions
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.students s
+            JOIN public.master_timetables mt
+                ON mt.target_dept = s.dept
+                AND mt.target_year = s.year
+                AND mt.target_section = s.section
+            WHERE s.id = attendance_permissions.student_id
+                AND mt.faculty_id = auth.uid()
+        )
+        OR EXISTS (
+            SELECT 1 FROM public.students s
+            JOIN public.substitutions sub
+                ON sub.target_dept = s.dept
+                AND sub.target_year = s.year
+                AND sub.target_section = s.section
+            WHERE s.id = attendance_permissions.student_id
+                AND sub.substitute_faculty_id = auth.uid()
+                AND sub.date = CURRENT_DATE
+                AND sub.status = 'accepted'
+        )
+    );
+
+-- ============================================================================
+-- 30. SESSION EDITS (HISTORY)
+-- ============================================================================
+-- History edits are queued on the phone as `update_session` operations and
+-- uploaded here, so they work offline and go through the same version check
+-- as new sessions (section 25). Only status and punctuality change; scanner
+-- evidence on the logs is left alone. Every applied edit's client ID is
+-- recorded in attendance_session_edits, so a retried edit is a no-op even
+-- after later edits of the same session.
+--
+-- payload: {
+--   client_id, session_id, base_version, force,
+--   records: [{ studentId, status, isLate, leftEarly }]
+-- }
+-- returns: { status: applied | duplicate | conflict | rejected,
+--            session_id, version, rejected: [{ student_id, reason }] }
+
+CREATE TABLE IF NOT EXISTS public.attendance_session_edits (
+    client_id TEXT PRIMARY KEY,
+    session_id UUID NOT NULL REFERENCES public.attendance_sessions(id) ON DELETE CASCADE,
+    version INTEGER,
+    applied_by UUID NOT NULL REFERENCES public.profiles(id),
+    applied_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_attendance_session_edits_session
+    ON public.attendance_session_edits(session_id);
+
+ALTER TABLE public.attendance_session_edits ENABLE ROW LEVEL SECURITY;
+
+-- Written and read by update_attendance_session as the editing faculty
+CREATE POLICY "session_edits_own" ON public.attendance_session_edits
+    FOR ALL USING (applied_by = auth.uid())
+    WITH CHECK (applied_by = auth.uid());
+
+CREATE OR REPLACE FUNCTION update_attendance_session(payload JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_uid UUID := auth.uid();
+  v_client_id TEXT := payload->>'client_id';
+  v_session attendance_sessions%ROWTYPE;
+  v_rejected JSONB;
+  v_version INTEGER;
+BEGIN
+  IF v_uid IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF v_client_id IS NULL OR v_client_id = '' THEN
+    RAISE EXCEPTION 'client_id is required';
+  END IF;
+
+  SELECT * INTO v_session FROM attendance_sessions
+  WHERE id = (payload->>'session_id')::UUID
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'status', 'rejected', 'session_id', NULL,
+      'version', NULL, 'rejected', '[]'::JSONB
+    );
+  END IF;
+
+  IF v_session.client_submission_id = v_client_id
+     OR EXISTS (SELECT 1 FROM attendance_session_edits e
+                WHERE e.client_id = v_client_id AND e.session_id = v_session.id) THEN
+    RETURN jsonb_build_object(
+      'status', 'duplicate', 'session_id', v_session.id,
+      'version', v_session.version, 'rejected', '[]'::JSONB
+    );
+  END IF;
+
+  IF NOT COALESCE((payload->>'force')::BOOLEAN, FALSE)
+     AND v_session.version IS DISTINCT FROM (payload->>'base_version')::INTEGER THEN
+    RETURN jsonb_build_object(
+      'status', 'conflict', 'session_id', v_session.id,
+      'version', v_session.version, 'rejected', '[]'::JSONB
+    );
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'student_id', rec->>'studentId',
+    'reason', CASE
+      WHEN rec->>'status' NOT IN ('present', 'absent', 'od', 'leave') THEN 'invalid_status'
+      ELSE 'not_in_session'
+    END
+  )), '[]'::JSONB)
+  INTO v_rejected
+  FROM jsonb_array_elements(payload->'records') AS rec
+  WHERE rec->>'status' NOT IN ('present', 'absent', 'od', 'leave')
+     OR NOT EXISTS (
+       SELECT 1 FROM attendance_logs l
+       WHERE l.session_id = v_session.id AND l.student_id::TEXT = rec->>'studentId'
+     );
+
+  UPDATE attendance_logs l SET
+    status = (rec->>'status')::attendance_status,
+    is_late = (rec->>'status') = 'present' AND COALESCE((rec->>'isLate')::BOOLEAN, FALSE),
+    left_early = (rec->>'status') = 'present' AND COALESCE((rec->>'leftEarly')::BOOLEAN, FALSE),
+    is_modified = TRUE,
+    modified_at = NOW(),
+    modified_by = v_uid
+  FROM jsonb_array_elements(payload->'records') AS rec
+  WHERE l.session_id = v_session.id
+    AND l.student_id::TEXT = rec->>'studentId'
+    AND rec->>'status' IN ('present', 'absent', 'od', 'leave')
+    AND (l.status::TEXT IS DISTINCT FROM rec->>'status'
+         OR l.is_late IS DISTINCT FROM ((rec->>'status') = 'present' AND COALESCE((rec->>'isLate')::BOOLEAN, FALSE))
+         OR l.left_early IS DISTINCT FROM ((rec->>'status') = 'present' AND COALESCE((rec->>'leftEarly')::BOOLEAN, FALSE)));
+
+  UPDATE attendance_sessions sess SET
+    present_count = c.present,
+    absent_count = c.absent,
+    od_count = c.od,
+    leave_count = c.leave,
+    late_count = c.late,
+    left_early_count = c.left_early,
+    is_modified = TRUE,
+    modified_at = NOW(),
+    modified_by = v_uid,
+    client_submission_id = v_client_id
+  FROM (
+    SELECT
+      COUNT(*) FILTER (WHERE status = 'present') AS present,
+      COUNT(*) FILTER (WHERE status = 'absent') AS absent,
+      COUNT(*) FILTER (WHERE status = 'od') AS od,
+      COUNT(*) FILTER (WHERE status = 'leave') AS leave,
+      COUNT(*) FILTER (WHERE status = 'present' AND is_late) AS late,
+      COUNT(*) FILTER (WHERE status = 'present' AND left_early) AS left_early
+    FROM attendance_logs WHERE session_id = v_session.id
+  ) c
+  WHERE sess.id = v_session.id
+  RETURNING sess.version INTO v_version;
+
+  INSERT INTO attendance_session_edits (client_id, session_id, version, applied_by)
+  VALUES (v_client_id, v_session.id, v_version, v_uid);
+
+  RETURN jsonb_build_object(
+    'status', 'applied', 'session_id', v_session.id,
+    'version', v_version, 'rejected', v_rejected
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- 31. CAMPUS TIMEZONE AND PERIOD TIMES
+-- ============================================================================
+-- Session dates and period times are campus wall-clock values. The app and
+-- edge functions read the timezone from app_config (src/shared/campusTime.ts)
+-- instead of assuming the device's zone or adding +05:30 by hand.
+
+INSERT INTO public.app_config (key, value, description) VALUES
+    ('campus_timezone', '"Asia/Kolkata"', 'IANA timezone of the institution (session dates, period times)')
+ON CONFLICT (key) DO NOTHING;
+
+-- Period start/end times as scheduled in master_timetables. Faculty can only
+-- read their own timetable rows, so this exposes just the times, one row per
+-- slot (the most common times if rows disagree).
+CREATE OR REPLACE FUNCTION get_period_times()
+RETURNS TABLE (slot_id TEXT, start_time TIME, end_time TIME) AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN QUERY
+  SELECT DISTINCT ON (t.slot_id) t.slot_id, t.start_time, t.end_time
+  FROM master_timetables t
+  WHERE t.is_active
+  GROUP BY t.slot_id, t.start_time, t.end_time
+  ORDER BY t.slot_id, COUNT(*) DESC;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================================================
+-- 32. CLASS ATTENDANCE AGGREGATES
+-- ============================================================================
+-- The Class Hub used to download every attendance log of a class and count
+-- them on the phone, which broke once a class passed PostgREST's row limit.
+-- Counting happens here instead. attendance_percentage() is the one formula
+-- for a student's percentage: OD counts as present and leave stays in the
+-- denominator. view_student_aggregates is rebuilt on it so the Hub and the
+-- reports agree.
+
+CREATE OR REPLACE FUNCTION attendance_percentage(
+    p_present BIGINT,
+    p_absent BIGINT,
+    p_od BIGINT,
+    p_leave BIGINT
+)
+RETURNS NUMERIC AS $$
+  SELECT CASE
+    WHEN p_present + p_absent + p_od + p_leave > 0 THEN
+      ROUND((p_present + p_od)::NUMERIC / (p_present + p_absent + p_od + p_leave) * 100, 2)
+    ELSE 0
+  END
+$$ LANGUAGE sql IMMUTABLE;
+
+DROP MATERIALIZED VIEW IF EXISTS public.view_student_aggregates;
+
+CREATE MATERIALIZED VIEW public.view_student_aggregates AS
+SELECT
+    s.id AS student_id,
+    s.roll_no,
+    s.full_name,
+    s.dept,
+    s.section,
+    s.year,
+    COUNT(als.id) FILTER (WHERE als.status IN ('present', 'od')) AS present_sessions,
+    COUNT(als.id) FILTER (WHERE als.status = 'absent') AS absent_sessions,
+    COUNT(als.id) FILTER (WHERE als.status = 'od') AS od_sessions,
+    COUNT(als.id) FILTER (WHERE als.status = 'leave') AS leave_sessions,
+    COUNT(als.id) FILTER (WHERE als.status <> 'pending') AS total_sessions,
+    attendance_percentage(
+        COUNT(als.id) FILTER (WHERE als.status = 'present'),
+        COUNT(als.id) FILTER (WHERE als.status = 'absent'),
+        COUNT(als.id) FILTER (WHERE als.status = 'od'),
+        COUNT(als.id) FILTER (WHERE als.status = 'leave')
+    ) AS attendance_percentage,
+    MAX(als.marked_at) AS last_attendance_date
+FROM public.students s
+LEFT JOIN public.attendance_logs als ON s.id = als.student_id
+WHERE s.is_active = TRUE
+GROUP BY s.id, s.roll_no, s.full_name, s.dept, s.section, s.year;
+
+CREATE UNIQUE INDEX idx_mv_student_aggregates_student_id ON public.view_student_aggregates(student_id);
+CREATE INDEX idx_mv_student_aggregates_dept_section ON public.view_student_aggregates(dept, section);
+CREATE INDEX idx_mv_student_aggregates_percentage ON public.view_student_aggregates(attendance_percentage);
+
+-- Per-student counts for one class, optionally limited to a date range and a
+-- subject. present_sessions excludes OD here (the Hub shows OD separately);
+-- total_sessions is the number of sessions the class had in the range.
+-- Runs with the caller's rights, so the logs RLS policies decide who may
+-- read which class.
+CREATE OR REPLACE FUNCTION get_class_attendance_aggregates(
+    p_dept TEXT,
+    p_year INTEGER,
+    p_section TEXT,
+    p_from DATE DEFAULT NULL,
+    p_to DATE DEFAULT NULL,
+    p_subject_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    student_id UUID,
+    roll_no TEXT,
+    full_name TEXT,
+    dept TEXT,
+    section TEXT,
+    year INTEGER,
+    student_mobile TEXT,
+    parent_mobile TEXT,
+    present_sessions INTEGER,
+    absent_sessions INTEGER,
+    od_sessions INTEGER,
+    leave_sessions INTEGER,
+    late_sessions INTEGER,
+    left_early_sessions INTEGER,
+    total_sessions INTEGER,
+    attendance_percentage NUMERIC,
+    last_attendance_date TIMESTAMPTZ
+) AS $$
+  WITH class_sessions AS (
+    SELECT sess.id
+    FROM attendance_sessions sess
+    WHERE sess.target_dept = p_dept
+      AND sess.target_year = p_year
+      AND sess.target_section = p_section
+      AND (p_from IS NULL OR sess.date >= p_from)
+      AND (p_to IS NULL OR sess.date <= p_to)
+      AND (p_subject_id IS NULL OR sess.subject_id = p_subject_id)
+  ),
+  counts AS (
+    SELECT
+      l.student_id,
+      COUNT(*) FILTER (WHERE l.status = 'present') AS present,
+      COUNT(*) FILTER (WHERE l.status = 'absent') AS absent,
+      COUNT(*) FILTER (WHERE l.status = 'od') AS od,
+      COUNT(*) FILTER (WHERE l.status = 'leave') AS leave,
+      -- Lateness is tracked alongside the status, not instead of it
+      COUNT(*) FILTER (WHERE l.status = 'present' AND l.is_late) AS late,
+      COUNT(*) FILTER (WHERE l.status = 'present' AND l.left_early) AS left_early,
+      MAX(l.marked_at) AS last_marked_at
+    FROM attendance_logs l
+    JOIN class_sessions cs ON cs.id = l.session_id
+    GROUP BY l.student_id
+  )
+  SELECT
+    s.id,
+    s.roll_no,
+    s.full_name,
+    s.dept,
+    s.section,
+    s.year,
+    s.mobile,
+    s.parent_mobile,
+    COALESCE(c.present, 0)::INTEGER,
+    COALESCE(c.absent, 0)::INTEGER,
+    COALESCE(c.od, 0)::INTEGER,
+    COALESCE(c.leave, 0)::INTEGER,
+    COALESCE(c.late, 0)::INTEGER,
+    COALESCE(c.left_early, 0)::INTEGER,
+    (SELECT COUNT(*) FROM class_sessions)::INTEGER,
+    attendance_percentage(
+      COALESCE(c.present, 0), COALESCE(c.absent, 0), COALESCE(c.od, 0), COALESCE(c.leave, 0)
+    ),
+    c.last_marked_at
+  FROM students s
+  LEFT JOIN counts c ON c.student_id = s.id
+  WHERE s.dept = p_dept
+    AND s.year = p_year
+    AND s.section = p_section
+    AND s.is_active = TRUE
+  ORDER BY s.roll_no;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- 33. SUBJECT-WISE ATTENDANCE
+-- ============================================================================
+-- JNTUH applies the 75% rule per subject as well as overall. One row per
+-- student and subject the student has logs for; conducted counts the
+-- student's marked sessions, so a batch lab only counts for its batch.
+-- attended excludes OD, the percentage uses attendance_percentage()
+-- (section 32).
+
+CREATE OR REPLACE FUNCTION get_class_subject_attendance(
+    p_dept TEXT,
+    p_year INTEGER,
+    p_section TEXT,
+    p_from DATE DEFAULT NULL,
+    p_to DATE DEFAULT NULL
+)
+RETURNS TABLE (
+    student_id UUID,
+    subject_id UUID,
+    subject_code TEXT,
+    subject_name TEXT,
+    conducted INTEGER,
+    attended INTEGER,
+    od_sessions INTEGER,
+    leave_sessions INTEGER,
+    absent_sessions INTEGER,
+    attendance_percentage NUMERIC
+) AS $$
+  SELECT
+    l.student_id,
+    sub.id,
+    sub.code,
+    sub.name,
+    COUNT(*) FILTER (WHERE l.status <> 'pending')::INTEGER,
+    COUNT(*) FILTER (WHERE l.status = 'present')::INTEGER,
+    COUNT(*) FILTER (WHERE l.status = 'od')::INTEGER,
+    COUNT(*) FILTER (WHERE l.status = 'leave')::INTEGER,
+    COUNT(*) FILTER (WHERE l.status = 'absent')::INTEGER,
+    attendance_percentage(
+      COUNT(*) FILTER (WHERE l.status = 'present'),
+      COUNT(*) FILTER (WHERE l.status = 'absent'),
+      COUNT(*) FILTER (WHERE l.status = 'od'),
+      COUNT(*) FILTER (WHERE l.status = 'leave')
+    )
+  FROM attendance_sessions sess
+  JOIN attendance_logs l ON l.session_id = sess.id
+  JOIN subjects sub ON sub.id = sess.subject_id
+  JOIN students s ON s.id = l.student_id AND s.is_active = TRUE
+  WHERE sess.target_dept = p_dept
+    AND sess.target_year = p_year
+    AND sess.target_section = p_section
+    AND (p_from IS NULL OR sess.date >= p_from)
+    AND (p_to IS NULL OR sess.date <= p_to)
+  GROUP BY l.student_id, sub.id, sub.code, sub.name
+  ORDER BY sub.code;
+$$ LANGUAGE sql STABLE;
+
+-- ============================================================================
+-- 34. REMAINING SESSIONS (ATTENDANCE PROJECTION)
+-- ============================================================================
+-- The Class Hub projects how many of the remaining sessions a student must
+-- attend to reach 75% (or 65% for condonation). Remaining = timetable slots
+-- of the class from p_from to the semester end date, minus holidays (whole
+-- day, or only the periods in affects_periods). Batch slots only count for
+-- students of that batch. Substitutions and swaps don't change the count.
+-- Returns no rows until an admin sets `semester_end_date`.
+
+INSERT INTO public.app_config (key, value, description) VALUES
+    ('semester_end_date', 'null', 'Last teaching day of the semester (YYYY-MM-DD), for attendance projections')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION get_class_remaining_sessions(
+    p_dept TEXT,
+    p_year INTEGER,
+    p_section TEXT,
+    p_from DATE
+)
+RETURNS TABLE (student_id UUID, remaining_sessions INTEGER, semester_end_date DATE) AS $$
+DECLARE
+  v_end DATE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM class_incharges ci
+    WHERE ci.faculty_id = auth.uid()
+      AND ci.dept = p_dept AND ci.year = p_year AND ci.section = p_section
+      AND ci.is_active = TRUE
+  ) AND COALESCE(public.auth_user_role(), '') NOT IN ('hod', 'principal', 'management', 'developer') THEN
+    RAISE EXCEPTION 'Not allowed to view this class';
+  END IF;
+
+  SELECT (value #>> '{}')::DATE INTO v_end
+  FROM app_config WHERE key = 'semester_end_date';
+
+  IF v_end IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH slots AS (
+    SELECT mt.batch
+    FROM generate_series(p_from, v_end, INTERVAL '1 day') AS d(day)
+    JOIN master_timetables mt
+      ON mt.day = to_char(d.day, 'FMDay')
+      AND mt.target_dept = p_dept
+      AND mt.target_year = p_year
+      AND mt.target_section = p_section
+      AND mt.is_active = TRUE
+    WHERE NOT EXISTS (
+      SELECT 1 FROM academic_calendar ac
+      WHERE ac.date = d.day::DATE
+        AND ac.type = 'holiday'
+        AND (ac.affects_periods IS NULL OR mt.slot_id = ANY(ac.affects_periods))
+    )
+  )
+  SELECT
+    s.id,
+    (SELECT COUNT(*) FROM slots sl WHERE sl.batch IS NULL OR sl.batch = s.batch)::INTEGER,
+    v_end
+  FROM students s
+  WHERE s.dept = p_dept
+    AND s.year = p_year
+    AND s.section = p_section
+    AND s.is_active = TRUE;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================================================
+-- 35. ATTENDANCE POLICY
+-- ============================================================================
+-- How a student's percentage is computed is configurable: thresholds, how
+-- OD / leave / medical leave count (attended, missed or excluded), a weight
+-- for lab sessions and rounding. The policy is app_config
+-- `attendance_policy`; "departments" holds per-department overrides.
+--
+-- The formula is defined once, in src/shared/attendancePolicy.ts. The RPCs
+-- below return raw counts and the app applies that evaluator.
+-- attendance_percentage(policy, ...) is its SQL port for
+-- view_student_aggregates and must change together with it.
+--
+-- A lab session is a batch session or one of a subject marked is_lab. A
+-- medical leave is a leave log covered by a leave permission marked
+-- is_medical.
+
+ALTER TABLE public.subjects ADD COLUMN IF NOT EXISTS is_lab BOOLEAN DEFAULT FALSE;
+ALTER TABLE public.attendance_permissions ADD COLUMN IF NOT EXISTS is_medical BOOLEAN DEFAULT FALSE;
+
+INSERT INTO public.app_config (key, value, description) VALUES
+    ('attendance_policy',
+     '{"warning_threshold": 75, "critical_threshold": 65, "od": "attended", "leave": "missed", "medical_leave": "missed", "lab_weight": 1, "rounding": {"mode": "round", "decimals": 2}, "departments": {}}',
+     'Attendance percentage rules (see src/shared/attendancePolicy.ts)')
+ON CONFLICT (key) DO NOTHING;
+
+-- Effective policy of a department: defaults (DEFAULT_ATTENDANCE_POLICY),
+-- then the institution's settings, then the department's, merged field by
+-- field. `rounding` is merged one level deeper, so
+-- { "rounding": { "mode": "floor" } } keeps the default decimals
+CREATE OR REPLACE FUNCTION attendance_policy(p_dept TEXT DEFAULT NULL)
+RETURNS JSONB AS $$
+  WITH layers AS (
+    SELECT
+      '{"warning_threshold": 75, "critical_threshold": 65, "od": "attended", "leave": "missed", "medical_leave": "missed", "lab_weight": 1, "rounding": {"mode": "round", "decimals": 2}}'::JSONB AS defaults,
+      COALESCE((SELECT c.value - 'departments' FROM app_config c
+                WHERE c.key = 'attendance_policy' AND jsonb_typeof(c.value) = 'object'), '{}'::JSONB) AS institution,
+      COALESCE((SELECT c.value -> 'departments' -> p_dept FROM app_config c
+                WHERE c.key = 'attendance_policy' AND jsonb_typeof(c.value) = 'object'
+                  AND jsonb_typeof(c.value -> 'departments' -> p_dept) = 'object'), '{}'::JSONB) AS department
+  )
+  SELECT defaults || institution || department
+    || jsonb_build_object('rounding',
+         (defaults -> 'rounding')
+         || CASE WHEN jsonb_typeof(institution -> 'rounding') = 'object' THEN institution -> 'rounding' ELSE '{}'::JSONB END
+         || CASE WHEN jsonb_typeof(department -> 'rounding') = 'object' THEN department -> 'rounding' ELSE '{}'::JSONB END)
+  FROM layers
+$$ LANGUAGE sql STABLE;
+
+-- Port of evaluateAttendance() (src/shared/attendancePolicy.ts)
+CREATE OR REPLACE FUNCTION attendance_percentage(
+    p_policy JSONB,
+    p_present NUMERIC,
+    p_absent NUMERIC,
+    p_od NUMERIC,
+    p_leave NUMERIC,
+    p_medical_leave NUMERIC,
+    p_lab_present NUMERIC,
+    p_lab_absent NUMERIC,
+    p_lab_od NUMERIC,
+    p_lab_leave NUMERIC,
+    p_lab_medical_leave NUMERIC
+)
+RETURNS NUMERIC AS $$
+DECLARE
+  v_weight NUMERIC := (p_policy->>'lab_weight')::NUMERIC;
+  v_decimals INTEGER := (p_policy->'rounding'->>'decimals')::INTEGER;
+  v_attended NUMERIC := p_present + p_lab_present * v_weight;
+  v_missed NUMERIC := p_absent + p_lab_absent * v_weight;
+  v_rule TEXT;
+  v_count NUMERIC;
+  v_value NUMERIC;
+BEGIN
+  FOR v_rule, v_count IN
+    SELECT r.rule, r.n FROM (VALUES
+      (p_policy->>'od', p_od + p_lab_od * v_weight),
+      (p_policy->>'leave', p_leave + p_lab_leave * v_weight),
+      (p_policy->>'medical_leave', p_medical_leave + p_lab_medical_leave * v_weight)
+    ) AS r(rule, n)
+  LOOP
+    IF v_rule = 'attended' THEN
+      v_attended := v_attended + v_count;
+    ELSIF v_rule = 'missed' THEN
+      v_missed := v_missed + v_count;
+    END IF;
+  END LOOP;
+
+  IF v_attended + v_missed = 0 THEN
+    RETURN 0;
+  END IF;
+
+  v_value := v_attended / (v_attended + v_missed) * 100;
+  IF p_policy->'rounding'->>'mode' = 'floor' THEN
+    RETURN FLOOR(v_value * power(10::NUMERIC, v_decimals)) / power(10::NUMERIC, v_decimals);
+  END IF;
+  RETURN ROUND(v_value, v_decimals);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- One row per log with what the policy needs to know about it. Runs with
+-- the caller's rights, so the logs RLS policies still apply.
+CREATE OR REPLACE VIEW public.attendance_log_facts WITH (security_invoker = true) AS
+SELECT
+    l.id,
+    l.session_id,
+    l.student_id,
+    l.status,
+    l.is_late,
+    l.left_early,
+    l.marked_at,
+    sess.date,
+    sess.subject_id,
+    sess.target_dept,
+    sess.target_year,
+    sess.target_section,
+    (sess.batch IS NOT NULL OR COALESCE(sub.is_lab, FALSE)) AS is_lab,
+    (l.status = 'leave' AND EXISTS (
+        SELECT 1 FROM attendance_permissions p
+        WHERE p.student_id = l.student_id
+          AND p.type = 'leave'
+          AND p.is_medical
+          AND p.is_active
+          AND sess.date BETWEEN p.start_date AND p.end_date
+    )) AS is_medical
+FROM attendance_logs l
+JOIN attendance_sessions sess ON sess.id = l.session_id
+JOIN subjects sub ON sub.id = sess.subject_id;
+
+-- Rebuilt on the policy (replaces section 32's version)
+DROP MATERIALIZED VIEW IF EXISTS public.view_student_aggregates;
+
+CREATE MATERIALIZED VIEW public.view_student_aggregates AS
+WITH counts AS (
+    SELECT
+        f.student_id,
+        COUNT(*) FILTER (WHERE f.status = 'present' AND NOT f.is_lab)::INTEGER AS present,
+        COUNT(*) FILTER (WHERE f.status = 'absent' AND NOT f.is_lab)::INTEGER AS absent,
+        COUNT(*) FILTER (WHERE f.status = 'od' AND NOT f.is_lab)::INTEGER AS od,
+        COUNT(*) FILTER (WHERE f.status = 'leave' AND NOT f.is_medical AND NOT f.is_lab)::INTEGER AS leave,
+        COUNT(*) FILTER (WHERE f.is_medical AND NOT f.is_lab)::INTEGER AS medical_leave,
+        COUNT(*) FILTER (WHERE f.status = 'present' AND f.is_lab)::INTEGER AS lab_present,
+        COUNT(*) FILTER (WHERE f.status = 'absent' AND f.is_lab)::INTEGER AS lab_absent,
+        COUNT(*) FILTER (WHERE f.status = 'od' AND f.is_lab)::INTEGER AS lab_od,
+        COUNT(*) FILTER (WHERE f.status = 'leave' AND NOT f.is_medical AND f.is_lab)::INTEGER AS lab_leave,
+        COUNT(*) FILTER (WHERE f.is_medical AND f.is_lab)::INTEGER AS lab_medical_leave,
+        MAX(f.marked_at) AS last_attendance_date
+    FROM attendance_log_facts f
+    GROUP BY f.student_id
+)
+SELECT
+    s.id AS student_id,
+    s.roll_no,
+    s.full_name,
+    s.dept,
+    s.section,
+    s.year,
+    COALESCE(c.present + c.lab_present + c.od + c.lab_od, 0) AS present_sessions,
+    COALESCE(c.absent + c.lab_absent, 0) AS absent_sessions,
+    COALESCE(c.od + c.lab_od, 0) AS od_sessions,
+    COALESCE(c.leave + c.lab_leave + c.medical_leave + c.lab_medical_leave, 0) AS leave_sessions,
+    COALESCE(c.present + c.absent + c.od + c.leave + c.medical_leave
+        + c.lab_present + c.lab_absent + c.lab_od + c.lab_leave + c.lab_medical_leave, 0) AS total_sessions,
+    attendance_percentage(
+        attendance_policy(s.dept),
+        COALESCE(c.present, 0), COALESCE(c.absent, 0), COALESCE(c.od, 0),
+        COALESCE(c.leave, 0), COALESCE(c.medical_leave, 0),
+        COALESCE(c.lab_present, 0), COALESCE(c.lab_absent, 0), COALESCE(c.lab_od, 0),
+        COALESCE(c.lab_leave, 0), COALESCE(c.lab_medical_leave, 0)
+    ) AS attendance_percentage,
+    c.last_attendance_date
+FROM public.students s
+LEFT JOIN counts c ON c.student_id = s.id
+WHERE s.is_active = TRUE;
+
+CREATE UNIQUE INDEX idx_mv_student_aggregates_student_id ON public.view_student_aggregates(student_id);
+CREATE INDEX idx_mv_student_aggregates_dept_section ON public.view_student_aggregates(dept, section);
+CREATE INDEX idx_mv_student_aggregates_percentage ON public.view_student_aggregates(attendance_percentage);
+
+-- The class RPCs now return raw counts instead of a percentage (the return
+-- types change, so they are dropped first)
+DROP FUNCTION IF EXISTS get_class_attendance_aggregates(TEXT, INTEGER, TEXT, DATE, DATE, UUID);
+DROP FUNCTION IF EXISTS get_class_subject_attendance(TEXT, INTEGER, TEXT, DATE, DATE);
+DROP FUNCTION IF EXISTS get_class_remaining_sessions(TEXT, INTEGER, TEXT, DATE);
+DROP FUNCTION IF EXISTS attendance_percentage(BIGINT, BIGINT, BIGINT, BIGINT);
+
+-- Per-student counts for one class (section 32), optionally limited to a
+-- date range and a subject. total_sessions is the number of sessions the
+-- class had in the range.
+CREATE OR REPLACE FUNCTION get_class_attendance_aggregates(
+    p_dept TEXT,
+    p_year INTEGER,
+    p_section TEXT,
+    p_from DATE DEFAULT NULL,
+    p_to DATE DEFAULT NULL,
+    p_subject_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    student_id UUID,
+    roll_no TEXT,
+    full_name TEXT,
+    dept TEXT,
+    section TEXT,
+    year INTEGER,
+    student_mobile TEXT,
+    parent_mobile TEXT,
+    present INTEGER,
+    absent INTEGER,
+    od INTEGER,
+    leave INTEGER,
+    medical_leave INTEGER,
+    lab_present INTEGER,
+    lab_absent INTEGER,
+    lab_od INTEGER,
+    lab_leave INTEGER,
+    lab_medical_leave INTEGER,
+    late_sessions INTEGER,
+    left_early_sessions INTEGER,
+    total_sessions INTEGER,
+    last_attendance_date TIMESTAMPTZ
+) AS $$
+  WITH class_logs AS (
+    SELECT f.*
+    FROM attendance_log_facts f
+    WHERE f.target_dept = p_dept
+      AND f.target_year = p_year
+      AND f.target_section = p_section
+      AND (p_from IS NULL OR f.date >= p_from)
+      AND (p_to IS NULL OR f.date <= p_to)
+      AND (p_subject_id IS NULL OR f.subject_id = p_subject_id)
+  ),
+  counts AS (
+    SELECT
+      f.student_id,
+      COUNT(*) FILTER (WHERE f.status = 'present' AND NOT f.is_lab)::INTEGER AS present,
+      COUNT(*) FILTER (WHERE f.status = 'absent' AND NOT f.is_lab)::INTEGER AS absent,
+      COUNT(*) FILTER (WHERE f.status = 'od' AND NOT f.is_lab)::INTEGER AS od,
+      COUNT(*) FILTER (WHERE f.status = 'leave' AND NOT f.is_medical AND NOT f.is_lab)::INTEGER AS leave,
+      COUNT(*) FILTER (WHERE f.is_medical AND NOT f.is_lab)::INTEGER AS medical_leave,
+      COUNT(*) FILTER (WHERE f.status = 'present' AND f.is_lab)::INTEGER AS lab_present,
+      COUNT(*) FILTER (WHERE f.status = 'absent' AND f.is_lab)::INTEGER AS lab_absent,
+      COUNT(*) FILTER (WHERE f.status = 'od' AND f.is_lab)::INTEGER AS lab_od,
+      COUNT(*) FILTER (WHERE f.status = 'leave' AND NOT f.is_medical AND f.is_lab)::INTEGER AS lab_leave,
+      COUNT(*) FILTER (WHERE f.is_medical AND f.is_lab)::INTEGER AS lab_medical_leave,
+      -- Lateness is tracked alongside the status, not instead of it
+      COUNT(*) FILTER (WHERE f.status = 'present' AND f.is_late)::INTEGER AS late,
+      COUNT(*) FILTER (WHERE f.status = 'present' AND f.left_early)::INTEGER AS left_early,
+      MAX(f.marked_at) AS last_marked_at
+    FROM class_logs f
+    GROUP BY f.student_id
+  )
+  SELECT
+    s.id,
+    s.roll_no,
+    s.full_name,
+    s.dept,
+    s.section,
+    s.year,
+    s.mobile,
+    s.parent_mobile,
+    COALESCE(c.present, 0),
+    COALESCE(c.absent, 0),
+    COALESCE(c.od, 0),
+    COALESCE(c.leave, 0),
+    COALESCE(c.medical_leave, 0),
+    COALESCE(c.lab_present, 0),
+    COALESCE(c.lab_absent, 0),
+    COALESCE(c.lab_od, 0),
+    COALESCE(c.lab_leave, 0),
+    COALESCE(c.lab_medical_leave, 0),
+    COALESCE(c.late, 0),
+    COALESCE(c.left_early, 0),
+    (SELECT COUNT(*)::INTEGER
+     FROM attendance_sessions sess
+     WHERE sess.target_dept = p_dept
+       AND sess.target_year = p_year
+       AND sess.target_section = p_section
+       AND (p_from IS NULL OR sess.date >= p_from)
+       AND (p_to IS NULL OR sess.date <= p_to)
+       AND (p_subject_id IS NULL OR sess.subject_id = p_subject_id)),
+    c.last_marked_at
+  FROM students s
+  LEFT JOIN counts c ON c.student_id = s.id
+  WHERE s.dept = p_dept
+    AND s.year = p_year
+    AND s.section = p_section
+    AND s.is_active = TRUE
+  ORDER BY s.roll_no;
+$$ LANGUAGE sql STABLE;
+
+-- Per-student, per-subject counts (section 33)
+CREATE OR REPLACE FUNCTION get_class_subject_attendance(
+    p_dept TEXT,
+    p_year INTEGER,
+    p_section TEXT,
+    p_from DATE DEFAULT NULL,
+    p_to DATE DEFAULT NULL
+)
+RETURNS TABLE (
+    student_id UUID,
+    subject_id UUID,
+    subject_code TEXT,
+    subject_name TEXT,
+    present INTEGER,
+    absent INTEGER,
+    od INTEGER,
+    leave INTEGER,
+    medical_leave INTEGER,
+    lab_present INTEGER,
+    lab_absent INTEGER,
+    lab_od INTEGER,
+    lab_leave INTEGER,
+    lab_medical_leave INTEGER
+) AS $$
+  SELECT
+    f.student_id,
+    sub.id,
+    sub.code,
+    sub.name,
+    COUNT(*) FILTER (WHERE f.status = 'present' AND NOT f.is_lab)::INTEGER AS present,
+    COUNT(*) FILTER (WHERE f.status = 'absent' AND NOT f.is_lab)::INTEGER AS absent,
+    COUNT(*) FILTER (WHERE f.status = 'od' AND NOT f.is_lab)::INTEGER AS od,
+    COUNT(*) FILTER (WHERE f.status = 'leave' AND NOT f.is_medical AND NOT f.is_lab)::INTEGER AS leave,
+    COUNT(*) FILTER (WHERE f.is_medical AND NOT f.is_lab)::INTEGER AS medical_leave,
+    COUNT(*) FILTER (WHERE f.status = 'present' AND f.is_lab)::INTEGER AS lab_present,
+    COUNT(*) FILTER (WHERE f.status = 'absent' AND f.is_lab)::INTEGER AS lab_absent,
+    COUNT(*) FILTER (WHERE f.status = 'od' AND f.is_lab)::INTEGER AS lab_od,
+    COUNT(*) FILTER (WHERE f.status = 'leave' AND NOT f.is_medical AND f.is_lab)::INTEGER AS lab_leave,
+    COUNT(*) FILTER (WHERE f.is_medical AND f.is_lab)::INTEGER AS lab_medical_leave
+  FROM attendance_log_facts f
+  JOIN subjects sub ON sub.id = f.subject_id
+  JOIN students s ON s.id = f.student_id AND s.is_active = TRUE
+  WHERE f.target_dept = p_dept
+    AND f.target_year = p_year
+    AND f.target_section = p_section
+    AND (p_from IS NULL OR f.date >= p_from)
+    AND (p_to IS NULL OR f.date <= p_to)
+  GROUP BY f.student_id, sub.id, sub.code, sub.name
+  ORDER BY sub.code;
+$$ LANGUAGE sql STABLE;
+
+-- Remaining timetabled sessions per student (section 34), labs separately
+-- so they can be weighed
+CREATE OR REPLACE FUNCTION get_class_remaining_sessions(
+    p_dept TEXT,
+    p_year INTEGER,
+    p_section TEXT,
+    p_from DATE
+)
+RETURNS TABLE (
+    student_id UUID,
+    remaining_sessions INTEGER,
+    remaining_lab_sessions INTEGER,
+    semester_end_date DATE
+) AS $$
+DECLARE
+  v_end DATE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM class_incharges ci
+    WHERE ci.faculty_id = auth.uid()
+      AND ci.dept = p_dept AND ci.year = p_year AND ci.section = p_section
+      AND ci.is_active = TRUE
+  ) AND COALESCE(public.auth_user_role(), '') NOT IN ('hod', 'principal', 'management', 'developer') THEN
+    RAISE EXCEPTION 'Not allowed to view this class';
+  END IF;
+
+  SELECT (value #>> '{}')::DATE INTO v_end
+  FROM app_config WHERE key = 'semester_end_date';
+
+  IF v_end IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  WITH slots AS (
+    SELECT mt.batch, (mt.batch IS NOT NULL OR COALESCE(sub.is_lab, FALSE)) AS is_lab
+    FROM generate_series(p_from, v_end, INTERVAL '1 day') AS d(day)
+    JOIN master_timetables mt
+      ON mt.day = to_char(d.day, 'FMDay')
+      AND mt.target_dept = p_dept
+      AND mt.target_year = p_year
+      AND mt.target_section = p_section
+      AND mt.is_active = TRUE
+    JOIN subjects sub ON sub.id = mt.subject_id
+    WHERE NOT EXISTS (
+      SELECT 1 FROM academic_calendar ac
+      WHERE ac.date = d.day::DATE
+        AND ac.type = 'holiday'
+        AND (ac.affects_periods IS NULL OR mt.slot_id = ANY(ac.affects_periods))
+    )
+  )
+  SELECT
+    s.id,
+    (SELECT COUNT(*) FROM slots sl
+     WHERE NOT sl.is_lab AND (sl.batch IS NULL OR sl.batch = s.batch))::INTEGER,
+    (SELECT COUNT(*) FROM slots sl
+     WHERE sl.is_lab AND (sl.batch IS NULL OR sl.batch = s.batch))::INTEGER,
+    v_end
+  FROM students s
+  WHERE s.dept = p_dept
+    AND s.year = p_year
+    AND s.section = p_section
+    AND s.is_active = TRUE;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================================================
+-- 36. PARENT NOTIFICATION CAMPAIGNS
+-- ============================================================================
+-- A class incharge can message the parents of several watchlist students at
+-- once (SMS or WhatsApp). The notify-parents edge function checks that the
+-- caller is the class's incharge, renders each message from the campaign
+-- template (src/shared/parentMessages.ts), looks up parent_mobile and hands
+-- the messages to the configured provider. It writes these tables with the
+-- service role; the app only reads them, to show who was contacted this
+-- month.
+
+CREATE TABLE IF NOT EXISTS public.parent_notification_campaigns (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    created_by UUID NOT NULL REFERENCES public.profiles(id),
+    dept TEXT NOT NULL,
+    year INTEGER NOT NULL,
+    section TEXT NOT NULL,
+    channel TEXT NOT NULL,
+    template TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    CONSTRAINT valid_campaign_channel CHECK (channel IN ('sms', 'whatsapp'))
+);
+
+CREATE TABLE IF NOT EXISTS public.parent_notifications (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    campaign_id UUID NOT NULL REFERENCES public.parent_notification_campaigns(id) ON DELETE CASCADE,
+    student_id UUID NOT NULL REFERENCES public.students(id),
+    parent_mobile TEXT,
+    message TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'queued',
+    provider TEXT,
+    provider_message_id TEXT,
+    error TEXT,
+    queued_at TIMESTAMPTZ DEFAULT NOW(),
+    sent_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+    -- simulated: accepted by the stub provider, nothing was sent
+    CONSTRAINT valid_parent_notification_status CHECK (status IN ('queued', 'sent', 'simulated', 'delivered', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_parent_campaigns_class
+    ON public.parent_notification_campaigns(dept, year, section, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_parent_notifications_campaign ON public.parent_notifications(campaign_id);
+CREATE INDEX IF NOT EXISTS idx_parent_notifications_student
+    ON public.parent_notifications(student_id, queued_at DESC);
+
+ALTER TABLE public.parent_notification_campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.parent_notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "parent_campaigns_incharge_read" ON public.parent_notification_campaigns
+    FOR SELECT USING (
+        created_by = auth.uid()
+        OR EXISTS (
+            SELECT 1 FROM public.class_incharges ci
+            WHERE ci.faculty_id = auth.uid()
+                AND ci.dept = parent_notification_campaigns.dept
+                AND ci.year = parent_notification_campaigns.year
+                AND ci.section = parent_notification_campaigns.section
+                AND ci.is_active = TRUE
+        )
+    );
+
+CREATE POLICY "parent_campaigns_hod_read" ON public.parent_notification_campaigns
+    FOR SELECT USING (
+        public.auth_user_role() = 'hod'
+        AND dept = public.auth_user_dept()
+    );
+
+CREATE POLICY "parent_campaigns_admin" ON public.parent_notification_campaigns
+    FOR SELECT USING (public.auth_user_role() IN ('principal', 'management', 'developer'));
+
+-- Visible with the campaign
+CREATE POLICY "parent_notifications_read" ON public.parent_notifications
+    FOR SELECT USING (
+        EXISTS (
+            SELECT 1 FROM public.parent_notification_campaigns c
+            WHERE c.id = parent_notifications.campaign_id
+        )
+    );
+
+-- Latest notification per student of a class in the campus month containing
+-- p_month (any day of it). Invoker rights: RLS limits it to classes the
+-- caller can see.
+CREATE OR REPLACE FUNCTION get_parent_notification_status(
+    p_dept TEXT,
+    p_year INTEGER,
+    p_section TEXT,
+    p_month DATE
+)
+RETURNS TABLE (
+    student_id UUID,
+    status TEXT,
+    channel TEXT,
+    error TEXT,
+    queued_at TIMESTAMPTZ
+) AS $$
+  WITH tz AS (
+    SELECT COALESCE(
+      (SELECT value #>> '{}' FROM app_config WHERE key = 'campus_timezone'),
+      'Asia/Kolkata'
+    ) AS name
+  )
+  SELECT DISTINCT ON (n.student_id)
+    n.student_id, n.status, c.channel, n.error, n.queued_at
+  FROM parent_notifications n
+  JOIN parent_notification_campaigns c ON c.id = n.campaign_id
+  CROSS JOIN tz
+  WHERE c.dept = p_dept
+    AND c.year = p_year
+    AND c.section = p_section
+    AND date_trunc('month', n.queued_at AT TIME ZONE tz.name) = date_trunc('month', p_month::TIMESTAMP)
+  ORDER BY n.student_id, n.queued_at DESC;
+$$ LANGUAGE sql STABLE;
+
 -- ============================================================================
 -- END OF SCHEMA
 -- ============================================================================
@@ -1,13 +1,52 @@
 /**
  * Offline Banner Component
- * Now returns null - replaced by cloud icon in header
+ * Connectivity itself is shown by the cloud icon in the header; while offline
+ * this small pill says how fresh the cached rosters and OD/leave list are.
  */
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useOfflineSync } from '../../contexts';
+import { getCacheAge } from '../../services/offlineService';
 
 export const OfflineBanner: React.FC = () => {
-  // Removed - using cloud icon in header instead
-  return null;
+  const { isOnline, lastSyncAge, syncStatus } = useOfflineSync();
+  const insets = useSafeAreaInsets();
+  const [permissionsAge, setPermissionsAge] = useState('Never synced');
+
+  useEffect(() => {
+    if (isOnline) return;
+    getCacheAge('permissions').then(setPermissionsAge);
+  }, [isOnline, syncStatus.lastSyncTime]);
+
+  if (isOnline) return null;
+
+  return (
+    <View pointerEvents="none" style={[styles.container, { top: insets.top + 4 }]}>
+      <View style={styles.pill}>
+        <Ionicons name="cloud-offline-outline" size={14} color="#FBBF24" />
+        <Text style={styles.text} numberOfLines={1}>
+          Offline · Rosters {lastSyncAge} · OD/Leave {permissionsAge}
+        </Text>
+      </View>
+    </View>
+  );
 };
 
+const styles = StyleSheet.create({
+  container: { position: 'absolute', left: 0, right: 0, alignItems: 'center', zIndex: 1000 },
+  pill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: 'rgba(15, 23, 42, 0.85)',
+  },
+  text: { color: '#F8FAFC', fontSize: 11, fontWeight: '600' },
+});
+
 export default OfflineBanner;
@@ -17,6 +17,8 @@ import {
   getSyncStatus,
   getPendingCount,
   getCacheAge,
+  getNextDueAt,
+  resumeUploads,
   type SyncStatus,
   syncRosters as syncRostersService,
 } from '../services/offlineService';
@@ -79,13 +81,44 @@ export function OfflineSyncProvider({ children }: { children: ReactNode }) {
   useEffect(() => {
     if (justCameOnline && syncStatus.pendingCount > 0) {
       log.info('Network restored - auto-syncing pending submissions');
-      triggerForegroundSync().then(result => {
+      triggerForegroundSync({ networkRestored: true }).then(result => {
         log.info('Foreground sync result:', result);
         refreshStatus();
       });
     }
   }, [justCameOnline, syncStatus.pendingCount]);
 
+  // Wake up when the soonest queued item's backoff elapses
+  useEffect(() => {
+    if (!isOnline || syncStatus.pendingCount === 0) return;
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    let cancelled = false;
+    getNextDueAt().then(nextDueAt => {
+      if (cancelled || !nextDueAt) return;
+      const delay = Math.max(0, new Date(nextDueAt).getTime() - Date.now());
+      log.info(`Next upload due in ${Math.round(delay / 1000)}s`);
+      timer = setTimeout(() => {
+        triggerForegroundSync().then(() => refreshStatus());
+      }, delay);
+    });
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [isOnline, syncStatus, refreshStatus]);
+
+  // Uploads paused on an auth error resume on the next sign-in
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event === 'SIGNED_IN') {
+        resumeUploads().then(() => refreshStatus());
+      }
+    });
+    return () => subscription.unsubscribe();
+  }, [refreshStatus]);
+
   // Register background sync — deferred by 1s so UI loads first
   useEffect(() => {
     if (!bgSyncRegistered.current) {
@@ -24,11 +24,11 @@ import { useConnectionStatus } from '../../../hooks'; // Import connection statu
 import { 
   getTodaySchedule, 
   getStudentsForClass, 
-  createAttendanceSession,
   submitAttendance,
   TimetableSlot, 
   Student 
 } from '../../../services/dashboardService';
+import { getSessionDate } from '../../../shared/campusTime';
 
 interface AttendanceRecord {
   studentId: string;
@@ -208,23 +208,18 @@ export const AttendanceScreen: React.FC = () => {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      const { sessionId, error: sessionError } = await createAttendanceSession(
-        user.id,
-        selectedClass.subject.id,
-        selectedClass.slot_id,
-        selectedClass.target_dept,
-        selectedClass.target_year,
-        selectedClass.target_section,
-        students.length,
-        selectedClass.batch
-      );
-
-      if (sessionError || !sessionId) {
-        showToast('error', sessionError || 'Failed to create session');
-        return;
-      }
-
-      const { success, error } = await submitAttendance(sessionId, user.id, records);
+      const { success, error } = await submitAttendance({
+        clientId: `online-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        subjectId: selectedClass.subject.id,
+        slotId: selectedClass.slot_id,
+        date: getSessionDate(),
+        targetDept: selectedClass.target_dept,
+        targetYear: selectedClass.target_year,
+        targetSection: selectedClass.target_section,
+        batch: selectedClass.batch,
+        totalStudents: students.length,
+        records,
+      });
       
       if (success) {
         showToast('success', 'Attendance submitted successfully!');
@@ -15,6 +15,7 @@ import {
 import { LinearGradient } from 'expo-linear-gradient';
 import { Colors, Fonts, Layout } from '@constants';
 import { getCurrentSession, getStoredProfile } from '@services/authService';
+import { initOffline, subscribeMigrationStatus, MigrationStatus } from '@services/offline';
 
 const { width } = Dimensions.get('window');
 
@@ -24,6 +25,8 @@ interface SplashScreenProps {
 
 export const SplashScreen: React.FC<SplashScreenProps> = ({ onFinish }) => {
   const [statusText, setStatusText] = useState('Initializing...');
+  // While the offline database migrates, its progress replaces the timed messages
+  const migratingRef = useRef(false);
   
   // Animation values
   const logoOpacity = useRef(new Animated.Value(0)).current;
@@ -34,10 +37,41 @@ export const SplashScreen: React.FC<SplashScreenProps> = ({ onFinish }) => {
   const textOpacity = useRef(new Animated.Value(0)).current;
 
   useEffect(() => {
+    const unsubscribe = subscribeMigrationStatus(handleMigrationStatus);
     startAnimations();
     checkAuthWithDelay();
+    return unsubscribe;
   }, []);
 
+  const handleMigrationStatus = (status: MigrationStatus) => {
+    if (status.state === 'running' && status.current) {
+      migratingRef.current = true;
+      const step = status.current.version - status.fromVersion;
+      const total = status.toVersion - status.fromVersion;
+      setStatusText(
+        status.backupName
+          ? 'Repairing offline data...'
+          : `Updating offline data (${step}/${total})...`
+      );
+    } else if (status.state === 'failed' && status.openFailure === 'locked') {
+      migratingRef.current = true;
+      setStatusText('Offline data is locked. Restart the app to try again.');
+    } else if (status.state === 'failed' && status.openFailure === 'unreadable') {
+      migratingRef.current = true;
+      setStatusText('Offline data could not be read and was set aside');
+    } else if (status.state === 'failed') {
+      migratingRef.current = true;
+      setStatusText('Offline data could not be updated');
+    } else if (status.state === 'done' && migratingRef.current) {
+      migratingRef.current = false;
+      setStatusText('Offline data updated');
+    }
+  };
+
+  const showStatus = (text: string) => {
+    if (!migratingRef.current) setStatusText(text);
+  };
+
   const startAnimations = () => {
     // Logo fade in and scale
     Animated.parallel([
@@ -87,11 +121,15 @@ export const SplashScreen: React.FC<SplashScreenProps> = ({ onFinish }) => {
     const startTime = Date.now();
 
     // Status messages
-    setTimeout(() => setStatusText('Loading resources...'), 1500);
-    setTimeout(() => setStatusText('Checking authentication...'), 3000);
-    setTimeout(() => setStatusText('Almost ready...'), 4500);
+    setTimeout(() => showStatus('Loading resources...'), 1500);
+    setTimeout(() => showStatus('Checking authentication...'), 3000);
+    setTimeout(() => showStatus('Almost ready...'), 4500);
 
     try {
+      // Screens read cached data straight away - let migrations settle first.
+      // A failed migration is logged by the offline service; continue anyway.
+      await initOffline().catch(() => undefined);
+
       const session = await getCurrentSession();
       const profile = await getStoredProfile();
 
@@ -0,0 +1,195 @@
+/**
+ * JoinCoScanModal - Join another faculty's multi-scanner session by code
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  TextInput,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { BlurView } from 'expo-blur';
+import { useTheme } from '../../../contexts/ThemeContext';
+import { scale, verticalScale, moderateScale, normalizeFont } from '../../../utils/responsive';
+import { COSCAN_CONFIG } from '../../../services/coScanService';
+
+interface JoinCoScanModalProps {
+  visible: boolean;
+  onClose: () => void;
+  // Resolves to an error message, or null once joined
+  onJoin: (code: string) => Promise<string | null>;
+}
+
+export const JoinCoScanModal: React.FC<JoinCoScanModalProps> = ({
+  visible,
+  onClose,
+  onJoin,
+}) => {
+  const { isDark } = useTheme();
+  const [code, setCode] = useState('');
+  const [joining, setJoining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!visible) {
+      setCode('');
+      setError(null);
+      setJoining(false);
+    }
+  }, [visible]);
+
+  const colors = {
+    modalBg: isDark ? '#1C1C1E' : '#FFFFFF',
+    titleText: isDark ? '#FFFFFF' : '#0F172A',
+    labelText: isDark ? 'rgba(255,255,255,0.6)' : '#6B7280',
+    inputBg: isDark ? '#2C2C2E' : '#F3F4F6',
+    cancelBg: isDark ? '#2C2C2E' : '#F3F4F6',
+    cancelText: isDark ? 'rgba(255,255,255,0.7)' : '#6B7280',
+    accent: isDark ? '#3DDC97' : '#059669',
+    placeholder: isDark ? 'rgba(255,255,255,0.35)' : '#9CA3AF',
+    danger: '#FF6B6B',
+  };
+
+  const canJoin = code.trim().length === COSCAN_CONFIG.CODE_LENGTH && !joining;
+
+  const handleJoin = async () => {
+    if (!canJoin) return;
+    setJoining(true);
+    setError(null);
+    const joinError = await onJoin(code);
+    setJoining(false);
+    if (joinError) setError(joinError);
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableWithoutFeedback onPress={onClose}>
+        <View style={styles.overlay}>
+          <BlurView intensity={40} style={StyleSheet.absoluteFill} tint="dark" />
+          <TouchableWithoutFeedback>
+            <View style={[styles.modalContainer, { backgroundColor: colors.modalBg }]}>
+              <View style={styles.header}>
+                <Ionicons name="people" size={normalizeFont(26)} color={colors.accent} />
+                <Text style={[styles.title, { color: colors.titleText }]}>Join Co-Scan</Text>
+              </View>
+
+              <Text style={[styles.hint, { color: colors.labelText }]}>
+                Enter the code shown on the session owner's phone. Your phone scans the same class and its detections are merged into one session.
+              </Text>
+
+              <TextInput
+                style={[styles.codeInput, { backgroundColor: colors.inputBg, color: colors.titleText }]}
+                value={code}
+                onChangeText={(text) => setCode(text.toUpperCase())}
+                placeholder="ABC123"
+                placeholderTextColor={colors.placeholder}
+                autoCapitalize="characters"
+                autoCorrect={false}
+                maxLength={COSCAN_CONFIG.CODE_LENGTH}
+              />
+              {error && <Text style={[styles.error, { color: colors.danger }]}>{error}</Text>}
+
+              <TouchableOpacity
+                style={[styles.joinButton, { backgroundColor: colors.accent, opacity: canJoin ? 1 : 0.5 }]}
+                onPress={handleJoin}
+                disabled={!canJoin}
+              >
+                {joining ? (
+                  <ActivityIndicator color={isDark ? '#000000' : '#FFFFFF'} />
+                ) : (
+                  <Text style={[styles.joinButtonText, { color: isDark ? '#000000' : '#FFFFFF' }]}>Join & Start Scanning</Text>
+                )}
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.cancelButton, { backgroundColor: colors.cancelBg }]}
+                onPress={onClose}
+              >
+                <Text style={[styles.cancelButtonText, { color: colors.cancelText }]}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
+          </TouchableWithoutFeedback>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: scale(24),
+  },
+  modalContainer: {
+    width: '100%',
+    maxWidth: scale(360),
+    borderRadius: moderateScale(24),
+    padding: scale(24),
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: verticalScale(16) },
+    shadowOpacity: 0.35,
+    shadowRadius: moderateScale(32),
+    elevation: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: scale(10),
+    marginBottom: verticalScale(12),
+  },
+  title: {
+    fontSize: normalizeFont(22),
+    fontWeight: '700',
+    letterSpacing: -0.3,
+  },
+  hint: {
+    fontSize: normalizeFont(13),
+    fontWeight: '500',
+    lineHeight: verticalScale(18),
+    marginBottom: verticalScale(16),
+  },
+  codeInput: {
+    fontSize: normalizeFont(24),
+    fontWeight: '700',
+    letterSpacing: 6,
+    textAlign: 'center',
+    paddingVertical: verticalScale(14),
+    borderRadius: moderateScale(14),
+    marginBottom: verticalScale(12),
+  },
+  error: {
+    fontSize: normalizeFont(13),
+    fontWeight: '500',
+    marginBottom: verticalScale(12),
+  },
+  joinButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: verticalScale(16),
+    borderRadius: moderateScale(14),
+  },
+  joinButtonText: {
+    fontSize: normalizeFont(16),
+    fontWeight: '700',
+  },
+  cancelButton: {
+    paddingVertical: verticalScale(14),
+    alignItems: 'center',
+    borderRadius: moderateScale(14),
+    marginTop: verticalScale(12),
+  },
+  cancelButtonText: {
+    fontSize: normalizeFont(15),
+    fontWeight: '600',
+  },
+});
+
+export default JoinCoScanModal;
@@ -53,6 +53,8 @@ interface OffHoursScanModalProps {
   previousClasses: PreviousClass[];
   nextClass: NextClass | null;
   onSelectClass: (classItem: PreviousClass) => void;
+  // Help scan another faculty's class in a large hall (co-scan)
+  onJoinCoScan?: () => void;
 }
 
 const getReasonConfig = (reason: OffHoursReason, holidayName?: string, suspensionReason?: string) => {
@@ -109,6 +111,7 @@ export const OffHoursScanModal: React.FC<OffHoursScanModalProps> = ({
   previousClasses,
   nextClass,
   onSelectClass,
+  onJoinCoScan,
 }) => {
   const insets = useSafeAreaInsets();
   const { isDark } = useTheme();
@@ -191,6 +194,24 @@ export const OffHoursScanModal: React.FC<OffHoursScanModalProps> = ({
             </View>
           )}
 
+          {/* Join Co-Scan */}
+          {onJoinCoScan && (
+            <TouchableOpacity
+              style={[styles.classCard, { backgroundColor: cardBackground, borderColor, marginBottom: verticalScale(8) }]}
+              onPress={onJoinCoScan}
+              activeOpacity={0.7}
+            >
+              <Ionicons name="people-outline" size={20} color={config.color} />
+              <View style={[styles.classInfo, { marginLeft: scale(12) }]}>
+                <Text style={[styles.className, { color: textPrimary }]}>Join a Co-Scan</Text>
+                <Text style={[styles.classDetails, { color: textSecondary }]}>
+                  Help scan another faculty's class with a join code
+                </Text>
+              </View>
+              <Ionicons name="chevron-forward" size={20} color={textSecondary} />
+            </TouchableOpacity>
+          )}
+
           {/* Close Button */}
           <TouchableOpacity
             style={[styles.closeButton, { backgroundColor: cardBackground, borderColor }]}
@@ -0,0 +1,133 @@
+/**
+ * UnfinishedAttendanceList - Saved scans that were never submitted
+ *
+ * Shown on Home so a scan interrupted by an app restart or a crash can be
+ * picked up again. Drafts from an earlier day can only be discarded: resuming
+ * would record them against today.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { scale, verticalScale, moderateScale, normalizeFont } from '../../../utils/responsive';
+import type { AttendanceDraft } from '../../../services/offlineService';
+import { getSessionDate } from '../../../shared/campusTime';
+
+interface UnfinishedAttendanceListProps {
+  drafts: AttendanceDraft[];
+  onResume: (draft: AttendanceDraft) => void;
+  onDiscard: (draft: AttendanceDraft) => void;
+}
+
+const formatSavedAt = (iso: string) =>
+  new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+export const UnfinishedAttendanceList: React.FC<UnfinishedAttendanceListProps> = ({
+  drafts,
+  onResume,
+  onDiscard,
+}) => {
+  if (drafts.length === 0) return null;
+
+  const today = getSessionDate();
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Unfinished Attendance</Text>
+        <Text style={styles.count}>{drafts.length}</Text>
+      </View>
+
+      {drafts.map(draft => {
+        const isToday = draft.date === today;
+        const section = `${draft.dept}-${draft.year}-${draft.section}${draft.batch ? ` · Batch ${draft.batch}` : ''}`;
+        return (
+          <View key={draft.key} style={styles.card}>
+            <Ionicons name="document-text-outline" size={normalizeFont(22)} color="#FBBF24" />
+            <View style={styles.info}>
+              <Text style={styles.subject} numberOfLines={1}>{draft.subjectName}</Text>
+              <Text style={styles.meta} numberOfLines={1}>
+                {section} · {draft.markedCount}/{draft.students.length} marked
+              </Text>
+              <Text style={styles.meta}>
+                {isToday ? `Saved ${formatSavedAt(draft.updatedAt)}` : `From ${draft.date}`}
+              </Text>
+            </View>
+            <TouchableOpacity style={styles.discardButton} onPress={() => onDiscard(draft)}>
+              <Ionicons name="trash-outline" size={normalizeFont(18)} color="rgba(255,255,255,0.7)" />
+            </TouchableOpacity>
+            {isToday && (
+              <TouchableOpacity style={styles.resumeButton} onPress={() => onResume(draft)}>
+                <Text style={styles.resumeText}>Resume</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: verticalScale(8),
+    marginBottom: verticalScale(8),
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: verticalScale(12),
+  },
+  title: {
+    fontSize: normalizeFont(20),
+    fontWeight: '700',
+    color: '#FFFFFF',
+    letterSpacing: -0.3,
+  },
+  count: {
+    fontSize: normalizeFont(14),
+    fontWeight: '500',
+    color: 'rgba(255, 255, 255, 0.5)',
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: scale(12),
+    padding: scale(14),
+    marginBottom: verticalScale(10),
+    borderRadius: moderateScale(16),
+    backgroundColor: 'rgba(251, 191, 36, 0.10)',
+    borderWidth: 1,
+    borderColor: 'rgba(251, 191, 36, 0.35)',
+  },
+  info: {
+    flex: 1,
+  },
+  subject: {
+    fontSize: normalizeFont(15),
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
+  meta: {
+    fontSize: normalizeFont(12),
+    color: 'rgba(255, 255, 255, 0.6)',
+    marginTop: verticalScale(2),
+  },
+  discardButton: {
+    padding: scale(6),
+  },
+  resumeButton: {
+    paddingHorizontal: scale(14),
+    paddingVertical: verticalScale(8),
+    borderRadius: moderateScale(12),
+    backgroundColor: '#FBBF24',
+  },
+  resumeText: {
+    fontSize: normalizeFont(13),
+    fontWeight: '700',
+    color: '#0F172A',
+  },
+});
+
+export default UnfinishedAttendanceList;
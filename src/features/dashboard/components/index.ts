@@ -1,2 +1,4 @@
 // Dashboard components barrel export
 export { OffHoursScanModal, type OffHoursReason } from './OffHoursScanModal';
+export { JoinCoScanModal } from './JoinCoScanModal';
+export { UnfinishedAttendanceList } from './UnfinishedAttendanceList';
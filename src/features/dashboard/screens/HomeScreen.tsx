@@ -8,6 +8,7 @@ import {
   RefreshControl,
   ActivityIndicator,
   Image,
+  Alert,
 } from 'react-native';
 
 import { LinearGradient } from 'expo-linear-gradient';
@@ -36,7 +37,10 @@ import {
   cacheProfile,
   cacheAllRosters, // Import this
   getCacheAge,
-  isCacheStale 
+  isCacheStale,
+  getUnfinishedDrafts,
+  discardDraft,
+  type AttendanceDraft,
 } from '../../../services/offlineService';
 import { SlideToStart, BellIcon, ZenToast } from '../../../components';
 import { CircularClockHero, CircularClockHeroRef } from '../../../components/CircularClockHero';
@@ -44,7 +48,9 @@ import { NoClassesHero } from '../../../components/NoClassesHero';
 import { useConnectionStatus } from '../../../hooks';
 import { useOfflineSync } from '../../../contexts/OfflineSyncContext';
 import { scale, verticalScale, moderateScale, normalizeFont } from '../../../utils/responsive';
-import { OffHoursScanModal, type OffHoursReason } from '../components';
+import { OffHoursScanModal, JoinCoScanModal, UnfinishedAttendanceList, type OffHoursReason } from '../components';
+import { joinCoScan, toCoScanClassData } from '../../../services/coScanService';
+import { getSessionDate, getCampusClock, campusTimeOnDay } from '../../../shared/campusTime';
 
 
 type HeroState = 'CLASS_NOW' | 'BREAK' | 'DONE' | 'LOADING' | 'NO_CLASSES' | 'HOLIDAY' | 'LEAVE';
@@ -86,6 +92,7 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ userName }) => {
   const [refreshing, setRefreshing] = useState(false);
   const [sliderKey, setSliderKey] = useState(0); // Key to reset slider
   const [showOffHoursModal, setShowOffHoursModal] = useState(false);
+  const [showJoinCoScan, setShowJoinCoScan] = useState(false);
   const [offHoursReason, setOffHoursReason] = useState<'break' | 'after_hours' | 'before_hours' | 'holiday' | 'suspended'>('break');
   const [previousClasses, setPreviousClasses] = useState<ScheduleSlot[]>([]);
   const [profileImage, setProfileImage] = useState<string | null>(null);
@@ -93,6 +100,7 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ userName }) => {
   const [cacheAge, setCacheAge] = useState<string>('');
   const [holiday, setHoliday] = useState<HolidayInfo | null>(null);
   const [leave, setLeave] = useState<LeaveInfo | null>(null);
+  const [drafts, setDrafts] = useState<AttendanceDraft[]>([]);
   
   // Toast State
   const [toast, setToast] = useState<ToastState>({ visible: false, message: '', type: 'success' });
@@ -139,12 +147,8 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ userName }) => {
     return 'Good Evening';
   };
 
-  const parseTime = (timeStr: string): Date => {
-    const [hour, min] = timeStr.split(':').map(Number);
-    const date = new Date();
-    date.setHours(hour, min, 0, 0);
-    return date;
-  };
+  // Campus period time today
+  const parseTime = (timeStr: string): Date => new Date(campusTimeOnDay(getSessionDate(), timeStr));
 
   // Merge consecutive classes with same subject and section
   const mergeConsecutiveClasses = (slots: ScheduleSlot[]): ScheduleSlot[] => {
@@ -357,7 +361,7 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ userName }) => {
         
         return {
           id: sub.id,
-          day: new Date().toLocaleDateString('en-US', { weekday: 'long' }),
+          day: getCampusClock().dayName,
           slot_id: sub.slot_id,
           start_time: sub.slot_id.split('_')[1] || '09:00',
           end_time: sub.slot_id.split('_')[2] || '10:00',
@@ -468,6 +472,7 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ userName }) => {
     useCallback(() => {
       const timer = setTimeout(() => {
         loadSchedule(true);
+        getUnfinishedDrafts().then(setDrafts);
       }, 100);
       return () => clearTimeout(timer);
     }, [loadSchedule])
@@ -501,6 +506,28 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ userName }) => {
     navigation.navigate('Scan', { classData: currentClass, manual: false });
   };
 
+  const handleResumeDraft = (draft: AttendanceDraft) => {
+    navigation.navigate('Scan', { classData: draft.classData });
+  };
+
+  const handleDiscardDraft = (draft: AttendanceDraft) => {
+    Alert.alert(
+      'Discard attendance?',
+      `${draft.subjectName}: ${draft.markedCount} marked student(s) will be lost.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: async () => {
+            await discardDraft(draft.key);
+            setDrafts(prev => prev.filter(d => d.key !== draft.key));
+          },
+        },
+      ]
+    );
+  };
+
   const handleManualEntry = () => {
     if (!currentClass) return;
     navigation.navigate('ManualEntry', { classData: currentClass });
@@ -579,6 +606,15 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ userName }) => {
     navigation.navigate('ManualEntry', { classData: selectedClass });
   };
 
+  // Co-scan: join another faculty's session and scan it from this phone
+  const handleJoinCoScan = async (code: string): Promise<string | null> => {
+    const { coScan, error } = await joinCoScan(code);
+    if (!coScan) return error || 'Could not join co-scan';
+    setShowJoinCoScan(false);
+    navigation.navigate('Scan', { classData: toCoScanClassData(coScan), coScan, manual: false });
+    return null;
+  };
+
   const handleSyncPress = async () => {
     if (!isOnline) {
       setToast({ visible: true, message: `Offline — Rosters synced: ${lastSyncAge}`, type: 'warning' });
@@ -695,8 +731,8 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ userName }) => {
 
       case 'NO_CLASSES': {
         // Detect reason based on day of week
-        const dayOfWeek = new Date().getDay();
-        const reason = dayOfWeek === 0 ? 'sunday' : dayOfWeek === 6 ? 'saturday' : 'no_schedule';
+        const dayName = getCampusClock().dayName;
+        const reason = dayName === 'Sunday' ? 'sunday' : dayName === 'Saturday' ? 'saturday' : 'no_schedule';
         
         return (
           <NoClassesHero reason={reason} />
@@ -989,6 +1025,12 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ userName }) => {
           {renderHeroWidget()}
         </View>
 
+        <UnfinishedAttendanceList
+          drafts={drafts}
+          onResume={handleResumeDraft}
+          onDiscard={handleDiscardDraft}
+        />
+
         {/* Schedule Section - hidden when no classes */}
         {heroState !== 'NO_CLASSES' && (
           <View style={styles.scheduleSection}>
@@ -1034,6 +1076,15 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ userName }) => {
           slot_id: nextClass.slot_id,
         } : null}
         onSelectClass={(item: { slot_id: string }) => handleOffHoursClassSelect(schedule.find(s => s.slot_id === item.slot_id)!)}
+        onJoinCoScan={isOnline ? () => {
+          setShowOffHoursModal(false);
+          setShowJoinCoScan(true);
+        } : undefined}
+      />
+      <JoinCoScanModal
+        visible={showJoinCoScan}
+        onClose={() => setShowJoinCoScan(false)}
+        onJoin={handleJoinCoScan}
       />
       <ZenToast 
         visible={toast.visible} 
@@ -17,12 +17,39 @@ import { Ionicons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
 import { BleManager, Device, BleError } from 'react-native-ble-plx';
-import { useTheme } from '../../../contexts';
+import { useTheme, useAuth } from '../../../contexts';
 import { LinearGradient } from 'expo-linear-gradient';
 
 import { ZenToast } from '../../../components/ZenToast';
+import { getCachedRostersMap } from '../../../services/offlineService';
+import {
+    createExactMatcher,
+    composeMatchers,
+    isAmbiguousMatch,
+    MATCH_STRATEGY_LABELS,
+    type BeaconMatcher,
+    type MatchStrategy,
+} from '../../../services/bleMatcher';
+import { createRotatingTokenMatcher } from '../../../services/beaconTokenService';
+import { getWeeklySchedule } from '../../../services/dashboardService';
+import {
+    summarizeRssi,
+    buildRoomProfile,
+    saveRoomProfile,
+    type CalibrationSpot,
+    type RssiDistribution,
+} from '../../../services/presenceService';
 
 // --- Types ---
+interface DoctorDevice {
+    id: string;
+    name: string | null;
+    rssi: number;
+    // How the device resolved against cached rosters (if at all)
+    strategy?: MatchStrategy;
+    ambiguousCount?: number;
+}
+
 type DiagnosticStep = 'BLUETOOTH' | 'LOCATION' | 'NETWORK' | 'BLE_SCAN' | 'SIGNAL' | 'SERVER';
 type StepStatus = 'IDLE' | 'LOADING' | 'SUCCESS' | 'ERROR';
 
@@ -42,10 +69,21 @@ const DIAGNOSTIC_STEPS: DiagnosticItem[] = [
   { id: 'SERVER', label: 'Cloud Sync', subLabel: 'Backend connectivity', icon: 'server' },
 ];
 
+// Test beacon placements, recorded while the faculty stands at the podium
+const CALIBRATION_SPOTS: { id: CalibrationSpot; label: string; hint: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { id: 'front_row', label: 'Front Row', hint: 'Beacon on the first bench', icon: 'arrow-up-circle' },
+  { id: 'back_row', label: 'Back Row', hint: 'Beacon on the last bench', icon: 'arrow-down-circle' },
+  { id: 'outside_door', label: 'Outside Door', hint: 'Beacon just outside the room', icon: 'exit' },
+];
+
+// How long each spot is sampled
+const CALIBRATION_SAMPLE_MS = 15 * 1000;
+
 export const BeaconDoctorScreen: React.FC = () => {
     const insets = useSafeAreaInsets();
     const navigation = useNavigation();
     const { isDark } = useTheme(); 
+    const { user } = useAuth();
     
     // --- Dynamic Theme Colors ---
     const colors = {
@@ -69,12 +107,25 @@ export const BeaconDoctorScreen: React.FC = () => {
     });
     const [isRunningDiagnostics, setIsRunningDiagnostics] = useState(false);
     const [isScanning, setIsScanning] = useState(false);
-    const [devices, setDevices] = useState<Map<string, { id: string; name: string | null; rssi: number }>>(new Map());
+    const [devices, setDevices] = useState<Map<string, DoctorDevice>>(new Map());
     const [selectedBeaconId, setSelectedBeaconId] = useState<string | null>(null);
     const [reportGenerated, setReportGenerated] = useState(false);
     
     // BLE Manager Ref
     const bleManagerRef = useRef<BleManager | null>(null);
+    const matcherRef = useRef<BeaconMatcher | null>(null);
+
+    // --- Calibration State ---
+    const [rooms, setRooms] = useState<string[]>([]);
+    const [selectedRoom, setSelectedRoom] = useState<string | null>(null);
+    const [calibration, setCalibration] = useState<Partial<Record<CalibrationSpot, RssiDistribution>>>({});
+    const [recordingSpot, setRecordingSpot] = useState<CalibrationSpot | null>(null);
+    const [isSavingProfile, setIsSavingProfile] = useState(false);
+    // Refs so the long-lived scan callback sees current values
+    const selectedBeaconRef = useRef<string | null>(null);
+    const recordingSpotRef = useRef<CalibrationSpot | null>(null);
+    const samplesRef = useRef<number[]>([]);
+    const recordTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
     const [bleAvailable, setBleAvailable] = useState<boolean>(true);
 
     // --- Init ---
@@ -93,6 +144,26 @@ export const BeaconDoctorScreen: React.FC = () => {
         };
     }, []);
 
+    useEffect(() => {
+        selectedBeaconRef.current = selectedBeaconId;
+    }, [selectedBeaconId]);
+
+    // Don't finish a spot recording after the screen is gone
+    useEffect(() => {
+        return () => {
+            if (recordTimerRef.current) clearTimeout(recordTimerRef.current);
+        };
+    }, []);
+
+    // Rooms this faculty teaches in (calibration targets)
+    useEffect(() => {
+        if (!user?.id) return;
+        getWeeklySchedule(user.id).then(schedule => {
+            const unique = Array.from(new Set(schedule.map(slot => slot.room).filter((room): room is string => !!room)));
+            setRooms(unique.sort());
+        });
+    }, [user?.id]);
+
     // --- Toast State ---
     const [toastVisible, setToastVisible] = useState(false);
     const [toastMessage, setToastMessage] = useState('');
@@ -111,7 +182,31 @@ export const BeaconDoctorScreen: React.FC = () => {
 
     const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-    const toggleScan = () => {
+    // Match against every cached roster the way the scanner does, so the
+    // doctor shows which strategy fires
+    const loadRosterMatcher = async () => {
+        try {
+            const rosters = await getCachedRostersMap();
+            const students = Object.values(rosters)
+                .flatMap(r => r.students)
+                .filter(s => !!s.bluetoothUUID);
+            const securedStudents = students
+                .filter(s => s.beaconSecret)
+                .map(s => ({ uuid: s.bluetoothUUID!, secret: s.beaconSecret! }));
+            const legacyUUIDs = students
+                .filter(s => !s.beaconSecret)
+                .map(s => s.bluetoothUUID!);
+            matcherRef.current = composeMatchers(
+                createRotatingTokenMatcher(securedStudents),
+                createExactMatcher(legacyUUIDs),
+            );
+        } catch (error) {
+            console.warn('Roster matcher unavailable', error);
+            matcherRef.current = null;
+        }
+    };
+
+    const toggleScan = async () => {
         if (!bleAvailable || !bleManagerRef.current) {
             showZenToast('BLE Hardware unavailable', 'error');
             return;
@@ -125,28 +220,94 @@ export const BeaconDoctorScreen: React.FC = () => {
             setSelectedBeaconId(null);
             setReportGenerated(false);
             setIsScanning(true);
+            await loadRosterMatcher();
             
-            bleManagerRef.current.startDeviceScan(null, { allowDuplicates: true }, (error, device) => {
+            bleManagerRef.current?.startDeviceScan(null, { allowDuplicates: true }, (error, device) => {
                 if (error) {
                     console.warn(error);
                     showZenToast('Scan Error: ' + error.message, 'error');
                     return;
                 }
                 if (device) {
+                    const outcome = matcherRef.current?.({
+                        deviceId: device.id,
+                        deviceName: device.name || device.localName || '',
+                        serviceUUIDs: device.serviceUUIDs || [],
+                        serviceData: device.serviceData,
+                        manufacturerData: device.manufacturerData,
+                        rssi: device.rssi || -100,
+                    }) ?? null;
                     setDevices((prev) => {
                         const newMap = new Map(prev);
                         newMap.set(device.id, {
                             id: device.id,
                             name: device.name,
-                            rssi: device.rssi || -100
+                            rssi: device.rssi || -100,
+                            strategy: outcome?.strategy,
+                            ambiguousCount: isAmbiguousMatch(outcome) ? outcome.candidates.length : undefined,
                         });
                         return newMap;
                     });
+
+                    if (recordingSpotRef.current && device.id === selectedBeaconRef.current && device.rssi != null) {
+                        samplesRef.current.push(device.rssi);
+                    }
                 }
             });
         }
     };
 
+    const recordSpot = (spot: CalibrationSpot) => {
+        if (recordingSpot) return;
+        if (!isScanning || !selectedBeaconId) {
+            showZenToast('Start scanning and select the test beacon first', 'warning');
+            return;
+        }
+
+        samplesRef.current = [];
+        recordingSpotRef.current = spot;
+        setRecordingSpot(spot);
+
+        recordTimerRef.current = setTimeout(() => {
+            recordTimerRef.current = null;
+            const distribution = summarizeRssi(samplesRef.current);
+            recordingSpotRef.current = null;
+            setRecordingSpot(null);
+
+            if (!distribution) {
+                showZenToast('No signal from the test beacon - try again', 'error');
+                return;
+            }
+            setCalibration(prev => ({ ...prev, [spot]: distribution }));
+            showZenToast(`Recorded ${distribution.count} samples`, 'success');
+        }, CALIBRATION_SAMPLE_MS);
+    };
+
+    const saveCalibration = async () => {
+        if (!selectedRoom) {
+            showZenToast('Select a room first', 'warning');
+            return;
+        }
+        const { front_row, back_row, outside_door } = calibration;
+        if (!front_row || !back_row || !outside_door) {
+            showZenToast('Record all three spots first', 'warning');
+            return;
+        }
+
+        setIsSavingProfile(true);
+        const { entry, overlap, marginDb } = buildRoomProfile({ front_row, back_row, outside_door });
+        const { success, error } = await saveRoomProfile(selectedRoom, entry);
+        setIsSavingProfile(false);
+
+        if (!success) {
+            showZenToast(error || 'Could not save room profile', 'error');
+        } else if (overlap) {
+            showZenToast(`Saved, but inside/outside overlap by ${-marginDb} dB - using longer dwell`, 'warning');
+        } else {
+            showZenToast(`Saved ${selectedRoom}: ${entry.min_rssi} dBm, ${entry.min_dwell_seconds}s dwell`, 'success');
+        }
+    };
+
     const runDiagnostics = async () => {
         if (isRunningDiagnostics) return;
         
@@ -232,6 +393,12 @@ export const BeaconDoctorScreen: React.FC = () => {
         return Math.round((passed / total) * 100);
     };
 
+    const describeMatch = (dev: DoctorDevice): string | null => {
+        if (!dev.strategy) return null;
+        const label = MATCH_STRATEGY_LABELS[dev.strategy];
+        return dev.ambiguousCount ? `Ambiguous via ${label} (${dev.ambiguousCount} students)` : `Matched via ${label}`;
+    };
+
     const handleShareReport = async () => {
         const score = getReportScore();
         const beacon = selectedBeaconId ? devices.get(selectedBeaconId) : null;
@@ -261,6 +428,7 @@ ${beacon ? `
 Name     : ${beacon.name || 'Unknown'}
 UUID     : ${beacon.id}
 Signal   : ${beacon.rssi} dBm
+Match    : ${describeMatch(beacon) || 'No cached student'}
 Distance : ${beacon.rssi > -70 ? 'Near (< 2m)' : 'Far (> 5m)'}
 ` : 'No specific beacon targeted.'}
 
@@ -352,6 +520,11 @@ App Ver  : 1.0.3
                                             <View style={{ flex: 1, marginLeft: 12 }}>
                                                 <Text style={[styles.deviceName, { color: colors.textPrimary }]} numberOfLines={1}>{dev.name || 'Unknown Beacon'}</Text>
                                                 <Text style={[styles.deviceId, { color: colors.textTertiary }]} numberOfLines={1}>{dev.id}</Text>
+                                                {dev.strategy && (
+                                                    <Text style={[styles.deviceId, { color: dev.ambiguousCount ? colors.error : colors.success }]} numberOfLines={1}>
+                                                        {describeMatch(dev)}
+                                                    </Text>
+                                                )}
                                             </View>
                                             {isSelected && <Ionicons name="checkmark-circle" size={18} color={colors.success} />}
                                         </TouchableOpacity>
@@ -400,10 +573,81 @@ App Ver  : 1.0.3
                     </View>
                 </View>
 
-                {/* 3. Report Phase */}
+                {/* 3. Room Calibration */}
+                <View style={styles.sectionContainer}>
+                    <Text style={[styles.sectionTitle, { color: colors.textTertiary }]}>3. ROOM CALIBRATION</Text>
+                    <View style={[styles.card, { backgroundColor: colors.card, shadowColor: isDark ? '#000' : '#64748B' }]}>
+                        <Text style={[styles.cardSubText, styles.calibrationHint, { color: colors.textSecondary }]}>
+                            Stand at the podium and place the selected test beacon at each spot.
+                        </Text>
+
+                        {/* Room Picker */}
+                        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.roomChips}>
+                            {rooms.length === 0 && (
+                                <Text style={[styles.cardSubText, { color: colors.textTertiary }]}>No rooms in your timetable</Text>
+                            )}
+                            {rooms.map(room => {
+                                const isSelected = selectedRoom === room;
+                                return (
+                                    <TouchableOpacity
+                                        key={room}
+                                        style={[styles.roomChip, { backgroundColor: isSelected ? colors.success : colors.iconBg }]}
+                                        onPress={() => setSelectedRoom(room)}
+                                    >
+                                        <Text style={[styles.roomChipText, { color: isSelected ? '#FFF' : colors.textPrimary }]}>{room}</Text>
+                                    </TouchableOpacity>
+                                );
+                            })}
+                        </ScrollView>
+
+                        {/* Spots */}
+                        <View style={styles.stepsList}>
+                            {CALIBRATION_SPOTS.map((spot, index) => {
+                                const result = calibration[spot.id];
+                                const isRecording = recordingSpot === spot.id;
+                                return (
+                                    <TouchableOpacity
+                                        key={spot.id}
+                                        style={[styles.stepRow, { borderBottomColor: colors.border }, index === CALIBRATION_SPOTS.length - 1 && { borderBottomWidth: 0 }]}
+                                        onPress={() => recordSpot(spot.id)}
+                                        disabled={!!recordingSpot}
+                                    >
+                                        <Ionicons name={spot.icon} size={16} color={colors.textTertiary} style={{ marginRight: 12 }} />
+                                        <View style={{ flex: 1 }}>
+                                            <Text style={[styles.stepLabel, { color: colors.textSecondary }]}>{spot.label}</Text>
+                                            <Text style={[styles.deviceId, { color: colors.textTertiary }]}>
+                                                {result ? `median ${result.median} dBm · p10 ${result.p10} · p90 ${result.p90} · n=${result.count}` : spot.hint}
+                                            </Text>
+                                        </View>
+                                        {isRecording
+                                            ? <ActivityIndicator size="small" color={colors.success} />
+                                            : result
+                                                ? <Ionicons name="checkmark-circle" size={20} color={colors.success} />
+                                                : <Ionicons name="radio-button-on" size={20} color={colors.textTertiary} />}
+                                    </TouchableOpacity>
+                                );
+                            })}
+                        </View>
+
+                        <TouchableOpacity style={styles.runRow} onPress={saveCalibration} disabled={isSavingProfile || !!recordingSpot}>
+                            <View style={[styles.iconBox, { backgroundColor: colors.successBg }]}>
+                                <Ionicons name="save" size={22} color={colors.success} />
+                            </View>
+                            <View style={{ flex: 1 }}>
+                                <Text style={[styles.cardMainText, { color: colors.textPrimary }]}>Save Room Profile</Text>
+                                <Text style={[styles.cardSubText, { color: colors.textSecondary }]}>
+                                    {selectedRoom ? `Used for every scan in ${selectedRoom}` : 'Pick a room above'}
+                                </Text>
+                            </View>
+                            {isSavingProfile ? <ActivityIndicator color={colors.success} /> : <Ionicons name="chevron-forward" size={20} color={colors.textTertiary} />}
+                        </TouchableOpacity>
+                    </View>
+                </View>
+
+                {/* 4. Report Phase */}
                 {reportGenerated && (
                     <Animated.View style={[styles.sectionContainer, { marginBottom: 40 }]}>
-                        <Text style={[styles.sectionTitle, { color: colors.textTertiary }]}>3. REPORT</Text>
+                        <Text style={[styles.sectionTitle, { color: colors.textTertiary }]}>4. REPORT</Text>
                         <View style={[styles.reportCard, { shadowColor: colors.success }]}>
                             <LinearGradient
                                 colors={isDark ? ['#0F172A', '#1E293B'] : ['#0F172A', '#1E293B']} // Keep dark report for contrast pop on both
@@ -573,6 +817,24 @@ const styles = StyleSheet.create({
         fontSize: 13,
         fontWeight: '500',
     },
+    calibrationHint: {
+        paddingHorizontal: 14,
+        paddingTop: 12,
+    },
+    roomChips: {
+        gap: 8,
+        paddingHorizontal: 14,
+        paddingVertical: 12,
+    },
+    roomChip: {
+        paddingHorizontal: 14,
+        paddingVertical: 6,
+        borderRadius: 100,
+    },
+    roomChipText: {
+        fontSize: 12,
+        fontWeight: '600',
+    },
     idleDot: {
         width: 8,
         height: 8,
@@ -4,6 +4,7 @@
  * - Roster list with swipe/tap to toggle
  * - WhatsApp text format export
  * - JSON, PDF, Excel export with filters
+ * - Session replay of the scan event log
  */
 
 import React, { useState, useEffect, useCallback } from 'react';
@@ -23,8 +24,8 @@ import { Ionicons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useTheme } from '../../../contexts';
 import { scale, verticalScale, moderateScale, normalizeFont } from '../../../utils/responsive';
-import { supabase } from '../../../config/supabase';
 import { ZenToast } from '../../../components/ZenToast';
+import { SessionReplay } from './SessionReplay';
 
 // Types
 interface Student {
@@ -33,6 +34,11 @@ interface Student {
   fullRollNumber: string; // e.g., 22Q91A6612
   name: string;
   status: 'present' | 'absent' | 'od' | 'leave';
+  // Punctuality from the scanner (only meaningful while present)
+  isLate?: boolean;
+  leftEarly?: boolean;
+  firstSeenAt?: string;
+  lastSeenAt?: string;
 }
 
 interface SessionInfo {
@@ -50,10 +56,11 @@ interface EditAttendanceModalProps {
   onClose: () => void;
   session: SessionInfo | null;
   students: Student[];
-  onSave: (updatedStudents: Student[]) => void;
+  onSave: (updatedStudents: Student[]) => void | Promise<void>;
 }
 
 type FilterType = 'all' | 'present' | 'absent' | 'od';
+type ViewMode = 'roster' | 'replay';
 
 export const EditAttendanceModal: React.FC<EditAttendanceModalProps> = ({
   visible,
@@ -70,6 +77,7 @@ export const EditAttendanceModal: React.FC<EditAttendanceModalProps> = ({
   const [filter, setFilter] = useState<FilterType>('all');
   const [showExportMenu, setShowExportMenu] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
+  const [viewMode, setViewMode] = useState<ViewMode>('roster');
 
   // Toast State
   const [toast, setToast] = useState<{ visible: boolean, type: 'success' | 'error', message: string }>({ visible: false, type: 'success', message: '' });
@@ -85,6 +93,7 @@ export const EditAttendanceModal: React.FC<EditAttendanceModalProps> = ({
       setSearchQuery('');
       setFilter('all');
       setHasChanges(false);
+      setViewMode('roster');
       setToast(prev => ({ ...prev, visible: false }));
     }
   }, [visible, initialStudents]);
@@ -102,6 +111,7 @@ export const EditAttendanceModal: React.FC<EditAttendanceModalProps> = ({
     absent: '#EF4444',
     od: '#F59E0B',
     leave: '#8B5CF6',
+    late: '#FF9F0A',
     accent: '#3DDC97',
   };
 
@@ -225,7 +235,8 @@ export const EditAttendanceModal: React.FC<EditAttendanceModalProps> = ({
 
   // Note: Export functionality moved to ExportModal in HistoryScreen
 
-  // Save changes to Supabase
+  // Save changes - the parent queues the edit (uploaded by the offline sync,
+  // so this also works without network)
   const handleSave = async () => {
     if (!session) {
       showToast('error', 'No session selected');
@@ -237,53 +248,12 @@ export const EditAttendanceModal: React.FC<EditAttendanceModalProps> = ({
     }
     
     try {
-      // Prepare the updates for attendance_logs table
-      const updates = students.map(student => ({
-        session_id: session.id,
-        student_id: student.id,
-        status: student.status,
-        is_modified: true,
-        modified_at: new Date().toISOString(),
-      }));
-      
-      console.log('[EditAttendanceModal] Saving updates:', updates.length, 'records');
-      
-      // Upsert to attendance_logs
-      const { error, data } = await supabase
-        .from('attendance_logs')
-        .upsert(updates, {
-          onConflict: 'session_id,student_id',
-        })
-        .select();
-      
-      if (error) {
-        console.error('[EditAttendanceModal] Upsert error:', error);
-        throw error;
-      }
-      
-      console.log('[EditAttendanceModal] Upsert success, updated:', data?.length || 0);
-      
-      // Update session counts
-      const counts = getCounts();
-      const { error: sessionError } = await supabase
-        .from('attendance_sessions')
-        .update({
-          present_count: counts.present,
-          absent_count: counts.absent,
-          od_count: counts.od,
-          leave_count: counts.leave,
-          is_modified: true,
-          modified_at: new Date().toISOString(),
-        })
-        .eq('id', session.id);
-      
-      if (sessionError) {
-        console.error('[EditAttendanceModal] Session update error:', sessionError);
-        throw sessionError;
-      }
-      
-      // Call parent callback and close - Success alert removed (handled by parent)
-      onSave(students);
+      // Punctuality only applies to students still marked present
+      await onSave(students.map(student => ({
+        ...student,
+        isLate: student.status === 'present' && !!student.isLate,
+        leftEarly: student.status === 'present' && !!student.leftEarly,
+      })));
       onClose();
     } catch (error: any) {
       console.error('[EditAttendanceModal] Save error:', error);
@@ -291,6 +261,10 @@ export const EditAttendanceModal: React.FC<EditAttendanceModalProps> = ({
     }
   };
 
+  // "09:14" from a first/last seen timestamp
+  const formatSeenTime = (iso: string): string =>
+    new Date(iso).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' });
+
   // Render student item
   const renderStudent = ({ item }: { item: Student }) => {
     const statusColors = {
@@ -338,6 +312,20 @@ export const EditAttendanceModal: React.FC<EditAttendanceModalProps> = ({
             <Text style={[styles.fullRoll, { color: colors.textMuted }]}>
               {item.fullRollNumber}
             </Text>
+            {item.status === 'present' && (item.isLate || item.leftEarly) && (
+              <View style={styles.punctualityTags}>
+                {item.isLate && (
+                  <Text style={[styles.punctualityTag, { color: colors.late, backgroundColor: colors.late + '20' }]}>
+                    LATE{item.firstSeenAt ? ` ${formatSeenTime(item.firstSeenAt)}` : ''}
+                  </Text>
+                )}
+                {item.leftEarly && (
+                  <Text style={[styles.punctualityTag, { color: colors.late, backgroundColor: colors.late + '20' }]}>
+                    LEFT EARLY{item.lastSeenAt ? ` ${formatSeenTime(item.lastSeenAt)}` : ''}
+                  </Text>
+                )}
+              </View>
+            )}
           </View>
         </View>
         
@@ -502,6 +490,30 @@ export const EditAttendanceModal: React.FC<EditAttendanceModalProps> = ({
           </View>
         </View>
 
+        {/* View Toggle */}
+        <View style={[styles.viewToggle, { backgroundColor: colors.inputBg }]}>
+          {(['roster', 'replay'] as ViewMode[]).map(mode => (
+            <TouchableOpacity
+              key={mode}
+              style={[styles.viewToggleBtn, viewMode === mode && { backgroundColor: colors.cardBg }]}
+              onPress={() => setViewMode(mode)}
+            >
+              <Ionicons
+                name={mode === 'roster' ? 'list' : 'film-outline'}
+                size={14}
+                color={viewMode === mode ? colors.textPrimary : colors.textMuted}
+              />
+              <Text style={[styles.viewToggleText, { color: viewMode === mode ? colors.textPrimary : colors.textMuted }]}>
+                {mode === 'roster' ? 'Roster' : 'Session Replay'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {viewMode === 'replay' ? (
+          <SessionReplay sessionId={session.id} students={students} colors={colors} />
+        ) : (
+        <>
         {/* Search & Filter */}
         <View style={styles.searchSection}>
           <View style={[styles.searchBar, { backgroundColor: colors.inputBg }]}>
@@ -556,6 +568,8 @@ export const EditAttendanceModal: React.FC<EditAttendanceModalProps> = ({
           contentContainerStyle={styles.listContent}
           showsVerticalScrollIndicator={false}
         />
+        </>
+        )}
 
         {/* Bottom Actions - Just Save */}
         {/* Bottom Actions - Just Save */}
@@ -637,6 +651,26 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginTop: verticalScale(2),
   },
+  viewToggle: {
+    flexDirection: 'row',
+    marginHorizontal: scale(16),
+    padding: scale(4),
+    borderRadius: moderateScale(12),
+    marginBottom: verticalScale(12),
+  },
+  viewToggleBtn: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: scale(6),
+    paddingVertical: verticalScale(8),
+    borderRadius: moderateScale(10),
+  },
+  viewToggleText: {
+    fontSize: normalizeFont(12),
+    fontWeight: '600',
+  },
   searchSection: {
     paddingHorizontal: scale(16),
     marginBottom: verticalScale(8),
@@ -715,6 +749,19 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     marginTop: verticalScale(2),
   },
+  punctualityTags: {
+    flexDirection: 'row',
+    gap: scale(6),
+    marginTop: verticalScale(4),
+  },
+  punctualityTag: {
+    fontSize: normalizeFont(10),
+    fontWeight: '700',
+    paddingHorizontal: scale(6),
+    paddingVertical: verticalScale(2),
+    borderRadius: moderateScale(6),
+    overflow: 'hidden',
+  },
   statusBadge: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -27,10 +27,14 @@ interface SessionData {
   present: number;
   absent: number;
   isSynced: boolean;
+  // Edited offline, waiting to upload
+  hasPendingEdit?: boolean;
   isEditable: boolean; // Within 24 hours
   lastModified?: string;
   absentees: string[]; // Roll numbers
   presentees: string[]; // Roll numbers
+  latecomers?: string[]; // Roll numbers (first seen after the grace period)
+  leftEarly?: string[]; // Roll numbers (not seen in the final window)
 }
 
 interface SessionCardProps {
@@ -80,7 +84,13 @@ export const SessionCard: React.FC<SessionCardProps> = ({
       ? ` +${session.absentees.length - 10} more` 
       : '';
     
-    const report = `📅 ${dateStr} | ${session.subjectCode}\n✅ Present: ${session.present}/${session.total}\n❌ Absent: ${session.absent} - ${absentList}${moreAbsent}`;
+    let report = `📅 ${dateStr} | ${session.subjectCode}\n✅ Present: ${session.present}/${session.total}\n❌ Absent: ${session.absent} - ${absentList}${moreAbsent}`;
+    if (session.latecomers?.length) {
+      report += `\n⏰ Late: ${session.latecomers.join(', ')}`;
+    }
+    if (session.leftEarly?.length) {
+      report += `\n🚪 Left early: ${session.leftEarly.join(', ')}`;
+    }
     
     Share.share({
       message: report,
@@ -105,13 +115,14 @@ export const SessionCard: React.FC<SessionCardProps> = ({
     buttonBg: isDark ? 'rgba(255,255,255,0.1)' : '#F1F5F9',
     success: '#22C55E',
     danger: '#EF4444',
+    warning: '#F59E0B',
     syncedColor: '#22C55E',
     pendingColor: '#F59E0B',
   };
 
   const expandHeight = expandAnim.interpolate({
     inputRange: [0, 1],
-    outputRange: [0, verticalScale(180)],
+    outputRange: [0, verticalScale(session.latecomers?.length || session.leftEarly?.length ? 230 : 180)],
   });
 
   return (
@@ -140,11 +151,18 @@ export const SessionCard: React.FC<SessionCardProps> = ({
           </View>
           
           <View style={styles.syncStatus}>
-            <Ionicons 
-              name={session.isSynced ? 'cloud-done' : 'cloud-outline'} 
-              size={16} 
-              color={session.isSynced ? colors.syncedColor : colors.pendingColor} 
-            />
+            {session.hasPendingEdit ? (
+              <View style={styles.pendingEditBadge}>
+                <Ionicons name="create-outline" size={12} color={colors.pendingColor} />
+                <Text style={[styles.pendingEditText, { color: colors.pendingColor }]}>PENDING EDIT</Text>
+              </View>
+            ) : (
+              <Ionicons 
+                name={session.isSynced ? 'cloud-done' : 'cloud-outline'} 
+                size={16} 
+                color={session.isSynced ? colors.syncedColor : colors.pendingColor} 
+              />
+            )}
           </View>
         </View>
 
@@ -179,6 +197,24 @@ export const SessionCard: React.FC<SessionCardProps> = ({
                 </Text>
               </View>
 
+              {/* Punctuality */}
+              {(!!session.latecomers?.length || !!session.leftEarly?.length) && (
+                <View style={styles.absenteesSection}>
+                  {!!session.latecomers?.length && (
+                    <Text style={[styles.punctualityList, { color: colors.warning }]} numberOfLines={1}>
+                      Late ({session.latecomers.length}): {session.latecomers.slice(0, 8).join(', ')}
+                      {session.latecomers.length > 8 && '...'}
+                    </Text>
+                  )}
+                  {!!session.leftEarly?.length && (
+                    <Text style={[styles.punctualityList, { color: colors.warning }]} numberOfLines={1}>
+                      Left early ({session.leftEarly.length}): {session.leftEarly.slice(0, 8).join(', ')}
+                      {session.leftEarly.length > 8 && '...'}
+                    </Text>
+                  )}
+                </View>
+              )}
+
               {/* Action Buttons */}
               <View style={styles.actionRow}>
                 <TouchableOpacity 
@@ -276,6 +312,19 @@ const styles = StyleSheet.create({
   syncStatus: {
     marginLeft: scale(12),
   },
+  pendingEditBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(245, 158, 11, 0.15)',
+    paddingHorizontal: scale(8),
+    paddingVertical: verticalScale(3),
+    borderRadius: moderateScale(10),
+    gap: scale(4),
+  },
+  pendingEditText: {
+    fontSize: normalizeFont(10),
+    fontWeight: '700',
+  },
   statsGrid: {
     flexDirection: 'row',
     gap: scale(8),
@@ -317,6 +366,11 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     lineHeight: verticalScale(18),
   },
+  punctualityList: {
+    fontSize: normalizeFont(12),
+    fontWeight: '600',
+    lineHeight: verticalScale(18),
+  },
   actionRow: {
     flexDirection: 'row',
     gap: scale(8),
@@ -0,0 +1,301 @@
+/**
+ * SessionReplay - Plays back a session's scan event log
+ * Features:
+ * - Timeline of detections, overrides, proxy flags, timer changes and auto-pilot toggles
+ * - Play / pause / restart with running present count
+ * - Evidence per detection (RSSI, match strategy, device ID)
+ */
+
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { scale, verticalScale, moderateScale, normalizeFont } from '../../../utils/responsive';
+import { getSessionScanEvents } from '../../../services/dashboardService';
+import { MATCH_STRATEGY_LABELS, type MatchStrategy } from '../../../services/bleMatcher';
+import type { ScanEvent } from '../../../services/offlineService';
+
+// Playback speed (ms between events)
+const STEP_INTERVAL_MS = 400;
+
+interface ReplayStudent {
+  id: string;
+  name: string;
+  fullRollNumber: string;
+}
+
+interface SessionReplayProps {
+  sessionId: string;
+  students: ReplayStudent[];
+  colors: {
+    cardBg: string;
+    textPrimary: string;
+    textSecondary: string;
+    textMuted: string;
+    inputBg: string;
+    present: string;
+    absent: string;
+    accent: string;
+  };
+}
+
+const EVENT_ICONS: Record<ScanEvent['type'], keyof typeof Ionicons.glyphMap> = {
+  scan_start: 'play',
+  scan_pause: 'pause',
+  detection: 'bluetooth',
+  manual_override: 'hand-left',
+  timer_change: 'timer',
+  rescan: 'refresh',
+  autopilot_toggle: 'airplane',
+  proxy_flag: 'warning',
+  submit: 'cloud-upload',
+};
+
+const formatOffset = (ms: number): string => {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(total / 60);
+  const seconds = total % 60;
+  return `${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+};
+
+export const SessionReplay: React.FC<SessionReplayProps> = ({ sessionId, students, colors }) => {
+  const [events, setEvents] = useState<ScanEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  const studentMap = useMemo(
+    () => new Map(students.map(s => [s.id, s])),
+    [students]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getSessionScanEvents(sessionId).then(result => {
+      if (cancelled) return;
+      setEvents(result);
+      setPosition(result.length);
+      setLoading(false);
+    });
+    return () => { cancelled = true; };
+  }, [sessionId]);
+
+  // Advance one event per tick while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+    timerRef.current = setInterval(() => {
+      setPosition(prev => Math.min(prev + 1, events.length));
+    }, STEP_INTERVAL_MS);
+    return () => {
+      if (timerRef.current) clearInterval(timerRef.current);
+      timerRef.current = null;
+    };
+  }, [isPlaying, events.length]);
+
+  // Stop at the end of the timeline
+  useEffect(() => {
+    if (isPlaying && position >= events.length) setIsPlaying(false);
+  }, [isPlaying, position, events.length]);
+
+  const startAt = events[0]?.at ?? 0;
+  const visible = events.slice(0, position);
+
+  // Status of every student as of the current playback position
+  const presentSoFar = useMemo(() => {
+    const status = new Map<string, string>();
+    for (const event of visible) {
+      if (!event.studentId) continue;
+      if (event.type === 'detection') status.set(event.studentId, 'present');
+      if (event.type === 'manual_override' && event.to) status.set(event.studentId, event.to);
+      // Flagged students lose their auto-mark until someone marks them by hand
+      if (event.type === 'proxy_flag' && status.get(event.studentId) === 'present') status.set(event.studentId, 'pending');
+    }
+    return Array.from(status.values()).filter(s => s === 'present').length;
+  }, [visible]);
+
+  const describe = (event: ScanEvent): string => {
+    const student = event.studentId ? studentMap.get(event.studentId) : undefined;
+    const who = student ? `${student.fullRollNumber} ${student.name}` : 'Unknown student';
+    switch (event.type) {
+      case 'detection': {
+        const strategy = event.strategy
+          ? MATCH_STRATEGY_LABELS[event.strategy as MatchStrategy] || event.strategy
+          : 'Unknown';
+        return `${who} detected · ${event.rssi ?? '?'} dBm · ${strategy}${event.deviceId ? ` · ${event.deviceId}` : ''}`;
+      }
+      case 'manual_override':
+        return `${who}: ${(event.from || 'pending').toUpperCase()} → ${(event.to || '?').toUpperCase()} (manual)`;
+      case 'timer_change':
+        return `Timer set to ${formatOffset(Number(event.value || 0) * 1000)}`;
+      case 'autopilot_toggle':
+        return `Auto-pilot ${event.value ? 'enabled' : 'disabled'}`;
+      case 'proxy_flag':
+        return `${who} flagged as possible proxy (${(event.reasons || []).join(', ') || 'unknown'})`;
+      case 'rescan':
+        return 'Rescan started';
+      case 'scan_start':
+        return 'Scanning started';
+      case 'scan_pause':
+        return 'Scanning paused';
+      case 'submit':
+        return 'Attendance submitted';
+      default:
+        return event.type;
+    }
+  };
+
+  const togglePlay = () => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+    if (position >= events.length) setPosition(0);
+    setIsPlaying(true);
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator color={colors.accent} />
+      </View>
+    );
+  }
+
+  if (events.length === 0) {
+    return (
+      <View style={styles.centered}>
+        <Ionicons name="film-outline" size={32} color={colors.textMuted} />
+        <Text style={[styles.emptyText, { color: colors.textMuted }]}>No scan log recorded for this session</Text>
+      </View>
+    );
+  }
+
+  const progress = events.length > 0 ? position / events.length : 0;
+  const currentOffset = visible.length > 0 ? visible[visible.length - 1].at - startAt : 0;
+
+  return (
+    <View style={styles.container}>
+      {/* Player */}
+      <View style={[styles.player, { backgroundColor: colors.cardBg }]}>
+        <TouchableOpacity style={[styles.playBtn, { backgroundColor: colors.accent }]} onPress={togglePlay}>
+          <Ionicons name={isPlaying ? 'pause' : 'play'} size={20} color="#000" />
+        </TouchableOpacity>
+        <View style={styles.playerInfo}>
+          <View style={[styles.progressTrack, { backgroundColor: colors.inputBg }]}>
+            <View style={[styles.progressFill, { width: `${progress * 100}%`, backgroundColor: colors.accent }]} />
+          </View>
+          <Text style={[styles.playerMeta, { color: colors.textSecondary }]}>
+            {formatOffset(currentOffset)} · {position}/{events.length} events · {presentSoFar} present
+          </Text>
+        </View>
+        <TouchableOpacity style={styles.restartBtn} onPress={() => { setIsPlaying(false); setPosition(0); }}>
+          <Ionicons name="play-skip-back" size={18} color={colors.textSecondary} />
+        </TouchableOpacity>
+      </View>
+
+      {/* Timeline (latest first) */}
+      <FlatList
+        data={[...visible].reverse()}
+        keyExtractor={(item, index) => `${item.at}-${index}`}
+        contentContainerStyle={styles.listContent}
+        showsVerticalScrollIndicator={false}
+        renderItem={({ item }) => (
+          <View style={[styles.eventRow, { backgroundColor: colors.cardBg }]}>
+            <Text style={[styles.eventTime, { color: colors.textMuted }]}>{formatOffset(item.at - startAt)}</Text>
+            <Ionicons
+              name={EVENT_ICONS[item.type] || 'ellipse'}
+              size={16}
+              color={item.type === 'detection' ? colors.present : item.type === 'manual_override' ? colors.absent : colors.textSecondary}
+            />
+            <Text style={[styles.eventText, { color: colors.textPrimary }]} numberOfLines={2}>
+              {describe(item)}
+            </Text>
+          </View>
+        )}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: verticalScale(8),
+  },
+  emptyText: {
+    fontSize: normalizeFont(13),
+    fontWeight: '500',
+  },
+  player: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: scale(12),
+    marginHorizontal: scale(16),
+    padding: scale(12),
+    borderRadius: moderateScale(14),
+    marginBottom: verticalScale(12),
+  },
+  playBtn: {
+    width: scale(40),
+    height: scale(40),
+    borderRadius: moderateScale(20),
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  playerInfo: {
+    flex: 1,
+  },
+  progressTrack: {
+    height: verticalScale(6),
+    borderRadius: moderateScale(3),
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+  },
+  playerMeta: {
+    fontSize: normalizeFont(11),
+    fontWeight: '600',
+    marginTop: verticalScale(6),
+  },
+  restartBtn: {
+    padding: scale(6),
+  },
+  listContent: {
+    paddingHorizontal: scale(16),
+    paddingBottom: verticalScale(100),
+  },
+  eventRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: scale(10),
+    padding: scale(12),
+    borderRadius: moderateScale(12),
+    marginBottom: verticalScale(6),
+  },
+  eventTime: {
+    fontSize: normalizeFont(11),
+    fontWeight: '700',
+    width: scale(40),
+  },
+  eventText: {
+    flex: 1,
+    fontSize: normalizeFont(12),
+    fontWeight: '500',
+  },
+});
+
+export default SessionReplay;
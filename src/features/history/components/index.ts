@@ -3,4 +3,5 @@ export { SessionCard } from './SessionCard';
 
 export { OffHoursScanModal, type OffHoursReason } from './OffHoursScanModal';
 export { EditAttendanceModal } from './EditAttendanceModal';
+export { SessionReplay } from './SessionReplay';
 export { FilterBar } from './FilterBar';
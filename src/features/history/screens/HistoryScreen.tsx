@@ -30,9 +30,16 @@ import { useNavigation, useRoute, useFocusEffect } from '@react-navigation/nativ
 import { useTheme } from '../../../contexts';
 import { supabase } from '../../../config/supabase';
 import { getAttendanceHistory, AttendanceSession } from '../../../services/dashboardService';
-import { cacheHistory, getCachedHistory, getCacheAge,  getPendingSubmissions,
+import { getCacheAge,  getPendingSubmissions,
   removePendingSubmission,
-  syncPendingSubmissions
+  syncPendingSubmissions,
+  cacheHistorySessions,
+  getCachedHistorySessions,
+  prefetchSessionLogs,
+  fetchSessionLogs,
+  getCachedSessionLogs,
+  withPendingEdits,
+  queueSessionEdit,
 } from '../../../services/offlineService';
 import { useConnectionStatus } from '../../../hooks';
 import { EditAttendanceModal, FilterBar } from '../components';
@@ -40,6 +47,7 @@ import { historyStyles as styles, DATE_TILE_WIDTH } from '../styles';
 import { scale, verticalScale, normalizeFont, moderateScale } from '../../../utils/responsive'; // Import responsive utils locally if needed for inline use or keep consistent with styles
 import { ZenToast } from '../../../components/ZenToast';
 import { PulsingDots } from '../../../components/ui/LoadingAnimation';
+import { toDateString } from '../../../shared/campusTime';
 
 // Months for picker
 const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
@@ -139,7 +147,7 @@ export const HistoryScreen: React.FC = () => {
     }
 
     // Check for holidays (example - could be from API)
-    const dateStr = date.toISOString().split('T')[0];
+    const dateStr = toDateString(date);
     const holidays: Record<string, string> = {
       '2026-01-26': 'Republic Day',
       '2026-08-15': 'Independence Day',
@@ -161,6 +169,8 @@ export const HistoryScreen: React.FC = () => {
       // 1. Get Pending Submissions (Offline Queue)
       const pendingSubmissions = await getPendingSubmissions();
       const pendingSessions = pendingSubmissions
+        // History edits show as a badge on the session they edit
+        .filter(p => p.operation !== 'update_session')
         .filter(p => isSameDay(new Date(p.submittedAt), selectedDate))
         .map(p => {
           const odCount = p.attendance.filter(a => a.status === 'od').length;
@@ -182,60 +192,33 @@ export const HistoryScreen: React.FC = () => {
         });
 
       let historySessions: AttendanceSession[] = [];
+      const dateStr = `${selectedDate.getFullYear()}-${String(selectedDate.getMonth() + 1).padStart(2, '0')}-${String(selectedDate.getDate()).padStart(2, '0')}`;
 
       // OFFLINE FALLBACK: Use cached data if offline
       if (connectionStatusRef.current !== 'online') {
         console.log('[HistoryScreen] Offline mode - loading from cache');
-        const cached = await getCachedHistory();
-        if (cached && cached.length > 0) {
-          // Convert cached format to AttendanceSession format
-          const converted: AttendanceSession[] = cached.map(c => ({
-            id: c.id,
-            date: c.date,
-            slot_id: c.slot_id,
-            subject: { name: c.subject_name, code: '' },
-            target_dept: '',
-            target_section: c.section,
-            target_year: 0,
-            present_count: c.present_count,
-            absent_count: c.absent_count,
-            total_students: c.total_students,
-          }));
-          // Filter by selected date
-          historySessions = converted.filter(session => {
-            const sessionDate = new Date(session.date);
-            return isSameDay(sessionDate, selectedDate);
-          });
-          setIsOfflineData(true);
-        }
+        historySessions = await getCachedHistorySessions(dateStr);
+        setIsOfflineData(historySessions.length > 0);
       } else {
         // ONLINE: Fetch from Supabase
         setIsOfflineData(false);
         const { data: { user } } = await supabase.auth.getUser();
         if (user) {
            // Pass selected date for server-side filtering (YYYY-MM-DD)
-           const dateStr = `${selectedDate.getFullYear()}-${String(selectedDate.getMonth() + 1).padStart(2, '0')}-${String(selectedDate.getDate()).padStart(2, '0')}`;
            const data = await getAttendanceHistory(user.id, 'All', 30, dateStr);
 
-           // Cache for offline use
-           const cacheData = data.map(s => ({
-             id: s.id,
-             date: s.date,
-             slot_id: s.slot_id || '',
-             subject_name: s.subject?.name || '',
-             section: s.target_section || '',
-             present_count: s.present_count,
-             absent_count: s.absent_count,
-             total_students: s.total_students,
-             created_at: new Date().toISOString(),
-           }));
-           await cacheHistory(cacheData);
+           // Cache sessions and (in the background) their logs for offline viewing/editing
+           await cacheHistorySessions(data);
+           prefetchSessionLogs(data.map(s => s.id));
 
            // Data is already filtered by date on server
            historySessions = data;
         }
       }
 
+      // Queued edits not yet uploaded
+      historySessions = await withPendingEdits(historySessions);
+
       // DEDUP MERGE: Pending submissions override matching synced sessions (same slot + date)
       // This ensures only the latest attendance shows, not both old and new
       const pendingSlotIds = new Set(pendingSessions.map((p: any) => String(p.slot_id)));
@@ -349,63 +332,70 @@ export const HistoryScreen: React.FC = () => {
     return hoursDiff < 24;
   };
 
-  // Handle edit session - fetch real student data from Supabase
+  // Handle edit session - fetch real student data (cached copy when offline)
   const handleEditSession = async (session: AttendanceSession) => {
     try {
-      // Fetch actual attendance logs for this session
-      const { data: logs, error } = await supabase
-        .from('attendance_logs')
-        .select(`
-          id,
-          student_id,
-          status,
-          students:student_id (
-            id,
-            roll_no,
-            full_name
-          )
-        `)
-        .eq('session_id', session.id);
-      
-      if (error) {
-        console.error('[HistoryScreen] Error fetching attendance logs:', error);
-        showToast('error', 'Failed to fetch data: ' + error.message);
-        return; // Don't open modal if fetch fails
-      } else if (logs && logs.length > 0) {
-        // Map real data to expected format
-        const students = logs.map((log: any) => ({
-          id: log.student_id, // Use real student UUID
-          rollNumber: log.students?.roll_no?.slice(-2) || '??',
-          fullRollNumber: log.students?.roll_no || 'Unknown',
-          name: log.students?.full_name || 'Unknown Student',
-          status: log.status as 'present' | 'absent' | 'od' | 'leave',
-        }));
-        setEditStudents(students);
-      } else {
-        // No logs found - show empty
+      let cached = await getCachedSessionLogs(session.id);
+      if (connectionStatusRef.current === 'online') {
+        try {
+          cached = await fetchSessionLogs(session.id);
+        } catch (error: any) {
+          console.error('[HistoryScreen] Error fetching attendance logs:', error);
+          if (!cached) {
+            showToast('error', 'Failed to fetch data: ' + error.message);
+            return; // Don't open modal if fetch fails
+          }
+        }
+      }
+
+      if (!cached || cached.logs.length === 0) {
         console.log('[HistoryScreen] No attendance logs found for session:', session.id);
-        showToast('error', 'No attendance records found');
+        showToast('error', connectionStatusRef.current === 'online'
+          ? 'No attendance records found'
+          : 'This session is not available offline');
         return;
       }
-      
+
+      setEditStudents(cached.logs.map(log => ({
+        id: log.studentId, // Use real student UUID
+        rollNumber: log.rollNo.slice(-2) || '??',
+        fullRollNumber: log.rollNo || 'Unknown',
+        name: log.name,
+        status: log.status,
+        isLate: log.isLate,
+        leftEarly: log.leftEarly,
+        firstSeenAt: log.firstSeenAt,
+        lastSeenAt: log.lastSeenAt,
+      })));
       setEditSession(session);
       setShowEditModal(true);
     } catch (err) {
       console.error('[HistoryScreen] Error in handleEditSession:', err);
-      setEditStudents([]);
-      setEditSession(session);
-      setShowEditModal(true);
+      showToast('error', 'Failed to open session');
     }
   };
 
-  // Handle save edited attendance
-  const handleSaveAttendance = (updatedStudents: any[]) => {
-    // In production, call API to save
-    const present = updatedStudents.filter(s => s.status === 'present').length;
-    const absent = updatedStudents.filter(s => s.status === 'absent').length;
-    console.log(`Saved: ${present} present, ${absent} absent`);
+  // Handle save edited attendance - queued, then uploaded right away when online
+  const handleSaveAttendance = async (updatedStudents: any[]) => {
+    if (!editSession) return;
+
+    const edit = await queueSessionEdit(editSession, updatedStudents.map(s => ({
+      studentId: s.id,
+      rollNo: s.fullRollNumber,
+      name: s.name,
+      status: s.status,
+      isLate: !!s.isLate,
+      leftEarly: !!s.leftEarly,
+    })));
+
+    let uploaded = false;
+    if (connectionStatusRef.current === 'online') {
+      await syncPendingSubmissions({ ignoreBackoff: true });
+      uploaded = !(await getPendingSubmissions()).some(p => p.id === edit.id);
+    }
+
     setShowEditModal(false);
-    showToast('success', 'Attendance updated successfully');
+    showToast('success', uploaded ? 'Attendance updated successfully' : 'Edit saved - will sync when online');
     loadHistory(); // Refresh
   };
 
@@ -600,7 +590,7 @@ export const HistoryScreen: React.FC = () => {
     const isExpanded = expandedId === (session.id || String(index));
     const effectivePresent = session.present_count + (session.od_count || 0);
     const healthColor = getHealthColor(effectivePresent, session.total_students);
-    const canEdit = isEditable(session.date);
+    const canEdit = isEditable(session.date) && !(session as any).isOfflinePending;
     const percentage = session.total_students > 0 
       ? Math.round((effectivePresent / session.total_students) * 100) 
       : 0;
@@ -613,6 +603,7 @@ export const HistoryScreen: React.FC = () => {
     const originalFacultyName = sessionAny.originalFacultyName;
     const isOfflinePending = sessionAny.isOfflinePending;
     const syncStatus = sessionAny.syncStatus;
+    const hasPendingEdit = sessionAny.hasPendingEdit;
 
     return (
       <TouchableOpacity
@@ -692,6 +683,11 @@ export const HistoryScreen: React.FC = () => {
                     <Ionicons name="trash-outline" size={normalizeFont(16)} color={colors.danger} />
                  </TouchableOpacity>
                </View>
+            ) : hasPendingEdit ? (
+               <View style={styles.pendingBadge}>
+                 <Ionicons name="create-outline" size={normalizeFont(14)} color={colors.warning} />
+                 <Text style={[styles.pendingText, { color: colors.warning }]}>PENDING EDIT</Text>
+               </View>
             ) : null}
           </View>
 
@@ -711,6 +707,19 @@ export const HistoryScreen: React.FC = () => {
             </View>
           </View>
 
+          {/* Punctuality (from scanner first/last seen) */}
+          {(!!session.late_count || !!session.left_early_count) && (
+            <View style={styles.punctualityRow}>
+              <Ionicons name="time-outline" size={normalizeFont(12)} color={colors.warning} />
+              <Text style={[styles.punctualityText, { color: colors.warning }]}>
+                {[
+                  session.late_count ? `${session.late_count} late` : null,
+                  session.left_early_count ? `${session.left_early_count} left early` : null,
+                ].filter(Boolean).join(' • ')}
+              </Text>
+            </View>
+          )}
+
           {/* Expanded Panel */}
           {isExpanded && (
             <View style={styles.expandPanel}>
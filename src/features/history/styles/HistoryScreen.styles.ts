@@ -493,6 +493,16 @@ export const historyStyles = StyleSheet.create({
     fontSize: normalizeFont(11),
     marginLeft: scale(4),
   },
+  punctualityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: verticalScale(8),
+  },
+  punctualityText: {
+    fontSize: normalizeFont(11),
+    fontWeight: '600',
+    marginLeft: scale(4),
+  },
   labBadge: {
     flexDirection: 'row',
     alignItems: 'center',
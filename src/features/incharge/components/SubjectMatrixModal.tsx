@@ -0,0 +1,302 @@
+/**
+ * SubjectMatrixModal - Subject-wise attendance for the Class Hub
+ *
+ * Two views:
+ * - Class matrix: students x subjects, cells below the threshold highlighted
+ * - Student drill-down: conducted / attended / OD / % per subject
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, Modal, ScrollView, TouchableOpacity, FlatList, Platform } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../../../contexts';
+import { PulsingDots } from '../../../components/ui/LoadingAnimation';
+import { scale, verticalScale, moderateScale, normalizeFont } from '../../../utils/responsive';
+import { getStudentSubjects, type SubjectMatrix, type SubjectMatrixRow } from '../services/inchargeService';
+
+interface SubjectMatrixModalProps {
+  visible: boolean;
+  matrix: SubjectMatrix | null;
+  loading: boolean;
+  isOffline: boolean;
+  threshold: number;
+  // Open straight on this student's drill-down
+  initialStudentId?: string | null;
+  onClose: () => void;
+  onExport: () => void;
+}
+
+const NAME_COLUMN_WIDTH = scale(120);
+const CELL_WIDTH = scale(64);
+
+const formatPercent = (value: number) => `${Math.round(value)}%`;
+
+export const SubjectMatrixModal: React.FC<SubjectMatrixModalProps> = ({
+  visible,
+  matrix,
+  loading,
+  isOffline,
+  threshold,
+  initialStudentId,
+  onClose,
+  onExport,
+}) => {
+  const { isDark } = useTheme();
+  const [selectedStudentId, setSelectedStudentId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) setSelectedStudentId(initialStudentId ?? null);
+  }, [visible, initialStudentId]);
+
+  const selectedStudent = useMemo<SubjectMatrixRow | null>(
+    () => matrix?.students.find(s => s.student_id === selectedStudentId) ?? null,
+    [matrix, selectedStudentId]
+  );
+
+  const textPrimary = isDark ? '#FFFFFF' : '#0F172A';
+  const textSecondary = isDark ? 'rgba(255,255,255,0.6)' : '#64748B';
+  const border = isDark ? 'rgba(255,255,255,0.08)' : 'rgba(0,0,0,0.06)';
+  const lowBg = 'rgba(239, 68, 68, 0.18)';
+  const lowText = '#EF4444';
+
+  const renderCell = (percentage: number | undefined, key: string) => {
+    const isLow = percentage !== undefined && percentage < threshold;
+    return (
+      <View key={key} style={[styles.cell, { borderColor: border }, isLow && { backgroundColor: lowBg }]}>
+        <Text style={[styles.cellText, { color: isLow ? lowText : textPrimary }]}>
+          {percentage === undefined ? '–' : formatPercent(percentage)}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderMatrix = () => {
+    if (!matrix || matrix.subjects.length === 0) {
+      return (
+        <View style={styles.emptyState}>
+          <Ionicons name="grid-outline" size={normalizeFont(40)} color={textSecondary} />
+          <Text style={[styles.emptyText, { color: textSecondary }]}>
+            {isOffline ? 'No saved subject data on this device' : 'No sessions recorded yet'}
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <ScrollView horizontal style={{ flex: 1 }} showsHorizontalScrollIndicator={false}>
+        <View style={{ flex: 1 }}>
+          <View style={[styles.row, styles.headerRow, { borderBottomColor: border }]}>
+            <View style={[styles.nameCell, { borderColor: border }]}>
+              <Text style={[styles.headerText, { color: textSecondary }]}>Student</Text>
+            </View>
+            {matrix.subjects.map(subject => (
+              <View key={subject.id} style={[styles.cell, { borderColor: border }]}>
+                <Text style={[styles.headerText, { color: textSecondary }]} numberOfLines={1}>{subject.code}</Text>
+              </View>
+            ))}
+            <View style={[styles.cell, { borderColor: border }]}>
+              <Text style={[styles.headerText, { color: textSecondary }]}>Overall</Text>
+            </View>
+          </View>
+
+          <FlatList
+            data={matrix.students}
+            keyExtractor={item => item.student_id}
+            contentContainerStyle={{ paddingBottom: verticalScale(60) }}
+            renderItem={({ item }) => (
+              <TouchableOpacity
+                style={[styles.row, { borderBottomColor: border }]}
+                onPress={() => setSelectedStudentId(item.student_id)}
+              >
+                <View style={[styles.nameCell, { borderColor: border }]}>
+                  <Text style={[styles.rollText, { color: textPrimary }]} numberOfLines={1}>{item.roll_no}</Text>
+                  <Text style={[styles.nameText, { color: textSecondary }]} numberOfLines={1}>{item.full_name}</Text>
+                </View>
+                {matrix.subjects.map(subject =>
+                  renderCell(item.subjects[subject.id]?.attendance_percentage, subject.id)
+                )}
+                {renderCell(item.overall_percentage, 'overall')}
+              </TouchableOpacity>
+            )}
+          />
+        </View>
+      </ScrollView>
+    );
+  };
+
+  const renderStudent = (student: SubjectMatrixRow) => {
+    const subjects = getStudentSubjects(matrix!, student.student_id);
+    return (
+      <ScrollView contentContainerStyle={{ padding: scale(16), paddingBottom: verticalScale(60) }}>
+        <Text style={[styles.studentName, { color: textPrimary }]}>{student.full_name}</Text>
+        <Text style={[styles.nameText, { color: textSecondary, marginBottom: verticalScale(12) }]}>
+          {student.roll_no} · Overall {formatPercent(student.overall_percentage)}
+        </Text>
+
+        {subjects.length === 0 && (
+          <Text style={[styles.emptyText, { color: textSecondary }]}>No sessions recorded yet</Text>
+        )}
+
+        {subjects.map(subject => {
+          const isLow = subject.attendance_percentage < threshold;
+          return (
+            <View key={subject.subject_id} style={[styles.subjectCard, { borderColor: isLow ? lowText : border }]}>
+              <View style={{ flex: 1 }}>
+                <Text style={[styles.subjectName, { color: textPrimary }]} numberOfLines={1}>
+                  {subject.subject_name}
+                </Text>
+                <Text style={[styles.nameText, { color: textSecondary }]}>
+                  {subject.subject_code} · Conducted {subject.conducted} · Attended {subject.attended} · OD {subject.od_sessions}
+                </Text>
+              </View>
+              <Text style={[styles.subjectPercent, { color: isLow ? lowText : '#10B981' }]}>
+                {formatPercent(subject.attendance_percentage)}
+              </Text>
+            </View>
+          );
+        })}
+      </ScrollView>
+    );
+  };
+
+  return (
+    <Modal visible={visible} animationType="fade" presentationStyle="overFullScreen" transparent onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={[styles.container, { backgroundColor: isDark ? '#0F172A' : '#F8FAFC' }]}>
+          <View style={[styles.header, { borderBottomColor: border }]}>
+            {selectedStudent ? (
+              <TouchableOpacity onPress={() => setSelectedStudentId(null)} style={styles.headerButton}>
+                <Ionicons name="chevron-back" size={normalizeFont(24)} color={textPrimary} />
+              </TouchableOpacity>
+            ) : null}
+            <View style={{ flex: 1 }}>
+              <Text style={[styles.title, { color: textPrimary }]}>Subject-wise Attendance</Text>
+              <Text style={[styles.subtitle, { color: textSecondary }]}>
+                {isOffline && matrix ? `Saved ${new Date(matrix.generatedAt).toLocaleString()}` : `Highlighted below ${threshold}%`}
+              </Text>
+            </View>
+            {matrix && matrix.subjects.length > 0 && (
+              <TouchableOpacity onPress={onExport} style={styles.headerButton}>
+                <Ionicons name="share-outline" size={normalizeFont(24)} color={textPrimary} />
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+              <Ionicons name="close-circle" size={normalizeFont(30)} color={textSecondary} />
+            </TouchableOpacity>
+          </View>
+
+          {loading ? (
+            <PulsingDots size="medium" color="#10B981" style={{ marginTop: verticalScale(50) }} />
+          ) : selectedStudent ? (
+            renderStudent(selectedStudent)
+          ) : (
+            renderMatrix()
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.8)',
+  },
+  container: {
+    flex: 1,
+    marginTop: verticalScale(60),
+    borderTopLeftRadius: moderateScale(30),
+    borderTopRightRadius: moderateScale(30),
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: scale(8),
+    padding: scale(20),
+    paddingBottom: verticalScale(10),
+    borderBottomWidth: 1,
+  },
+  headerButton: {
+    padding: scale(4),
+  },
+  title: {
+    fontSize: normalizeFont(20),
+    fontWeight: '700',
+  },
+  subtitle: {
+    fontSize: normalizeFont(13),
+    marginTop: verticalScale(2),
+  },
+  row: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+  },
+  headerRow: {
+    paddingTop: verticalScale(8),
+  },
+  nameCell: {
+    width: NAME_COLUMN_WIDTH,
+    paddingHorizontal: scale(10),
+    paddingVertical: verticalScale(8),
+    justifyContent: 'center',
+    borderRightWidth: 1,
+  },
+  cell: {
+    width: CELL_WIDTH,
+    paddingVertical: verticalScale(8),
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRightWidth: 1,
+  },
+  headerText: {
+    fontSize: normalizeFont(11),
+    fontWeight: '700',
+  },
+  cellText: {
+    fontSize: normalizeFont(13),
+    fontWeight: '600',
+  },
+  rollText: {
+    fontSize: normalizeFont(12),
+    fontWeight: '700',
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  nameText: {
+    fontSize: normalizeFont(12),
+  },
+  emptyState: {
+    alignItems: 'center',
+    gap: verticalScale(10),
+    marginTop: verticalScale(60),
+  },
+  emptyText: {
+    fontSize: normalizeFont(14),
+    textAlign: 'center',
+  },
+  studentName: {
+    fontSize: normalizeFont(18),
+    fontWeight: '700',
+  },
+  subjectCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: scale(12),
+    padding: scale(14),
+    marginBottom: verticalScale(10),
+    borderRadius: moderateScale(16),
+    borderWidth: 1,
+  },
+  subjectName: {
+    fontSize: normalizeFont(15),
+    fontWeight: '700',
+    marginBottom: verticalScale(2),
+  },
+  subjectPercent: {
+    fontSize: normalizeFont(18),
+    fontWeight: '800',
+  },
+});
+
+export default SubjectMatrixModal;
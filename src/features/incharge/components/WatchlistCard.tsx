@@ -1,7 +1,10 @@
 /**
  * WatchlistCard - Critical student card with quick actions
  * 
- * Shows students with <75% attendance with Call Parent / WhatsApp options
+ * Shows students below the attendance policy's warning threshold (75% by
+ * default) with Call Parent / WhatsApp options, and how many of the remaining
+ * classes they need to reach it (or the critical threshold, 65%, for
+ * condonation) when the semester end date is configured.
  */
 
 import React from 'react';
@@ -11,6 +14,8 @@ import { LinearGradient } from 'expo-linear-gradient';
 import * as Haptics from 'expo-haptics';
 import { useTheme } from '../../../contexts';
 import { scale, verticalScale, moderateScale, normalizeFont } from '../../../utils/responsive';
+import type { AttendanceProjection } from '../services/inchargeService';
+import { getAttendancePolicy, type AttendancePolicy } from '../../../shared/attendancePolicy';
 
 interface WatchlistCardProps {
   studentName: string;
@@ -18,11 +23,36 @@ interface WatchlistCardProps {
   percentage: number;
   parentMobile?: string;
   studentMobile?: string;
+  projection?: AttendanceProjection;
+  // The class's department policy; institution-wide if omitted
+  policy?: AttendancePolicy;
   onStatusMessage?: (message: string, type: 'success' | 'error' | 'warning') => void;
 }
 
-const getUrgencyColor = (percentage: number): string => {
-  if (percentage < 65) return '#DC2626'; // Critical red
+const getProjectionText = (projection: AttendanceProjection, policy: AttendancePolicy): string => {
+  const { needed_for_required, needed_for_condonation, remaining_sessions } = projection;
+  if (needed_for_required !== null) {
+    return `Needs ${needed_for_required} of ${remaining_sessions} left for ${policy.warning_threshold}%`;
+  }
+  if (needed_for_condonation !== null) {
+    return `Needs ${needed_for_condonation} of ${remaining_sessions} left for ${policy.critical_threshold}%`;
+  }
+  return `${policy.critical_threshold}% out of reach (${remaining_sessions} left)`;
+};
+
+const getProjectionMessage = (projection: AttendanceProjection, policy: AttendancePolicy): string => {
+  const { needed_for_required, needed_for_condonation, remaining_sessions } = projection;
+  if (needed_for_required !== null) {
+    return `You need to attend at least ${needed_for_required} of the remaining ${remaining_sessions} classes to reach ${policy.warning_threshold}%.`;
+  }
+  if (needed_for_condonation !== null) {
+    return `Even attending all ${remaining_sessions} remaining classes will not bring it to ${policy.warning_threshold}%. You need to attend at least ${needed_for_condonation} of them to reach ${policy.critical_threshold}% and be eligible for condonation.`;
+  }
+  return `Even attending all ${remaining_sessions} remaining classes will not bring it to ${policy.critical_threshold}%, the minimum for condonation. Please meet the class incharge.`;
+};
+
+const getUrgencyColor = (percentage: number, policy: AttendancePolicy): string => {
+  if (percentage < policy.critical_threshold) return '#DC2626'; // Critical red
   return '#EF4444'; // Warning red
 };
 
@@ -32,11 +62,14 @@ export const WatchlistCard: React.FC<WatchlistCardProps> = ({
   percentage,
   parentMobile,
   studentMobile,
+  projection,
+  policy = getAttendancePolicy(),
   onStatusMessage,
 }) => {
   const { isDark } = useTheme();
-  const urgencyColor = getUrgencyColor(percentage);
-  const isCritical = percentage < 65;
+  const urgencyColor = getUrgencyColor(percentage, policy);
+  // Target can no longer be reached by attending every remaining class
+  const isOutOfReach = projection?.needed_for_required === null;
 
   const handleCallParent = async () => {
     if (!parentMobile) {
@@ -53,7 +86,8 @@ export const WatchlistCard: React.FC<WatchlistCardProps> = ({
       return;
     }
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    const message = `Dear ${studentName},\n\nThis is to inform you that your current attendance is ${percentage}%, which is below the required threshold of 75%. Please ensure you attend all upcoming classes to avoid any academic actions.\n\nRegards,\nClass Incharge`;
+    const projectionLine = projection ? ` ${getProjectionMessage(projection, policy)}` : '';
+    const message = `Dear ${studentName},\n\nThis is to inform you that your current attendance is ${percentage}%, which is below the required threshold of ${policy.warning_threshold}%.${projectionLine} Please ensure you attend all upcoming classes to avoid any academic actions.\n\nRegards,\nClass Incharge`;
     await Linking.openURL(`whatsapp://send?phone=+91${studentMobile.replace(/\D/g, '')}&text=${encodeURIComponent(message)}`);
   };
 
@@ -72,11 +106,23 @@ export const WatchlistCard: React.FC<WatchlistCardProps> = ({
             <Text style={[styles.studentName, { color: isDark ? '#FFFFFF' : '#0F172A' }]} numberOfLines={1}>
               {studentName}
             </Text>
-            {/* Critical Tag Removed */}
+            {isOutOfReach && (
+              <View style={styles.criticalBadge}>
+                <Text style={styles.criticalText}>OUT OF REACH</Text>
+              </View>
+            )}
           </View>
           <Text style={[styles.rollNo, { color: isDark ? 'rgba(255,255,255,0.5)' : '#64748B' }]}>
             {rollNo}
           </Text>
+          {projection && (
+            <Text
+              style={[styles.projection, { color: isOutOfReach ? urgencyColor : (isDark ? 'rgba(255,255,255,0.7)' : '#334155') }]}
+              numberOfLines={1}
+            >
+              {getProjectionText(projection, policy)}
+            </Text>
+          )}
         </View>
 
         {/* Percentage */}
@@ -157,6 +203,11 @@ const styles = StyleSheet.create({
     fontSize: normalizeFont(12),
     marginTop: verticalScale(2),
   },
+  projection: {
+    fontSize: normalizeFont(11),
+    fontWeight: '600',
+    marginTop: verticalScale(4),
+  },
   percentageBox: {
     paddingHorizontal: scale(12),
     paddingVertical: verticalScale(8),
@@ -2,4 +2,5 @@ export { TrafficLightZone } from './TrafficLightZone';
 export { WatchlistCard } from './WatchlistCard';
 export { TrendsSection } from './TrendsSection';
 export { CustomDateTimePicker } from './CustomDateTimePicker';
+export { SubjectMatrixModal } from './SubjectMatrixModal';
 export * from './StudentSelectionList';
@@ -30,6 +30,7 @@ import {
   type Permission,
 } from "../services/inchargeService";
 import { CustomDateTimePicker } from "../components/CustomDateTimePicker";
+import { toDateString } from "../../../shared/campusTime";
 
 export const ManagePermissionsScreen: React.FC = () => {
   const { isDark } = useTheme();
@@ -140,8 +141,8 @@ export const ManagePermissionsScreen: React.FC = () => {
     try {
       setLoading(true);
       await updatePermission(editingPermission.id, {
-        start_date: editStartDate.toISOString().split("T")[0],
-        end_date: editEndDate.toISOString().split("T")[0],
+        start_date: toDateString(editStartDate),
+        end_date: toDateString(editEndDate),
         reason: editReason,
       });
 
@@ -5,7 +5,8 @@
  * - Traffic Light Zone (P1 & P4) (Zen Mode Styles)
  * - Weekly Trends (Zen Mode Colors)
  * - Permission Management
- * - Watchlist (Critical Students)
+ * - Watchlist (Critical Students), with bulk parent notifications
+ * - Subject-wise attendance (per-student drill-down + class matrix)
  * - Home Screen Background (Gradient + Orbs)
  */
 
@@ -27,6 +28,7 @@ import {
   Easing,
 
   Linking,
+  Share,
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { BlurView } from 'expo-blur';
@@ -40,14 +42,16 @@ import * as Haptics from 'expo-haptics';
 
 
 
-import { TrafficLightZone, WatchlistCard, TrendsSection } from '../components';
+import { TrafficLightZone, WatchlistCard, TrendsSection, SubjectMatrixModal } from '../components';
 import { BellIcon } from '../../../components/BellIcon';
 import { useTheme } from '../../../contexts';
 import { scale, verticalScale, moderateScale, normalizeFont } from '../../../utils/responsive';
 import { supabase } from '../../../config/supabase';
-import { getClassStudents, getWatchlist, getKeyPeriodAttendance, getAllPeriodAttendance, getClassTrends, getAssignedClass, getCurrentSemester, type StudentAggregate, type PeriodAttendance } from '../services/inchargeService';
+import { getClassStudents, getWatchlist, getSubjectMatrix, exportSubjectMatrixCsv, getKeyPeriodAttendance, getAllPeriodAttendance, getClassTrends, getAssignedClass, getCurrentSemester, getProxyFlags, type StudentAggregate, type SubjectMatrix, type PeriodAttendance, type ProxyFlag } from '../services/inchargeService';
+import { SUSPICION_LABELS, type SuspicionReason } from '../../../services/bleService';
+import { getAttendancePolicy, getAttendanceStanding, type AttendancePolicy } from '../../../shared/attendancePolicy';
 import { Colors } from '../../../constants';
-import { cacheWatchlist, getCachedWatchlist, getCacheAge } from '../../../services/offlineService';
+import { cacheWatchlist, getCachedWatchlist, cacheSubjectMatrix, getCachedSubjectMatrix, getCacheAge } from '../../../services/offlineService';
 import { useConnectionStatus } from '../../../hooks';
 
 
@@ -58,7 +62,7 @@ interface ClassInfo {
 }
 
 // Helper component for Watchlist Pagination
-const WatchlistPager = ({ watchlist, colors, isDark, onMessage }: { watchlist: StudentAggregate[], colors: any, isDark: boolean, onMessage: (msg: string, type: 'success' | 'error' | 'warning') => void }) => {
+const WatchlistPager = ({ watchlist, policy, colors, isDark, onMessage }: { watchlist: StudentAggregate[], policy: AttendancePolicy, colors: any, isDark: boolean, onMessage: (msg: string, type: 'success' | 'error' | 'warning') => void }) => {
     const [containerWidth, setContainerWidth] = useState(0);
     const [activeIndex, setActiveIndex] = useState(0);
 
@@ -98,6 +102,8 @@ const WatchlistPager = ({ watchlist, colors, isDark, onMessage }: { watchlist: S
                                     percentage={student.attendance_percentage}
                                     studentMobile={student.student_mobile}
                                     parentMobile={student.parent_mobile}
+                                    projection={student.projection}
+                                    policy={policy}
                                     onStatusMessage={onMessage}
                                 />
                             ))}
@@ -137,6 +143,7 @@ export const MyClassHubScreen: React.FC = () => {
   const [p1, setP1] = useState<PeriodAttendance | null>(null);
   const [p4, setP4] = useState<PeriodAttendance | null>(null);
   const [watchlist, setWatchlist] = useState<StudentAggregate[]>([]);
+  const [proxyFlags, setProxyFlags] = useState<ProxyFlag[]>([]);
   const [trendData, setTrendData] = useState<{ day: string; percentage: number }[]>([]);
   const [trendRange, setTrendRange] = useState<'day' | 'week' | 'month'>('week');
   const [profileImage, setProfileImage] = useState<string | null>(null);
@@ -165,6 +172,16 @@ export const MyClassHubScreen: React.FC = () => {
 
   const [allStudents, setAllStudents] = useState<StudentAggregate[]>([]);
 
+  // Department attendance policy (thresholds for badges and highlights)
+  const policy = useMemo(() => getAttendancePolicy(classInfo?.dept), [classInfo]);
+
+  // Subject-wise Modal
+  const [showSubjectMatrix, setShowSubjectMatrix] = useState(false);
+  const [subjectMatrix, setSubjectMatrix] = useState<SubjectMatrix | null>(null);
+  const [loadingMatrix, setLoadingMatrix] = useState(false);
+  const [matrixOffline, setMatrixOffline] = useState(false);
+  const [matrixStudentId, setMatrixStudentId] = useState<string | null>(null);
+
 
   const filteredAllStudents = useMemo(() => {
       let result = allStudents.length > 0 ? allStudents : watchlist; // Default to watchlist if no "all students" fetch exists yet
@@ -193,7 +210,7 @@ export const MyClassHubScreen: React.FC = () => {
       }
 
       return result;
-  }, [watchlist, searchQuery, filterMin, filterMax]);
+  }, [allStudents, watchlist, searchQuery, filterMin, filterMax]);
   
   const { status: connectionStatus } = useConnectionStatus();
   const connectionStatusRef = useRef(connectionStatus);
@@ -235,11 +252,12 @@ export const MyClassHubScreen: React.FC = () => {
       setError(null);
 
       // Fetch everything in parallel — profile image + data queries
-      const [profileData, periods, students, currentSem] = await Promise.all([
+      const [profileData, periods, students, currentSem, flags] = await Promise.all([
         currentUser ? supabase.from('profiles').select('avatar_url').eq('id', currentUser.id).single() : null,
         getKeyPeriodAttendance(info.dept, info.year, info.section),
-        getWatchlist(info.dept, info.year, info.section, 60),
-        getCurrentSemester()
+        getWatchlist(info.dept, info.year, info.section),
+        getCurrentSemester(),
+        getProxyFlags(info.dept, info.year, info.section)
       ]);
 
       if (profileData?.data?.avatar_url) {
@@ -249,6 +267,7 @@ export const MyClassHubScreen: React.FC = () => {
       setP1(periods.p1);
       setP4(periods.p4);
       setWatchlist(students);
+      setProxyFlags(flags);
       if (currentSem) setSemester(currentSem);
       
       // Cache watchlist for offline use (only if we have data)
@@ -258,6 +277,7 @@ export const MyClassHubScreen: React.FC = () => {
           full_name: s.full_name,
           roll_no: s.roll_no,
           attendance_percentage: s.attendance_percentage,
+          projection: s.projection,
           cachedAt: new Date().toISOString(),
         }));
         await cacheWatchlist(cacheData);
@@ -298,6 +318,8 @@ export const MyClassHubScreen: React.FC = () => {
 
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
+    // Refetched the next time the subject-wise view is opened
+    setSubjectMatrix(null);
     await loadData();
     setRefreshing(false);
   }, [loadData]);
@@ -316,7 +338,7 @@ export const MyClassHubScreen: React.FC = () => {
 
     setLoadingAll(true);
     try {
-        const students = await getWatchlist(classInfo.dept, classInfo.year, classInfo.section, 101);
+        const students = await getClassStudents(classInfo.dept, classInfo.year, classInfo.section);
         setAllStudents(students);
     } catch (err) {
         console.error("Failed to load all students", err);
@@ -325,6 +347,47 @@ export const MyClassHubScreen: React.FC = () => {
     }
   };
 
+  const handleOpenSubjectMatrix = async (studentId: string | null = null) => {
+    setShowAllStudents(false);
+    setMatrixStudentId(studentId);
+    setShowSubjectMatrix(true);
+    if (subjectMatrix && !matrixOffline) return;
+
+    setLoadingMatrix(true);
+    try {
+        if (connectionStatusRef.current !== 'online' || !classInfo) {
+            setSubjectMatrix(await getCachedSubjectMatrix());
+            setMatrixOffline(true);
+            return;
+        }
+        const matrix = await getSubjectMatrix(classInfo.dept, classInfo.year, classInfo.section);
+        setSubjectMatrix(matrix);
+        setMatrixOffline(false);
+        await cacheSubjectMatrix(matrix);
+    } catch (err) {
+        console.error("Failed to load subject matrix", err);
+        const cached = await getCachedSubjectMatrix();
+        setSubjectMatrix(cached);
+        setMatrixOffline(!!cached);
+        if (!cached) showToast('Failed to load subject-wise attendance', 'error');
+    } finally {
+        setLoadingMatrix(false);
+    }
+  };
+
+  const handleExportSubjectMatrix = async () => {
+    if (!subjectMatrix) return;
+    const className = classInfo ? `${classInfo.dept}-${classInfo.year}${classInfo.section}` : 'Class';
+    try {
+        await Share.share({
+            message: exportSubjectMatrixCsv(subjectMatrix, policy.warning_threshold),
+            title: `Subject-wise Attendance - ${className}`,
+        });
+    } catch (err) {
+        console.error('[MyClassHub] Export error:', err);
+    }
+  };
+
   const handleContactSupport = () => {
     safeHaptic(Haptics.ImpactFeedbackStyle.Medium);
     const phoneNumber = "7416994672";
@@ -600,7 +663,43 @@ export const MyClassHubScreen: React.FC = () => {
           </View>
         </View>
 
-        {/* 4. Watchlist (At Bottom) */}
+        {/* 4. Proxy Alerts (scanner flagged a shared / hopping phone) */}
+        {proxyFlags.length > 0 && (
+          <View style={styles.sectionContainer}>
+            <View style={[styles.glassCard, { backgroundColor: colors.surface }]}>
+                <View style={styles.sectionHeaderRow}>
+                  <View style={{flexDirection: 'row', alignItems: 'center', gap: 6}}>
+                      <Text style={[styles.sectionTitle, { color: colors.textPrimary }]}>Proxy Alerts</Text>
+                      <View style={[styles.badge, { backgroundColor: 'rgba(255, 159, 10, 0.15)' }]}>
+                          <Text style={[styles.badgeText, { color: '#FF9F0A' }]}>{proxyFlags.length}</Text>
+                      </View>
+                  </View>
+                  <Ionicons name="warning" size={normalizeFont(20)} color="#FF9F0A" />
+                </View>
+
+                {proxyFlags.slice(0, 10).map(flag => (
+                  <View key={`${flag.session_id}-${flag.student_id}`} style={[styles.proxyRow, { borderBottomColor: colors.border }]}>
+                    <View style={{ flex: 1 }}>
+                      <Text style={[styles.studentName, { color: colors.textPrimary }]} numberOfLines={1}>
+                        {flag.roll_no} · {flag.full_name}
+                      </Text>
+                      <Text style={[styles.studentRoll, { color: colors.textSecondary }]} numberOfLines={1}>
+                        {flag.date} · {flag.subject_name || `Slot ${flag.slot_id}`}
+                      </Text>
+                      <Text style={[styles.proxyReason, { color: '#FF9F0A' }]} numberOfLines={2}>
+                        {flag.flags.map(f => SUSPICION_LABELS[f as SuspicionReason] || f).join(', ')}
+                      </Text>
+                    </View>
+                    <Text style={[styles.proxyStatus, { color: flag.status === 'present' ? colors.accent : '#FF3B30' }]}>
+                      {flag.status.toUpperCase()}
+                    </Text>
+                  </View>
+                ))}
+            </View>
+          </View>
+        )}
+
+        {/* 5. Watchlist (At Bottom) */}
         <View style={styles.sectionContainer}>
           <View style={[styles.glassCard, { backgroundColor: colors.surface }]}>
               <View style={styles.sectionHeaderRow}>
@@ -610,9 +709,19 @@ export const MyClassHubScreen: React.FC = () => {
                         <Text style={[styles.badgeText, { color: colors.textPrimary }]}>{watchlist.length}</Text>
                     </View>
                 </View>
-                <TouchableOpacity onPress={handleViewAll}>
-                  <Text style={{ color: colors.accent, fontSize: normalizeFont(15), fontWeight: '500' }}>See All</Text>
-                </TouchableOpacity>
+                <View style={{ flexDirection: 'row', alignItems: 'center', gap: scale(16) }}>
+                  {watchlist.length > 0 && (
+                    <TouchableOpacity onPress={() => navigation.navigate('NotifyParents' as never)}>
+                      <Text style={{ color: colors.accent, fontSize: normalizeFont(15), fontWeight: '500' }}>Notify</Text>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity onPress={() => handleOpenSubjectMatrix()}>
+                    <Text style={{ color: colors.accent, fontSize: normalizeFont(15), fontWeight: '500' }}>Subjects</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={handleViewAll}>
+                    <Text style={{ color: colors.accent, fontSize: normalizeFont(15), fontWeight: '500' }}>See All</Text>
+                  </TouchableOpacity>
+                </View>
               </View>
 
               {watchlist.length === 0 ? (
@@ -621,7 +730,7 @@ export const MyClassHubScreen: React.FC = () => {
                   <Text style={[styles.emptyText, { color: colors.textSecondary }]}>No critical students</Text>
                 </View>
               ) : (
-                <WatchlistPager watchlist={watchlist} colors={colors} isDark={isDark} onMessage={showToast} />
+                <WatchlistPager watchlist={watchlist} policy={policy} colors={colors} isDark={isDark} onMessage={showToast} />
               )}
           </View>
         </View>
@@ -727,18 +836,19 @@ export const MyClassHubScreen: React.FC = () => {
                             const avatarBg = avatarColors[item.full_name.length % avatarColors.length];
                             
                             // Status Badge
+                            const standing = getAttendanceStanding(item.attendance_percentage, policy);
                             let badgeColor = '#10B981'; // Green
                             let badgeText = 'Good';
-                            if (item.attendance_percentage < 65) {
+                            if (standing === 'critical') {
                                 badgeColor = '#EF4444'; // Red
                                 badgeText = 'Critical';
-                            } else if (item.attendance_percentage < 75) {
+                            } else if (standing === 'warning') {
                                  badgeColor = '#F59E0B'; // Amber
                                  badgeText = 'Warning';
                             }
 
                             return (
-                                <View style={{ 
+                                <TouchableOpacity activeOpacity={0.7} onPress={() => handleOpenSubjectMatrix(item.student_id)} style={{ 
                                     backgroundColor: isDark ? 'rgba(255,255,255,0.03)' : '#FFFFFF',
                                     borderRadius: moderateScale(16),
                                     marginBottom: 10,
@@ -790,7 +900,7 @@ export const MyClassHubScreen: React.FC = () => {
                                              )}
                                          </View>
                                     </View>
-                                </View>
+                                </TouchableOpacity>
                             );
                         }}
                    />
@@ -799,6 +909,18 @@ export const MyClassHubScreen: React.FC = () => {
         </View>
       </Modal>
 
+      {/* Subject-wise Modal */}
+      <SubjectMatrixModal
+        visible={showSubjectMatrix}
+        matrix={subjectMatrix}
+        loading={loadingMatrix}
+        isOffline={matrixOffline}
+        threshold={policy.warning_threshold}
+        initialStudentId={matrixStudentId}
+        onClose={() => setShowSubjectMatrix(false)}
+        onExport={handleExportSubjectMatrix}
+      />
+
       {/* Period Stats Modal - Zen Theme */}
       <Modal visible={showPeriodModal} animationType="fade" transparent={true} onRequestClose={() => setShowPeriodModal(false)}>
         <View style={{ flex: 1, backgroundColor: 'rgba(0,0,0,0.6)', justifyContent: 'center', padding: 20 }}>
@@ -970,6 +1092,9 @@ const styles = StyleSheet.create({
   studentName: { fontSize: normalizeFont(16), fontWeight: '600' },
   studentRoll: { fontSize: normalizeFont(13), marginTop: verticalScale(2) },
   studentPercent: { fontSize: normalizeFont(18), fontWeight: '700' },
+  proxyRow: { flexDirection: 'row', alignItems: 'center', gap: scale(12), paddingVertical: verticalScale(10), borderBottomWidth: StyleSheet.hairlineWidth },
+  proxyReason: { fontSize: normalizeFont(12), fontWeight: '600', marginTop: verticalScale(2) },
+  proxyStatus: { fontSize: normalizeFont(12), fontWeight: '700' },
   glassCard: {
     padding: scale(20),
     borderRadius: moderateScale(24),
@@ -0,0 +1,521 @@
+/**
+ * NotifyParentsScreen - Message the parents of watchlist students in bulk
+ *
+ * The incharge picks students from the watchlist, edits the SMS / WhatsApp
+ * template (placeholders are filled per student), previews each message and
+ * sends them through the notify-parents edge function. Students whose
+ * parents were already contacted this month are marked and left unselected.
+ */
+
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  ActivityIndicator,
+  RefreshControl,
+  TextInput,
+  Alert,
+  Platform,
+  KeyboardAvoidingView,
+} from "react-native";
+import { Ionicons } from "@expo/vector-icons";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useNavigation } from "@react-navigation/native";
+import * as Haptics from "expo-haptics";
+
+import { useTheme } from "../../../contexts";
+import { scale, verticalScale, moderateScale, normalizeFont } from "../../../utils/responsive";
+import { supabase } from "../../../config/supabase";
+import { ZenToast } from "../../../components/ZenToast";
+import { getAttendancePolicy } from "../../../shared/attendancePolicy";
+import {
+  DEFAULT_PARENT_TEMPLATES,
+  PARENT_MESSAGE_PLACEHOLDERS,
+  renderParentMessage,
+  type ParentMessageChannel,
+} from "../../../shared/parentMessages";
+import {
+  getAssignedClass,
+  getWatchlist,
+  getSubjectMatrix,
+  type StudentAggregate,
+  type SubjectMatrix,
+} from "../services/inchargeService";
+import {
+  getContactedThisMonth,
+  buildParentMessageVars,
+  sendParentNotifications,
+  getParentTemplates,
+  saveParentTemplates,
+  type ParentContact,
+} from "../services/parentNotificationService";
+
+type ClassInfo = { dept: string; year: number; section: string };
+
+const CHANNELS: { key: ParentMessageChannel; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { key: "sms", label: "SMS", icon: "chatbox-outline" },
+  { key: "whatsapp", label: "WhatsApp", icon: "logo-whatsapp" },
+];
+
+// A parent was reached (or the message is on its way)
+const isContacted = (contact?: ParentContact) =>
+  !!contact && contact.status !== "failed" && contact.status !== "simulated";
+
+const STATUS_LABELS: Record<ParentContact["status"], string> = {
+  queued: "Queued",
+  sent: "Sent",
+  simulated: "Simulated",
+  delivered: "Delivered",
+  failed: "Failed",
+};
+
+export const NotifyParentsScreen: React.FC = () => {
+  const { isDark } = useTheme();
+  const insets = useSafeAreaInsets();
+  const navigation = useNavigation();
+
+  const [classInfo, setClassInfo] = useState<ClassInfo | null>(null);
+  const [students, setStudents] = useState<StudentAggregate[]>([]);
+  const [matrix, setMatrix] = useState<SubjectMatrix | null>(null);
+  const [contacted, setContacted] = useState<Map<string, ParentContact>>(new Map());
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [sending, setSending] = useState(false);
+
+  const [channel, setChannel] = useState<ParentMessageChannel>("whatsapp");
+  const [templates, setTemplates] = useState<Record<ParentMessageChannel, string>>({ ...DEFAULT_PARENT_TEMPLATES });
+  const [selection, setSelection] = useState({ start: 0, end: 0 });
+
+  const [toast, setToast] = useState<{
+    visible: boolean;
+    message: string;
+    type: "success" | "error" | "warning";
+  }>({
+    visible: false,
+    message: "",
+    type: "success",
+  });
+
+  const colors = {
+    bg: isDark ? "#0F172A" : "#F8FAFC",
+    card: isDark ? "#1E293B" : "#FFFFFF",
+    text: isDark ? "#FFFFFF" : "#0F172A",
+    textSec: isDark ? "#94A3B8" : "#64748B",
+    border: isDark ? "#334155" : "#E2E8F0",
+    accent: "#10B981",
+    danger: "#EF4444",
+    warning: "#F59E0B",
+  };
+
+  const policy = useMemo(() => getAttendancePolicy(classInfo?.dept), [classInfo]);
+  const template = templates[channel];
+
+  const showToast = (message: string, type: "success" | "error" | "warning") =>
+    setToast({ visible: true, message, type });
+
+  const loadData = async () => {
+    try {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const info = await getAssignedClass(user.id);
+      if (!info) return;
+      setClassInfo(info);
+
+      const [watchlist, contactedMap] = await Promise.all([
+        getWatchlist(info.dept, info.year, info.section),
+        getContactedThisMonth(info.dept, info.year, info.section),
+      ]);
+      setStudents(watchlist);
+      setContacted(contactedMap);
+      // Already contacted (and not failed or simulated) this month: opt-in only
+      setSelected(
+        new Set(
+          watchlist
+            .filter((s) => !isContacted(contactedMap.get(s.student_id)))
+            .map((s) => s.student_id),
+        ),
+      );
+
+      // Subject shortfalls are optional in the message
+      try {
+        setMatrix(await getSubjectMatrix(info.dept, info.year, info.section));
+      } catch {
+        setMatrix(null);
+      }
+    } catch (error) {
+      console.error(error);
+      showToast("Failed to load the watchlist. Check your connection.", "error");
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  useEffect(() => {
+    loadData();
+    getParentTemplates().then(setTemplates);
+  }, []);
+
+  const onRefresh = () => {
+    setRefreshing(true);
+    loadData();
+  };
+
+  const setTemplate = (value: string) => {
+    const next = { ...templates, [channel]: value };
+    setTemplates(next);
+    saveParentTemplates(next);
+  };
+
+  const insertPlaceholder = (key: string) => {
+    const token = `{${key}}`;
+    setTemplate(template.slice(0, selection.start) + token + template.slice(selection.end));
+    const cursor = selection.start + token.length;
+    setSelection({ start: cursor, end: cursor });
+  };
+
+  const toggleStudent = (studentId: string) => {
+    Haptics.selectionAsync();
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(studentId)) next.delete(studentId);
+      else next.add(studentId);
+      return next;
+    });
+  };
+
+  const allSelected = students.length > 0 && selected.size === students.length;
+  const toggleAll = () => {
+    Haptics.selectionAsync();
+    setSelected(allSelected ? new Set() : new Set(students.map((s) => s.student_id)));
+  };
+
+  const renderMessage = (student: StudentAggregate) =>
+    renderParentMessage(template, buildParentMessageVars(student, matrix, policy));
+
+  const send = async () => {
+    if (!classInfo) return;
+    const recipients = students.filter((s) => selected.has(s.student_id));
+
+    setSending(true);
+    try {
+      const results = await sendParentNotifications({
+        ...classInfo,
+        channel,
+        template,
+        students: recipients,
+        matrix,
+        policy,
+      });
+      const failed = results.filter((r) => r.status === "failed").length;
+      const simulated = results.filter((r) => r.status === "simulated").length;
+      Haptics.notificationAsync(
+        failed || simulated ? Haptics.NotificationFeedbackType.Warning : Haptics.NotificationFeedbackType.Success,
+      );
+      showToast(
+        failed
+          ? `Sent ${results.length - failed}, failed ${failed}`
+          : simulated
+            ? `Test mode: ${simulated} message${simulated === 1 ? "" : "s"} not delivered`
+            : `Sent to ${results.length} parent${results.length === 1 ? "" : "s"}`,
+        failed || simulated ? "warning" : "success",
+      );
+      setContacted(await getContactedThisMonth(classInfo.dept, classInfo.year, classInfo.section));
+      setSelected(new Set(results.filter((r) => r.status === "failed").map((r) => r.student_id)));
+    } catch (error: any) {
+      showToast(error?.message || "Failed to send messages", "error");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const confirmSend = () => {
+    if (selected.size === 0) {
+      showToast("Select at least one student", "warning");
+      return;
+    }
+    if (!template.trim()) {
+      showToast("The message is empty", "warning");
+      return;
+    }
+    const channelLabel = CHANNELS.find((c) => c.key === channel)!.label;
+    Alert.alert(
+      "Notify Parents",
+      `Send ${channelLabel} to the parents of ${selected.size} student${selected.size === 1 ? "" : "s"}?`,
+      [
+        { text: "Cancel", style: "cancel" },
+        { text: "Send", onPress: send },
+      ],
+    );
+  };
+
+  const renderItem = ({ item }: { item: StudentAggregate }) => {
+    const isSelected = selected.has(item.student_id);
+    const contact = contacted.get(item.student_id);
+    const isPreviewing = previewId === item.student_id;
+
+    return (
+      <View style={[styles.card, { backgroundColor: colors.card, borderColor: isSelected ? colors.accent : colors.border }]}>
+        <TouchableOpacity style={styles.cardRow} onPress={() => toggleStudent(item.student_id)}>
+          <Ionicons
+            name={isSelected ? "checkbox" : "square-outline"}
+            size={normalizeFont(22)}
+            color={isSelected ? colors.accent : colors.textSec}
+          />
+          <View style={{ flex: 1 }}>
+            <Text style={[styles.studentName, { color: colors.text }]} numberOfLines={1}>
+              {item.full_name}
+            </Text>
+            <Text style={[styles.meta, { color: colors.textSec }]}>
+              {item.roll_no} · {item.attendance_percentage}%
+              {item.parent_mobile ? "" : " · No parent number"}
+            </Text>
+            {contact && (
+              <Text style={[styles.meta, { color: contact.status === "failed" ? colors.danger : colors.accent }]}>
+                {STATUS_LABELS[contact.status]} {new Date(contact.queued_at).toLocaleDateString()} via{" "}
+                {contact.channel === "sms" ? "SMS" : "WhatsApp"}
+                {contact.error ? ` · ${contact.error}` : ""}
+              </Text>
+            )}
+          </View>
+          <TouchableOpacity
+            onPress={() => setPreviewId(isPreviewing ? null : item.student_id)}
+            style={styles.previewBtn}
+          >
+            <Ionicons name={isPreviewing ? "eye-off-outline" : "eye-outline"} size={normalizeFont(20)} color={colors.textSec} />
+          </TouchableOpacity>
+        </TouchableOpacity>
+
+        {isPreviewing && (
+          <View style={[styles.preview, { borderTopColor: colors.border }]}>
+            <Text style={[styles.previewText, { color: colors.text }]}>{renderMessage(item)}</Text>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const header = (
+    <View style={{ gap: verticalScale(12), marginBottom: verticalScale(16) }}>
+      <Text style={[styles.sectionLabel, { color: colors.textSec }]}>Channel</Text>
+      <View style={styles.chipRow}>
+        {CHANNELS.map((c) => (
+          <TouchableOpacity
+            key={c.key}
+            onPress={() => setChannel(c.key)}
+            style={[
+              styles.channelChip,
+              {
+                backgroundColor: channel === c.key ? colors.accent : "transparent",
+                borderColor: channel === c.key ? "transparent" : colors.border,
+              },
+            ]}
+          >
+            <Ionicons name={c.icon} size={normalizeFont(16)} color={channel === c.key ? "#FFFFFF" : colors.textSec} />
+            <Text style={[styles.channelText, { color: channel === c.key ? "#FFFFFF" : colors.textSec }]}>
+              {c.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.labelRow}>
+        <Text style={[styles.sectionLabel, { color: colors.textSec }]}>Message</Text>
+        {template !== DEFAULT_PARENT_TEMPLATES[channel] && (
+          <TouchableOpacity onPress={() => setTemplate(DEFAULT_PARENT_TEMPLATES[channel])}>
+            <Text style={[styles.linkText, { color: colors.accent }]}>Reset</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      <TextInput
+        style={[styles.templateInput, { color: colors.text, borderColor: colors.border, backgroundColor: colors.card }]}
+        value={template}
+        onChangeText={setTemplate}
+        onSelectionChange={(e) => setSelection(e.nativeEvent.selection)}
+        multiline
+        placeholder="Message to parents"
+        placeholderTextColor={colors.textSec}
+      />
+      <View style={[styles.chipRow, { flexWrap: "wrap" }]}>
+        {PARENT_MESSAGE_PLACEHOLDERS.map((p) => (
+          <TouchableOpacity
+            key={p.key}
+            onPress={() => insertPlaceholder(p.key)}
+            style={[styles.placeholderChip, { borderColor: colors.border }]}
+          >
+            <Text style={[styles.placeholderText, { color: colors.textSec }]}>{p.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <Text style={[styles.hint, { color: colors.textSec }]}>
+        Lines with a value a student doesn't have (e.g. classes needed before the semester end date is set) are left out of their message.
+      </Text>
+
+      <View style={[styles.labelRow, { marginTop: verticalScale(8) }]}>
+        <Text style={[styles.sectionLabel, { color: colors.textSec }]}>
+          Watchlist · {selected.size}/{students.length} selected
+        </Text>
+        {students.length > 0 && (
+          <TouchableOpacity onPress={toggleAll}>
+            <Text style={[styles.linkText, { color: colors.accent }]}>{allSelected ? "Clear" : "Select all"}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+
+  return (
+    <KeyboardAvoidingView
+      behavior={Platform.OS === "ios" ? "padding" : undefined}
+      style={[styles.container, { backgroundColor: colors.bg }]}
+    >
+      <View
+        style={[
+          styles.header,
+          { paddingTop: insets.top + verticalScale(10), borderBottomColor: colors.border, backgroundColor: colors.card },
+        ]}
+      >
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backBtn}>
+          <Ionicons name="arrow-back" size={normalizeFont(24)} color={colors.text} />
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: colors.text }]}>Notify Parents</Text>
+        <TouchableOpacity onPress={onRefresh}>
+          <Ionicons name="refresh" size={normalizeFont(20)} color={colors.text} />
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <View style={styles.center}>
+          <ActivityIndicator size="large" color={colors.text} />
+        </View>
+      ) : (
+        <FlatList
+          data={students}
+          renderItem={renderItem}
+          keyExtractor={(item) => item.student_id}
+          extraData={[selected, previewId, contacted, template]}
+          ListHeaderComponent={header}
+          contentContainerStyle={styles.list}
+          keyboardShouldPersistTaps="handled"
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+          ListEmptyComponent={
+            <View style={styles.center}>
+              <Text style={{ color: colors.textSec }}>No students on the watchlist</Text>
+            </View>
+          }
+        />
+      )}
+
+      <View
+        style={[
+          styles.footer,
+          { paddingBottom: insets.bottom + verticalScale(12), borderTopColor: colors.border, backgroundColor: colors.card },
+        ]}
+      >
+        <TouchableOpacity
+          style={[styles.sendBtn, { backgroundColor: colors.accent, opacity: sending || selected.size === 0 ? 0.5 : 1 }]}
+          onPress={confirmSend}
+          disabled={sending}
+        >
+          {sending ? (
+            <ActivityIndicator color="#FFFFFF" />
+          ) : (
+            <Text style={styles.sendBtnText}>
+              Send to {selected.size} parent{selected.size === 1 ? "" : "s"}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </View>
+
+      <ZenToast
+        visible={toast.visible}
+        message={toast.message}
+        type={toast.type}
+        onHide={() => setToast((prev) => ({ ...prev, visible: false }))}
+      />
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    paddingHorizontal: scale(16),
+    paddingBottom: verticalScale(16),
+    borderBottomWidth: 1,
+  },
+  backBtn: { padding: scale(8), marginLeft: scale(-8) },
+  headerTitle: { fontSize: normalizeFont(18), fontWeight: "700" },
+  center: {
+    flex: 1,
+    justifyContent: "center",
+    alignItems: "center",
+    paddingTop: verticalScale(40),
+  },
+  list: { padding: scale(16), paddingBottom: verticalScale(40) },
+  sectionLabel: {
+    fontSize: normalizeFont(12),
+    fontWeight: "600",
+    textTransform: "uppercase",
+  },
+  labelRow: { flexDirection: "row", justifyContent: "space-between", alignItems: "center" },
+  linkText: { fontSize: normalizeFont(14), fontWeight: "500" },
+  chipRow: { flexDirection: "row", gap: scale(8) },
+  channelChip: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: scale(6),
+    paddingHorizontal: scale(16),
+    paddingVertical: verticalScale(8),
+    borderRadius: moderateScale(20),
+    borderWidth: 1,
+  },
+  channelText: { fontSize: normalizeFont(13), fontWeight: "600" },
+  templateInput: {
+    borderWidth: 1,
+    borderRadius: moderateScale(8),
+    padding: scale(12),
+    minHeight: verticalScale(140),
+    textAlignVertical: "top",
+    fontSize: normalizeFont(14),
+  },
+  placeholderChip: {
+    borderWidth: 1,
+    paddingHorizontal: scale(10),
+    paddingVertical: verticalScale(4),
+    borderRadius: moderateScale(12),
+    marginBottom: verticalScale(4),
+  },
+  placeholderText: { fontSize: normalizeFont(12), fontWeight: "500" },
+  hint: { fontSize: normalizeFont(12) },
+  card: {
+    borderRadius: moderateScale(16),
+    borderWidth: 1,
+    marginBottom: verticalScale(12),
+    overflow: "hidden",
+  },
+  cardRow: { flexDirection: "row", alignItems: "center", gap: scale(12), padding: scale(14) },
+  studentName: { fontSize: normalizeFont(15), fontWeight: "600" },
+  meta: { fontSize: normalizeFont(12), marginTop: verticalScale(2) },
+  previewBtn: { padding: scale(4) },
+  preview: { padding: scale(14), borderTopWidth: 1 },
+  previewText: { fontSize: normalizeFont(13), lineHeight: normalizeFont(19) },
+  footer: { paddingHorizontal: scale(16), paddingTop: verticalScale(12), borderTopWidth: 1 },
+  sendBtn: {
+    paddingVertical: verticalScale(14),
+    borderRadius: moderateScale(12),
+    alignItems: "center",
+  },
+  sendBtnText: { color: "white", fontSize: normalizeFont(16), fontWeight: "bold" },
+});
@@ -38,6 +38,7 @@ import {
   getAssignedClass,
   type StudentAggregate,
 } from "../services/inchargeService";
+import { toDateString } from "../../../shared/campusTime";
 
 type PermissionType = "leave" | "od";
 type ODCategory = "dept_work" | "club_work" | "event" | "drive" | "other";
@@ -66,6 +67,8 @@ export const PermissionScreen: React.FC = () => {
   const [startTime, setStartTime] = useState(new Date()); // Default 9:30 AM
   const [endTime, setEndTime] = useState(new Date()); // Default 4:00 PM
   const [category, setCategory] = useState<ODCategory>("dept_work");
+  // Leave only: counted as medical leave by the attendance policy
+  const [isMedical, setIsMedical] = useState(false);
   const [reason, setReason] = useState("");
 
   // Date Picker Visibility
@@ -146,13 +149,14 @@ export const PermissionScreen: React.FC = () => {
         return addPermission({
             student_id: studentId,
             type,
-            start_date: startDate.toISOString().split("T")[0],
-            end_date: endDate.toISOString().split("T")[0],
+            start_date: toDateString(startDate),
+            end_date: toDateString(endDate),
             start_time:
               type === "od" ? startTime.toTimeString().split(" ")[0] : undefined,
             end_time:
               type === "od" ? endTime.toTimeString().split(" ")[0] : undefined,
             category: type === "od" ? category : undefined,
+            is_medical: type === "leave" ? isMedical : undefined,
             reason: reason.trim(),
             granted_by: user.id,
           });
@@ -539,6 +543,43 @@ export const PermissionScreen: React.FC = () => {
             </>
           )}
 
+          {/* Medical (Leave Only) */}
+          {type === "leave" && (
+            <>
+              <Text style={[styles.label, { color: colors.textSec }]}>
+                Kind
+              </Text>
+              <View style={styles.chipsContainer}>
+                {[false, true].map((medical) => (
+                  <TouchableOpacity
+                    key={String(medical)}
+                    style={[
+                      styles.chip,
+                      {
+                        borderColor:
+                          isMedical === medical ? colors.leave.primary : colors.border,
+                        backgroundColor:
+                          isMedical === medical ? colors.leave.bg : "transparent",
+                      },
+                    ]}
+                    onPress={() => setIsMedical(medical)}
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        {
+                          color: isMedical === medical ? colors.leave.dark : colors.textSec,
+                        },
+                      ]}
+                    >
+                      {medical ? "Medical" : "General"}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </>
+          )}
+
           {/* Reason */}
           <Text style={[styles.label, { color: colors.textSec }]}>
             Reason {type === "od" && category === "other" && "*"}
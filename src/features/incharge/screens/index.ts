@@ -1,3 +1,4 @@
 export { default as MyClassHubScreen } from './MyClassHubScreen';
 export { PermissionScreen } from './PermissionScreen';
 export { ManagePermissionsScreen } from './ManagePermissionsScreen';
+export { NotifyParentsScreen } from './NotifyParentsScreen';
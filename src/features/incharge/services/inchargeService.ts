@@ -3,18 +3,14 @@
  */
 
 import { supabase } from '../../../config/supabase';
-
-// Helper for local date (YYYY-MM-DD)
-const getLocalDate = () => {
-  const now = new Date();
-  const year = now.getFullYear();
-  const month = String(now.getMonth() + 1).padStart(2, '0');
-  const day = String(now.getDate()).padStart(2, '0');
-  return `${year}-${month}-${day}`;
-};
-
-// Constants
-const CRITICAL_ATTENDANCE_THRESHOLD = 75;
+import { getSessionDate, addDays } from '../../../shared/campusTime';
+import {
+  evaluateAttendance,
+  getAttendancePolicy,
+  getSessionsNeeded,
+  type AttendanceCounts,
+  type StatusCounts,
+} from '../../../shared/attendancePolicy';
 
 // Types
 export interface StudentAggregate {
@@ -27,12 +23,33 @@ export interface StudentAggregate {
   present_sessions: number;
   absent_sessions: number;
   od_sessions: number;
+  // Including medical leave
   leave_sessions: number;
+  // Raw counts the percentage is evaluated from (see shared/attendancePolicy)
+  counts: AttendanceCounts;
+  // Present but flagged by the scanner (still counted in present_sessions)
+  late_sessions: number;
+  left_early_sessions: number;
   total_sessions: number;
+  // Under the department's attendance policy
   attendance_percentage: number;
   last_attendance_date: string | null;
   student_mobile?: string;
   parent_mobile?: string;
+  // Watchlist only, once the semester end date is configured
+  projection?: AttendanceProjection;
+}
+
+export interface AttendanceProjection {
+  // Timetabled sessions left until semester_end_date (after holidays); a lab
+  // counts as many sessions as the policy's lab_weight
+  remaining_sessions: number;
+  semester_end_date: string;
+  // How many of the remaining sessions must be attended to reach the
+  // policy's warning / critical threshold; null = out of reach even if the
+  // student attends all of them
+  needed_for_required: number | null;
+  needed_for_condonation: number | null;
 }
 
 export interface PeriodAttendance {
@@ -47,11 +64,55 @@ export interface WatchlistStudent extends StudentAggregate {
   parent_mobile?: string;
 }
 
+export interface SubjectAttendance {
+  subject_id: string;
+  subject_code: string;
+  subject_name: string;
+  // Sessions counted / credited as attended under the attendance policy
+  // (labs weighted, OD and leave counted as the policy says)
+  conducted: number;
+  attended: number;
+  od_sessions: number;
+  leave_sessions: number;
+  absent_sessions: number;
+  attendance_percentage: number;
+}
+
+export interface SubjectMatrixRow {
+  student_id: string;
+  roll_no: string;
+  full_name: string;
+  overall_percentage: number;
+  // Keyed by subject_id; missing = no sessions of that subject yet
+  subjects: Record<string, SubjectAttendance>;
+}
+
+export interface SubjectMatrix {
+  subjects: { id: string; code: string; name: string }[];
+  students: SubjectMatrixRow[];
+  generatedAt: string;
+}
+
+export interface ProxyFlag {
+  session_id: string;
+  student_id: string;
+  roll_no: string;
+  full_name: string;
+  status: string;
+  // 'shared_device' | 'device_hopping'
+  flags: string[];
+  date: string;
+  slot_id: string;
+  subject_name: string | null;
+}
+
 export interface Permission {
   id: string;
   student_id: string;
   type: 'od' | 'leave';
   category?: 'dept_work' | 'club_work' | 'event' | 'drive' | 'other';
+  // Leave only; counted as the attendance policy's medical_leave
+  is_medical?: boolean;
   reason?: string;
   start_date: string;
   end_date: string;
@@ -62,94 +123,70 @@ export interface Permission {
   created_at: string;
 }
 
-// Helper to compute aggregates dynamically
-const getAggregatedClassData = async (
-  dept: string,
-  year: number,
-  section: string
-): Promise<StudentAggregate[]> => {
-  // 1. Fetch all students for the class
-  const { data: students, error: studentError } = await supabase
-    .from('students')
-    .select('id, roll_no, full_name, mobile, parent_mobile, dept, section, year')
-    .eq('dept', dept)
-    .eq('year', year)
-    .eq('section', section)
-    .eq('is_active', true)
-    .order('roll_no');
-
-  if (studentError || !students) throw studentError;
-
-  // 2. Fetch Total Sessions for this class
-  const { count, error: sessionError } = await supabase
-    .from('attendance_sessions')
-    .select('id', { count: 'exact', head: true })
-    .eq('target_dept', dept)
-    .eq('target_year', year)
-    .eq('target_section', section);
+export interface AggregateFilter {
+  // Inclusive session dates (YYYY-MM-DD)
+  from?: string;
+  to?: string;
+  subjectId?: string;
+}
 
-  if (sessionError) throw sessionError;
-  const totalSessions = count || 0;
+const STATUSES = ['present', 'absent', 'od', 'leave', 'medical_leave'] as const;
 
-  // 3. Fetch Logs for this class (using inner join to filter by class)
-  const { data: logs, error: logsError } = await supabase
-    .from('attendance_logs')
-    .select(`
-      student_id, 
-      status,
-      attendance_sessions!inner(target_dept, target_year, target_section)
-    `)
-    .eq('attendance_sessions.target_dept', dept)
-    .eq('attendance_sessions.target_year', year)
-    .eq('attendance_sessions.target_section', section);
+// Split an RPC row's present / lab_present / ... columns into counts
+const toCounts = (row: any): AttendanceCounts => {
+  const lectures = {} as StatusCounts;
+  const lab = {} as StatusCounts;
+  for (const status of STATUSES) {
+    lectures[status] = row[status] ?? 0;
+    lab[status] = row[`lab_${status}`] ?? 0;
+  }
+  return { ...lectures, lab };
+};
 
-  if (logsError) throw logsError;
+const totalOf = (counts: AttendanceCounts, status: keyof StatusCounts) =>
+  counts[status] + (counts.lab?.[status] ?? 0);
 
-  // 4. Aggregate Logs
-  const statsMap = new Map<string, { present: number, absent: number, od: number, leave: number }>();
-  
-  logs?.forEach((log: any) => {
-    const sid = log.student_id;
-    if (!statsMap.has(sid)) {
-      statsMap.set(sid, { present: 0, absent: 0, od: 0, leave: 0 });
-    }
-    const stats = statsMap.get(sid)!;
-    
-    if (log.status === 'present') stats.present++;
-    else if (log.status === 'absent') stats.absent++;
-    else if (log.status === 'od') stats.od++;
-    else if (log.status === 'leave') stats.leave++;
+// Per-student counts for a class from the get_class_attendance_aggregates
+// RPC; the percentage follows the department's attendance policy
+const getAggregatedClassData = async (
+  dept: string,
+  year: number,
+  section: string,
+  filter: AggregateFilter = {}
+): Promise<StudentAggregate[]> => {
+  const { data, error } = await supabase.rpc('get_class_attendance_aggregates', {
+    p_dept: dept,
+    p_year: year,
+    p_section: section,
+    p_from: filter.from ?? null,
+    p_to: filter.to ?? null,
+    p_subject_id: filter.subjectId ?? null,
   });
 
-  // 5. Build Aggregates
-  return students.map(s => {
-    const stats = statsMap.get(s.id) || { present: 0, absent: 0, od: 0, leave: 0 };
-    // OD counts as present for percentage
-    const effectivePresent = stats.present + stats.od;
-    // Total conducted for this student = Present + Absent + OD (Leave might be excluded or included depending on policy, user said "Present(present+absent)*100")
-    // Assuming "Present+Absent" implies Total Attended/Missed.
-    const studentTotal = stats.present + stats.absent + stats.od; 
-    
-    const percentage = studentTotal > 0 
-      ? Math.round((effectivePresent / studentTotal) * 100)
-      : 0;
+  if (error) throw error;
 
+  const policy = getAttendancePolicy(dept);
+  return (data || []).map((row: any) => {
+    const counts = toCounts(row);
     return {
-      student_id: s.id,
-      roll_no: s.roll_no,
-      full_name: s.full_name,
-      dept: s.dept,
-      section: s.section,
-      year: s.year,
-      present_sessions: stats.present,
-      absent_sessions: stats.absent,
-      od_sessions: stats.od,
-      leave_sessions: stats.leave,
-      total_sessions: totalSessions,
-      attendance_percentage: percentage,
-      last_attendance_date: null, // Optimization: skip for now or fetch if needed
-      student_mobile: s.mobile,
-      parent_mobile: s.parent_mobile
+      student_id: row.student_id,
+      roll_no: row.roll_no,
+      full_name: row.full_name,
+      dept: row.dept,
+      section: row.section,
+      year: row.year,
+      present_sessions: totalOf(counts, 'present'),
+      absent_sessions: totalOf(counts, 'absent'),
+      od_sessions: totalOf(counts, 'od'),
+      leave_sessions: totalOf(counts, 'leave') + totalOf(counts, 'medical_leave'),
+      counts,
+      late_sessions: row.late_sessions,
+      left_early_sessions: row.left_early_sessions,
+      total_sessions: row.total_sessions,
+      attendance_percentage: evaluateAttendance(counts, policy).percentage,
+      last_attendance_date: row.last_attendance_date,
+      student_mobile: row.student_mobile ?? undefined,
+      parent_mobile: row.parent_mobile ?? undefined,
     };
   });
 };
@@ -158,34 +195,188 @@ const getAggregatedClassData = async (
 export const getClassStudents = async (
   dept: string,
   year: number,
-  section: string
+  section: string,
+  filter: AggregateFilter = {}
 ): Promise<StudentAggregate[]> => {
   try {
-    return await getAggregatedClassData(dept, year, section);
+    return await getAggregatedClassData(dept, year, section, filter);
   } catch (error) {
     console.error('[InchargeService] Error fetching students:', error);
     throw error;
   }
 };
 
-// Get watchlist (critical students <75%)
+// Get watchlist (below the policy's warning threshold, 75% by default) with
+// classes-needed projections
 export const getWatchlist = async (
   dept: string,
   year: number,
   section: string,
-  threshold: number = CRITICAL_ATTENDANCE_THRESHOLD
+  threshold: number = getAttendancePolicy(dept).warning_threshold,
+  filter: AggregateFilter = {}
 ): Promise<StudentAggregate[]> => {
   try {
-    const allStudents = await getAggregatedClassData(dept, year, section);
-    return allStudents
+    const allStudents = await getAggregatedClassData(dept, year, section, filter);
+    const watchlist = allStudents
       .filter(s => s.attendance_percentage < threshold)
       .sort((a, b) => a.attendance_percentage - b.attendance_percentage);
+    return await withProjections(watchlist, dept, year, section);
   } catch (error) {
     console.error('[InchargeService] Error fetching watchlist:', error);
     throw error;
   }
 };
 
+// Students x subjects for a class (JNTUH applies the attendance rule per
+// subject too)
+export const getSubjectMatrix = async (
+  dept: string,
+  year: number,
+  section: string,
+  filter: Omit<AggregateFilter, 'subjectId'> = {}
+): Promise<SubjectMatrix> => {
+  try {
+    const [students, { data, error }] = await Promise.all([
+      getAggregatedClassData(dept, year, section, filter),
+      supabase.rpc('get_class_subject_attendance', {
+        p_dept: dept,
+        p_year: year,
+        p_section: section,
+        p_from: filter.from ?? null,
+        p_to: filter.to ?? null,
+      }),
+    ]);
+
+    if (error) throw error;
+
+    const policy = getAttendancePolicy(dept);
+    const subjects = new Map<string, { id: string; code: string; name: string }>();
+    const byStudent = new Map<string, Record<string, SubjectAttendance>>();
+
+    (data || []).forEach((row: any) => {
+      subjects.set(row.subject_id, { id: row.subject_id, code: row.subject_code, name: row.subject_name });
+      const cells = byStudent.get(row.student_id) || {};
+      const counts = toCounts(row);
+      const result = evaluateAttendance(counts, policy);
+      cells[row.subject_id] = {
+        subject_id: row.subject_id,
+        subject_code: row.subject_code,
+        subject_name: row.subject_name,
+        conducted: result.conducted,
+        attended: result.attended,
+        od_sessions: totalOf(counts, 'od'),
+        leave_sessions: totalOf(counts, 'leave') + totalOf(counts, 'medical_leave'),
+        absent_sessions: totalOf(counts, 'absent'),
+        attendance_percentage: result.percentage,
+      };
+      byStudent.set(row.student_id, cells);
+    });
+
+    return {
+      subjects: Array.from(subjects.values()).sort((a, b) => a.code.localeCompare(b.code)),
+      students: students.map(s => ({
+        student_id: s.student_id,
+        roll_no: s.roll_no,
+        full_name: s.full_name,
+        overall_percentage: s.attendance_percentage,
+        subjects: byStudent.get(s.student_id) || {},
+      })),
+      generatedAt: new Date().toISOString(),
+    };
+  } catch (error) {
+    console.error('[InchargeService] Error fetching subject matrix:', error);
+    throw error;
+  }
+};
+
+// One student's subjects, in the matrix's column order
+export const getStudentSubjects = (matrix: SubjectMatrix, studentId: string): SubjectAttendance[] => {
+  const row = matrix.students.find(s => s.student_id === studentId);
+  if (!row) return [];
+  return matrix.subjects
+    .map(subject => row.subjects[subject.id])
+    .filter((cell): cell is SubjectAttendance => !!cell);
+};
+
+// CSV of the matrix (percentages; cells below threshold are marked with *)
+export const exportSubjectMatrixCsv = (
+  matrix: SubjectMatrix,
+  threshold: number = getAttendancePolicy().warning_threshold
+): string => {
+  const escape = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+  const formatCell = (percentage: number) => `${percentage}${percentage < threshold ? '*' : ''}`;
+
+  const header = ['Roll No', 'Name', ...matrix.subjects.map(s => s.code), 'Overall'];
+  const rows = matrix.students.map(student => [
+    student.roll_no,
+    student.full_name,
+    ...matrix.subjects.map(subject => {
+      const cell = student.subjects[subject.id];
+      return cell ? formatCell(cell.attendance_percentage) : '';
+    }),
+    formatCell(student.overall_percentage),
+  ]);
+
+  return [header, ...rows]
+    .map(row => row.map(value => escape(String(value))).join(','))
+    .concat('', `* below ${threshold}%`)
+    .join('\n');
+};
+
+// Remaining timetabled sessions per student, from tomorrow to the semester end
+export const getRemainingSessions = async (
+  dept: string,
+  year: number,
+  section: string
+): Promise<Map<string, { sessions: number; labSessions: number; semesterEndDate: string }>> => {
+  const { data, error } = await supabase.rpc('get_class_remaining_sessions', {
+    p_dept: dept,
+    p_year: year,
+    p_section: section,
+    p_from: addDays(getSessionDate(), 1),
+  });
+
+  if (error) throw error;
+
+  return new Map(
+    (data || []).map((row: any) => [
+      row.student_id,
+      { sessions: row.remaining_sessions, labSessions: row.remaining_lab_sessions, semesterEndDate: row.semester_end_date },
+    ])
+  );
+};
+
+const withProjections = async (
+  students: StudentAggregate[],
+  dept: string,
+  year: number,
+  section: string
+): Promise<StudentAggregate[]> => {
+  let remaining: Awaited<ReturnType<typeof getRemainingSessions>>;
+  try {
+    remaining = await getRemainingSessions(dept, year, section);
+  } catch (error) {
+    // The watchlist is still useful without projections
+    console.error('[InchargeService] Error fetching remaining sessions:', error);
+    return students;
+  }
+
+  const policy = getAttendancePolicy(dept);
+  return students.map(student => {
+    const left = remaining.get(student.student_id);
+    if (!left) return student;
+    return {
+      ...student,
+      projection: {
+        remaining_sessions: left.sessions + left.labSessions * policy.lab_weight,
+        semester_end_date: left.semesterEndDate,
+        needed_for_required: getSessionsNeeded(student.counts, left, policy.warning_threshold, policy),
+        needed_for_condonation: getSessionsNeeded(student.counts, left, policy.critical_threshold, policy),
+      },
+    };
+  });
+};
+
 // Get assigned class for a faculty
 export const getAssignedClass = async (facultyId: string): Promise<{ dept: string; year: number; section: string } | null> => {
   const { data, error } = await supabase
@@ -210,7 +401,7 @@ export const getKeyPeriodAttendance = async (
   year: number,
   section: string
 ): Promise<{ p1: PeriodAttendance | null; p4: PeriodAttendance | null }> => {
-  const today = getLocalDate();
+  const today = getSessionDate();
   
   // Fetch all sessions for today to handle variable slot_ids (e.g., '1', 'p1', 'P1')
   const { data, error } = await supabase
@@ -265,7 +456,7 @@ export const getAllPeriodAttendance = async (
   year: number,
   section: string
 ): Promise<PeriodAttendance[]> => {
-  const today = getLocalDate();
+  const today = getSessionDate();
   
   const { data, error } = await supabase
     .from('attendance_sessions')
@@ -295,6 +486,53 @@ export const getAllPeriodAttendance = async (
   }));
 };
 
+// Get proxy-phone flags raised by the scanner for this class (most recent first)
+export const getProxyFlags = async (
+  dept: string,
+  year: number,
+  section: string,
+  days: number = 14
+): Promise<ProxyFlag[]> => {
+  const since = new Date();
+  since.setDate(since.getDate() - days);
+  const sinceDate = getSessionDate(since);
+
+  const { data, error } = await supabase
+    .from('attendance_logs')
+    .select(`
+      session_id,
+      student_id,
+      status,
+      proxy_flags,
+      students!inner(roll_no, full_name),
+      attendance_sessions!inner(date, slot_id, target_dept, target_year, target_section, subjects(name))
+    `)
+    .not('proxy_flags', 'is', null)
+    .eq('attendance_sessions.target_dept', dept)
+    .eq('attendance_sessions.target_year', year)
+    .eq('attendance_sessions.target_section', section)
+    .gte('attendance_sessions.date', sinceDate);
+
+  if (error) {
+    console.error('[InchargeService] Error fetching proxy flags:', error);
+    return [];
+  }
+
+  return (data || [])
+    .map((log: any) => ({
+      session_id: log.session_id,
+      student_id: log.student_id,
+      roll_no: log.students?.roll_no || '',
+      full_name: log.students?.full_name || '',
+      status: log.status,
+      flags: log.proxy_flags || [],
+      date: log.attendance_sessions?.date || '',
+      slot_id: String(log.attendance_sessions?.slot_id ?? ''),
+      subject_name: log.attendance_sessions?.subjects?.name || null,
+    }))
+    .sort((a, b) => b.date.localeCompare(a.date) || a.roll_no.localeCompare(b.roll_no));
+};
+
 // Get weekly attendance trend
 // Get class attendance trends (Day/Week/Month)
 export const getClassTrends = async (
@@ -308,7 +546,7 @@ export const getClassTrends = async (
   
   if (range === 'day') {
     // Today's periods
-    const todayStr = getLocalDate();
+    const todayStr = getSessionDate();
     const { data, error } = await supabase
       .from('attendance_sessions')
       .select('slot_id, present_count, total_students')
@@ -354,8 +592,8 @@ export const getClassTrends = async (
       .eq('target_dept', dept)
       .eq('target_year', year)
       .eq('target_section', section)
-      .gte('date', startDate.toISOString().split('T')[0])
-      .lte('date', endDate.toISOString().split('T')[0]);
+      .gte('date', getSessionDate(startDate))
+      .lte('date', getSessionDate(endDate));
 
      if (error) {
        console.error('[InchargeService] Error fetching month trends:', error);
@@ -395,8 +633,8 @@ export const getClassTrends = async (
         .eq('target_dept', dept)
         .eq('target_year', year)
         .eq('target_section', section)
-        .gte('date', startDate.toISOString().split('T')[0])
-        .lte('date', endDate.toISOString().split('T')[0])
+        .gte('date', getSessionDate(startDate))
+        .lte('date', getSessionDate(endDate))
         .order('date');
 
     if (error) return [];
@@ -596,8 +834,13 @@ export const getCurrentSemester = async (): Promise<string | null> => {
 export default {
   getClassStudents,
   getWatchlist,
+  getRemainingSessions,
+  getSubjectMatrix,
+  getStudentSubjects,
+  exportSubjectMatrixCsv,
   getKeyPeriodAttendance,
   getAllPeriodAttendance,
+  getProxyFlags,
   checkPermissionOverlap,
   addPermission,
   getStudentByRollNo,
@@ -0,0 +1,166 @@
+/**
+ * Parent Notification Service - bulk low-attendance messages to parents
+ *
+ * Messages go out through the notify-parents edge function, which records
+ * each one in parent_notifications. Here: building the template values for
+ * a student, sending a campaign, and who was contacted this (campus) month.
+ */
+
+import { supabase } from '../../../config/supabase';
+import { getStorage } from '../../../services/offline/storage';
+import { getSessionDate } from '../../../shared/campusTime';
+import type { AttendancePolicy } from '../../../shared/attendancePolicy';
+import {
+  DEFAULT_PARENT_TEMPLATES,
+  type ParentMessageChannel,
+  type ParentMessageVars,
+} from '../../../shared/parentMessages';
+import { getStudentSubjects, type StudentAggregate, type SubjectMatrix } from './inchargeService';
+
+const TEMPLATES_CACHE_KEY = '@attend_me/parent_message_templates';
+
+// 'simulated': the server runs the stub provider and nothing was sent
+export type ParentNotificationStatus = 'queued' | 'sent' | 'simulated' | 'delivered' | 'failed';
+
+export interface ParentContact {
+  student_id: string;
+  status: ParentNotificationStatus;
+  channel: ParentMessageChannel;
+  error: string | null;
+  queued_at: string;
+}
+
+export interface ParentNotificationResult {
+  student_id: string;
+  status: ParentNotificationStatus;
+  error: string | null;
+}
+
+export interface ParentCampaign {
+  dept: string;
+  year: number;
+  section: string;
+  channel: ParentMessageChannel;
+  template: string;
+  students: StudentAggregate[];
+  matrix: SubjectMatrix | null;
+  policy: AttendancePolicy;
+}
+
+// Latest notification per student this month; students not in the map were
+// not contacted
+export const getContactedThisMonth = async (
+  dept: string,
+  year: number,
+  section: string
+): Promise<Map<string, ParentContact>> => {
+  try {
+    const { data, error } = await supabase.rpc('get_parent_notification_status', {
+      p_dept: dept,
+      p_year: year,
+      p_section: section,
+      p_month: getSessionDate(),
+    });
+
+    if (error) throw error;
+
+    return new Map((data || []).map((row: ParentContact) => [row.student_id, row]));
+  } catch (error) {
+    console.error('[ParentNotificationService] Error fetching contacted parents:', error);
+    throw error;
+  }
+};
+
+// Template values for one student. Subject shortfalls need the subject
+// matrix and classes needed the watchlist projection; without them those
+// lines are left out of the message.
+export const buildParentMessageVars = (
+  student: StudentAggregate,
+  matrix: SubjectMatrix | null,
+  policy: AttendancePolicy
+): ParentMessageVars => {
+  const shortfalls = matrix
+    ? getStudentSubjects(matrix, student.student_id)
+        .filter(s => s.attendance_percentage < policy.warning_threshold)
+        .map(s => `${s.subject_code} ${Math.round(s.attendance_percentage)}%`)
+        .join(', ')
+    : '';
+  const needed = student.projection?.needed_for_required;
+
+  return {
+    name: student.full_name,
+    roll_no: student.roll_no,
+    percentage: String(student.attendance_percentage),
+    required: String(policy.warning_threshold),
+    classes_needed: needed != null ? String(needed) : null,
+    remaining: needed != null ? String(student.projection!.remaining_sessions) : null,
+    subject_shortfalls: shortfalls || null,
+    class: `${student.dept} ${student.year}-${student.section}`,
+  };
+};
+
+// Send a campaign. Name, roll number, class and parent number are filled in
+// by the edge function from the database.
+export const sendParentNotifications = async (
+  campaign: ParentCampaign
+): Promise<ParentNotificationResult[]> => {
+  const { dept, year, section, channel, template, students, matrix, policy } = campaign;
+
+  const { data, error } = await supabase.functions.invoke('notify-parents', {
+    body: {
+      dept,
+      year,
+      section,
+      channel,
+      template,
+      recipients: students.map(student => {
+        const { name, roll_no, class: _class, ...vars } = buildParentMessageVars(student, matrix, policy);
+        return { student_id: student.student_id, vars };
+      }),
+    },
+  });
+
+  if (error) {
+    let message = error.message;
+    // The function's own error is in the response body
+    if (error.context && typeof error.context.json === 'function') {
+      try {
+        const body = await error.context.json();
+        if (body?.error) message = body.error;
+      } catch {
+        // Keep the generic message
+      }
+    }
+    console.error('[ParentNotificationService] Error sending notifications:', message);
+    throw new Error(message);
+  }
+
+  return data?.results || [];
+};
+
+// The incharge's last edited template per channel, or the default
+export const getParentTemplates = async (): Promise<Record<ParentMessageChannel, string>> => {
+  try {
+    const cached = await getStorage().getItem(TEMPLATES_CACHE_KEY);
+    if (cached) return { ...DEFAULT_PARENT_TEMPLATES, ...JSON.parse(cached) };
+  } catch (error) {
+    console.error('[ParentNotificationService] Error reading saved templates:', error);
+  }
+  return { ...DEFAULT_PARENT_TEMPLATES };
+};
+
+export const saveParentTemplates = async (templates: Record<ParentMessageChannel, string>): Promise<void> => {
+  try {
+    await getStorage().setItem(TEMPLATES_CACHE_KEY, JSON.stringify(templates));
+  } catch (error) {
+    console.error('[ParentNotificationService] Error saving templates:', error);
+  }
+};
+
+export default {
+  getContactedThisMonth,
+  buildParentMessageVars,
+  sendParentNotifications,
+  getParentTemplates,
+  saveParentTemplates,
+};
@@ -1,2 +1,3 @@
 // Profile feature barrel export
 export { ProfileScreen } from './screens/ProfileScreen';
+export type { LogoutMode } from './screens/ProfileScreen';
@@ -31,15 +31,18 @@ import { ZenToast } from '../../../components/ZenToast';
 import { EditProfileModal } from '../components/EditProfileModal';
 import { LinearGradient } from 'expo-linear-gradient';
 import { Colors } from '../../../constants';
-import { cacheProfile, getCachedProfile, cacheTimetable, getCachedTimetable } from '../../../services/offlineService';
+import { cacheProfile, getCachedProfile, cacheTimetable, getCachedTimetable, getUnsyncedCount } from '../../../services/offlineService';
 import { useConnectionStatus } from '../../../hooks';
 import { NotificationService } from '../../../services/NotificationService';
 import { LeaveHistory } from '../components/LeaveHistory';
 import { scale, verticalScale, moderateScale, normalizeFont } from '../../../utils/responsive'; // Import responsive utils
 
+export type LogoutMode = 'keep' | 'wipe';
+
 interface ProfileScreenProps {
   userName: string;
-  onLogout: () => void;
+  // Resolves false if the user is still signed in (e.g. the wipe failed)
+  onLogout: (mode: LogoutMode) => Promise<boolean>;
 }
 
 interface MenuItem {
@@ -89,6 +92,8 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({ userName, onLogout
   const [helpModalVisible, setHelpModalVisible] = useState(false);
   const [helpTopic, setHelpTopic] = useState<string | null>(null); // Navigation state definition
   const [reportModalVisible, setReportModalVisible] = useState(false);
+  // Bumped to reset the logout slider when the logout prompt is cancelled
+  const [logoutSliderKey, setLogoutSliderKey] = useState(0);
 
   // -- Toast State --
   const [toast, setToast] = useState<{ visible: boolean; message: string; type: 'success' | 'error' | 'warning' }>({
@@ -270,6 +275,45 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({ userName, onLogout
   };
 
   // --- Actions ---
+  const resetLogoutSlider = () => setLogoutSliderKey(k => k + 1);
+
+  const logout = async (mode: LogoutMode) => {
+      if (!(await onLogout(mode))) resetLogoutSlider();
+  };
+
+  // Unsynced attendance is only ever destroyed after a second, explicit confirmation
+  const confirmWipe = async () => {
+      const unsynced = await getUnsyncedCount();
+      if (unsynced === 0) {
+          logout('wipe');
+          return;
+      }
+      Alert.alert(
+          'Delete unsynced attendance?',
+          unsynced === null
+              ? 'Offline data on this phone could not be checked, so it may hold attendance that has not been uploaded. Wiping deletes it permanently.'
+              : `${unsynced} attendance record(s) on this phone have not been uploaded. Wiping deletes them permanently.`,
+          [
+              { text: 'Cancel', style: 'cancel', onPress: resetLogoutSlider },
+              { text: 'Delete & Wipe', style: 'destructive', onPress: () => logout('wipe') },
+          ],
+          { cancelable: true, onDismiss: resetLogoutSlider }
+      );
+  };
+
+  const handleLogout = () => {
+      Alert.alert(
+          'Log out',
+          'Keep offline data: rosters and unsynced attendance stay on this phone (encrypted) and upload after you log in again.\n\nWipe this device: removes all offline data. Use this before handing the phone to someone else.',
+          [
+              { text: 'Cancel', style: 'cancel', onPress: resetLogoutSlider },
+              { text: 'Wipe this device', style: 'destructive', onPress: confirmWipe },
+              { text: 'Keep offline data', onPress: () => logout('keep') },
+          ],
+          { cancelable: true, onDismiss: resetLogoutSlider }
+      );
+  };
+
   const handleApplyLeave = async () => {
       if (!leaveReason.trim()) {
           showZenToast('Please enter a reason.', 'warning');
@@ -544,7 +588,7 @@ export const ProfileScreen: React.FC<ProfileScreenProps> = ({ userName, onLogout
         ])}
 
         <View style={styles.logoutContainer}>
-            <SlideToLogout onLogout={onLogout} />
+            <SlideToLogout key={logoutSliderKey} onLogout={handleLogout} />
         </View>
 
         <Text style={[styles.versionText, { color: isDark ? 'rgba(255,255,255,0.6)' : 'rgba(0,0,0,0.5)' }]}>MRCE Attend-Me v1.0.3</Text>
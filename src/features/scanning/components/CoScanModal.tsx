@@ -0,0 +1,215 @@
+/**
+ * CoScanModal - Multi-scanner session sheet
+ * Join code to read out plus the live list of contributing devices
+ */
+
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { BlurView } from 'expo-blur';
+import { useTheme } from '../../../contexts';
+import { scale, verticalScale, moderateScale, normalizeFont } from '../../../utils/responsive';
+import {
+  isContributorConnected,
+  type CoScanSession,
+  type CoScanContributor,
+} from '../../../services/coScanService';
+
+interface CoScanModalProps {
+  visible: boolean;
+  onClose: () => void;
+  coScan: CoScanSession | null;
+  contributors: CoScanContributor[];
+  // This device (highlighted in the list)
+  deviceId?: string | null;
+  onLeave?: () => void;
+}
+
+export const CoScanModal: React.FC<CoScanModalProps> = ({
+  visible,
+  onClose,
+  coScan,
+  contributors,
+  deviceId,
+  onLeave,
+}) => {
+  const { isDark } = useTheme();
+
+  const colors = {
+    modalBg: isDark ? '#1C1C1E' : '#FFFFFF',
+    titleText: isDark ? '#FFFFFF' : '#0F172A',
+    labelText: isDark ? 'rgba(255,255,255,0.6)' : '#6B7280',
+    codeBg: isDark ? '#2C2C2E' : '#F3F4F6',
+    cancelBg: isDark ? '#2C2C2E' : '#F3F4F6',
+    cancelText: isDark ? 'rgba(255,255,255,0.7)' : '#6B7280',
+    accent: isDark ? '#3DDC97' : '#059669',
+    success: '#34C759',
+    muted: isDark ? 'rgba(255,255,255,0.35)' : '#9CA3AF',
+    danger: '#FF6B6B',
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <TouchableWithoutFeedback onPress={onClose}>
+        <View style={styles.overlay}>
+          <BlurView intensity={40} style={StyleSheet.absoluteFill} tint="dark" />
+          <TouchableWithoutFeedback>
+            <View style={[styles.modalContainer, { backgroundColor: colors.modalBg }]}>
+              <View style={styles.header}>
+                <Ionicons name="people" size={normalizeFont(26)} color={colors.accent} />
+                <Text style={[styles.title, { color: colors.titleText }]}>
+                  Co-Scan
+                </Text>
+              </View>
+
+              <Text style={[styles.hint, { color: colors.labelText }]}>
+                {coScan?.isOwner
+                  ? 'Other faculty can join from Home → Join Co-Scan with this code.'
+                  : 'You are contributing to another faculty\'s session.'}
+              </Text>
+              <View style={[styles.codeBox, { backgroundColor: colors.codeBg }]}>
+                <Text style={[styles.codeText, { color: colors.accent }]}>{coScan?.joinCode || '------'}</Text>
+              </View>
+
+              <Text style={[styles.sectionLabel, { color: colors.labelText }]}>
+                SCANNERS ({contributors.length})
+              </Text>
+              {contributors.map((contributor, index) => {
+                const connected = isContributorConnected(contributor);
+                const isThisDevice = contributor.deviceId === deviceId;
+                return (
+                  <View key={contributor.deviceId} style={styles.contributorRow}>
+                    <View style={[styles.dot, { backgroundColor: connected ? colors.success : colors.muted }]} />
+                    <Text style={[styles.contributorName, { color: colors.titleText }]}>
+                      {isThisDevice ? 'This phone' : `Scanner ${index + 1}`}
+                    </Text>
+                    <Text style={[styles.contributorStatus, { color: colors.labelText }]}>
+                      {contributor.submittedAt
+                        ? `Submitted · ${contributor.presentCount} present`
+                        : connected ? 'Scanning' : 'Disconnected'}
+                    </Text>
+                  </View>
+                );
+              })}
+
+              {onLeave && !coScan?.isOwner && (
+                <TouchableOpacity style={styles.leaveButton} onPress={onLeave}>
+                  <Text style={[styles.leaveButtonText, { color: colors.danger }]}>Leave Co-Scan</Text>
+                </TouchableOpacity>
+              )}
+
+              <TouchableOpacity
+                style={[styles.cancelButton, { backgroundColor: colors.cancelBg }]}
+                onPress={onClose}
+              >
+                <Text style={[styles.cancelButtonText, { color: colors.cancelText }]}>Done</Text>
+              </TouchableOpacity>
+            </View>
+          </TouchableWithoutFeedback>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: scale(24),
+  },
+  modalContainer: {
+    width: '100%',
+    maxWidth: scale(360),
+    borderRadius: moderateScale(24),
+    padding: scale(24),
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: verticalScale(16) },
+    shadowOpacity: 0.35,
+    shadowRadius: moderateScale(32),
+    elevation: 20,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: scale(10),
+    marginBottom: verticalScale(12),
+  },
+  title: {
+    fontSize: normalizeFont(22),
+    fontWeight: '700',
+    letterSpacing: -0.3,
+  },
+  hint: {
+    fontSize: normalizeFont(13),
+    fontWeight: '500',
+    lineHeight: verticalScale(18),
+    marginBottom: verticalScale(16),
+  },
+  codeBox: {
+    alignItems: 'center',
+    paddingVertical: verticalScale(16),
+    borderRadius: moderateScale(14),
+    marginBottom: verticalScale(20),
+  },
+  codeText: {
+    fontSize: normalizeFont(32),
+    fontWeight: '800',
+    letterSpacing: 8,
+  },
+  sectionLabel: {
+    fontSize: normalizeFont(12),
+    fontWeight: '700',
+    letterSpacing: 0.5,
+    marginBottom: verticalScale(8),
+  },
+  contributorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: scale(10),
+    paddingVertical: verticalScale(8),
+  },
+  dot: {
+    width: scale(8),
+    height: scale(8),
+    borderRadius: moderateScale(4),
+  },
+  contributorName: {
+    flex: 1,
+    fontSize: normalizeFont(14),
+    fontWeight: '600',
+  },
+  contributorStatus: {
+    fontSize: normalizeFont(12),
+    fontWeight: '500',
+  },
+  leaveButton: {
+    alignItems: 'center',
+    paddingVertical: verticalScale(12),
+    marginTop: verticalScale(8),
+  },
+  leaveButtonText: {
+    fontSize: normalizeFont(14),
+    fontWeight: '600',
+  },
+  cancelButton: {
+    paddingVertical: verticalScale(14),
+    alignItems: 'center',
+    borderRadius: moderateScale(14),
+    marginTop: verticalScale(12),
+  },
+  cancelButtonText: {
+    fontSize: normalizeFont(15),
+    fontWeight: '600',
+  },
+});
+
+export default CoScanModal;
@@ -21,6 +21,8 @@ interface HeadcountModalProps {
   visible: boolean;
   detectedCount: number;
   absentCount: number;
+  // Students flagged by proxy-phone detection (roll numbers)
+  suspiciousStudents?: string[];
   onSubmit: () => void;
   onCancel: () => void;
   onRescan: () => void;
@@ -30,6 +32,7 @@ export const HeadcountModal: React.FC<HeadcountModalProps> = ({
   visible,
   detectedCount,
   absentCount,
+  suspiciousStudents = [],
   onSubmit,
   onCancel,
   onRescan,
@@ -89,6 +92,16 @@ export const HeadcountModal: React.FC<HeadcountModalProps> = ({
                 </View>
               </View>
 
+              {/* Proxy-phone flags */}
+              {suspiciousStudents.length > 0 && (
+                <View style={[styles.warningBox, { backgroundColor: colors.dangerBg }]}>
+                  <Ionicons name="warning" size={normalizeFont(20)} color={colors.danger} />
+                  <Text style={[styles.warningText, { color: colors.danger }]}>
+                    {suspiciousStudents.length} flagged as possible proxy ({suspiciousStudents.join(', ')}). They were not auto-marked and will be sent to the class incharge for review.
+                  </Text>
+                </View>
+              )}
+
               {/* Warning */}
               <View style={[styles.warningBox, { backgroundColor: colors.warningBg }]}>
                 <Ionicons name="information-circle" size={normalizeFont(20)} color="#F59E0B" />
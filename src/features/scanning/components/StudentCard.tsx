@@ -28,6 +28,8 @@ interface StudentCardProps {
   rollNo: string;
   photoUrl?: string;
   status: StudentStatus;
+  // Proxy-phone warning shown under the roll number
+  suspicion?: string;
   onStatusChange: (newStatus: StudentStatus) => void;
 }
 
@@ -36,6 +38,7 @@ export const StudentCard: React.FC<StudentCardProps> = ({
   rollNo,
   photoUrl,
   status,
+  suspicion,
   onStatusChange,
 }) => {
   const { isDark } = useTheme();
@@ -198,7 +201,16 @@ export const StudentCard: React.FC<StudentCardProps> = ({
           {/* Info */}
           <View style={styles.info}>
             <Text style={[styles.name, { color: textColors.name }]} numberOfLines={1}>{name}</Text>
-            <Text style={[styles.rollNo, { color: textColors.rollNo }]}>{rollNo}</Text>
+            {suspicion ? (
+              <View style={styles.suspicionRow}>
+                <Ionicons name="warning" size={normalizeFont(10)} color="#FF9F0A" />
+                <Text style={[styles.rollNo, styles.suspicionText]} numberOfLines={1}>
+                  {rollNo} · {suspicion}
+                </Text>
+              </View>
+            ) : (
+              <Text style={[styles.rollNo, { color: textColors.rollNo }]}>{rollNo}</Text>
+            )}
           </View>
 
           {/* Status Indicator / Tag */}
@@ -287,6 +299,15 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     marginTop: verticalScale(1),
   },
+  suspicionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: scale(4),
+  },
+  suspicionText: {
+    color: '#FF9F0A',
+    flexShrink: 1,
+  },
   statusIndicator: {
     width: scale(20),
     height: scale(20),
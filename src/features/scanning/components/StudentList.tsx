@@ -15,6 +15,7 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { StudentCard } from './StudentCard';
 import { useTheme } from '../../../contexts';
+import { SUSPICION_LABELS, type SuspicionReason } from '../../../services/bleService';
 import { scale, verticalScale, moderateScale, normalizeFont } from '../../../utils/responsive';
 
 type StudentStatus = 'pending' | 'present' | 'absent' | 'od' | 'leave';
@@ -25,6 +26,7 @@ interface Student {
   rollNo: string;
   status: StudentStatus;
   detectedAt?: number;
+  proxyFlags?: string[];
 }
 
 interface StudentListProps {
@@ -54,10 +56,16 @@ export const StudentList: React.FC<StudentListProps> = ({
     accent: '#64D2A4',
     success: '#34C759',
     danger: '#FF6B6B',
+    warning: '#FF9F0A',
   };
 
-  // Split students into verified and pending
-  const { verified, pending } = useMemo(() => {
+  const describeFlags = (flags?: string[]) => {
+    if (!flags?.length) return undefined;
+    return flags.map(f => SUSPICION_LABELS[f as SuspicionReason] || f).join(', ');
+  };
+
+  // Split students into needs-review, verified and pending
+  const { review, verified, pending } = useMemo(() => {
     const filtered = searchQuery
       ? students.filter(s => 
           s.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -65,15 +73,20 @@ export const StudentList: React.FC<StudentListProps> = ({
         )
       : students;
 
+    // Flagged students stay here until the faculty marks them by hand
+    const reviewList = filtered
+      .filter(s => s.status === 'pending' && s.proxyFlags?.length)
+      .sort((a, b) => a.rollNo.localeCompare(b.rollNo));
+
     const verifiedList = filtered
       .filter(s => s.status === 'present' || s.status === 'od')
       .sort((a, b) => (b.detectedAt || 0) - (a.detectedAt || 0));
 
     const pendingList = filtered
-      .filter(s => s.status === 'pending' || s.status === 'absent' || s.status === 'leave')
+      .filter(s => (s.status === 'pending' && !s.proxyFlags?.length) || s.status === 'absent' || s.status === 'leave')
       .sort((a, b) => a.rollNo.localeCompare(b.rollNo));
 
-    return { verified: verifiedList, pending: pendingList };
+    return { review: reviewList, verified: verifiedList, pending: pendingList };
   }, [students, searchQuery]);
 
   // Stats
@@ -142,10 +155,32 @@ export const StudentList: React.FC<StudentListProps> = ({
         showsVerticalScrollIndicator={false}
         contentContainerStyle={[styles.listContent, { paddingBottom: verticalScale(100) }]} // Add padding strictly to container
       >
+        {/* Block 0: Needs review (possible proxy phones) */}
+        {review.length > 0 && (
+          <>
+            <View style={styles.sectionHeader}>
+              <View style={[styles.sectionDot, { backgroundColor: colors.warning }]} />
+              <Text style={[styles.sectionTitle, { color: colors.warning }]}>
+                NEEDS REVIEW · {review.length}
+              </Text>
+            </View>
+            {review.map(student => (
+              <StudentCard
+                key={student.id}
+                name={student.name}
+                rollNo={student.rollNo}
+                status={student.status}
+                suspicion={describeFlags(student.proxyFlags)}
+                onStatusChange={(newStatus) => onStatusChange(student.id, newStatus)}
+              />
+            ))}
+          </>
+        )}
+
         {/* Block A: Verified */}
         {verified.length > 0 && (
           <>
-            <View style={styles.sectionHeader}>
+            <View style={[styles.sectionHeader, review.length > 0 && { marginTop: verticalScale(16) }]}>
               <View style={[styles.sectionDot, { backgroundColor: colors.success }]} />
               <Text style={[styles.sectionTitle, { color: colors.sectionText }]}>
                 VERIFIED · {verified.length}
@@ -157,6 +192,7 @@ export const StudentList: React.FC<StudentListProps> = ({
                 name={student.name}
                 rollNo={student.rollNo}
                 status={student.status}
+                suspicion={describeFlags(student.proxyFlags)}
                 onStatusChange={(newStatus) => onStatusChange(student.id, newStatus)}
               />
             ))}
@@ -166,7 +202,7 @@ export const StudentList: React.FC<StudentListProps> = ({
         {/* Block B: Pending */}
         {pending.length > 0 && (
           <>
-            <View style={[styles.sectionHeader, verified.length > 0 && { marginTop: verticalScale(16) }]}>
+            <View style={[styles.sectionHeader, (review.length > 0 || verified.length > 0) && { marginTop: verticalScale(16) }]}>
               <View style={[styles.sectionDot, { backgroundColor: colors.sectionText }]} />
               <Text style={[styles.sectionTitle, { color: colors.sectionText }]}>
                 PENDING · {pending.length}
@@ -178,6 +214,7 @@ export const StudentList: React.FC<StudentListProps> = ({
                 name={student.name}
                 rollNo={student.rollNo}
                 status={student.status}
+                suspicion={describeFlags(student.proxyFlags)}
                 onStatusChange={(newStatus) => onStatusChange(student.id, newStatus)}
               />
             ))}
@@ -7,3 +7,4 @@ export { useBLEScanner } from './useBLEScanner';
 export { useAutoPilot } from './useAutoPilot';
 export { useAttendance, type AttendanceStudent } from './useAttendance';
 export { useBLE } from './useBLE';
+export { useCoScan } from './useCoScan';
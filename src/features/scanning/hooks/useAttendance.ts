@@ -7,10 +7,9 @@
  * - Offline support with fallback to cached roster
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { 
   getStudentsForClass, 
-  createAttendanceSession, 
   submitAttendance,
   getClassPermissions
 } from '../../../services/dashboardService';
@@ -21,9 +20,22 @@ import {
   isCacheValid,
   saveDraftAttendance,
   getDraftAttendance,
-  clearDraftAttendance
+  clearDraftAttendance,
+  createScanSessionKey,
+  recordScanEvent,
+  uploadScanEvents,
+  purgeOldScanEvents,
+  fetchSessionSnapshot,
+  getCachedPermissions,
+  type ScanEvent,
+  type DraftIdentity,
+  type PendingSubmission,
+  type SessionSnapshot,
 } from '../../../services/offlineService';
+import { getPunctualityConfig, classifyPunctuality } from '../../../services/punctualityService';
+import { getDeviceId, mergeCoScanSubmission } from '../../../services/coScanService';
 import { useNetworkStatus } from '../../../hooks/useNetworkStatus';
+import { getSessionDate } from '../../../shared/campusTime';
 import createLogger from '../../../utils/logger';
 
 const log = createLogger('useAttendance');
@@ -34,11 +46,27 @@ export interface AttendanceStudent {
   rollNo: string;
   photoUrl?: string;
   bleUUID?: string;
+  beaconSecret?: string;
   status: 'pending' | 'present' | 'absent' | 'od' | 'leave';
   detectedAt?: number;
+  // Rotating token that matched this student (verified again by the server)
+  beaconToken?: string;
+  tokenWindow?: number;
+  // Proxy-phone flags raised during the scan (kept even if marked manually)
+  proxyFlags?: string[];
+  // Scanner sightings within the period (epoch ms)
+  firstSeenAt?: number;
+  lastSeenAt?: number;
   batch?: number | null;
 }
 
+export interface DetectionEvidence {
+  token?: string;
+  tokenWindow?: number;
+  // When the scanner saw the student (epoch ms)
+  seenAt?: number;
+}
+
 // Re-export ClassData if needed or define locally
 export 
 
@@ -54,14 +82,30 @@ interface ClassData {
   target_year: number;
   target_section: string;
   batch?: number | null;
+  // Period times ("HH:MM") - used for late / left-early classification
+  start_time?: string;
+  end_time?: string;
   // Substitution tracking
   isSubstitute?: boolean;
   originalFacultyId?: string | null;
 }
 
+// Class details as stored with a queued submission
+export const toQueuedClassData = (classData: ClassData): PendingSubmission['classData'] => ({
+  slotId: String(classData.slot_id || '0'),
+  subjectName: classData.subject?.name || 'Unknown',
+  subjectId: classData.subject?.id,
+  dept: classData.target_dept,
+  year: classData.target_year,
+  sectionLetter: classData.target_section,
+  section: `${classData.target_dept}-${classData.target_year}-${classData.target_section}`,
+});
+
 interface UseAttendanceOptions {
   classData: ClassData | null;
   batchOverride?: 'full' | null; // When 'full', ignore classData.batch and load all students
+  // Co-scan this device contributes to (submissions are merged, not replaced)
+  coScanId?: string | null;
 }
 
 interface UseAttendanceReturn {
@@ -73,20 +117,66 @@ interface UseAttendanceReturn {
   absentCount: number;
   pendingCount: number;
   totalCount: number;
-  updateStudentStatus: (studentId: string, status: 'pending' | 'present' | 'absent' | 'od' | 'leave') => void;
+  updateStudentStatus: (studentId: string, status: 'pending' | 'present' | 'absent' | 'od' | 'leave', evidence?: DetectionEvidence) => void;
+  // Flag a possible proxy: reverts an auto-marked present back to pending
+  flagStudent: (studentId: string, reasons: string[]) => void;
+  // Record that a detected student is still in range
+  markSeen: (studentId: string, at: number) => void;
   submitAttendance: () => Promise<{ success: boolean; error: string | null; queued?: boolean }>;
   refreshStudents: () => Promise<void>;
   isOfflineMode: boolean;
+  // Append to this scan session's local event log
+  logScanEvent: (event: Omit<ScanEvent, 'at'>) => void;
+  // Identity of this scan session's event log
+  scanSessionKey: string;
+  // Record that the scanner is running (the first call counts); lateness is
+  // only judged when the scan began before the grace period ended
+  markScanStarted: () => void;
+  scanStartedAt: number | null;
+  // Key of this class session's saved draft
+  draftIdentity: DraftIdentity | null;
 }
 
-export function useAttendance({ classData, batchOverride }: UseAttendanceOptions): UseAttendanceReturn {
+export function useAttendance({ classData, batchOverride, coScanId }: UseAttendanceOptions): UseAttendanceReturn {
   const [students, setStudents] = useState<AttendanceStudent[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isOfflineMode, setIsOfflineMode] = useState(false);
+  const [scanStartedAt, setScanStartedAt] = useState<number | null>(null);
   
   const { isOnline } = useNetworkStatus();
 
+  // Identity of this scan session's event log (uploaded on submit)
+  const scanSessionKeyRef = useRef<string>(createScanSessionKey());
+
+  // Server session this scan starts from (undefined = unknown, e.g. offline)
+  const baseSnapshotRef = useRef<SessionSnapshot | null | undefined>(undefined);
+
+  // Identity of this class session's draft (null until the class is known)
+  const draftIdentity = useMemo<DraftIdentity | null>(() => {
+    if (!classData?.slot_id) return null;
+    return {
+      date: getSessionDate(),
+      slotId: String(classData.slot_id),
+      dept: classData.target_dept,
+      year: classData.target_year,
+      section: classData.target_section,
+      batch: batchOverride === 'full' ? null : (classData.batch ?? null),
+    };
+  }, [classData, batchOverride]);
+
+  useEffect(() => {
+    purgeOldScanEvents();
+  }, []);
+
+  const markScanStarted = useCallback(() => {
+    setScanStartedAt(prev => prev ?? Date.now());
+  }, []);
+
+  const logScanEvent = useCallback((event: Omit<ScanEvent, 'at'>) => {
+    recordScanEvent(scanSessionKeyRef.current, { ...event, at: Date.now() });
+  }, []);
+
   // Derived counts
   const presentCount = students.filter(s => s.status === 'present' || s.status === 'od').length;
   const odCount = students.filter(s => s.status === 'od').length;
@@ -137,6 +227,7 @@ export function useAttendance({ classData, batchOverride }: UseAttendanceOptions
               name: s.full_name,
               rollNo: s.roll_no,
               bleUUID: s.bluetooth_uuid || undefined,
+              beaconSecret: s.beacon_secret || undefined,
               status: initialStatus,
               photoUrl: undefined,
               batch: s.batch,
@@ -144,6 +235,16 @@ export function useAttendance({ classData, batchOverride }: UseAttendanceOptions
           });
           
           setIsOfflineMode(false);
+
+          // Remembered with a queued submission so sync can detect server edits
+          try {
+            const { data: { user } } = await supabase.auth.getUser();
+            if (user && classData.slot_id) {
+              baseSnapshotRef.current = await fetchSessionSnapshot(user.id, getSessionDate(), String(classData.slot_id));
+            }
+          } catch (snapshotErr) {
+            log.warn('Could not snapshot existing session:', snapshotErr);
+          }
         } catch (onlineErr) {
           if (signal?.aborted) return;
           log.info('Online fetch failed, trying cache');
@@ -162,12 +263,15 @@ export function useAttendance({ classData, batchOverride }: UseAttendanceOptions
         
         if (cachedRoster && (await isCacheValid())) {
           log.info('Using cached roster');
+          // Same date / OD time-window rules as the server's auto-apply trigger
+          const permissionMap = await getCachedPermissions(cachedRoster.students.map(s => s.id));
           mappedStudents = cachedRoster.students.map(s => ({
             id: s.id,
             name: s.name,
             rollNo: s.rollNo,
             bleUUID: s.bluetoothUUID || undefined,
-            status: 'pending' as const, 
+            beaconSecret: s.beaconSecret || undefined,
+            status: permissionMap.get(s.id) ?? ('pending' as const),
             photoUrl: undefined,
             batch: s.batch,
           }));
@@ -190,21 +294,27 @@ export function useAttendance({ classData, batchOverride }: UseAttendanceOptions
       }
 
         // Check for saved draft (offline cache for active session)
-        if (classData.slot_id) {
-            const draft = await getDraftAttendance(classData.slot_id);
-            if (draft && draft.length > 0) {
-                log.info('Loaded draft attendance for slot:', classData.slot_id);
+        if (draftIdentity) {
+            const draft = await getDraftAttendance(draftIdentity);
+            if (draft && draft.students.length > 0) {
+                log.info('Loaded draft attendance:', draft.key);
                 // Merge draft statuses
-                const draftMap = new Map(draft.map((d: any) => [d.id, d]));
+                const draftMap = new Map(draft.students.map(d => [d.id, d]));
                 mappedStudents = mappedStudents.map(s => {
                     const draftStudent = draftMap.get(s.id);
                     if (draftStudent && draftStudent.status !== 'pending') {
                         return {
                             ...s,
                             status: draftStudent.status,
-                            detectedAt: draftStudent.timestamp
+                            detectedAt: draftStudent.timestamp,
+                            proxyFlags: draftStudent.proxyFlags,
+                            firstSeenAt: draftStudent.firstSeenAt,
+                            lastSeenAt: draftStudent.lastSeenAt,
                         };
                     }
+                    if (draftStudent?.proxyFlags?.length) {
+                        return { ...s, proxyFlags: draftStudent.proxyFlags };
+                    }
                     return s;
                 });
             }
@@ -222,7 +332,7 @@ export function useAttendance({ classData, batchOverride }: UseAttendanceOptions
         setLoading(false);
       }
     }
-  }, [classData, batchOverride, isOnline]);
+  }, [classData, batchOverride, isOnline, draftIdentity]);
 
   // Fetch on mount and when class/batch changes
   useEffect(() => {
@@ -239,24 +349,61 @@ export function useAttendance({ classData, batchOverride }: UseAttendanceOptions
   }, [isOnline]);
 
   // Update a single student's status
-  const updateStudentStatus = useCallback((studentId: string, status: 'pending' | 'present' | 'absent' | 'od' | 'leave') => {
+  const updateStudentStatus = useCallback((studentId: string, status: 'pending' | 'present' | 'absent' | 'od' | 'leave', evidence?: DetectionEvidence) => {
     setStudents(prev => prev.map(s => 
       s.id === studentId 
-        ? { ...s, status, detectedAt: status === 'present' ? Date.now() : undefined }
+        ? {
+            ...s,
+            status,
+            detectedAt: status === 'present' ? Date.now() : undefined,
+            beaconToken: evidence?.token,
+            tokenWindow: evidence?.tokenWindow,
+            firstSeenAt: evidence?.seenAt ? (s.firstSeenAt ?? evidence.seenAt) : s.firstSeenAt,
+            lastSeenAt: evidence?.seenAt ?? s.lastSeenAt,
+          }
         : s
     ));
   }, []);
 
+  const markSeen = useCallback((studentId: string, at: number) => {
+    setStudents(prev => prev.map(s =>
+      s.id === studentId && at > (s.lastSeenAt || 0) ? { ...s, lastSeenAt: at } : s
+    ));
+  }, []);
+
+  // Flag a student as a possible proxy (shared phone / device hopping)
+  const flagStudent = useCallback((studentId: string, reasons: string[]) => {
+    setStudents(prev => prev.map(s => {
+      if (s.id !== studentId) return s;
+      const proxyFlags = Array.from(new Set([...(s.proxyFlags || []), ...reasons]));
+      return s.status === 'present'
+        ? { ...s, proxyFlags, status: 'pending', detectedAt: undefined, beaconToken: undefined, tokenWindow: undefined }
+        : { ...s, proxyFlags };
+    }));
+  }, []);
+
   // Auto-save draft when students change (Debounced to avoid excessive writes)
   useEffect(() => {
-      if (!classData?.slot_id || loading || students.length === 0) return;
+      if (!classData || !draftIdentity || loading || students.length === 0) return;
 
       const timeoutId = setTimeout(() => {
-          saveDraftAttendance(classData.slot_id!, students);
+          saveDraftAttendance(
+              draftIdentity,
+              // Resuming reopens the same batch, even if it was widened to the full class
+              { subjectName: classData.subject?.name || 'Class', classData: { ...classData, batch: draftIdentity.batch } },
+              students.map(s => ({
+                  id: s.id,
+                  status: s.status,
+                  timestamp: s.detectedAt,
+                  proxyFlags: s.proxyFlags,
+                  firstSeenAt: s.firstSeenAt,
+                  lastSeenAt: s.lastSeenAt,
+              }))
+          );
       }, 1000); // 1 second debounce
 
       return () => clearTimeout(timeoutId);
-  }, [students, classData?.slot_id, loading]);
+  }, [students, classData, draftIdentity, loading]);
 
   // Submit attendance to Supabase (or queue if offline)
   const handleSubmitAttendance = useCallback(async (): Promise<{ success: boolean; error: string | null; queued?: boolean }> => {
@@ -264,35 +411,48 @@ export function useAttendance({ classData, batchOverride }: UseAttendanceOptions
       return { success: false, error: 'Missing class data' };
     }
 
+    // Late / left-early from scanner sightings (present students only)
+    const punctuality = classifyPunctuality(
+      students.filter(s => s.status === 'present'),
+      { startTime: classData.start_time, endTime: classData.end_time, scanStartedAt: scanStartedAt ?? undefined },
+      await getPunctualityConfig()
+    );
+
     // Prepare attendance records
     const records = students.map(s => ({
       studentId: s.id,
       status: s.status === 'pending' ? 'absent' as const : s.status,
+      detectedAt: s.detectedAt ? new Date(s.detectedAt).toISOString() : undefined,
+      beaconToken: s.beaconToken,
+      tokenWindow: s.tokenWindow,
+      proxyFlags: s.proxyFlags,
+      firstSeenAt: s.firstSeenAt ? new Date(s.firstSeenAt).toISOString() : undefined,
+      lastSeenAt: s.lastSeenAt ? new Date(s.lastSeenAt).toISOString() : undefined,
+      isLate: punctuality.get(s)?.isLate,
+      leftEarly: punctuality.get(s)?.leftEarly,
     }));
 
+    const scanSessionKey = scanSessionKeyRef.current;
+    await recordScanEvent(scanSessionKey, { type: 'submit', at: Date.now() });
+
     // If offline, queue the submission
     if (!isOnline || isOfflineMode) {
       try {
         await queueSubmission({
-          classData: {
-            slotId: String(classData.slot_id || '0'),
-            subjectName: classData.subject?.name || 'Unknown',
-            subjectId: classData.subject?.id, 
-            dept: classData.target_dept,
-            year: classData.target_year,
-            sectionLetter: classData.target_section,
-            section: `${classData.target_dept}-${classData.target_year}-${classData.target_section}`,
-          },
+          classData: toQueuedClassData(classData),
           attendance: records,
           submittedAt: new Date().toISOString(),
           id: `manual-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
           retryCount: 0,
+          scanSessionKey,
+          base: baseSnapshotRef.current,
+          ...(coScanId ? { coScanId, deviceId: await getDeviceId() } : {}),
         });
         
         log.info('Submission queued for later sync');
         // Clear draft after queuing
-        if (classData.slot_id) {
-            await clearDraftAttendance(classData.slot_id);
+        if (draftIdentity) {
+            await clearDraftAttendance(draftIdentity);
         }
         return { success: true, error: null, queued: true };
       } catch (err) {
@@ -301,6 +461,17 @@ export function useAttendance({ classData, batchOverride }: UseAttendanceOptions
       }
     }
 
+    // Co-scan: merge into the shared session
+    if (coScanId) {
+      const { sessionId, error: mergeError } = await mergeCoScanSubmission(coScanId, records, totalCount);
+      if (mergeError || !sessionId) {
+        return { success: false, error: mergeError || 'Failed to merge co-scan' };
+      }
+      await uploadScanEvents(scanSessionKey, sessionId);
+      if (draftIdentity) await clearDraftAttendance(draftIdentity);
+      return { success: true, error: null };
+    }
+
     // Online submission
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -312,36 +483,30 @@ export function useAttendance({ classData, batchOverride }: UseAttendanceOptions
         return { success: false, error: 'Missing subject ID' };
       }
 
-      const { sessionId, error: sessionError } = await createAttendanceSession(
-        user.id,
-        classData.subject.id,
-        classData.slot_id,
-        classData.target_dept,
-        classData.target_year,
-        classData.target_section,
-        totalCount,
-        classData.batch,
-        classData.isSubstitute || false,
-        classData.originalFacultyId || null
-      );
-
-      if (sessionError || !sessionId) {
-        return { success: false, error: sessionError || 'Failed to create session' };
-      }
-
-      const { success, error: submitError } = await submitAttendance(
-        sessionId,
-        user.id,
-        records
-      );
-
-      if (!success) {
+      const { success, error: submitError, sessionId } = await submitAttendance({
+        clientId: `online-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        subjectId: classData.subject.id,
+        slotId: classData.slot_id,
+        date: getSessionDate(),
+        targetDept: classData.target_dept,
+        targetYear: classData.target_year,
+        targetSection: classData.target_section,
+        batch: classData.batch,
+        totalStudents: totalCount,
+        isSubstitute: classData.isSubstitute || false,
+        originalFacultyId: classData.originalFacultyId || null,
+        records,
+      });
+
+      if (!success || !sessionId) {
         return { success: false, error: submitError || 'Failed to submit' };
       }
 
+      await uploadScanEvents(scanSessionKey, sessionId);
+
       // Clear draft after successful submission
-      if (classData.slot_id) {
-          await clearDraftAttendance(classData.slot_id);
+      if (draftIdentity) {
+          await clearDraftAttendance(draftIdentity);
       }
 
       return { success: true, error: null };
@@ -349,7 +514,7 @@ export function useAttendance({ classData, batchOverride }: UseAttendanceOptions
       log.error('Submit error:', err);
       return { success: false, error: 'Submission failed' };
     }
-  }, [classData, students, totalCount, isOnline, isOfflineMode]);
+  }, [classData, students, totalCount, isOnline, isOfflineMode, coScanId, draftIdentity, scanStartedAt]);
 
   return {
     students,
@@ -361,9 +526,16 @@ export function useAttendance({ classData, batchOverride }: UseAttendanceOptions
     pendingCount,
     totalCount,
     updateStudentStatus,
+    flagStudent,
+    markSeen,
     submitAttendance: handleSubmitAttendance,
     refreshStudents: fetchStudents,
     isOfflineMode,
+    logScanEvent,
+    scanSessionKey: scanSessionKeyRef.current,
+    draftIdentity,
+    markScanStarted,
+    scanStartedAt,
   };
 }
 
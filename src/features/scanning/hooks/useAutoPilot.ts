@@ -1,38 +1,60 @@
 /**
  * useAutoPilot - Background scanning mode until class ends
+ *
+ * Thin React wrapper over autoPilotService: the service owns the scanner,
+ * the foreground-service task and the final submission, so scanning keeps
+ * going with the screen locked. This hook mirrors its state for the UI and
+ * forwards detections back into the attendance list while mounted.
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { AppState, AppStateStatus } from 'react-native';
+import {
+  startAutoPilot,
+  stopAutoPilot,
+  resumeAutoPilot,
+  getAutoPilotSession,
+  subscribeAutoPilot,
+  type AutoPilotEvent,
+  type AutoPilotSession,
+} from '../../../services/autoPilotService';
+import { getSessionDate, campusTimeOnDay } from '../../../shared/campusTime';
 
 interface UseAutoPilotOptions {
   endTime: string; // Format: "HH:MM"
-  onClassEnd: () => void;
+  // Called once auto-pilot has queued / submitted the attendance
+  onClassEnd: (result: Extract<AutoPilotEvent, { type: 'finished' }>) => void;
+  // Live events while the screen is mounted
+  onEvent?: (event: AutoPilotEvent) => void;
 }
 
 interface UseAutoPilotReturn {
   isAutoPilot: boolean;
-  enableAutoPilot: () => void;
-  disableAutoPilot: () => void;
-  toggleAutoPilot: () => void;
+  // False when background location was denied (scans only while the app is open)
+  isBackground: boolean;
+  enableAutoPilot: (session: Omit<AutoPilotSession, 'endsAt' | 'startedAt'>) => Promise<void>;
+  disableAutoPilot: () => Promise<AutoPilotSession | null>;
   minutesRemaining: number;
   formattedEndTime: string;
 }
 
 export const useAutoPilot = (options: UseAutoPilotOptions): UseAutoPilotReturn => {
-  const { endTime, onClassEnd } = options;
-  
+  const { endTime, onClassEnd, onEvent } = options;
+
   const [isAutoPilot, setIsAutoPilot] = useState(false);
+  const [isBackground, setIsBackground] = useState(true);
   const [minutesRemaining, setMinutesRemaining] = useState(0);
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
 
-  // Parse end time
+  // Latest callbacks without re-subscribing
+  const onClassEndRef = useRef(onClassEnd);
+  const onEventRef = useRef(onEvent);
+  onClassEndRef.current = onClassEnd;
+  onEventRef.current = onEvent;
+
+  // Period end on today's campus date
   const getEndTimeDate = useCallback(() => {
-    const [hours, minutes] = endTime.split(':').map(Number);
-    const now = new Date();
-    const endDate = new Date(now);
-    endDate.setHours(hours, minutes, 0, 0);
-    return endDate;
+    return new Date(campusTimeOnDay(getSessionDate(), endTime));
   }, [endTime]);
 
   // Calculate remaining minutes
@@ -46,7 +68,29 @@ export const useAutoPilot = (options: UseAutoPilotOptions): UseAutoPilotReturn =
   // Format end time for display
   const formattedEndTime = endTime;
 
-  // Update remaining time
+  // Forward service events
+  useEffect(() => {
+    return subscribeAutoPilot((event) => {
+      onEventRef.current?.(event);
+      if (event.type === 'finished') {
+        setIsAutoPilot(false);
+        onClassEndRef.current(event);
+      }
+    });
+  }, []);
+
+  // Pick up a session that survived a reload
+  useEffect(() => {
+    getAutoPilotSession().then(session => {
+      if (!session) return;
+      setIsAutoPilot(true);
+      resumeAutoPilot().then(running => {
+        if (!running) setIsAutoPilot(false);
+      });
+    });
+  }, []);
+
+  // Update remaining time (display only - the service decides when to submit)
   useEffect(() => {
     if (!isAutoPilot) {
       if (intervalRef.current) {
@@ -61,13 +105,7 @@ export const useAutoPilot = (options: UseAutoPilotOptions): UseAutoPilotReturn =
 
     // Update every minute
     intervalRef.current = setInterval(() => {
-      const remaining = calculateMinutesRemaining();
-      setMinutesRemaining(remaining);
-
-      if (remaining <= 0) {
-        onClassEnd();
-        setIsAutoPilot(false);
-      }
+      setMinutesRemaining(calculateMinutesRemaining());
     }, 60000);
 
     return () => {
@@ -75,44 +113,45 @@ export const useAutoPilot = (options: UseAutoPilotOptions): UseAutoPilotReturn =
         clearInterval(intervalRef.current);
       }
     };
-  }, [isAutoPilot, calculateMinutesRemaining, onClassEnd]);
+  }, [isAutoPilot, calculateMinutesRemaining]);
 
-  // Handle app state changes (keep wake lock concept)
+  // Returning to the app: the period may have ended while we were away
   useEffect(() => {
     if (!isAutoPilot) return;
 
     const handleAppStateChange = (nextState: AppStateStatus) => {
-      // In real implementation, would use expo-keep-awake here
-      console.log('App state changed:', nextState);
+      if (nextState !== 'active') return;
+      setMinutesRemaining(calculateMinutesRemaining());
+      resumeAutoPilot().then(running => {
+        if (!running) setIsAutoPilot(false);
+      });
     };
 
     const subscription = AppState.addEventListener('change', handleAppStateChange);
     return () => subscription.remove();
-  }, [isAutoPilot]);
+  }, [isAutoPilot, calculateMinutesRemaining]);
 
-  const enableAutoPilot = useCallback(() => {
+  const enableAutoPilot = useCallback(async (session: Omit<AutoPilotSession, 'endsAt' | 'startedAt'>) => {
     setIsAutoPilot(true);
     setMinutesRemaining(calculateMinutesRemaining());
-  }, [calculateMinutesRemaining]);
+    const { background } = await startAutoPilot({
+      ...session,
+      endsAt: getEndTimeDate().getTime(),
+      startedAt: Date.now(),
+    });
+    setIsBackground(background);
+  }, [calculateMinutesRemaining, getEndTimeDate]);
 
-  const disableAutoPilot = useCallback(() => {
+  const disableAutoPilot = useCallback(async () => {
     setIsAutoPilot(false);
+    return stopAutoPilot();
   }, []);
 
-  const toggleAutoPilot = useCallback(() => {
-    setIsAutoPilot(prev => {
-      if (!prev) {
-        setMinutesRemaining(calculateMinutesRemaining());
-      }
-      return !prev;
-    });
-  }, [calculateMinutesRemaining]);
-
   return {
     isAutoPilot,
+    isBackground,
     enableAutoPilot,
     disableAutoPilot,
-    toggleAutoPilot,
     minutesRemaining,
     formattedEndTime,
   };
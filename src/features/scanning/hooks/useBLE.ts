@@ -5,6 +5,9 @@
  * - BLE state management
  * - Permission handling
  * - Student device detection with auto-marking
+ * - RSSI smoothing + dwell-time presence model (per-room thresholds)
+ * - Proxy-phone flags (shared / hopping devices are never auto-marked)
+ * - Last-seen updates for detected students (late / left-early tracking)
  * - Scan timeout protection
  * - Proper cleanup on unmount/blur
  */
@@ -24,21 +27,44 @@ import {
   destroyBLE,
   type DetectedStudent,
   type BLEState,
+  type SuspicionReason,
 } from '../../../services/bleService';
+import {
+  createExactMatcher,
+  composeMatchers,
+  type AmbiguousMatch,
+  type MatchStrategy,
+} from '../../../services/bleMatcher';
+import { createRotatingTokenMatcher } from '../../../services/beaconTokenService';
+import {
+  createPresenceTracker,
+  getPresenceThresholds,
+  type PresenceThresholds,
+  type PresenceTracker,
+} from '../../../services/presenceService';
+
+// Minimum gap between last-seen updates for the same student
+const LAST_SEEN_THROTTLE_MS = 30 * 1000;
 
 interface Student {
   id: string;
   name: string;
   rollNumber: string;
   bluetooth_uuid: string | null;
+  beacon_secret?: string | null;
   isPresent: boolean;
 }
 
 interface UseBLEOptions {
   students: Student[];
-  onStudentDetected: (studentId: string) => void;
+  onStudentDetected: (studentId: string, detection: DetectedStudent) => void;
+  // Called when a student is flagged as a possible proxy (may already be marked)
+  onStudentSuspicious?: (studentId: string, reasons: SuspicionReason[]) => void;
+  // Called (throttled) while an already-detected student is still in range
+  onStudentSeen?: (studentId: string, at: number) => void;
   enabled?: boolean;
   scanTimeout?: number; // milliseconds
+  room?: string | null; // master_timetables.room - selects presence thresholds
 }
 
 interface UseBLEReturn {
@@ -49,6 +75,14 @@ interface UseBLEReturn {
   lastDetected: string | null;
   error: string | null;
   studentsWithUUID: number;
+  // Strategy that identified each detected student (by student ID)
+  detectionStrategies: Record<string, MatchStrategy>;
+  // Advertisements that matched several students and were not marked
+  ambiguousMatches: AmbiguousMatch[];
+  // Students flagged by proxy-phone detection (by student ID)
+  suspiciousStudents: Record<string, SuspicionReason[]>;
+  // Thresholds in effect for the current scan (null until a scan starts)
+  presenceThresholds: PresenceThresholds | null;
   startBLEScan: () => Promise<void>;
   stopBLEScan: () => void;
   requestPermissions: () => Promise<boolean>;
@@ -57,8 +91,11 @@ interface UseBLEReturn {
 export const useBLE = ({
   students,
   onStudentDetected,
+  onStudentSuspicious,
+  onStudentSeen,
   enabled = true,
   scanTimeout = 10 * 60 * 1000, // 10 minutes default
+  room = null,
 }: UseBLEOptions): UseBLEReturn => {
   const [bleState, setBLEState] = useState<BLEState>('unknown');
   const [isScanning, setIsScanning] = useState(false);
@@ -66,10 +103,16 @@ export const useBLE = ({
   const [detectedCount, setDetectedCount] = useState(0);
   const [lastDetected, setLastDetected] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [detectionStrategies, setDetectionStrategies] = useState<Record<string, MatchStrategy>>({});
+  const [ambiguousMatches, setAmbiguousMatches] = useState<AmbiguousMatch[]>([]);
+  const [presenceThresholds, setPresenceThresholds] = useState<PresenceThresholds | null>(null);
+  const [suspiciousStudents, setSuspiciousStudents] = useState<Record<string, SuspicionReason[]>>({});
   
   const stopScanRef = useRef<(() => void) | null>(null);
   const detectedUUIDsRef = useRef<Set<string>>(new Set());
   const isStartingRef = useRef(false); // Prevent concurrent start attempts
+  const presenceTrackerRef = useRef<PresenceTracker | null>(null);
+  const lastSeenRef = useRef<Map<string, number>>(new Map());
   
   // Create UUID to student ID map
   const uuidToStudentMap = useRef<Map<string, string>>(new Map());
@@ -132,9 +175,14 @@ export const useBLE = ({
     
     // Removed verbose logging
     
-    // Check if already detected
+    // Already detected - only keep its last-seen time fresh
     if (detectedUUIDsRef.current.has(uuid)) {
-      console.log('[useBLE] Already detected, skipping');
+      const seenStudentId = uuidToStudentMap.current.get(uuid);
+      const now = Date.now();
+      if (seenStudentId && now - (lastSeenRef.current.get(uuid) || 0) >= LAST_SEEN_THROTTLE_MS) {
+        lastSeenRef.current.set(uuid, now);
+        onStudentSeen?.(seenStudentId, now);
+      }
       return;
     }
     
@@ -145,18 +193,31 @@ export const useBLE = ({
     const studentId = uuidToStudentMap.current.get(uuid);
     
     if (studentId) {
-      console.log('[useBLE] ✅ MATCH FOUND! UUID → StudentID:', studentId);
+      // Flagged devices need a human decision
+      if (device.suspicion?.length) {
+        return;
+      }
+      
+      // Only a sustained, strong signal counts as presence
+      const presence = presenceTrackerRef.current?.observe(uuid, device.rssi);
+      if (presence && !presence.becamePresent) {
+        return;
+      }
+      
+      console.log('[useBLE] ✅ MATCH FOUND via', device.strategy, '! UUID → StudentID:', studentId);
       
       // Mark as detected
       detectedUUIDsRef.current.add(uuid);
+      lastSeenRef.current.set(uuid, Date.now());
       setDetectedCount(prev => prev + 1);
       setLastDetected(uuid);
+      setDetectionStrategies(prev => ({ ...prev, [studentId]: device.strategy }));
       
       // Haptic feedback
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       
       // Notify parent
-      onStudentDetected(studentId);
+      onStudentDetected(studentId, device);
     } else {
       console.log('[useBLE] ❌ No match for UUID:', uuid.substring(0, 12) + '...');
       // Show first few available UUIDs for debugging
@@ -165,7 +226,24 @@ export const useBLE = ({
         console.log('[useBLE] Available UUIDs (first 3):', availableUUIDs.map(u => u.substring(0, 12) + '...'));
       }
     }
-  }, [onStudentDetected]);
+  }, [onStudentDetected, onStudentSeen]);
+  
+  // Handle a proxy-phone flag raised by the scanner
+  const handleSuspicious = useCallback((uuid: string, reasons: SuspicionReason[]) => {
+    const normalized = normalizeUUID(uuid);
+    const studentId = uuidToStudentMap.current.get(normalized);
+    if (!studentId) return;
+    
+    console.warn('[useBLE] ⚠️ Suspicious detection for student:', studentId, reasons.join(', '));
+    
+    // Undo an earlier auto-mark so the count reflects reviewed students only
+    if (detectedUUIDsRef.current.delete(normalized)) {
+      setDetectedCount(prev => Math.max(0, prev - 1));
+    }
+    
+    setSuspiciousStudents(prev => ({ ...prev, [studentId]: reasons }));
+    onStudentSuspicious?.(studentId, reasons);
+  }, [onStudentSuspicious]);
   
   // Start scanning
   const startBLEScan = useCallback(async () => {
@@ -195,6 +273,14 @@ export const useBLE = ({
       // Reset detected UUIDs for new scan
       detectedUUIDsRef.current.clear();
       setDetectedCount(0);
+      
+      // Fresh presence model per scan, tuned for this room
+      const thresholds = await getPresenceThresholds(room);
+      presenceTrackerRef.current = createPresenceTracker(thresholds);
+      setPresenceThresholds(thresholds);
+      setDetectionStrategies({});
+      setAmbiguousMatches([]);
+      setSuspiciousStudents({});
       setError(null);
       
       // Get student UUIDs for filtering
@@ -208,10 +294,25 @@ export const useBLE = ({
         return;
       }
       
-      console.log('[useBLE] Starting scan with', studentUUIDs.length, 'UUIDs');
+      // Students with a beacon secret are only accepted via rotating tokens;
+      // exact UUID matching is kept for students not yet provisioned.
+      const securedStudents = students
+        .filter(s => s.bluetooth_uuid && s.beacon_secret)
+        .map(s => ({ uuid: s.bluetooth_uuid!, secret: s.beacon_secret! }));
+      const legacyUUIDs = students
+        .filter(s => s.bluetooth_uuid && !s.beacon_secret)
+        .map(s => s.bluetooth_uuid!);
+      
+      const matcher = composeMatchers(
+        createRotatingTokenMatcher(securedStudents),
+        createExactMatcher(legacyUUIDs),
+      );
+      
+      console.log('[useBLE] Starting scan with', studentUUIDs.length, 'UUIDs (', securedStudents.length, 'rotating )');
       
       // Start scanning with timeout
       const stop = startScanning(handleDeviceDetected, studentUUIDs, {
+        matcher,
         timeout: scanTimeout,
         onTimeout: () => {
           console.log('[useBLE] ⏰ Scan timed out');
@@ -222,6 +323,11 @@ export const useBLE = ({
           console.error('[useBLE] ❌ Scan error:', err.message);
           setError(err.message);
         },
+        onAmbiguous: (ambiguity) => {
+          console.warn('[useBLE] ⚠️ Ambiguous match via', ambiguity.strategy, '- not marking', ambiguity.candidates.length, 'candidates');
+          setAmbiguousMatches(prev => [...prev, ambiguity]);
+        },
+        onSuspicious: handleSuspicious,
       });
       
       stopScanRef.current = stop;
@@ -230,7 +336,7 @@ export const useBLE = ({
     } finally {
       isStartingRef.current = false;
     }
-  }, [students, handleDeviceDetected, scanTimeout]);
+  }, [students, handleDeviceDetected, handleSuspicious, scanTimeout, room]);
   
   // Stop scanning
   const stopBLEScan = useCallback(() => {
@@ -330,6 +436,10 @@ export const useBLE = ({
     lastDetected,
     error,
     studentsWithUUID: studentsWithUUIDRef.current,
+    detectionStrategies,
+    ambiguousMatches,
+    suspiciousStudents,
+    presenceThresholds,
     startBLEScan,
     stopBLEScan,
     requestPermissions,
@@ -0,0 +1,86 @@
+/**
+ * useCoScan - Multi-scanner session state for the scan screen
+ *
+ * Holds the co-scan this device is part of (hosted here or joined by code),
+ * keeps this device's heartbeat going while the screen is open and mirrors
+ * the live contributor list for the "N scanners" indicator.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  createCoScan,
+  leaveCoScan,
+  sendCoScanHeartbeat,
+  subscribeCoScanContributors,
+  isContributorConnected,
+  COSCAN_CONFIG,
+  type CoScanSession,
+  type CoScanContributor,
+  type CoScanClassInfo,
+} from '../../../services/coScanService';
+
+interface UseCoScanOptions {
+  // Co-scan joined before opening the scanner (route param)
+  initial?: CoScanSession | null;
+}
+
+interface UseCoScanReturn {
+  coScan: CoScanSession | null;
+  contributors: CoScanContributor[];
+  // Devices seen within the connected window (this one included)
+  connectedCount: number;
+  // Resolves to an error message, or null once hosting
+  hostCoScan: (classInfo: CoScanClassInfo) => Promise<string | null>;
+  leave: () => Promise<void>;
+}
+
+export const useCoScan = ({ initial = null }: UseCoScanOptions = {}): UseCoScanReturn => {
+  const [coScan, setCoScan] = useState<CoScanSession | null>(initial);
+  const [contributors, setContributors] = useState<CoScanContributor[]>([]);
+  const [now, setNow] = useState(Date.now());
+
+  const coScanId = coScan?.id;
+
+  // Live contributor list
+  useEffect(() => {
+    if (!coScanId) {
+      setContributors([]);
+      return;
+    }
+    return subscribeCoScanContributors(coScanId, setContributors);
+  }, [coScanId]);
+
+  // Heartbeat (also re-evaluates who is still connected)
+  useEffect(() => {
+    if (!coScanId) return;
+    sendCoScanHeartbeat(coScanId);
+    const interval = setInterval(() => {
+      sendCoScanHeartbeat(coScanId);
+      setNow(Date.now());
+    }, COSCAN_CONFIG.HEARTBEAT_MS);
+    return () => clearInterval(interval);
+  }, [coScanId]);
+
+  const hostCoScan = useCallback(async (classInfo: CoScanClassInfo) => {
+    const { coScan: created, error } = await createCoScan(classInfo);
+    if (created) setCoScan(created);
+    return error;
+  }, []);
+
+  const leave = useCallback(async () => {
+    if (coScanId) await leaveCoScan(coScanId);
+    setCoScan(null);
+  }, [coScanId]);
+
+  const connectedCount = contributors.filter(c => isContributorConnected(c, now)).length;
+
+  return {
+    coScan,
+    contributors,
+    connectedCount,
+    hostCoScan,
+    leave,
+  };
+};
+
+export default useCoScan;
@@ -47,6 +47,7 @@ import {
   StudentList,
   OverrideModal,
   ScanBlockedModal,
+  CoScanModal,
   type BlockReason,
 } from "../components";
 import { ZenToast } from "@components/ZenToast";
@@ -61,9 +62,12 @@ type ScanState = "HANDSHAKE" | "SCANNING" | "SUBMITTING" | "SUCCESS";
 // Timer presets in seconds
 const TIMER_PRESETS = [60, 180, 300, 600]; // 1, 3, 5, 10 minutes
 
-import { useAttendance, type AttendanceStudent } from "../hooks";
+import { useAttendance, useAutoPilot, useCoScan, type AttendanceStudent } from "../hooks";
+import { toQueuedClassData } from "../hooks/useAttendance";
 import { useBLE } from "../hooks/useBLE";
 import { isBLEReady } from "@services/bleService";
+import { isAutoPilotRunning, setAutoPilotStudentStatus } from "@services/autoPilotService";
+import { getDeviceId, type CoScanSession } from "@services/coScanService";
 import {
   Gradients,
   Primary,
@@ -77,6 +81,7 @@ import {
 } from "@services/dashboardService";
 import { supabase } from "@config/supabase";
 import { useTheme } from "@contexts";
+import { findSlotAt, getCampusClock } from "@shared/campusTime";
 
 // =============================================================================
 // PREMIUM SCANNER - Deep Teal Theme (Same as Home Page)
@@ -153,6 +158,8 @@ export const ScanScreen: React.FC = () => {
   const routeClassData = route.params?.classData;
   const existingAttendance = route.params?.existingAttendance;
   const isManualLegacy = route.params?.manual;
+  // Set when joining another faculty's co-scan from Home
+  const routeCoScan: CoScanSession | undefined = route.params?.coScan;
 
   // Failsafe: Redirect to ManualEntry if manual param is present (legacy or stale calls)
   useEffect(() => {
@@ -185,15 +192,8 @@ export const ScanScreen: React.FC = () => {
 
         const schedule = await getTodaySchedule(user.id);
 
-        // Find the current live class
-        const now = new Date();
-        const currentTimeStr = `${now.getHours().toString().padStart(2, "0")}:${now.getMinutes().toString().padStart(2, "0")}`;
-
-        const liveClass = schedule.find((slot) => {
-          return (
-            currentTimeStr >= slot.start_time && currentTimeStr <= slot.end_time
-          );
-        });
+        // Find the current live class (campus clock)
+        const liveClass = findSlotAt(schedule);
 
         if (liveClass) {
 
@@ -232,7 +232,6 @@ export const ScanScreen: React.FC = () => {
   // UI State
   const [scanState, setScanState] = useState<ScanState>("HANDSHAKE");
   const [isScanning, setIsScanning] = useState(false);
-  const [isAutoPilot, setIsAutoPilot] = useState(false);
   const [timeRemaining, setTimeRemaining] = useState(180);
   const [timerPresetIndex, setTimerPresetIndex] = useState(1);
   const [showInstructions, setShowInstructions] = useState(false);
@@ -243,6 +242,15 @@ export const ScanScreen: React.FC = () => {
     takenAt: string;
   } | null>(null);
 
+  // Co-scan (several phones scanning one large hall)
+  const { coScan, contributors, connectedCount, hostCoScan, leave: leaveCoScan } = useCoScan({ initial: routeCoScan });
+  const [showCoScan, setShowCoScan] = useState(false);
+  const [deviceId, setDeviceId] = useState<string | null>(null);
+
+  useEffect(() => {
+    getDeviceId().then(setDeviceId);
+  }, []);
+
   // Scan blocked state
   const [showBlocked, setShowBlocked] = useState(false);
   const [blockReason, setBlockReason] = useState<BlockReason>("no_class");
@@ -257,8 +265,7 @@ export const ScanScreen: React.FC = () => {
     if (noLiveClassError && !routeClassData) {
 
       
-      const now = new Date();
-      const currentHour = now.getHours();
+      const currentHour = Math.floor(getCampusClock().secondsOfDay / 3600);
       
       // If after 4 PM (16:00), show Day Complete instead of Break Time
       if (currentHour >= 16) {
@@ -326,10 +333,54 @@ export const ScanScreen: React.FC = () => {
     pendingCount,
     totalCount,
     updateStudentStatus,
+    flagStudent,
+    markSeen,
     submitAttendance: submitToSupabase,
     refreshStudents,
     isOfflineMode,
-  } = useAttendance({ classData, batchOverride });
+    logScanEvent,
+    scanSessionKey,
+    draftIdentity,
+    markScanStarted,
+    scanStartedAt,
+  } = useAttendance({ classData, batchOverride, coScanId: coScan?.id });
+
+  // Auto-pilot: background scanning + automatic submit at period end
+  const {
+    isAutoPilot,
+    enableAutoPilot,
+    disableAutoPilot,
+  } = useAutoPilot({
+    endTime,
+    onEvent: (event) => {
+      if (event.type === "detected") {
+        const student = students.find((s) => s.id === event.studentId);
+        if (student?.status === "od" || student?.status === "leave") return;
+        updateStudentStatus(event.studentId, "present", {
+          token: event.detection.token,
+          tokenWindow: event.detection.tokenWindow,
+          seenAt: Date.now(),
+        });
+      } else if (event.type === "seen") {
+        markSeen(event.studentId, event.at);
+      } else if (event.type === "flagged") {
+        flagStudent(event.studentId, event.reasons);
+      }
+    },
+    onClassEnd: ({ presentCount: finalPresent, totalCount: finalTotal, synced }) => {
+      setToast({
+        visible: true,
+        message: `${synced ? "Submitted" : "Queued"}: ${finalPresent}/${finalTotal} present`,
+        type: "success",
+      });
+      Vibration.vibrate(400);
+      if (navigation.canGoBack()) {
+        navigation.goBack();
+      } else {
+        navigation.navigate("Home");
+      }
+    },
+  });
 
   // Animations
   const handshakeRotation = useRef(new Animated.Value(0)).current;
@@ -378,10 +429,7 @@ export const ScanScreen: React.FC = () => {
 
       // Validate scan timing
       const validateScanTiming = () => {
-        const now = new Date();
-        const currentHour = now.getHours();
-        const currentMinute = now.getMinutes();
-        const currentTimeMinutes = currentHour * 60 + currentMinute;
+        const currentTimeMinutes = Math.floor(getCampusClock().secondsOfDay / 60);
 
         const collegeStartMinutes =
           COLLEGE_START_HOUR * 60 + COLLEGE_START_MINUTE;
@@ -626,9 +674,10 @@ export const ScanScreen: React.FC = () => {
       name: s.name,
       rollNumber: s.rollNo,
       bluetooth_uuid: s.bleUUID || null,
+      beacon_secret: s.beaconSecret || null,
       isPresent: s.status === "present",
     })),
-    onStudentDetected: (studentId) => {
+    onStudentDetected: (studentId, detection) => {
 
       const student = students.find((s) => s.id === studentId);
       
@@ -639,12 +688,34 @@ export const ScanScreen: React.FC = () => {
       }
 
 
-      updateStudentStatus(studentId, "present");
+      updateStudentStatus(studentId, "present", {
+        token: detection.token,
+        tokenWindow: detection.tokenWindow,
+        seenAt: Date.now(),
+      });
+      logScanEvent({
+        type: "detection",
+        studentId,
+        rssi: detection.rssi,
+        strategy: detection.strategy,
+        deviceId: detection.deviceId,
+      });
 
     },
+    // Possible proxy phone - held for manual review instead of auto-marking
+    onStudentSuspicious: (studentId, reasons) => {
+      flagStudent(studentId, reasons);
+      logScanEvent({ type: "proxy_flag", studentId, reasons });
+    },
+    // Keeps last-seen current for early-exit tracking
+    onStudentSeen: markSeen,
+    // Presence thresholds are tuned per room
+    room: classData?.room ?? null,
     // Only enable BLE when: scanning, in SCANNING state, classData loaded, roster loaded, no break time error
+    // Auto-pilot owns the radio while it is on
     enabled:
       isScanning &&
+      !isAutoPilot &&
       scanState === "SCANNING" &&
       !!classData &&
       students.length > 0 &&
@@ -654,6 +725,11 @@ export const ScanScreen: React.FC = () => {
   // BLE scanning is controlled by the `enabled` prop in useBLE hook
   // No manual sync needed - just toggle isScanning state
 
+  // First time the radio actually runs; late arrivals are judged from here
+  useEffect(() => {
+    if (bleIsScanning) markScanStarted();
+  }, [bleIsScanning, markScanStarted]);
+
   // Cleanup BLE when screen loses focus (React Navigation keeps screens mounted)
   useFocusEffect(
     useCallback(() => {
@@ -664,8 +740,9 @@ export const ScanScreen: React.FC = () => {
         stopBLEScan();
         setIsScanning(false);
         // Also directly stop via bleService to ensure it's stopped
+        // (unless auto-pilot is scanning in the background)
         import("@services/bleService").then(({ stopScanning }) => {
-          stopScanning();
+          if (!isAutoPilotRunning()) stopScanning();
 
         });
       };
@@ -744,6 +821,7 @@ export const ScanScreen: React.FC = () => {
       }
     }
 
+    logScanEvent({ type: isScanning ? "scan_pause" : "scan_start" });
     setIsScanning((prev) => !prev);
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
   }, [
@@ -753,26 +831,114 @@ export const ScanScreen: React.FC = () => {
     students.length,
     noLiveClassError,
     classData,
+    logScanEvent,
   ]);
 
   const handleRescan = useCallback(() => {
+    logScanEvent({ type: "rescan" });
     refreshStudents();
     setTimeRemaining(TIMER_PRESETS[timerPresetIndex]);
     setIsScanning(true);
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-  }, [timerPresetIndex, refreshStudents]);
+  }, [timerPresetIndex, refreshStudents, logScanEvent]);
 
   const handleTimerPress = useCallback(() => {
     const nextIndex = (timerPresetIndex + 1) % TIMER_PRESETS.length;
     setTimerPresetIndex(nextIndex);
     setTimeRemaining(TIMER_PRESETS[nextIndex]);
+    logScanEvent({ type: "timer_change", value: TIMER_PRESETS[nextIndex] });
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-  }, [timerPresetIndex]);
+  }, [timerPresetIndex, logScanEvent]);
 
-  const handleAutoPilotToggle = useCallback(() => {
-    setIsAutoPilot((prev) => !prev);
+  const handleAutoPilotToggle = useCallback(async () => {
+    logScanEvent({ type: "autopilot_toggle", value: !isAutoPilot });
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-  }, []);
+
+    if (isAutoPilot) {
+      // Merge anything detected while the screen wasn't listening
+      const session = await disableAutoPilot();
+      session?.students.forEach((s) => {
+        const local = students.find((l) => l.id === s.id);
+        if (s.proxyFlags?.length && !local?.proxyFlags?.length) {
+          flagStudent(s.id, s.proxyFlags);
+        } else if (s.status === "present" && local?.status === "pending") {
+          updateStudentStatus(s.id, "present", { token: s.beaconToken, tokenWindow: s.tokenWindow, seenAt: s.firstSeenAt });
+        }
+        if (s.lastSeenAt) markSeen(s.id, s.lastSeenAt);
+      });
+      return;
+    }
+
+    if (!classData) return;
+    await enableAutoPilot({
+      classData: toQueuedClassData(classData),
+      students: students.map((s) => ({
+        id: s.id,
+        rollNo: s.rollNo,
+        bleUUID: s.bleUUID,
+        beaconSecret: s.beaconSecret,
+        status: s.status,
+        detectedAt: s.detectedAt,
+        beaconToken: s.beaconToken,
+        tokenWindow: s.tokenWindow,
+        proxyFlags: s.proxyFlags,
+        firstSeenAt: s.firstSeenAt,
+        lastSeenAt: s.lastSeenAt,
+      })),
+      room: classData.room ?? null,
+      period: { startTime: classData.start_time, endTime: classData.end_time },
+      coScanId: coScan?.id,
+      scanSessionKey,
+      scanStartedAt: scanStartedAt ?? undefined,
+      draftIdentity,
+      attendanceKey: `@attend_me/attendance_${classKey}`,
+    });
+    setIsScanning(true);
+  }, [
+    isAutoPilot,
+    logScanEvent,
+    disableAutoPilot,
+    enableAutoPilot,
+    students,
+    classData,
+    scanSessionKey,
+    scanStartedAt,
+    draftIdentity,
+    classKey,
+    flagStudent,
+    updateStudentStatus,
+    markSeen,
+    coScan,
+  ]);
+
+  // Host a co-scan for this class, or show the one already running
+  const handleCoScanPress = useCallback(async () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    if (coScan) {
+      setShowCoScan(true);
+      return;
+    }
+    if (!classData) return;
+    if (isOfflineMode) {
+      setToast({ visible: true, message: "Co-scan needs an internet connection", type: "warning" });
+      return;
+    }
+
+    const error = await hostCoScan(classData);
+    if (error) {
+      setToast({ visible: true, message: error, type: "error" });
+      return;
+    }
+    setShowCoScan(true);
+  }, [coScan, classData, isOfflineMode, hostCoScan]);
+
+  const handleLeaveCoScan = useCallback(async () => {
+    setShowCoScan(false);
+    await leaveCoScan();
+    if (navigation.canGoBack()) {
+      navigation.goBack();
+    }
+  }, [leaveCoScan, navigation]);
 
   const handleInstructionsClose = useCallback(() => {
     setShowInstructions(false);
@@ -870,10 +1036,13 @@ export const ScanScreen: React.FC = () => {
       studentId: string,
       newStatus: "pending" | "present" | "absent" | "od" | "leave",
     ) => {
+      const previous = students.find((s) => s.id === studentId)?.status;
       updateStudentStatus(studentId, newStatus);
+      if (isAutoPilot) setAutoPilotStudentStatus(studentId, newStatus);
+      logScanEvent({ type: "manual_override", studentId, from: previous, to: newStatus });
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     },
-    [updateStudentStatus],
+    [updateStudentStatus, logScanEvent, students, isAutoPilot],
   );
 
   // Render handshake phase
@@ -1006,6 +1175,22 @@ export const ScanScreen: React.FC = () => {
             </View>
           )}
 
+          <TouchableOpacity
+            style={styles.menuButton}
+            onPress={handleCoScanPress}
+          >
+            <Ionicons
+              name={coScan ? "people" : "people-outline"}
+              size={normalizeFont(22)}
+              color={coScan ? COLORS.accent : COLORS.textSecondary}
+            />
+            {coScan && connectedCount > 0 && (
+              <View style={styles.coScanBadge}>
+                <Text style={styles.coScanBadgeText}>{connectedCount}</Text>
+              </View>
+            )}
+          </TouchableOpacity>
+
           <TouchableOpacity
             style={styles.menuButton}
             onPress={handleAutoPilotToggle}
@@ -1158,6 +1343,7 @@ export const ScanScreen: React.FC = () => {
         visible={showHeadcount}
         detectedCount={presentCount}
         absentCount={absentCount}
+        suspiciousStudents={students.filter((s) => s.proxyFlags?.length).map((s) => s.rollNo)}
         onSubmit={handleConfirmSubmit}
         onCancel={() => setShowHeadcount(false)}
         onRescan={() => {
@@ -1166,6 +1352,15 @@ export const ScanScreen: React.FC = () => {
         }}
       />
 
+      <CoScanModal
+        visible={showCoScan}
+        onClose={() => setShowCoScan(false)}
+        coScan={coScan}
+        contributors={contributors}
+        deviceId={deviceId}
+        onLeave={handleLeaveCoScan}
+      />
+
       <OverrideModal
         visible={showOverride}
         className={previousAttendance?.className || ""}
@@ -1494,6 +1689,23 @@ const styles = StyleSheet.create({
     alignItems: "center",
     justifyContent: "center",
   },
+  coScanBadge: {
+    position: "absolute",
+    top: scale(-4),
+    right: scale(-4),
+    minWidth: scale(18),
+    height: scale(18),
+    borderRadius: moderateScale(9),
+    paddingHorizontal: scale(4),
+    backgroundColor: COLORS.accent,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  coScanBadgeText: {
+    color: "#000000",
+    fontSize: normalizeFont(11),
+    fontWeight: "700",
+  },
   radarZone: {
     alignItems: "center",
     paddingVertical: verticalScale(16),
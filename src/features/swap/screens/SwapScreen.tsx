@@ -28,6 +28,7 @@ import { getTodaySchedule, getTomorrowSchedule, TimetableSlot } from '../../../s
 import { useConnectionStatus } from '../../../hooks/useConnectionStatus'; // Added import
 import { swapStyles as styles } from '../styles/SwapScreen.styles';
 import { scale, verticalScale, moderateScale, normalizeFont } from '../../../utils/responsive';
+import { getSessionDate, addDays } from '../../../shared/campusTime';
 
 type SwapScreenRouteProp = RouteProp<{
     Swap: { classToSwap?: TimetableSlot };
@@ -365,10 +366,8 @@ export const SwapScreen: React.FC = () => {
     }
     
     try {
-      const today = new Date();
-      const targetDate = isShowingTomorrow 
-          ? new Date(today.setDate(today.getDate() + 1)).toISOString().split('T')[0]
-          : today.toISOString().split('T')[0];
+      const today = getSessionDate();
+      const targetDate = isShowingTomorrow ? addDays(today, 1) : today;
       
       const { error } = await supabase
         .from('substitutions')
@@ -438,10 +437,8 @@ export const SwapScreen: React.FC = () => {
     }
     
     try {
-      const today = new Date();
-      const targetDate = isShowingTomorrow 
-          ? new Date(today.setDate(today.getDate() + 1)).toISOString().split('T')[0]
-          : today.toISOString().split('T')[0];
+      const today = getSessionDate();
+      const targetDate = isShowingTomorrow ? addDays(today, 1) : today;
       
       const { error } = await supabase
         .from('class_swaps')
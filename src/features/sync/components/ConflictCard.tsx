@@ -0,0 +1,167 @@
+/**
+ * ConflictCard - Resolve one queued session that changed on the server
+ *
+ * Shows a per-student three-way diff (when scanned / this phone / server)
+ * and lets the faculty pick which status to keep for each student.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+    diffConflict,
+    type ConflictChoice,
+    type PendingSubmission,
+} from '../../../services/offlineService';
+
+interface ConflictCardProps {
+    submission: PendingSubmission;
+    isDark: boolean;
+    onResolve: (submission: PendingSubmission, choices: Record<string, ConflictChoice>) => Promise<void>;
+}
+
+const STATUS_COLORS: Record<string, string> = {
+    present: '#10B981',
+    absent: '#EF4444',
+    od: '#3B82F6',
+    leave: '#F59E0B',
+};
+
+const statusLabel = (status?: string) => (status ? status.toUpperCase() : '—');
+
+export const ConflictCard: React.FC<ConflictCardProps> = ({ submission, isDark, onResolve }) => {
+    const rows = useMemo(() => diffConflict(submission), [submission]);
+    const [choices, setChoices] = useState<Record<string, ConflictChoice>>(
+        () => Object.fromEntries(rows.map(r => [r.studentId, r.suggested]))
+    );
+    const [expanded, setExpanded] = useState(false);
+    const [saving, setSaving] = useState(false);
+
+    const textColor = isDark ? '#FFF' : '#0F172A';
+    const mutedColor = isDark ? '#94A3B8' : '#64748B';
+    const chipBg = isDark ? '#334155' : '#F1F5F9';
+
+    const date = submission.submittedAt.split('T')[0];
+    const updatedAt = submission.serverVersion?.updatedAt
+        ? new Date(submission.serverVersion.updatedAt).toLocaleString()
+        : null;
+
+    const setAll = (choice: ConflictChoice) => {
+        setChoices(Object.fromEntries(rows.map(r => [r.studentId, choice])));
+    };
+
+    const handleApply = async () => {
+        setSaving(true);
+        try {
+            await onResolve(submission, choices);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const renderChoice = (studentId: string, choice: ConflictChoice, status?: string) => {
+        const selected = choices[studentId] === choice;
+        return (
+            <TouchableOpacity
+                onPress={() => setChoices(prev => ({ ...prev, [studentId]: choice }))}
+                style={[
+                    styles.choice,
+                    { backgroundColor: chipBg, borderColor: selected ? STATUS_COLORS[status || ''] || mutedColor : 'transparent' },
+                ]}
+            >
+                <Text style={[styles.choiceText, { color: STATUS_COLORS[status || ''] || mutedColor }]}>
+                    {statusLabel(status)}
+                </Text>
+            </TouchableOpacity>
+        );
+    };
+
+    return (
+        <View style={[styles.card, { backgroundColor: isDark ? '#1E293B' : '#FFF' }]}>
+            <TouchableOpacity style={styles.header} onPress={() => setExpanded(e => !e)}>
+                <Ionicons name="git-compare-outline" size={22} color="#F59E0B" />
+                <View style={{ flex: 1 }}>
+                    <Text style={[styles.title, { color: textColor }]}>
+                        {submission.classData.subjectName} · {submission.classData.section}
+                    </Text>
+                    <Text style={[styles.subtitle, { color: mutedColor }]}>
+                        {date} · Slot {submission.classData.slotId} · {rows.length} student{rows.length === 1 ? '' : 's'} differ
+                    </Text>
+                    {updatedAt && (
+                        <Text style={[styles.subtitle, { color: mutedColor }]}>Server changed {updatedAt}</Text>
+                    )}
+                </View>
+                <Ionicons name={expanded ? 'chevron-up' : 'chevron-down'} size={20} color={mutedColor} />
+            </TouchableOpacity>
+
+            {expanded && (
+                <>
+                    <View style={styles.columnHeader}>
+                        <Text style={[styles.columnLabel, styles.nameColumn, { color: mutedColor }]}>STUDENT</Text>
+                        <Text style={[styles.columnLabel, styles.statusColumn, { color: mutedColor }]}>BEFORE</Text>
+                        <Text style={[styles.columnLabel, styles.statusColumn, { color: mutedColor }]}>THIS PHONE</Text>
+                        <Text style={[styles.columnLabel, styles.statusColumn, { color: mutedColor }]}>SERVER</Text>
+                    </View>
+
+                    {rows.map(row => (
+                        <View key={row.studentId} style={styles.row}>
+                            <View style={styles.nameColumn}>
+                                <Text style={[styles.rollNo, { color: textColor }]} numberOfLines={1}>
+                                    {row.rollNo || row.studentId.slice(0, 8)}
+                                </Text>
+                                {row.bothChanged && (
+                                    <Text style={styles.bothChanged}>BOTH CHANGED</Text>
+                                )}
+                            </View>
+                            <Text style={[styles.statusColumn, styles.baseText, { color: mutedColor }]}>
+                                {submission.base ? statusLabel(row.base) : '?'}
+                            </Text>
+                            <View style={styles.statusColumn}>{renderChoice(row.studentId, 'local', row.local)}</View>
+                            <View style={styles.statusColumn}>{renderChoice(row.studentId, 'server', row.server)}</View>
+                        </View>
+                    ))}
+
+                    <View style={styles.actions}>
+                        <TouchableOpacity onPress={() => setAll('local')} style={[styles.secondaryBtn, { backgroundColor: chipBg }]}>
+                            <Text style={[styles.secondaryText, { color: textColor }]}>All mine</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity onPress={() => setAll('server')} style={[styles.secondaryBtn, { backgroundColor: chipBg }]}>
+                            <Text style={[styles.secondaryText, { color: textColor }]}>All server</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity onPress={handleApply} disabled={saving} style={styles.applyBtn}>
+                            {saving ? (
+                                <ActivityIndicator color="#FFF" />
+                            ) : (
+                                <Text style={styles.applyText}>Apply</Text>
+                            )}
+                        </TouchableOpacity>
+                    </View>
+                </>
+            )}
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    card: { borderRadius: 16, padding: 16, marginBottom: 12, shadowColor: '#000', shadowOpacity: 0.05, shadowRadius: 10, elevation: 2 },
+    header: { flexDirection: 'row', alignItems: 'center', gap: 12 },
+    title: { fontSize: 15, fontWeight: '700' },
+    subtitle: { fontSize: 12, marginTop: 2 },
+    columnHeader: { flexDirection: 'row', marginTop: 16, marginBottom: 8 },
+    columnLabel: { fontSize: 10, fontWeight: '700', letterSpacing: 0.5 },
+    nameColumn: { flex: 1.4 },
+    statusColumn: { flex: 1, alignItems: 'center', textAlign: 'center' },
+    row: { flexDirection: 'row', alignItems: 'center', paddingVertical: 6 },
+    rollNo: { fontSize: 13, fontWeight: '600' },
+    bothChanged: { fontSize: 9, fontWeight: '700', color: '#F59E0B', marginTop: 2 },
+    baseText: { fontSize: 11, fontWeight: '600' },
+    choice: { paddingHorizontal: 8, paddingVertical: 4, borderRadius: 8, borderWidth: 1.5 },
+    choiceText: { fontSize: 11, fontWeight: '700' },
+    actions: { flexDirection: 'row', gap: 8, marginTop: 16 },
+    secondaryBtn: { flex: 1, alignItems: 'center', paddingVertical: 12, borderRadius: 12 },
+    secondaryText: { fontSize: 13, fontWeight: '600' },
+    applyBtn: { flex: 1, alignItems: 'center', justifyContent: 'center', paddingVertical: 12, borderRadius: 12, backgroundColor: '#0F766E' },
+    applyText: { color: '#FFF', fontSize: 13, fontWeight: '700' },
+});
+
+export default ConflictCard;
@@ -0,0 +1,151 @@
+/**
+ * DeadLetterCard - A submission that exhausted its upload retries
+ *
+ * Shows the error history and lets the faculty fix the class details
+ * (e.g. a missing subject) before retrying, exporting, handing it to the
+ * HOD or discarding it.
+ */
+
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import type { DeadLetterEntry, PendingSubmission } from '../../../services/offlineService';
+
+interface DeadLetterCardProps {
+    entry: DeadLetterEntry;
+    isDark: boolean;
+    onSave: (entry: DeadLetterEntry, submission: PendingSubmission) => void;
+    onRetry: (entry: DeadLetterEntry) => void;
+    onExport: (entry: DeadLetterEntry) => void;
+    onShare: (entry: DeadLetterEntry) => void;
+    onDiscard: (entry: DeadLetterEntry) => void;
+}
+
+export const DeadLetterCard: React.FC<DeadLetterCardProps> = ({
+    entry,
+    isDark,
+    onSave,
+    onRetry,
+    onExport,
+    onShare,
+    onDiscard,
+}) => {
+    const { classData, attendance, submittedAt } = entry.submission;
+    const [expanded, setExpanded] = useState(false);
+    const [editing, setEditing] = useState(false);
+    const [subjectName, setSubjectName] = useState(classData.subjectName);
+    const [slotId, setSlotId] = useState(classData.slotId);
+
+    const textColor = isDark ? '#FFF' : '#0F172A';
+    const mutedColor = isDark ? '#94A3B8' : '#64748B';
+    const inputBg = isDark ? '#334155' : '#F1F5F9';
+
+    const lastError = entry.errors[entry.errors.length - 1];
+    const presentCount = attendance.filter(a => a.status === 'present').length;
+
+    const handleSave = () => {
+        const subjectChanged = subjectName.trim() !== classData.subjectName;
+        onSave(entry, {
+            ...entry.submission,
+            classData: {
+                ...classData,
+                subjectName: subjectName.trim(),
+                slotId: slotId.trim(),
+                // Let sync re-resolve the subject from the corrected name
+                subjectId: subjectChanged ? undefined : classData.subjectId,
+            },
+        });
+        setEditing(false);
+    };
+
+    const renderAction = (icon: any, label: string, onPress: () => void, color = textColor) => (
+        <TouchableOpacity onPress={onPress} style={[styles.action, { backgroundColor: inputBg }]}>
+            <Ionicons name={icon} size={16} color={color} />
+            <Text style={[styles.actionText, { color }]}>{label}</Text>
+        </TouchableOpacity>
+    );
+
+    return (
+        <View style={[styles.card, { backgroundColor: isDark ? '#1E293B' : '#FFF' }]}>
+            <TouchableOpacity style={styles.header} onPress={() => setExpanded(e => !e)}>
+                <Ionicons name="alert-circle-outline" size={22} color="#EF4444" />
+                <View style={{ flex: 1 }}>
+                    <Text style={[styles.title, { color: textColor }]}>
+                        {classData.subjectName} · {classData.section}
+                    </Text>
+                    <Text style={[styles.subtitle, { color: mutedColor }]}>
+                        {submittedAt.split('T')[0]} · Slot {classData.slotId} · {presentCount}/{attendance.length} present
+                    </Text>
+                    {lastError && (
+                        <Text style={[styles.subtitle, { color: '#EF4444' }]} numberOfLines={expanded ? undefined : 1}>
+                            {lastError.message}
+                        </Text>
+                    )}
+                </View>
+                <Ionicons name={expanded ? 'chevron-up' : 'chevron-down'} size={20} color={mutedColor} />
+            </TouchableOpacity>
+
+            {expanded && (
+                <>
+                    <Text style={[styles.sectionLabel, { color: mutedColor }]}>
+                        ATTEMPTS ({entry.attempts.length})
+                    </Text>
+                    {entry.errors.map((e, i) => (
+                        <Text key={i} style={[styles.errorLine, { color: isDark ? '#CBD5E1' : '#334155' }]}>
+                            [{new Date(e.at).toLocaleString()}] {e.message}
+                        </Text>
+                    ))}
+                    {entry.sharedAt && (
+                        <Text style={[styles.subtitle, { color: mutedColor, marginTop: 8 }]}>
+                            Sent to HOD {new Date(entry.sharedAt).toLocaleString()}
+                        </Text>
+                    )}
+
+                    {editing ? (
+                        <View style={{ marginTop: 12 }}>
+                            <Text style={[styles.sectionLabel, { color: mutedColor }]}>SUBJECT</Text>
+                            <TextInput
+                                value={subjectName}
+                                onChangeText={setSubjectName}
+                                style={[styles.input, { backgroundColor: inputBg, color: textColor }]}
+                            />
+                            <Text style={[styles.sectionLabel, { color: mutedColor }]}>SLOT</Text>
+                            <TextInput
+                                value={slotId}
+                                onChangeText={setSlotId}
+                                style={[styles.input, { backgroundColor: inputBg, color: textColor }]}
+                            />
+                            <View style={styles.actions}>
+                                {renderAction('close', 'Cancel', () => setEditing(false))}
+                                {renderAction('checkmark', 'Save', handleSave, '#10B981')}
+                            </View>
+                        </View>
+                    ) : (
+                        <View style={[styles.actions, { flexWrap: 'wrap' }]}>
+                            {renderAction('create-outline', 'Edit', () => setEditing(true))}
+                            {renderAction('refresh', 'Retry', () => onRetry(entry), '#10B981')}
+                            {renderAction('share-outline', 'Export', () => onExport(entry))}
+                            {renderAction('send-outline', 'Send to HOD', () => onShare(entry))}
+                            {renderAction('trash-outline', 'Discard', () => onDiscard(entry), '#EF4444')}
+                        </View>
+                    )}
+                </>
+            )}
+        </View>
+    );
+};
+
+const styles = StyleSheet.create({
+    card: { borderRadius: 16, padding: 16, marginBottom: 12, shadowColor: '#000', shadowOpacity: 0.05, shadowRadius: 10, elevation: 2 },
+    header: { flexDirection: 'row', alignItems: 'center', gap: 12 },
+    title: { fontSize: 15, fontWeight: '700' },
+    subtitle: { fontSize: 12, marginTop: 2 },
+    sectionLabel: { fontSize: 10, fontWeight: '700', letterSpacing: 0.5, marginTop: 12, marginBottom: 6 },
+    errorLine: { fontSize: 12, marginBottom: 4, fontFamily: 'monospace' },
+    input: { borderRadius: 10, paddingHorizontal: 12, paddingVertical: 10, fontSize: 14 },
+    actions: { flexDirection: 'row', gap: 8, marginTop: 16 },
+    action: { flexDirection: 'row', alignItems: 'center', gap: 6, paddingHorizontal: 12, paddingVertical: 10, borderRadius: 12 },
+    actionText: { fontSize: 13, fontWeight: '600' },
+});
+
+export default DeadLetterCard;
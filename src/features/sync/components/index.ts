@@ -0,0 +1,2 @@
+export { ConflictCard } from './ConflictCard';
+export { DeadLetterCard } from './DeadLetterCard';
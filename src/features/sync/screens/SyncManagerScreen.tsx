@@ -1,11 +1,27 @@
 import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, ScrollView, ActivityIndicator } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, ActivityIndicator, Alert, Share } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useTheme } from '../../../contexts/ThemeContext';
 import { ZenToast } from '../../../components/ZenToast';
 import { ResolverEngine, SyncResult } from '../../../services/ResolverEngine';
-import { getPendingCount } from '../../../services/offlineService';
+import {
+    getPendingCount,
+    getPendingSubmissions,
+    isUploadPausedForAuth,
+    getConflicts,
+    resolveConflict,
+    getDeadLetters,
+    updateDeadLetter,
+    retryDeadLetter,
+    discardDeadLetter,
+    exportDeadLetter,
+    shareDeadLetterWithHod,
+    type ConflictChoice,
+    type DeadLetterEntry,
+    type PendingSubmission,
+} from '../../../services/offlineService';
+import { ConflictCard, DeadLetterCard } from '../components';
 import NetInfo from '@react-native-community/netinfo';
 import { LinearGradient } from 'expo-linear-gradient';
 
@@ -17,6 +33,10 @@ export const SyncManagerScreen = ({ navigation }: any) => {
     const [isSyncing, setIsSyncing] = useState(false);
     const [syncLog, setSyncLog] = useState<string[]>([]);
     const [isOnline, setIsOnline] = useState(true);
+    const [conflicts, setConflicts] = useState<PendingSubmission[]>([]);
+    const [deadLetters, setDeadLetters] = useState<DeadLetterEntry[]>([]);
+    const [queue, setQueue] = useState<PendingSubmission[]>([]);
+    const [authPaused, setAuthPaused] = useState(false);
     const [toast, setToast] = useState<{ visible: boolean; message: string; type: 'success' | 'error' | 'warning' }>({
         visible: false,
         message: '',
@@ -34,6 +54,23 @@ export const SyncManagerScreen = ({ navigation }: any) => {
     const checkStatus = async () => {
         const count = await getPendingCount();
         setStats(s => ({ ...s, pending: count }));
+        setConflicts(await getConflicts());
+        setDeadLetters(await getDeadLetters());
+        setQueue((await getPendingSubmissions()).filter(p => p.syncStatus !== 'CONFLICT'));
+        setAuthPaused(await isUploadPausedForAuth());
+    };
+
+    const handleResolve = async (submission: PendingSubmission, choices: Record<string, ConflictChoice>) => {
+        try {
+            await resolveConflict(submission, choices);
+            addToLog(`Resolved conflict for ${submission.classData.subjectName} (${submission.classData.section}).`);
+            setToast({ visible: true, message: 'Conflict resolved. Sync to upload.', type: 'success' });
+        } catch (e: any) {
+            addToLog('Failed to resolve conflict: ' + e.message);
+            setToast({ visible: true, message: 'Could not resolve conflict.', type: 'error' });
+        } finally {
+            checkStatus();
+        }
     };
 
     const handleSync = async () => {
@@ -57,6 +94,10 @@ export const SyncManagerScreen = ({ navigation }: any) => {
                     addToLog('All up to date. No pending changes.');
                 }
 
+                if (result.conflictCount > 0) {
+                    addToLog(`${result.conflictCount} session(s) changed on the server. Review below.`);
+                }
+
                 if (result.errors.length > 0) {
                     result.errors.forEach(e => addToLog(`Error: ${e}`));
                 }
@@ -71,6 +112,61 @@ export const SyncManagerScreen = ({ navigation }: any) => {
         }
     };
 
+    const handleSaveDeadLetter = async (entry: DeadLetterEntry, submission: PendingSubmission) => {
+        await updateDeadLetter(entry.id, submission);
+        addToLog(`Edited failed upload for ${submission.classData.subjectName}.`);
+        checkStatus();
+    };
+
+    const handleRetryDeadLetter = async (entry: DeadLetterEntry) => {
+        await retryDeadLetter(entry);
+        addToLog(`Re-queued ${entry.submission.classData.subjectName} (${entry.submission.classData.section}).`);
+        checkStatus();
+    };
+
+    const handleExportDeadLetter = async (entry: DeadLetterEntry) => {
+        try {
+            await Share.share({ message: exportDeadLetter(entry) });
+        } catch (e: any) {
+            addToLog('Export failed: ' + e.message);
+        }
+    };
+
+    const handleShareDeadLetter = async (entry: DeadLetterEntry) => {
+        if (!isOnline) {
+            setToast({ visible: true, message: 'Connect to the internet to send this to your HOD.', type: 'warning' });
+            return;
+        }
+        const { success, error } = await shareDeadLetterWithHod(entry);
+        if (success) {
+            addToLog(`Sent ${entry.submission.classData.subjectName} to HOD for review.`);
+            setToast({ visible: true, message: 'Sent to HOD.', type: 'success' });
+        } else {
+            addToLog('Send to HOD failed: ' + error);
+            setToast({ visible: true, message: 'Could not send to HOD.', type: 'error' });
+        }
+        checkStatus();
+    };
+
+    const handleDiscardDeadLetter = (entry: DeadLetterEntry) => {
+        Alert.alert(
+            'Discard Attendance?',
+            `${entry.submission.classData.subjectName} (${entry.submission.submittedAt.split('T')[0]}) will be permanently deleted from this phone.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Discard',
+                    style: 'destructive',
+                    onPress: async () => {
+                        await discardDeadLetter(entry.id);
+                        addToLog(`Discarded failed upload for ${entry.submission.classData.subjectName}.`);
+                        checkStatus();
+                    },
+                },
+            ]
+        );
+    };
+
     const addToLog = (msg: string) => {
         const time = new Date().toLocaleTimeString();
         setSyncLog(prev => [`[${time}] ${msg}`, ...prev]);
@@ -118,6 +214,42 @@ export const SyncManagerScreen = ({ navigation }: any) => {
                     </View>
                 </View>
 
+                {/* Upload queue */}
+                {authPaused && (
+                    <View style={[styles.banner, { backgroundColor: isDark ? 'rgba(245,158,11,0.15)' : '#FEF3C7' }]}>
+                        <Ionicons name="lock-closed-outline" size={18} color="#F59E0B" />
+                        <Text style={[styles.bannerText, { color: isDark ? '#FCD34D' : '#92400E' }]}>
+                            Uploads paused - your session expired. Sign in again to resume.
+                        </Text>
+                    </View>
+                )}
+                {queue.length > 0 && (
+                    <View style={[styles.card, { backgroundColor: isDark ? '#1E293B' : '#FFF' }]}>
+                        <Text style={[styles.label, { color: isDark ? '#94A3B8' : '#64748B', marginBottom: 8 }]}>UPLOAD QUEUE</Text>
+                        {queue.map(item => {
+                            const due = !item.nextAttemptAt || new Date(item.nextAttemptAt).getTime() <= Date.now();
+                            const attempts = item.errorHistory?.length || 0;
+                            return (
+                                <View key={item.id} style={styles.queueRow}>
+                                    <View style={{ flex: 1 }}>
+                                        <Text style={{ fontSize: 14, fontWeight: '600', color: isDark ? '#FFF' : '#0F172A' }}>
+                                            {item.classData.subjectName} · {item.classData.section}
+                                        </Text>
+                                        <Text style={{ fontSize: 12, color: isDark ? '#94A3B8' : '#64748B', marginTop: 2 }}>
+                                            {item.submittedAt.split('T')[0]}
+                                            {attempts > 0 ? ` · ${attempts} failed attempt${attempts === 1 ? '' : 's'}` : ''}
+                                            {item.failureClass ? ` · ${item.failureClass}` : ''}
+                                        </Text>
+                                    </View>
+                                    <Text style={{ fontSize: 12, fontWeight: '600', color: due ? '#10B981' : '#F59E0B' }}>
+                                        {due ? 'Due now' : `Retry ${new Date(item.nextAttemptAt!).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`}
+                                    </Text>
+                                </View>
+                            );
+                        })}
+                    </View>
+                )}
+
                 {/* Sync Action */}
                 <TouchableOpacity 
                     onPress={handleSync} 
@@ -137,6 +269,44 @@ export const SyncManagerScreen = ({ navigation }: any) => {
                     )}
                 </TouchableOpacity>
 
+                {/* Conflicts */}
+                {conflicts.length > 0 && (
+                    <>
+                        <Text style={[styles.label, { color: isDark ? '#94A3B8' : '#64748B', marginBottom: 12 }]}>
+                            NEEDS REVIEW ({conflicts.length})
+                        </Text>
+                        {conflicts.map(submission => (
+                            <ConflictCard
+                                key={submission.id}
+                                submission={submission}
+                                isDark={isDark}
+                                onResolve={handleResolve}
+                            />
+                        ))}
+                    </>
+                )}
+
+                {/* Dead letters */}
+                {deadLetters.length > 0 && (
+                    <>
+                        <Text style={[styles.label, { color: isDark ? '#94A3B8' : '#64748B', marginBottom: 12 }]}>
+                            FAILED UPLOADS ({deadLetters.length})
+                        </Text>
+                        {deadLetters.map(entry => (
+                            <DeadLetterCard
+                                key={entry.id}
+                                entry={entry}
+                                isDark={isDark}
+                                onSave={handleSaveDeadLetter}
+                                onRetry={handleRetryDeadLetter}
+                                onExport={handleExportDeadLetter}
+                                onShare={handleShareDeadLetter}
+                                onDiscard={handleDiscardDeadLetter}
+                            />
+                        ))}
+                    </>
+                )}
+
                 {/* Logs */}
                 <Text style={[styles.label, { color: isDark ? '#94A3B8' : '#64748B', marginTop: 32, marginBottom: 12 }]}>SYNC ACTIVITY LOG</Text>
                 <View style={[styles.logContainer, { backgroundColor: isDark ? '#1E293B' : '#E2E8F0' }]}>
@@ -173,5 +343,8 @@ const styles = StyleSheet.create({
     syncBtn: { flexDirection: 'row', alignItems: 'center', justifyContent: 'center', padding: 18, borderRadius: 16, marginBottom: 24 },
     syncBtnText: { color: '#FFF', fontWeight: '700', fontSize: 16 },
     logContainer: { borderRadius: 12, padding: 16, minHeight: 200 },
-    logText: { fontSize: 13, marginBottom: 8, fontFamily: 'monospace' }
+    logText: { fontSize: 13, marginBottom: 8, fontFamily: 'monospace' },
+    banner: { flexDirection: 'row', alignItems: 'center', gap: 10, padding: 14, borderRadius: 12, marginBottom: 16 },
+    bannerText: { flex: 1, fontSize: 13, fontWeight: '500' },
+    queueRow: { flexDirection: 'row', alignItems: 'center', paddingVertical: 8 }
 });
@@ -19,6 +19,7 @@ import { HomeScreen } from '../features/dashboard';
 import { AttendanceScreen } from '../features/attendance';
 import { HistoryScreen } from '../features/history';
 import { ProfileScreen } from '../features/profile';
+import type { LogoutMode } from '../features/profile';
 import { ScanScreen } from '../features/scanning';
 import { SwapScreen } from '../features/swap';
 import { MyClassHubScreen } from '../features/incharge';
@@ -38,7 +39,7 @@ const Tab = createBottomTabNavigator<MainTabParamList>();
 interface MainTabNavigatorProps {
   userName: string;
   userRole?: 'faculty' | 'class_incharge' | 'lab_incharge' | 'hod' | 'management';
-  onLogout: () => void;
+  onLogout: (mode: LogoutMode) => Promise<boolean>;
 }
 
 // Custom Scan Button Interface
@@ -4,7 +4,7 @@
  */
 
 import React, { useState, useEffect, useCallback } from 'react';
-import { View, StyleSheet, Text, TouchableOpacity } from 'react-native';
+import { View, StyleSheet, Text, TouchableOpacity, Alert } from 'react-native';
 import { NavigationContainer } from '@react-navigation/native';
 import { navigationRef } from './navigationRef';
 import { createNativeStackNavigator } from '@react-navigation/native-stack';
@@ -20,12 +20,16 @@ import {
 import { SplashScreen } from '@features/core';
 import { LoginScreen, ForgotPasswordScreen } from '@features/auth';
 import { Colors } from '@constants';
-import { signOut, getStoredProfile } from '@services/authService';
+import { signOut, signOutCompletely, getStoredProfile } from '@services/authService';
+import type { LogoutMode } from '@features/profile';
+import { initCampusTime } from '@services/campusTimeService';
+import { initAttendancePolicy } from '@services/attendancePolicyService';
 import { MainTabNavigator } from './MainTabNavigator';
 import {
   MyClassHubScreen,
   PermissionScreen,
   ManagePermissionsScreen,
+  NotifyParentsScreen,
 } from '@features/incharge/screens';
 import { ManualEntryScreen } from '@features/scanning/screens/ManualEntryScreen';
 import { BeaconDoctorScreen } from '@features/diagnostics/screens/BeaconDoctorScreen';
@@ -47,6 +51,7 @@ export type RootStackParamList = {
   Main: undefined;
   Permission: undefined;
   ManagePermissions: undefined;
+  NotifyParents: undefined;
   ManualEntry: { 
     classData: {
       id?: string;
@@ -144,14 +149,32 @@ export const RootNavigator: React.FC = () => {
   };
 
   const handleLoginSuccess = (name: string, role: string) => {
+    // Period times need a session; refresh them for the new login
+    initCampusTime();
+    initAttendancePolicy();
     setUserName(name);
     setUserRole((role as any) || 'faculty');
     setAppState('MAIN'); // Go directly to main dashboard
   };
 
-  const handleLogout = async () => {
-    await signOut();
+  // Resolves false if the user stays signed in
+  const handleLogout = async (mode: LogoutMode = 'keep'): Promise<boolean> => {
+    if (mode === 'wipe') {
+      // The user already confirmed losing anything unsynced
+      const result = await signOutCompletely({ discardUnsynced: true });
+      if (!result.success) {
+        // Never fall back to a plain sign-out: the data would stay on the phone
+        Alert.alert(
+          'Device not wiped',
+          `${result.error || 'Could not wipe this device.'}\n\nOffline data is still on this phone and you are still signed in.`
+        );
+        return false;
+      }
+    } else {
+      await signOut();
+    }
     setAppState('AUTH');
+    return true;
   };
 
   // Loading state
@@ -193,6 +216,11 @@ export const RootNavigator: React.FC = () => {
             component={ManagePermissionsScreen}
             options={{ headerShown: false }}
           />
+          <RootStack.Screen 
+            name="NotifyParents" 
+            component={NotifyParentsScreen}
+            options={{ headerShown: false }}
+          />
           <RootStack.Screen 
             name="ManualEntry" 
             component={ManualEntryScreen}
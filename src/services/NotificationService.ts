@@ -84,8 +84,17 @@ const CHANNELS = {
     vibrationPattern: [0, 500, 250, 500],
     lightColor: '#FF0000',
   },
+  AUTOPILOT: {
+    id: 'autopilot',
+    name: 'Auto-pilot Scanning',
+    description: 'Live present count while auto-pilot scans in the background',
+    importance: Notifications.AndroidImportance.LOW,
+  },
 };
 
+// Fixed identifier so each update replaces the previous status notification
+const AUTOPILOT_STATUS_ID = 'autopilot-status';
+
 // ============================================================================
 // NOTIFICATION SERVICE
 // ============================================================================
@@ -284,6 +293,41 @@ export const NotificationService = {
     return notificationId;
   },
 
+  /**
+   * Show / update the persistent auto-pilot status (live present count)
+   */
+  async showAutoPilotStatus(
+    subjectName: string,
+    presentCount: number,
+    totalCount: number,
+    endsAt: Date
+  ): Promise<void> {
+    const until = endsAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    await Notifications.scheduleNotificationAsync({
+      identifier: AUTOPILOT_STATUS_ID,
+      content: {
+        title: `🛰️ Auto-pilot: ${subjectName}`,
+        body: `${presentCount}/${totalCount} present · scanning until ${until}`,
+        data: { type: 'AUTOPILOT_STATUS' },
+        sound: false,
+        sticky: true,
+        autoDismiss: false,
+      },
+      trigger: Platform.OS === 'android' ? { channelId: CHANNELS.AUTOPILOT.id } : null,
+    });
+  },
+
+  /**
+   * Remove the auto-pilot status notification
+   */
+  async dismissAutoPilotStatus(): Promise<void> {
+    try {
+      await Notifications.dismissNotificationAsync(AUTOPILOT_STATUS_ID);
+    } catch (error) {
+      log.warn('Failed to dismiss auto-pilot status:', error);
+    }
+  },
+
   /**
    * Schedule a notification for a future time
    */
@@ -8,6 +8,8 @@ export interface SyncResult {
     success: boolean;
     syncedCount: number;
     failedCount: number;
+    // Sessions changed on the server since they were scanned (resolve in Sync Manager)
+    conflictCount: number;
     errors: string[];
 }
 
@@ -25,18 +27,21 @@ export class ResolverEngine {
                 success: false, 
                 syncedCount: 0, 
                 failedCount: 0, 
+                conflictCount: 0,
                 errors: ['No internet connection'] 
             };
         }
 
         try {
-            // 2. Delegate to offlineService which handles session + logs correctly
-            const { synced, failed } = await syncPendingSubmissions();
+            // 2. Delegate to offlineService which handles session + logs correctly.
+            // A manual sync tries every item now, ignoring backoff schedules.
+            const { synced, failed, conflicts } = await syncPendingSubmissions({ ignoreBackoff: true });
 
             return {
                 success: failed === 0,
                 syncedCount: synced,
                 failedCount: failed,
+                conflictCount: conflicts,
                 errors: failed > 0 ? ['Some batches failed. Check console logs.'] : []
             };
 
@@ -46,6 +51,7 @@ export class ResolverEngine {
                 success: false,
                 syncedCount: 0,
                 failedCount: 0, 
+                conflictCount: 0,
                 errors: [err.message]
             };
         }
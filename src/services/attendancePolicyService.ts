@@ -0,0 +1,49 @@
+/**
+ * Attendance Policy Service - loads the attendance policy
+ *
+ * Feeds src/shared/attendancePolicy with app_config `attendance_policy`
+ * (thresholds, how OD / leave / medical leave count, lab weight, rounding,
+ * per-department overrides). Cached so percentages computed offline use the
+ * same rules; until loaded the defaults apply.
+ */
+
+import { supabase } from '../config/supabase';
+import { getStorage } from './offline/storage';
+import { setAttendancePolicyConfig, type AttendancePolicyConfig } from '../shared/attendancePolicy';
+import createLogger from '../utils/logger';
+
+const log = createLogger('AttendancePolicy');
+
+const POLICY_CONFIG_KEY = 'attendance_policy';
+const POLICY_CACHE_KEY = '@attend_me/attendance_policy';
+
+/**
+ * Apply the cached policy, then refresh it from the server.
+ */
+export const initAttendancePolicy = async (): Promise<void> => {
+  try {
+    const cached = await getStorage().getItem(POLICY_CACHE_KEY);
+    if (cached) setAttendancePolicyConfig(JSON.parse(cached));
+  } catch (error) {
+    log.warn('Could not read cached attendance policy:', error);
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('app_config')
+      .select('value')
+      .eq('key', POLICY_CONFIG_KEY)
+      .maybeSingle();
+    if (error) throw error;
+
+    const config: AttendancePolicyConfig | null = data?.value && typeof data.value === 'object' ? data.value : null;
+    setAttendancePolicyConfig(config);
+    await getStorage().setItem(POLICY_CACHE_KEY, JSON.stringify(config ?? {}));
+  } catch (error) {
+    log.warn('Using cached attendance policy:', error);
+  }
+};
+
+export default {
+  initAttendancePolicy,
+};
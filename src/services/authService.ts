@@ -5,6 +5,7 @@
 
 import { supabase } from '../config/supabase';
 import * as SecureStore from 'expo-secure-store';
+import { getUnsyncedCount, wipeOfflineDatabase } from './offlineService';
 import createLogger from '../utils/logger';
 
 const log = createLogger('AuthService');
@@ -112,15 +113,46 @@ export async function signOut(): Promise<void> {
 }
 
 /**
- * Full sign out - clears all data (use when switching accounts)
+ * Full sign out - clears all data (use when switching accounts or handing the
+ * phone over). Also wipes the offline database and destroys its key.
+ * Refuses while attendance on this device hasn't reached the server, or when
+ * that cannot be checked (`unsyncedCount` null), unless the caller passes
+ * `discardUnsynced` after the user confirmed losing it.
  */
-export async function signOutCompletely(): Promise<void> {
+export async function signOutCompletely(
+  options: { discardUnsynced?: boolean } = {}
+): Promise<{ success: boolean; unsyncedCount: number | null; error: string | null }> {
+  const unsyncedCount = await getUnsyncedCount();
+  if (unsyncedCount === null && !options.discardUnsynced) {
+    return {
+      success: false,
+      unsyncedCount,
+      error: 'Could not check for attendance that has not been uploaded',
+    };
+  }
+  if (unsyncedCount !== null && unsyncedCount > 0 && !options.discardUnsynced) {
+    return {
+      success: false,
+      unsyncedCount,
+      error: `${unsyncedCount} attendance record(s) have not been uploaded yet`,
+    };
+  }
+
   try {
-    await supabase.auth.signOut();
+    // Wipe first: if it fails the user is still signed in and can retry
+    await wipeOfflineDatabase();
     await SecureStore.deleteItemAsync(STORAGE_KEYS.USER_PROFILE);
     await SecureStore.deleteItemAsync(STORAGE_KEYS.BIOMETRIC_ENABLED);
+    await supabase.auth.signOut();
+    if (unsyncedCount === null) {
+      log.warn('Wiped without knowing whether unsynced records were discarded');
+    } else if (unsyncedCount > 0) {
+      log.warn(`Discarded ${unsyncedCount} unsynced record(s) on wipe`);
+    }
+    return { success: true, unsyncedCount, error: null };
   } catch (error) {
     log.error('Sign out error:', error);
+    return { success: false, unsyncedCount, error: 'Could not wipe this device. Please try again.' };
   }
 }
 
@@ -218,6 +250,7 @@ export async function setBiometricEnabled(enabled: boolean): Promise<void> {
 export default {
   signIn,
   signOut,
+  signOutCompletely,
   getCurrentSession,
   getStoredProfile,
   requestPasswordReset,
@@ -0,0 +1,575 @@
+/**
+ * Auto-Pilot Service - Background scanning until the period ends
+ *
+ * When auto-pilot is on, scanning no longer depends on the ScanScreen being
+ * visible:
+ * - A location task registered through expo-task-manager runs as an Android
+ *   foreground service (and keeps iOS alive in the background). Each task
+ *   tick acts as a watchdog that restarts the scanner and checks the end time.
+ * - Scanning runs in duty cycles (scan window / rest) to save battery. The
+ *   presence model spans cycles, so dwell time still accumulates.
+ * - At `endsAt` the attendance goes through the regular offline queue
+ *   (`queueSubmission`) and is synced right away when online.
+ * - A persistent notification shows the live present count.
+ *
+ * The session is persisted, so a JS reload inside the foreground service
+ * picks up where it left off.
+ */
+
+import * as TaskManager from 'expo-task-manager';
+import * as Location from 'expo-location';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import NetInfo from '@react-native-community/netinfo';
+import {
+  startScanning,
+  stopScanning,
+  isScanningActive,
+  normalizeUUID,
+  type DetectedStudent,
+  type SuspicionReason,
+} from './bleService';
+import { createExactMatcher, composeMatchers } from './bleMatcher';
+import { createRotatingTokenMatcher } from './beaconTokenService';
+import { createPresenceTracker, getPresenceThresholds, type PresenceTracker } from './presenceService';
+import { getPunctualityConfig, classifyPunctuality } from './punctualityService';
+import { getDeviceId } from './coScanService';
+import {
+  getStorage,
+  queueSubmission,
+  syncPendingSubmissions,
+  clearDraftAttendance,
+  recordScanEvent,
+  type PendingSubmission,
+  type DraftIdentity,
+} from './offlineService';
+import NotificationService from './NotificationService';
+import createLogger from '../utils/logger';
+
+const log = createLogger('AutoPilot');
+
+const AUTOPILOT_TASK = 'ATTEND_ME_AUTOPILOT_SCAN';
+const AUTOPILOT_SESSION_KEY = '@attend_me/autopilot_session';
+
+export const AUTOPILOT_CONFIG = {
+  // Radio on for this long per cycle
+  SCAN_WINDOW_MS: 10 * 1000,
+  // Radio off between windows
+  REST_MS: 20 * 1000,
+  // Watchdog tick of the foreground-service task
+  TASK_INTERVAL_MS: 60 * 1000,
+  // Wait before trying again when the period's attendance could not be queued
+  FINISH_RETRY_MS: 30 * 1000,
+  // Minimum gap between persisted last-seen updates of a present student
+  SEEN_THROTTLE_MS: 30 * 1000,
+};
+
+type StudentStatus = 'pending' | 'present' | 'absent' | 'od' | 'leave';
+
+export interface AutoPilotStudent {
+  id: string;
+  rollNo: string;
+  bleUUID?: string;
+  beaconSecret?: string;
+  status: StudentStatus;
+  detectedAt?: number;
+  beaconToken?: string;
+  tokenWindow?: number;
+  proxyFlags?: string[];
+  firstSeenAt?: number;
+  lastSeenAt?: number;
+}
+
+export interface AutoPilotSession {
+  classData: PendingSubmission['classData'];
+  students: AutoPilotStudent[];
+  room?: string | null;
+  // Epoch ms - period end
+  endsAt: number;
+  // Period times ("HH:MM") for late / left-early classification
+  period?: { startTime?: string; endTime?: string };
+  // Scan event log of this session (uploaded with the submission)
+  scanSessionKey: string;
+  startedAt: number;
+  // When the scan screen first started scanning, if before auto-pilot
+  scanStartedAt?: number;
+  // ScanScreen's "attendance already taken" record
+  attendanceKey?: string;
+  // Co-scan this device contributes to (merged server-side)
+  coScanId?: string;
+  // The scan screen's draft of this session, cleared once queued
+  draftIdentity?: DraftIdentity | null;
+}
+
+export type AutoPilotEvent =
+  | { type: 'detected'; studentId: string; detection: DetectedStudent }
+  | { type: 'flagged'; studentId: string; reasons: SuspicionReason[] }
+  | { type: 'seen'; studentId: string; at: number }
+  | { type: 'finished'; presentCount: number; totalCount: number; synced: boolean }
+  // Not queued; the session is kept and the finish retried
+  | { type: 'finish_failed'; error: string };
+
+interface Engine {
+  session: AutoPilotSession;
+  tracker: PresenceTracker;
+  uuidToStudent: Map<string, string>;
+  cycleTimer: ReturnType<typeof setTimeout> | null;
+  finishing: boolean;
+}
+
+let engine: Engine | null = null;
+// In-flight finish, shared by every caller (the task tick, resume, the
+// screen) whether or not the engine is built
+let finishing: Promise<void> | null = null;
+const listeners = new Set<(event: AutoPilotEvent) => void>();
+
+const emit = (event: AutoPilotEvent) => {
+  listeners.forEach(listener => {
+    try {
+      listener(event);
+    } catch (error) {
+      log.error('Listener error:', error);
+    }
+  });
+};
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+export async function getAutoPilotSession(): Promise<AutoPilotSession | null> {
+  try {
+    const raw = await getStorage().getItem(AUTOPILOT_SESSION_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch (error) {
+    log.error('Failed to read session:', error);
+    return null;
+  }
+}
+
+async function saveSession(session: AutoPilotSession): Promise<void> {
+  try {
+    await getStorage().setItem(AUTOPILOT_SESSION_KEY, JSON.stringify(session));
+  } catch (error) {
+    log.error('Failed to save session:', error);
+  }
+}
+
+async function clearSession(): Promise<void> {
+  await getStorage().removeItem(AUTOPILOT_SESSION_KEY);
+}
+
+const countPresent = (session: AutoPilotSession) =>
+  session.students.filter(s => s.status === 'present' || s.status === 'od').length;
+
+const updateStatusNotification = (session: AutoPilotSession) => {
+  NotificationService.showAutoPilotStatus(
+    session.classData.subjectName,
+    countPresent(session),
+    session.students.length,
+    new Date(session.endsAt)
+  ).catch(error => log.warn('Status notification failed:', error));
+};
+
+// ============================================================================
+// DUTY CYCLE
+// ============================================================================
+
+const handleDetection = (device: DetectedStudent) => {
+  if (!engine) return;
+  const { session, tracker, uuidToStudent } = engine;
+
+  const uuid = normalizeUUID(device.uuid);
+  const studentId = uuidToStudent.get(uuid);
+  const student = session.students.find(s => s.id === studentId);
+  if (!student || device.suspicion?.length) return;
+
+  const now = Date.now();
+
+  // Already present: keep last-seen current for early-exit tracking
+  if (student.status === 'present') {
+    if (student.firstSeenAt && now - (student.lastSeenAt || 0) >= AUTOPILOT_CONFIG.SEEN_THROTTLE_MS) {
+      student.lastSeenAt = now;
+      saveSession(session);
+      emit({ type: 'seen', studentId: student.id, at: now });
+    }
+    return;
+  }
+  if (student.status !== 'pending') return;
+
+  const presence = tracker.observe(uuid, device.rssi);
+  if (!presence.becamePresent) return;
+
+  student.status = 'present';
+  student.detectedAt = now;
+  student.firstSeenAt = student.firstSeenAt ?? now;
+  student.lastSeenAt = now;
+  student.beaconToken = device.token;
+  student.tokenWindow = device.tokenWindow;
+
+  recordScanEvent(session.scanSessionKey, {
+    type: 'detection',
+    at: Date.now(),
+    studentId: student.id,
+    rssi: device.rssi,
+    strategy: device.strategy,
+    deviceId: device.deviceId,
+  });
+  saveSession(session);
+  updateStatusNotification(session);
+  emit({ type: 'detected', studentId: student.id, detection: device });
+};
+
+const handleSuspicious = (uuid: string, reasons: SuspicionReason[]) => {
+  if (!engine) return;
+  const { session, uuidToStudent } = engine;
+
+  const studentId = uuidToStudent.get(normalizeUUID(uuid));
+  const student = session.students.find(s => s.id === studentId);
+  if (!student) return;
+
+  student.proxyFlags = Array.from(new Set([...(student.proxyFlags || []), ...reasons]));
+  if (student.status === 'present') {
+    student.status = 'pending';
+    student.detectedAt = undefined;
+    student.beaconToken = undefined;
+    student.tokenWindow = undefined;
+  }
+
+  recordScanEvent(session.scanSessionKey, {
+    type: 'proxy_flag',
+    at: Date.now(),
+    studentId: student.id,
+    reasons,
+  });
+  saveSession(session);
+  updateStatusNotification(session);
+  emit({ type: 'flagged', studentId: student.id, reasons });
+};
+
+const runCycle = () => {
+  if (!engine || engine.finishing) return;
+  engine.cycleTimer = null;
+
+  const { session } = engine;
+  if (Date.now() >= session.endsAt) {
+    finishAutoPilot().catch(error => log.error('Finish failed:', error));
+    return;
+  }
+
+  const securedStudents = session.students
+    .filter(s => s.bleUUID && s.beaconSecret)
+    .map(s => ({ uuid: s.bleUUID!, secret: s.beaconSecret! }));
+  const legacyUUIDs = session.students
+    .filter(s => s.bleUUID && !s.beaconSecret)
+    .map(s => s.bleUUID!);
+
+  // Take over the radio from any foreground scan
+  stopScanning();
+  startScanning(handleDetection, session.students.filter(s => s.bleUUID).map(s => s.bleUUID!), {
+    matcher: composeMatchers(
+      createRotatingTokenMatcher(securedStudents),
+      createExactMatcher(legacyUUIDs),
+    ),
+    timeout: Math.min(AUTOPILOT_CONFIG.SCAN_WINDOW_MS, Math.max(1000, session.endsAt - Date.now())),
+    onTimeout: () => scheduleCycle(AUTOPILOT_CONFIG.REST_MS),
+    onError: (error) => {
+      log.error('Scan error:', error.message);
+      stopScanning();
+      scheduleCycle(AUTOPILOT_CONFIG.REST_MS);
+    },
+    onSuspicious: handleSuspicious,
+  });
+};
+
+const scheduleCycle = (delayMs: number) => {
+  if (!engine || engine.finishing) return;
+  if (engine.cycleTimer) clearTimeout(engine.cycleTimer);
+  const untilEnd = Math.max(0, engine.session.endsAt - Date.now());
+  engine.cycleTimer = setTimeout(runCycle, Math.min(delayMs, untilEnd));
+};
+
+// Build the in-memory engine from the persisted session. If it is already
+// running, restart the cycle when something else stopped the radio mid-window.
+async function ensureEngine(): Promise<boolean> {
+  if (engine) {
+    if (!engine.finishing && !engine.cycleTimer && !isScanningActive()) {
+      log.info('Cycle was interrupted - restarting');
+      runCycle();
+    }
+    return true;
+  }
+
+  const session = await getAutoPilotSession();
+  if (!session) return false;
+
+  const uuidToStudent = new Map<string, string>();
+  session.students.forEach(s => {
+    if (s.bleUUID) uuidToStudent.set(normalizeUUID(s.bleUUID), s.id);
+  });
+
+  const thresholds = await getPresenceThresholds(session.room);
+  engine = {
+    session,
+    tracker: createPresenceTracker(thresholds),
+    uuidToStudent,
+    cycleTimer: null,
+    finishing: false,
+  };
+
+  log.info('Engine started,', session.students.length, 'students, ends', new Date(session.endsAt).toLocaleTimeString());
+  updateStatusNotification(session);
+  runCycle();
+  return true;
+}
+
+async function teardown(): Promise<void> {
+  if (engine?.cycleTimer) clearTimeout(engine.cycleTimer);
+  engine = null;
+  stopScanning();
+
+  try {
+    if (await TaskManager.isTaskRegisteredAsync(AUTOPILOT_TASK)) {
+      await Location.stopLocationUpdatesAsync(AUTOPILOT_TASK);
+    }
+  } catch (error) {
+    log.warn('Failed to stop background task:', error);
+  }
+
+  await NotificationService.dismissAutoPilotStatus();
+}
+
+// ============================================================================
+// TASK DEFINITION (must be at top level, outside of components)
+// ============================================================================
+
+TaskManager.defineTask(AUTOPILOT_TASK, async ({ error }) => {
+  if (error) {
+    log.error('Task error:', error.message);
+    return;
+  }
+
+  if (engine && Date.now() >= engine.session.endsAt) {
+    await finishAutoPilot();
+    return;
+  }
+
+  const running = await ensureEngine();
+  if (!running) {
+    // Session is gone (finished or stopped) - nothing to keep alive
+    await teardown();
+  }
+});
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Start auto-pilot for a scan session. Returns whether background execution
+ * is available; without it scanning continues only while the app is open.
+ */
+export async function startAutoPilot(session: AutoPilotSession): Promise<{ background: boolean }> {
+  await teardown();
+  await saveSession(session);
+
+  let background = false;
+  try {
+    const foreground = await Location.requestForegroundPermissionsAsync();
+    const backgroundPermission = foreground.granted
+      ? await Location.requestBackgroundPermissionsAsync()
+      : null;
+
+    if (backgroundPermission?.granted) {
+      await Location.startLocationUpdatesAsync(AUTOPILOT_TASK, {
+        accuracy: Location.Accuracy.Lowest,
+        timeInterval: AUTOPILOT_CONFIG.TASK_INTERVAL_MS,
+        distanceInterval: 0,
+        pausesUpdatesAutomatically: false,
+        showsBackgroundLocationIndicator: false,
+        foregroundService: {
+          notificationTitle: 'Auto-pilot scanning',
+          notificationBody: `${session.classData.subjectName} · until ${new Date(session.endsAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`,
+          killServiceOnDestroy: false,
+        },
+      });
+      background = true;
+    } else {
+      log.warn('Background location denied - auto-pilot runs in foreground only');
+    }
+  } catch (error) {
+    log.error('Failed to register background task:', error);
+  }
+
+  await ensureEngine();
+  return { background };
+}
+
+/**
+ * Stop auto-pilot without submitting. Returns the session as it stood so the
+ * caller can merge detections made while it was running.
+ */
+export async function stopAutoPilot(): Promise<AutoPilotSession | null> {
+  const session = engine?.session ?? (await getAutoPilotSession());
+  await teardown();
+  await clearSession();
+  log.info('Stopped');
+  return session;
+}
+
+/**
+ * Period is over: queue the attendance through the offline queue, sync it
+ * right away when online, and shut the engine down. Concurrent calls share
+ * one run.
+ */
+export function finishAutoPilot(): Promise<void> {
+  if (!finishing) {
+    finishing = finishSession().finally(() => {
+      finishing = null;
+    });
+  }
+  return finishing;
+}
+
+async function finishSession(): Promise<void> {
+  const session = engine?.session ?? (await getAutoPilotSession());
+  if (!session) return;
+  if (engine) engine.finishing = true;
+
+  log.info('Period ended - submitting attendance');
+  stopScanning();
+
+  const presentCount = countPresent(session);
+  let synced = false;
+
+  // Until the attendance is in the offline queue the persisted session is
+  // the only copy of the period - keep it and try again
+  try {
+    await recordScanEvent(session.scanSessionKey, { type: 'submit', at: Date.now() });
+
+    const punctuality = classifyPunctuality(
+      session.students.filter(s => s.status === 'present'),
+      {
+        startTime: session.period?.startTime,
+        endTime: session.period?.endTime,
+        scanStartedAt: session.scanStartedAt ?? session.startedAt,
+      },
+      await getPunctualityConfig()
+    );
+
+    // One id per scan session, so a repeated finish replaces its own entry
+    await queueSubmission({
+      id: `autopilot-${session.scanSessionKey}`,
+      classData: session.classData,
+      attendance: session.students.map(s => ({
+        studentId: s.id,
+        status: s.status === 'pending' ? 'absent' as const : s.status,
+        detectedAt: s.detectedAt ? new Date(s.detectedAt).toISOString() : undefined,
+        beaconToken: s.beaconToken,
+        tokenWindow: s.tokenWindow,
+        proxyFlags: s.proxyFlags,
+        firstSeenAt: s.firstSeenAt ? new Date(s.firstSeenAt).toISOString() : undefined,
+        lastSeenAt: s.lastSeenAt ? new Date(s.lastSeenAt).toISOString() : undefined,
+        isLate: punctuality.get(s)?.isLate,
+        leftEarly: punctuality.get(s)?.leftEarly,
+      })),
+      submittedAt: new Date().toISOString(),
+      retryCount: 0,
+      scanSessionKey: session.scanSessionKey,
+      ...(session.coScanId ? { coScanId: session.coScanId, deviceId: await getDeviceId() } : {}),
+    });
+  } catch (error: any) {
+    log.error('Failed to queue auto-pilot attendance, keeping the session:', error);
+    if (engine) {
+      engine.finishing = false;
+      if (engine.cycleTimer) clearTimeout(engine.cycleTimer);
+      engine.cycleTimer = setTimeout(runCycle, AUTOPILOT_CONFIG.FINISH_RETRY_MS);
+    }
+    await NotificationService.showLocalNotification({
+      title: '⚠️ Attendance not saved yet',
+      body: `${session.classData.subjectName}: retrying. Keep the app installed and signed in.`,
+      data: { type: 'AUTOPILOT_FINISH_FAILED' },
+    }).catch(() => {});
+    emit({ type: 'finish_failed', error: error?.message || 'Could not queue attendance' });
+    return;
+  }
+
+  // Queued: nothing below can lose the period
+  try {
+    if (session.draftIdentity) await clearDraftAttendance(session.draftIdentity);
+
+    if (session.attendanceKey) {
+      await AsyncStorage.setItem(session.attendanceKey, JSON.stringify({
+        takenAt: new Date().toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' }),
+        presentCount,
+        absentCount: session.students.length - presentCount,
+        date: new Date().toISOString(),
+      }));
+    }
+
+    const netState = await NetInfo.fetch();
+    if (netState.isConnected) {
+      const result = await syncPendingSubmissions();
+      synced = result.synced > 0;
+    }
+  } catch (error) {
+    log.error('Auto-pilot attendance queued but not synced:', error);
+  }
+
+  await teardown();
+  await clearSession();
+
+  await NotificationService.showLocalNotification({
+    title: synced ? '✅ Attendance submitted' : '📥 Attendance queued',
+    body: `${session.classData.subjectName}: ${presentCount}/${session.students.length} present`,
+    data: { type: 'AUTOPILOT_FINISHED' },
+  }).catch(() => {});
+
+  emit({ type: 'finished', presentCount, totalCount: session.students.length, synced });
+}
+
+// Keep manual overrides made during auto-pilot in the submitted record
+export async function setAutoPilotStudentStatus(studentId: string, status: StudentStatus): Promise<void> {
+  const session = engine?.session ?? (await getAutoPilotSession());
+  const student = session?.students.find(s => s.id === studentId);
+  if (!session || !student) return;
+
+  student.status = status;
+  student.detectedAt = status === 'present' ? Date.now() : undefined;
+  student.beaconToken = undefined;
+  student.tokenWindow = undefined;
+  await saveSession(session);
+  updateStatusNotification(session);
+}
+
+// Resume the engine after a reload if a session is still pending
+export async function resumeAutoPilot(): Promise<boolean> {
+  const session = await getAutoPilotSession();
+  if (!session) return false;
+  if (Date.now() >= session.endsAt) {
+    await finishAutoPilot();
+    // Still there if it could not be queued; the finish is retried
+    return (await getAutoPilotSession()) !== null;
+  }
+  return ensureEngine();
+}
+
+export const isAutoPilotRunning = (): boolean => engine !== null && !engine.finishing;
+
+export function subscribeAutoPilot(listener: (event: AutoPilotEvent) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export default {
+  AUTOPILOT_CONFIG,
+  startAutoPilot,
+  stopAutoPilot,
+  finishAutoPilot,
+  resumeAutoPilot,
+  setAutoPilotStudentStatus,
+  getAutoPilotSession,
+  isAutoPilotRunning,
+  subscribeAutoPilot,
+};
@@ -9,7 +9,7 @@
 
 import * as TaskManager from 'expo-task-manager';
 import * as BackgroundFetch from 'expo-background-fetch';
-import { syncPendingSubmissions, getPendingCount } from './offlineService';
+import { syncPendingSubmissions, getPendingCount, getNextDueAt, type SyncOptions } from './offlineService';
 import NetInfo from '@react-native-community/netinfo';
 import createLogger from '../utils/logger';
 
@@ -32,13 +32,19 @@ TaskManager.defineTask(BACKGROUND_SYNC_TASK, async () => {
       return BackgroundFetch.BackgroundFetchResult.NoData;
     }
 
-    // Check if there are pending submissions
-    const pendingCount = await getPendingCount();
-    if (pendingCount === 0) {
-      log.info('No pending submissions');
+    // Only wake the uploader once the soonest item's backoff has elapsed
+    const nextDueAt = await getNextDueAt();
+    if (!nextDueAt) {
+      log.info('Nothing due (queue empty or paused for sign-in)');
+      return BackgroundFetch.BackgroundFetchResult.NoData;
+    }
+    if (new Date(nextDueAt).getTime() > Date.now()) {
+      log.info('Next upload not due until', nextDueAt);
       return BackgroundFetch.BackgroundFetchResult.NoData;
     }
 
+    const pendingCount = await getPendingCount();
+
     // Attempt sync
     log.info(`Syncing ${pendingCount} pending submissions...`);
     const result = await syncPendingSubmissions();
@@ -115,10 +121,11 @@ export async function unregisterBackgroundSync(): Promise<void> {
 }
 
 /**
- * Foreground sync trigger — use when app detects connectivity restored.
+ * Foreground sync trigger — use when app detects connectivity restored or
+ * when the soonest queued item becomes due.
  * This is more reliable than background fetch for immediate sync.
  */
-export async function triggerForegroundSync(): Promise<{ synced: number; failed: number }> {
+export async function triggerForegroundSync(options: SyncOptions = {}): Promise<{ synced: number; failed: number }> {
   try {
     const pendingCount = await getPendingCount();
     if (pendingCount === 0) {
@@ -126,7 +133,7 @@ export async function triggerForegroundSync(): Promise<{ synced: number; failed:
     }
 
     log.info(`Triggering sync for ${pendingCount} pending submissions`);
-    return await syncPendingSubmissions();
+    return await syncPendingSubmissions(options);
   } catch (error) {
     log.error('Error:', error);
     return { synced: 0, failed: 0 };
@@ -0,0 +1,98 @@
+/**
+ * Beacon Token Service - Rotating, signed beacon identifiers
+ *
+ * A student's beacon no longer advertises a static `bluetooth_uuid`. Instead it
+ * advertises a short-lived token derived from a per-student secret and the
+ * current time window:
+ *
+ *   token = first 128 bits of HMAC-SHA256(key = beacon_secret, msg = window)
+ *   window = floor(unix_seconds / WINDOW_SECONDS)
+ *
+ * The token is formatted as a 128-bit service UUID. The scanner accepts the
+ * current window and its neighbours (clock drift between phones), and the
+ * server re-verifies every uploaded detection with the same formula
+ * (see `verify_beacon_detection` in database/schema.sql).
+ */
+
+import { hmacSha256Hex } from '../utils/crypto';
+import { normalizeUUID, type BeaconMatcher } from './bleMatcher';
+import createLogger from '../utils/logger';
+
+const log = createLogger('BeaconToken');
+
+export const BEACON_TOKEN_CONFIG = {
+  // Token lifetime. Must match the window used by verify_beacon_detection().
+  WINDOW_SECONDS: 60,
+  // Windows accepted on either side of the current one
+  ADJACENT_WINDOWS: 1,
+};
+
+export interface SecuredStudent {
+  // Identity used by the rest of the scan pipeline (the student's bluetooth_uuid)
+  uuid: string;
+  secret: string;
+}
+
+// Time window index for a timestamp
+export const getTokenWindow = (timeMs: number = Date.now()): number => {
+  return Math.floor(timeMs / 1000 / BEACON_TOKEN_CONFIG.WINDOW_SECONDS);
+};
+
+// Derive the UUID-formatted token a beacon advertises during `window`
+export const deriveBeaconToken = (secret: string, window: number): string => {
+  const hex = hmacSha256Hex(secret, String(window)).slice(0, 32);
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    hex.slice(12, 16),
+    hex.slice(16, 20),
+    hex.slice(20, 32),
+  ].join('-');
+};
+
+/**
+ * Matcher that accepts only valid rotating tokens for the given students.
+ * The token table is rebuilt lazily whenever the time window rolls over.
+ */
+export const createRotatingTokenMatcher = (students: SecuredStudent[]): BeaconMatcher => {
+  let tableWindow: number | null = null;
+  let tokenTable = new Map<string, { uuid: string; window: number }>();
+
+  const rebuild = (current: number) => {
+    const table = new Map<string, { uuid: string; window: number }>();
+    for (let offset = -BEACON_TOKEN_CONFIG.ADJACENT_WINDOWS; offset <= BEACON_TOKEN_CONFIG.ADJACENT_WINDOWS; offset++) {
+      const window = current + offset;
+      for (const student of students) {
+        table.set(normalizeUUID(deriveBeaconToken(student.secret, window)), { uuid: student.uuid, window });
+      }
+    }
+    tokenTable = table;
+    tableWindow = current;
+    log.debug('Token table rebuilt for window', current, 'entries:', table.size);
+  };
+
+  return (advertisement) => {
+    if (students.length === 0) return null;
+
+    const current = getTokenWindow();
+    if (tableWindow !== current) {
+      rebuild(current);
+    }
+
+    for (const serviceUUID of advertisement.serviceUUIDs) {
+      const token = normalizeUUID(serviceUUID);
+      const entry = tokenTable.get(token);
+      if (entry) {
+        return { uuid: entry.uuid, strategy: 'rotating_token', token, tokenWindow: entry.window };
+      }
+    }
+    return null;
+  };
+};
+
+export default {
+  BEACON_TOKEN_CONFIG,
+  getTokenWindow,
+  deriveBeaconToken,
+  createRotatingTokenMatcher,
+};
@@ -0,0 +1,240 @@
+/**
+ * BLE Matcher - Resolves advertisements to students by exact lookup
+ *
+ * A lookup index (normalized UUID → student UUIDs) is built once per scan and
+ * every advertisement is run through a ranked list of strategies:
+ *
+ *   1. service_uuid       - full 128-bit advertised service UUID
+ *   2. service_data       - payload of a 16-bit service data entry
+ *   3. manufacturer_data  - manufacturer payload (raw or iBeacon layout)
+ *   4. name_prefix        - device name holding a (possibly truncated) UUID
+ *
+ * The first strategy that produces any candidate decides. If it produces more
+ * than one student the outcome is reported as ambiguous instead of picking one.
+ */
+
+import createLogger from '../utils/logger';
+
+const log = createLogger('BLEMatcher');
+
+export type MatchStrategy =
+  | 'rotating_token'
+  | 'service_uuid'
+  | 'service_data'
+  | 'manufacturer_data'
+  | 'name_prefix';
+
+export const MATCH_STRATEGY_LABELS: Record<MatchStrategy, string> = {
+  rotating_token: 'Rotating Token',
+  service_uuid: 'Service UUID',
+  service_data: 'Service Data (16-bit)',
+  manufacturer_data: 'Manufacturer Data',
+  name_prefix: 'Name Prefix',
+};
+
+const MATCHER_CONFIG = {
+  // Shortest device name accepted as a UUID prefix (hex chars)
+  MIN_NAME_PREFIX_LENGTH: 8,
+  // Length of a normalized 128-bit UUID
+  UUID_HEX_LENGTH: 32,
+};
+
+// Bluetooth base UUID - 16-bit UUIDs are reported expanded into it
+const BASE_UUID_SUFFIX = '00001000800000805f9b34fb';
+
+// Raw advertisement fields handed to a matcher
+export interface BeaconAdvertisement {
+  deviceId: string;
+  deviceName: string;
+  serviceUUIDs: string[];
+  // Service UUID → base64 payload
+  serviceData?: Record<string, string> | null;
+  // Base64 payload, starting with the 2-byte company ID
+  manufacturerData?: string | null;
+  rssi: number;
+}
+
+export interface BeaconMatch {
+  uuid: string;
+  strategy: MatchStrategy;
+  token?: string;
+  tokenWindow?: number;
+}
+
+export interface AmbiguousMatch {
+  ambiguous: true;
+  strategy: MatchStrategy;
+  // Student UUIDs that all matched this advertisement
+  candidates: string[];
+}
+
+export type MatchOutcome = BeaconMatch | AmbiguousMatch | null;
+
+// Resolves an advertisement to a student UUID (or null if it isn't one of ours)
+export type BeaconMatcher = (advertisement: BeaconAdvertisement) => MatchOutcome;
+
+export const isAmbiguousMatch = (outcome: MatchOutcome): outcome is AmbiguousMatch => {
+  return outcome !== null && 'ambiguous' in outcome;
+};
+
+// Normalize UUID for comparison (removes dashes, lowercases)
+export const normalizeUUID = (uuid: string): string => {
+  return uuid.toLowerCase().replace(/[-:]/g, '');
+};
+
+// =====================================================
+// PAYLOAD DECODING
+// =====================================================
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// Base64 → lowercase hex (BLE payloads are small, no need for a dependency)
+const base64ToHex = (input: string): string => {
+  const clean = input.replace(/[^A-Za-z0-9+/]/g, '');
+  let hex = '';
+  let buffer = 0;
+  let bits = 0;
+
+  for (const char of clean) {
+    buffer = (buffer << 6) | BASE64_ALPHABET.indexOf(char);
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      hex += ((buffer >> bits) & 0xff).toString(16).padStart(2, '0');
+    }
+  }
+  return hex;
+};
+
+// True for '180f' style UUIDs and their base-UUID expansion
+const isShortServiceUUID = (uuid: string): boolean => {
+  const normalized = normalizeUUID(uuid);
+  return normalized.length === 4 ||
+    (normalized.length === 32 && normalized.startsWith('0000') && normalized.endsWith(BASE_UUID_SUFFIX));
+};
+
+// =====================================================
+// INDEX
+// =====================================================
+
+export interface MatchIndex {
+  // Normalized UUID → original student UUIDs (more than one = duplicate data)
+  byUUID: Map<string, string[]>;
+  size: number;
+}
+
+export const buildMatchIndex = (studentUUIDs: string[]): MatchIndex => {
+  const byUUID = new Map<string, string[]>();
+
+  for (const uuid of studentUUIDs) {
+    const key = normalizeUUID(uuid);
+    if (!key) continue;
+    const existing = byUUID.get(key);
+    if (existing) {
+      if (!existing.includes(uuid)) existing.push(uuid);
+    } else {
+      byUUID.set(key, [uuid]);
+    }
+  }
+
+  const duplicates = Array.from(byUUID.values()).filter(uuids => uuids.length > 1).length;
+  if (duplicates > 0) {
+    log.warn('⚠️', duplicates, 'normalized UUIDs are shared by several students');
+  }
+
+  return { byUUID, size: byUUID.size };
+};
+
+// =====================================================
+// STRATEGIES
+// =====================================================
+
+type Strategy = (advertisement: BeaconAdvertisement, index: MatchIndex) => string[];
+
+const lookup = (index: MatchIndex, key: string): string[] => index.byUUID.get(key) || [];
+
+const matchServiceUUID: Strategy = ({ serviceUUIDs }, index) => {
+  return serviceUUIDs.flatMap(serviceUUID => lookup(index, normalizeUUID(serviceUUID)));
+};
+
+const matchServiceData: Strategy = ({ serviceData }, index) => {
+  if (!serviceData) return [];
+  return Object.entries(serviceData)
+    .filter(([serviceUUID, payload]) => payload && isShortServiceUUID(serviceUUID))
+    .flatMap(([, payload]) => {
+      const hex = base64ToHex(payload);
+      return lookup(index, hex.slice(0, MATCHER_CONFIG.UUID_HEX_LENGTH));
+    });
+};
+
+const matchManufacturerData: Strategy = ({ manufacturerData }, index) => {
+  if (!manufacturerData) return [];
+  // Skip the 2-byte company ID, then the iBeacon type/length header if present
+  let payload = base64ToHex(manufacturerData).slice(4);
+  if (payload.startsWith('0215')) {
+    payload = payload.slice(4);
+  }
+  return lookup(index, payload.slice(0, MATCHER_CONFIG.UUID_HEX_LENGTH));
+};
+
+const matchNamePrefix: Strategy = ({ deviceName }, index) => {
+  const name = normalizeUUID(deviceName || '');
+  if (name.length < MATCHER_CONFIG.MIN_NAME_PREFIX_LENGTH || !/^[0-9a-f]+$/.test(name)) {
+    return [];
+  }
+  const candidates: string[] = [];
+  index.byUUID.forEach((uuids, key) => {
+    if (key.startsWith(name)) candidates.push(...uuids);
+  });
+  return candidates;
+};
+
+// Ranked - earlier strategies are more specific
+const STRATEGIES: [MatchStrategy, Strategy][] = [
+  ['service_uuid', matchServiceUUID],
+  ['service_data', matchServiceData],
+  ['manufacturer_data', matchManufacturerData],
+  ['name_prefix', matchNamePrefix],
+];
+
+/**
+ * Exact matcher over the given student UUIDs. Build it once per scan.
+ */
+export const createExactMatcher = (studentUUIDs: string[]): BeaconMatcher => {
+  const index = buildMatchIndex(studentUUIDs);
+
+  return (advertisement) => {
+    if (index.size === 0) return null;
+
+    for (const [strategy, run] of STRATEGIES) {
+      const candidates = Array.from(new Set(run(advertisement, index)));
+      if (candidates.length === 1) {
+        return { uuid: candidates[0], strategy };
+      }
+      if (candidates.length > 1) {
+        return { ambiguous: true, strategy, candidates };
+      }
+    }
+    return null;
+  };
+};
+
+// Try matchers in order, first non-null outcome wins
+export const composeMatchers = (...matchers: BeaconMatcher[]): BeaconMatcher => {
+  return (advertisement) => {
+    for (const matcher of matchers) {
+      const outcome = matcher(advertisement);
+      if (outcome) return outcome;
+    }
+    return null;
+  };
+};
+
+export default {
+  MATCH_STRATEGY_LABELS,
+  normalizeUUID,
+  buildMatchIndex,
+  createExactMatcher,
+  composeMatchers,
+  isAmbiguousMatch,
+};
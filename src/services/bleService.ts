@@ -4,17 +4,18 @@
  * Features:
  * - Initialize BLE manager
  * - Scan for student device UUIDs
- * - Match detected UUIDs with student records
+ * - Match detected UUIDs with student records (see bleMatcher)
  * - RSSI threshold filtering
+ * - Proxy-phone detection (one device answering for several students)
  * - Scan timeout protection
  * 
  * NOTE ON BACKGROUND SCANNING:
- * - This implementation primarily supports foreground scanning.
- * - For true background scanning (screen off/app minimized):
- *   1. iOS: Requires 'Uses Bluetooth LE accessories' in UIBackgroundModes (Info.plist) and EAS Build.
- *   2. Android: Requires ACCESS_BACKGROUND_LOCATION and foreground service.
+ * - Manual scans run in the foreground only.
+ * - Auto-pilot (see autoPilotService) keeps scanning with the screen off:
+ *   1. iOS: 'bluetooth-central' + 'location' in UIBackgroundModes (EAS Build).
+ *   2. Android: location task running as a foreground service
+ *      (ACCESS_BACKGROUND_LOCATION + FOREGROUND_SERVICE_LOCATION).
  *   3. Expo Go: Background scanning is NOT supported.
- *   4. Library: react-native-ble-plx has limited background support without ejection.
  * 
  * NOTE ON RANGE:
  * - MIN_RSSI is set to -120 to allow maximum range (essentially no filter).
@@ -24,6 +25,16 @@
 import { BleManager, Device, State, ScanMode } from 'react-native-ble-plx';
 import { Platform, PermissionsAndroid } from 'react-native';
 import createLogger from '../utils/logger';
+import {
+  createExactMatcher,
+  isAmbiguousMatch,
+  normalizeUUID,
+  type AmbiguousMatch,
+  type BeaconMatcher,
+  type MatchStrategy,
+} from './bleMatcher';
+
+export { normalizeUUID };
 
 const log = createLogger('BLE');
 
@@ -44,12 +55,32 @@ const BLE_CONFIG = {
   MAX_SCAN_DURATION: 60 * 60 * 1000,
   // Log verbose device info (only in dev)
   VERBOSE_LOGGING: __DEV__,
+  // Window in which a student's device switches are counted
+  DEVICE_HOP_WINDOW_MS: 5 * 60 * 1000,
+  // Device switches tolerated inside the window (one MAC rotation is normal)
+  MAX_DEVICE_SWITCHES: 2,
+};
+
+// Why a student's detections look like someone else's phone answering for them
+export type SuspicionReason = 'shared_device' | 'device_hopping';
+
+export const SUSPICION_LABELS: Record<SuspicionReason, string> = {
+  shared_device: 'Same phone as another student',
+  device_hopping: 'Detected from several phones',
 };
 
 export interface DetectedStudent {
   uuid: string;
   rssi: number;
+  deviceId: string;
   deviceName: string | null;
+  // Which match strategy identified the student
+  strategy: MatchStrategy;
+  // Rotating token evidence (only for students with a beacon secret)
+  token?: string;
+  tokenWindow?: number;
+  // Set when the device tracker flagged this student (never auto-mark)
+  suspicion?: SuspicionReason[];
 }
 
 export type BLEState = 'unknown' | 'resetting' | 'unsupported' | 'unauthorized' | 'off' | 'on';
@@ -70,11 +101,6 @@ export const getBLEState = async (): Promise<BLEState> => {
   return state.toLowerCase() as BLEState;
 };
 
-// Normalize UUID for comparison (removes dashes, lowercases)
-export const normalizeUUID = (uuid: string): string => {
-  return uuid.toLowerCase().replace(/[-:]/g, '');
-};
-
 // Request BLE permissions (Android)
 export const requestBLEPermissions = async (): Promise<boolean> => {
   if (Platform.OS === 'android') {
@@ -135,6 +161,72 @@ export const isBLEReady = async (): Promise<{ ready: boolean; reason?: string }>
   return { ready: true };
 };
 
+// =====================================================
+// PROXY-PHONE DETECTION
+// =====================================================
+
+interface DeviceSighting {
+  deviceId: string;
+  at: number;
+}
+
+/**
+ * Tracks device ID → student matches for one scan. A device that answers for
+ * more than one student, or a student whose detections keep bouncing between
+ * devices, is flagged instead of silently auto-marked.
+ */
+export const createDeviceTracker = () => {
+  const studentsByDevice = new Map<string, Set<string>>();
+  const sightingsByStudent = new Map<string, DeviceSighting[]>();
+  const flags = new Map<string, Set<SuspicionReason>>();
+
+  const flag = (uuid: string, reason: SuspicionReason, changed: Set<string>) => {
+    const reasons = flags.get(uuid) || new Set<SuspicionReason>();
+    if (!reasons.has(reason)) {
+      reasons.add(reason);
+      flags.set(uuid, reasons);
+      changed.add(uuid);
+    }
+  };
+
+  // Returns the student UUIDs whose flags changed with this sighting
+  const record = (deviceId: string, uuid: string, at: number = Date.now()): string[] => {
+    const changed = new Set<string>();
+
+    const students = studentsByDevice.get(deviceId) || new Set<string>();
+    students.add(uuid);
+    studentsByDevice.set(deviceId, students);
+    if (students.size > 1) {
+      students.forEach(student => flag(student, 'shared_device', changed));
+    }
+
+    const sightings = (sightingsByStudent.get(uuid) || [])
+      .filter(s => at - s.at <= BLE_CONFIG.DEVICE_HOP_WINDOW_MS);
+    if (sightings.length === 0 || sightings[sightings.length - 1].deviceId !== deviceId) {
+      sightings.push({ deviceId, at });
+    }
+    sightingsByStudent.set(uuid, sightings);
+    // Each entry after the first is a switch to a different device
+    if (sightings.length - 1 > BLE_CONFIG.MAX_DEVICE_SWITCHES) {
+      flag(uuid, 'device_hopping', changed);
+    }
+
+    return Array.from(changed);
+  };
+
+  const getFlags = (uuid: string): SuspicionReason[] => Array.from(flags.get(uuid) || []);
+
+  const reset = () => {
+    studentsByDevice.clear();
+    sightingsByStudent.clear();
+    flags.clear();
+  };
+
+  return { record, getFlags, reset };
+};
+
+export type DeviceTracker = ReturnType<typeof createDeviceTracker>;
+
 // Check if scanning is active
 export const isScanningActive = (): boolean => {
   return isCurrentlyScanning;
@@ -149,6 +241,12 @@ export const startScanning = (
     timeout?: number;
     onTimeout?: () => void;
     onError?: (error: Error) => void;
+    // Called once per device whose advertisement matches several students
+    onAmbiguous?: (ambiguity: AmbiguousMatch, deviceId: string) => void;
+    // Custom matcher (defaults to exact matching on studentUUIDs)
+    matcher?: BeaconMatcher;
+    // Called when a student's flags change (see createDeviceTracker)
+    onSuspicious?: (uuid: string, reasons: SuspicionReason[], deviceId: string) => void;
   }
 ): (() => void) => {
   // Guard: prevent double start
@@ -161,12 +259,11 @@ export const startScanning = (
   const minRSSI = options?.minRSSI ?? BLE_CONFIG.MIN_RSSI;
   const timeout = options?.timeout ?? BLE_CONFIG.MAX_SCAN_DURATION;
   
-  // Normalize UUIDs for comparison (lowercase, no dashes for flexibility)
-  const normalizedStudentUUIDs = studentUUIDs?.map(normalizeUUID) || [];
+  const matcher = options?.matcher ?? createExactMatcher(studentUUIDs || []);
   
   log.info('==========================================');
   log.info('Starting BLE scan');
-  log.info('Looking for', normalizedStudentUUIDs.length, 'student UUIDs');
+  log.info('Looking for', studentUUIDs?.length || 0, 'student UUIDs');
   log.info('Min RSSI:', minRSSI);
   log.info('Timeout:', timeout / 1000, 'seconds');
   log.info('==========================================');
@@ -188,6 +285,8 @@ export const startScanning = (
   
   // Track detected devices to avoid duplicate logging
   const detectedDeviceIds = new Set<string>();
+  const ambiguousDeviceIds = new Set<string>();
+  const deviceTracker = createDeviceTracker();
   
   // Start scanning
   manager.startDeviceScan(
@@ -222,61 +321,41 @@ export const startScanning = (
           // Removed verbose logging for performance
         }
         
-        // Check if any of the device's Service UUIDs match our student list
-        let matchedUUID: string | null = null;
+        const match = matcher({
+          deviceId,
+          deviceName,
+          serviceUUIDs,
+          serviceData: device.serviceData,
+          manufacturerData: device.manufacturerData,
+          rssi,
+        });
         
-        // 1. Check Service UUIDs
-        for (const serviceUUID of serviceUUIDs) {
-          const normalizedServiceUUID = normalizeUUID(serviceUUID);
-          
-          if (normalizedStudentUUIDs.length > 0) {
-            const matchIndex = normalizedStudentUUIDs.findIndex(
-              studentUUID => normalizedServiceUUID.includes(studentUUID) || 
-                             studentUUID.includes(normalizedServiceUUID)
-            );
-            
-            if (matchIndex >= 0) {
-              matchedUUID = studentUUIDs![matchIndex];
-              log.info('✅ Matched via Service UUID');
-              break;
-            }
+        if (isAmbiguousMatch(match)) {
+          // Never guess - report once per device and move on
+          if (!ambiguousDeviceIds.has(deviceId)) {
+            ambiguousDeviceIds.add(deviceId);
+            log.warn('⚠️ AMBIGUOUS via', match.strategy, '- device:', deviceName || deviceId, 'candidates:', match.candidates.length);
+            options?.onAmbiguous?.(match, deviceId);
           }
-        }
-        
-        // 2. Check device ID (MAC address) as fallback
-        if (!matchedUUID && normalizedStudentUUIDs.length > 0) {
-          const normalizedDeviceId = normalizeUUID(deviceId);
-          const matchIndex = normalizedStudentUUIDs.findIndex(
-            studentUUID => normalizedDeviceId === studentUUID || 
-                           normalizedDeviceId.includes(studentUUID) ||
-                           studentUUID.includes(normalizedDeviceId)
-          );
-          if (matchIndex >= 0) {
-            matchedUUID = studentUUIDs![matchIndex];
-            log.info('✅ Matched via Device ID');
-          }
-        }
-        
-        // 3. Check device NAME - for nRF Connect which advertises via name
-        if (!matchedUUID && deviceName && normalizedStudentUUIDs.length > 0) {
-          const normalizedDeviceName = normalizeUUID(deviceName);
-          const matchIndex = normalizedStudentUUIDs.findIndex(
-            studentUUID => normalizedDeviceName.includes(studentUUID) ||
-                           studentUUID.includes(normalizedDeviceName) ||
-                           deviceName.toLowerCase() === studentUUID.toLowerCase()
-          );
-          if (matchIndex >= 0) {
-            matchedUUID = studentUUIDs![matchIndex];
-            log.info('✅ Matched via Device Name:', deviceName);
+        } else if (match) {
+          log.info('✅ MATCHED via', match.strategy + ':', match.uuid, 'from device:', deviceName || deviceId, 'RSSI:', rssi);
+          
+          for (const uuid of deviceTracker.record(deviceId, match.uuid)) {
+            const reasons = deviceTracker.getFlags(uuid);
+            log.warn('⚠️ SUSPICIOUS', uuid, reasons.join(', '), '- device:', deviceName || deviceId);
+            options?.onSuspicious?.(uuid, reasons, deviceId);
           }
-        }
-        
-        if (matchedUUID) {
-          log.info('✅ MATCHED:', matchedUUID, 'from device:', deviceName || deviceId, 'RSSI:', rssi);
+          
+          const suspicion = deviceTracker.getFlags(match.uuid);
           onDeviceFound({
-            uuid: matchedUUID,
+            uuid: match.uuid,
             rssi,
+            deviceId,
             deviceName,
+            strategy: match.strategy,
+            token: match.token,
+            tokenWindow: match.tokenWindow,
+            suspicion: suspicion.length > 0 ? suspicion : undefined,
           });
         }
       }
@@ -352,6 +431,7 @@ export default {
   isScanningActive,
   startScanning,
   stopScanning,
+  createDeviceTracker,
   onBLEStateChange,
   destroyBLE,
   getScanStatus,
@@ -0,0 +1,76 @@
+/**
+ * Campus Time Service - institution timezone and period times
+ *
+ * Feeds src/shared/campusTime with:
+ * - the timezone from app_config (key `campus_timezone`, e.g. "Asia/Kolkata")
+ * - period start/end times from master_timetables (`get_period_times` RPC)
+ *
+ * Both are cached so dates stay right offline. Until loaded, the shared
+ * module uses Asia/Kolkata and no period times.
+ */
+
+import { supabase } from '../config/supabase';
+import { getStorage } from './offline/storage';
+import { setCampusTimezone, setPeriodTimes, getPeriodNumber, type PeriodTimes } from '../shared/campusTime';
+import createLogger from '../utils/logger';
+
+const log = createLogger('CampusTime');
+
+const TIMEZONE_CONFIG_KEY = 'campus_timezone';
+const CAMPUS_TIME_CACHE_KEY = '@attend_me/campus_time';
+
+interface CampusTimeSettings {
+  timezone: string | null;
+  periods: Record<string, PeriodTimes>;
+}
+
+const apply = (settings: CampusTimeSettings) => {
+  if (settings.timezone && !setCampusTimezone(settings.timezone)) {
+    log.warn('Unknown campus timezone, keeping default:', settings.timezone);
+  }
+  setPeriodTimes(settings.periods);
+};
+
+const toPeriodMap = (rows: { slot_id: string; start_time: string; end_time: string }[] | null) => {
+  const periods: Record<string, PeriodTimes> = {};
+  for (const row of rows || []) {
+    const period = getPeriodNumber(row.slot_id);
+    if (period) periods[period] = { start_time: row.start_time, end_time: row.end_time };
+  }
+  return periods;
+};
+
+/**
+ * Apply the cached settings, then refresh them from the server. Safe to call
+ * again after login (the period RPC needs a session).
+ */
+export const initCampusTime = async (): Promise<void> => {
+  try {
+    const cached = await getStorage().getItem(CAMPUS_TIME_CACHE_KEY);
+    if (cached) apply(JSON.parse(cached));
+  } catch (error) {
+    log.warn('Could not read cached campus time settings:', error);
+  }
+
+  try {
+    const [{ data: config, error: configError }, { data: periods, error: periodsError }] = await Promise.all([
+      supabase.from('app_config').select('value').eq('key', TIMEZONE_CONFIG_KEY).maybeSingle(),
+      supabase.rpc('get_period_times'),
+    ]);
+    if (configError) throw configError;
+    if (periodsError) throw periodsError;
+
+    const settings: CampusTimeSettings = {
+      timezone: typeof config?.value === 'string' ? config.value : null,
+      periods: toPeriodMap(periods),
+    };
+    apply(settings);
+    await getStorage().setItem(CAMPUS_TIME_CACHE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    log.warn('Using cached campus time settings:', error);
+  }
+};
+
+export default {
+  initCampusTime,
+};
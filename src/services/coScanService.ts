@@ -0,0 +1,373 @@
+/**
+ * Co-Scan Service - Several faculty phones scanning one session
+ *
+ * Big combined classes in large halls are out of range of a single phone.
+ * The session owner opens a co-scan and shares a short join code; other
+ * faculty join from their own device. Every device (owner included) scans
+ * independently and submits its records through `merge_coscan_submission`,
+ * which folds them into ONE attendance_sessions row with a union of presence.
+ *
+ * Each device is identified by a per-install ID, so two phones signed in to
+ * the same account still count as two contributors.
+ */
+
+import { supabase } from '../config/supabase';
+import { getStorage } from './offline/storage';
+import type { PendingSubmission } from './offline/types';
+import { getSessionDate, campusTimeOnDay } from '../shared/campusTime';
+import createLogger from '../utils/logger';
+
+const log = createLogger('CoScan');
+
+const DEVICE_ID_KEY = '@attend_me/device_id';
+
+export const COSCAN_CONFIG = {
+  // Join codes stay valid this long after the period ends
+  EXPIRY_GRACE_MS: 60 * 60 * 1000,
+  // Heartbeat while the scanner is open
+  HEARTBEAT_MS: 30 * 1000,
+  // A contributor is "connected" if seen within this window
+  CONNECTED_WINDOW_MS: 90 * 1000,
+  CODE_LENGTH: 6,
+};
+
+// No 0/O/1/I - codes are read out loud across a hall
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export interface CoScanSession {
+  id: string;
+  joinCode: string;
+  ownerId: string;
+  isOwner: boolean;
+  date: string;
+  slotId: string;
+  subject: { id: string; name: string; code: string };
+  targetDept: string;
+  targetYear: number;
+  targetSection: string;
+  batch: number | null;
+  startTime: string | null;
+  endTime: string | null;
+  room: string | null;
+}
+
+export interface CoScanContributor {
+  deviceId: string;
+  facultyId: string;
+  lastSeenAt: string;
+  submittedAt: string | null;
+  presentCount: number;
+}
+
+// Class details needed to open a co-scan (a TimetableSlot fits)
+export interface CoScanClassInfo {
+  slot_id: string;
+  start_time?: string;
+  end_time?: string;
+  room?: string | null;
+  subject?: { id: string; name: string; code: string };
+  target_dept: string;
+  target_year: number;
+  target_section: string;
+  batch?: number | null;
+}
+
+let cachedDeviceId: string | null = null;
+
+/**
+ * Stable per-install device ID (generated once, kept in local storage).
+ */
+export async function getDeviceId(): Promise<string> {
+  if (cachedDeviceId) return cachedDeviceId;
+
+  const storage = getStorage();
+  let deviceId = await storage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = `dev-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 9)}`;
+    await storage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  cachedDeviceId = deviceId;
+  return deviceId;
+}
+
+const generateJoinCode = (): string =>
+  Array.from({ length: COSCAN_CONFIG.CODE_LENGTH }, () =>
+    CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)]
+  ).join('');
+
+const toCoScanSession = (row: any, userId: string): CoScanSession => ({
+  id: row.id,
+  joinCode: row.join_code,
+  ownerId: row.owner_id,
+  isOwner: row.owner_id === userId,
+  date: row.date,
+  slotId: row.slot_id,
+  subject: row.subject || { id: row.subject_id, name: 'Unknown', code: '' },
+  targetDept: row.target_dept,
+  targetYear: row.target_year,
+  targetSection: row.target_section,
+  batch: row.batch ?? null,
+  startTime: row.start_time ?? null,
+  endTime: row.end_time ?? null,
+  room: row.room ?? null,
+});
+
+/**
+ * Shape a joined co-scan like a timetable slot so ScanScreen can use it as
+ * its classData.
+ */
+export function toCoScanClassData(coScan: CoScanSession) {
+  return {
+    id: coScan.id,
+    day: '',
+    slot_id: coScan.slotId,
+    start_time: coScan.startTime || '',
+    end_time: coScan.endTime || '',
+    room: coScan.room,
+    subject: coScan.subject,
+    target_dept: coScan.targetDept,
+    target_year: coScan.targetYear,
+    target_section: coScan.targetSection,
+    batch: coScan.batch,
+  };
+}
+
+/**
+ * Open a co-scan for a class. Reuses today's co-scan for the same slot if the
+ * owner already opened one.
+ */
+export async function createCoScan(classInfo: CoScanClassInfo): Promise<{ coScan: CoScanSession | null; error: string | null }> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return { coScan: null, error: 'Not authenticated' };
+    if (!classInfo.subject?.id) return { coScan: null, error: 'Missing subject' };
+
+    const today = getSessionDate();
+
+    const { data: existing } = await supabase
+      .from('coscan_sessions')
+      .select('*')
+      .eq('owner_id', user.id)
+      .eq('date', today)
+      .eq('slot_id', classInfo.slot_id)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+
+    if (existing) {
+      await joinAsDevice(existing.id, user.id);
+      return { coScan: toCoScanSession({ ...existing, subject: classInfo.subject }, user.id), error: null };
+    }
+
+    const endsAt = classInfo.end_time ? campusTimeOnDay(today, classInfo.end_time) : Date.now();
+    const expiresAt = new Date(Math.max(endsAt, Date.now()) + COSCAN_CONFIG.EXPIRY_GRACE_MS);
+
+    // Retry once on the (unlikely) join code collision
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const { data, error } = await supabase
+        .from('coscan_sessions')
+        .insert({
+          owner_id: user.id,
+          join_code: generateJoinCode(),
+          date: today,
+          slot_id: classInfo.slot_id,
+          subject_id: classInfo.subject.id,
+          target_dept: classInfo.target_dept,
+          target_year: classInfo.target_year,
+          target_section: classInfo.target_section,
+          batch: classInfo.batch ?? null,
+          start_time: classInfo.start_time ?? null,
+          end_time: classInfo.end_time ?? null,
+          room: classInfo.room ?? null,
+          expires_at: expiresAt.toISOString(),
+        })
+        .select()
+        .single();
+
+      if (!error && data) {
+        await joinAsDevice(data.id, user.id);
+        log.info('Co-scan opened:', data.join_code);
+        return { coScan: toCoScanSession({ ...data, subject: classInfo.subject }, user.id), error: null };
+      }
+      if (error?.code !== '23505') {
+        log.error('Failed to open co-scan:', error);
+        return { coScan: null, error: error?.message || 'Failed to open co-scan' };
+      }
+    }
+    return { coScan: null, error: 'Could not generate a join code' };
+  } catch (error) {
+    log.error('Create co-scan error:', error);
+    return { coScan: null, error: 'Failed to open co-scan' };
+  }
+}
+
+// The owner's device is a contributor like any other
+async function joinAsDevice(coScanId: string, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('coscan_contributors')
+    .upsert({
+      coscan_id: coScanId,
+      device_id: await getDeviceId(),
+      faculty_id: userId,
+      last_seen_at: new Date().toISOString(),
+    }, { onConflict: 'coscan_id,device_id' });
+  if (error) log.warn('Failed to register owner device:', error);
+}
+
+/**
+ * Join another faculty's co-scan by its code.
+ */
+export async function joinCoScan(code: string): Promise<{ coScan: CoScanSession | null; error: string | null }> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return { coScan: null, error: 'Not authenticated' };
+
+    const { data, error } = await supabase.rpc('join_coscan_session', {
+      p_code: code.trim().toUpperCase(),
+      p_device_id: await getDeviceId(),
+    });
+
+    if (error || !data) {
+      log.warn('Join failed:', error);
+      return { coScan: null, error: error?.message || 'Could not join co-scan' };
+    }
+
+    log.info('Joined co-scan:', data.join_code);
+    return { coScan: toCoScanSession(data, user.id), error: null };
+  } catch (error) {
+    log.error('Join co-scan error:', error);
+    return { coScan: null, error: 'Could not join co-scan' };
+  }
+}
+
+/**
+ * Leave a co-scan before submitting (removes this device from the count).
+ */
+export async function leaveCoScan(coScanId: string): Promise<void> {
+  try {
+    await supabase
+      .from('coscan_contributors')
+      .delete()
+      .eq('coscan_id', coScanId)
+      .eq('device_id', await getDeviceId())
+      .is('submitted_at', null);
+  } catch (error) {
+    log.warn('Leave co-scan failed:', error);
+  }
+}
+
+/**
+ * Mark this device as still connected.
+ */
+export async function sendCoScanHeartbeat(coScanId: string): Promise<void> {
+  try {
+    await supabase
+      .from('coscan_contributors')
+      .update({ last_seen_at: new Date().toISOString() })
+      .eq('coscan_id', coScanId)
+      .eq('device_id', await getDeviceId());
+  } catch (error) {
+    log.warn('Heartbeat failed:', error);
+  }
+}
+
+export async function getCoScanContributors(coScanId: string): Promise<CoScanContributor[]> {
+  const { data, error } = await supabase
+    .from('coscan_contributors')
+    .select('device_id, faculty_id, last_seen_at, submitted_at, present_count')
+    .eq('coscan_id', coScanId);
+
+  if (error) {
+    log.error('Error fetching contributors:', error);
+    return [];
+  }
+
+  return (data || []).map((row: any) => ({
+    deviceId: row.device_id,
+    facultyId: row.faculty_id,
+    lastSeenAt: row.last_seen_at,
+    submittedAt: row.submitted_at,
+    presentCount: row.present_count || 0,
+  }));
+}
+
+export const isContributorConnected = (contributor: CoScanContributor, now = Date.now()): boolean =>
+  !!contributor.submittedAt ||
+  now - new Date(contributor.lastSeenAt).getTime() <= COSCAN_CONFIG.CONNECTED_WINDOW_MS;
+
+/**
+ * Live contributor list. Calls back with the full list on every change.
+ */
+export function subscribeCoScanContributors(
+  coScanId: string,
+  onChange: (contributors: CoScanContributor[]) => void
+): () => void {
+  const refresh = () => getCoScanContributors(coScanId).then(onChange);
+  refresh();
+
+  const channel = supabase
+    .channel(`coscan:${coScanId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: '*',
+        schema: 'public',
+        table: 'coscan_contributors',
+        filter: `coscan_id=eq.${coScanId}`,
+      },
+      () => refresh()
+    )
+    .subscribe();
+
+  return () => {
+    channel.unsubscribe();
+  };
+}
+
+/**
+ * Merge this device's records into the co-scan session. Returns the merged
+ * attendance_sessions ID. Used directly when online and by the offline sync.
+ */
+export async function mergeCoScanSubmission(
+  coScanId: string,
+  attendance: PendingSubmission['attendance'],
+  totalStudents: number,
+  deviceId?: string
+): Promise<{ sessionId: string | null; rejected: { studentId: string; reason: string }[]; error: string | null }> {
+  try {
+    const { data, error } = await supabase.rpc('merge_coscan_submission', {
+      p_coscan_id: coScanId,
+      p_device_id: deviceId || (await getDeviceId()),
+      p_total_students: totalStudents,
+      p_attendance: attendance,
+    });
+
+    if (error) {
+      log.error('Merge failed:', error);
+      return { sessionId: null, rejected: [], error: error.message };
+    }
+
+    // Students outside the co-scan's class are skipped by the server
+    const rejected = (data?.rejected || []).map((r: any) => ({ studentId: r.student_id, reason: r.reason }));
+    if (rejected.length > 0) {
+      log.warn(`${rejected.length} record(s) rejected by roster validation:`, rejected);
+    }
+    return { sessionId: data?.session_id ?? null, rejected, error: null };
+  } catch (error) {
+    log.error('Merge error:', error);
+    return { sessionId: null, rejected: [], error: 'Failed to merge co-scan submission' };
+  }
+}
+
+export default {
+  COSCAN_CONFIG,
+  getDeviceId,
+  createCoScan,
+  joinCoScan,
+  leaveCoScan,
+  sendCoScanHeartbeat,
+  getCoScanContributors,
+  subscribeCoScanContributors,
+  isContributorConnected,
+  mergeCoScanSubmission,
+  toCoScanClassData,
+};
@@ -5,7 +5,9 @@
  */
 
 import { supabase } from '../config/supabase';
+import { getCampusClock, getSessionDate, getDayName, addDays } from '../shared/campusTime';
 import createLogger from '../utils/logger';
+import type { ScanEvent, PendingSubmission } from './offline/types';
 
 const log = createLogger('DashboardService');
 
@@ -34,6 +36,7 @@ export interface Student {
   roll_no: string;
   full_name: string;
   bluetooth_uuid: string | null;
+  beacon_secret?: string | null;
   batch?: number | null;
 }
 
@@ -49,6 +52,8 @@ export interface AttendanceSession {
   present_count: number;
   absent_count: number;
   od_count?: number;
+  late_count?: number;
+  left_early_count?: number;
   total_students: number;
 }
 
@@ -62,10 +67,7 @@ export interface AttendanceSession {
  */
 export async function getTodaySchedule(facultyId: string): Promise<TimetableSlot[]> {
   try {
-    const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-    const todayDate = new Date();
-    const todayDay = days[todayDate.getDay()];
-    const todayStr = todayDate.toISOString().split('T')[0];
+    const { date: todayStr, dayName: todayDay } = getCampusClock();
 
     const { data, error } = await supabase.rpc('get_faculty_schedule', {
       p_faculty_id: facultyId,
@@ -188,10 +190,7 @@ export async function getScheduleForDay(facultyId: string, day: string): Promise
  * Get tomorrow's timetable for the logged-in faculty
  */
 export async function getTomorrowSchedule(facultyId: string): Promise<TimetableSlot[]> {
-  const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-  const tomorrow = new Date();
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  const tomorrowDay = days[tomorrow.getDay()];
+  const tomorrowDay = getDayName(addDays(getSessionDate(), 1));
   
   return getScheduleForDay(facultyId, tomorrowDay);
 }
@@ -202,7 +201,7 @@ export async function getTomorrowSchedule(facultyId: string): Promise<TimetableS
 export async function getScheduleWithStatus(facultyId: string): Promise<(TimetableSlot & { status: string })[]> {
   try {
     const schedule = await getTodaySchedule(facultyId);
-    const todayStr = new Date().toISOString().split('T')[0];
+    const todayStr = getSessionDate();
 
     // Get today's sessions
     const { data: sessions } = await supabase
@@ -273,7 +272,7 @@ export interface HolidayInfo {
  */
 export async function getSwapsAndSubstitutions(
   facultyId: string,
-  date: string = new Date().toISOString().split('T')[0]
+  date: string = getSessionDate()
 ): Promise<{ swaps: SwapInfo[]; substitutions: SubstitutionInfo[] }> {
   try {
     // Fetch swaps where faculty is involved
@@ -292,8 +291,7 @@ export async function getSwapsAndSubstitutions(
       const targetFacultyId = isFacultyA ? swap.faculty_b_id : swap.faculty_a_id;
       const targetSlotId = isFacultyA ? swap.slot_b_id : swap.slot_a_id;
       
-      const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-      const dayName = days[new Date(date).getDay()];
+      const dayName = getDayName(date);
 
       const { data: details } = await supabase
          .from('master_timetables')
@@ -350,7 +348,7 @@ export async function getSwapsAndSubstitutions(
  * Check if today is a holiday or has suspended classes
  */
 export async function getHolidayInfo(
-  date: string = new Date().toISOString().split('T')[0]
+  date: string = getSessionDate()
 ): Promise<HolidayInfo | null> {
   try {
     const { data, error } = await supabase
@@ -378,7 +376,7 @@ export interface LeaveInfo {
  */
 export async function getLeaveInfo(
   facultyId: string,
-  date: string = new Date().toISOString().split('T')[0]
+  date: string = getSessionDate()
 ): Promise<LeaveInfo | null> {
   try {
     // Check if there is an approved leave overlapping today
@@ -413,7 +411,7 @@ export async function getStudentsForClass(
   try {
     let query = supabase
       .from('students')
-      .select('id, roll_no, full_name, bluetooth_uuid, batch')
+      .select('id, roll_no, full_name, bluetooth_uuid, beacon_secret, batch')
       .eq('dept', dept)
       .eq('year', year)
       .eq('section', section)
@@ -442,85 +440,123 @@ export async function getStudentsForClass(
 // ATTENDANCE SESSION FUNCTIONS
 // =====================================================
 
+export type AttendanceRecordInput = PendingSubmission['attendance'][number];
+
+export interface AttendanceUpload {
+  // Client submission ID - uploads are idempotent on it
+  clientId: string;
+  subjectId: string;
+  slotId: string;
+  date?: string; // YYYY-MM-DD, defaults to today on the server
+  targetDept: string;
+  targetYear: number;
+  targetSection: string;
+  batch?: number | null;
+  totalStudents: number;
+  startTime?: string;
+  // Substitution: session is owned by the original faculty
+  isSubstitute?: boolean;
+  originalFacultyId?: string | null;
+  // Server session the records were based on (conflict check)
+  base?: { sessionId: string; version: number } | null;
+  // Overwrite whatever is on the server
+  force?: boolean;
+  records: AttendanceRecordInput[];
+}
+
+export interface AttendanceUploadResult {
+  status: 'applied' | 'duplicate' | 'conflict' | 'rejected';
+  sessionId: string | null;
+  version: number | null;
+  // Records skipped by roster validation
+  rejected: { studentId: string; reason: string }[];
+}
+
 /**
- * Create a new attendance session
- * @param isSubstitute - Set true when a substitute faculty is taking this class
- * @param originalFacultyId - The original faculty's ID when this is a substitution
+ * Write a session and all its logs in one transaction
+ * (`upsert_attendance_session`). Used by the online submit and the offline
+ * uploader.
  */
-export async function createAttendanceSession(
-  facultyId: string,
-  subjectId: string,
-  slotId: string,
-  targetDept: string,
-  targetYear: number,
-  targetSection: string,
-  totalStudents: number,
-  batch?: number | null,
-  isSubstitute: boolean = false,
-  originalFacultyId?: string | null
-): Promise<{ sessionId: string | null; error: string | null }> {
-  try {
-    const today = new Date().toISOString().split('T')[0];
-    
-    // STEP 1: Delete any existing session for the same faculty, date, and slot
-    // This handles re-scans (override) by removing old data first
-    const { data: existingSession } = await supabase
-      .from('attendance_sessions')
-      .select('id')
-      .eq('faculty_id', facultyId)
-      .eq('date', today)
-      .eq('slot_id', slotId)
-      .single();
-    
-    if (existingSession) {
-      log.info('Deleting existing session:', existingSession.id);
-      
-      // First delete attendance logs for this session
-      await supabase
-        .from('attendance_logs')
-        .delete()
-        .eq('session_id', existingSession.id);
-      
-      // Then delete the session itself
-      await supabase
-        .from('attendance_sessions')
-        .delete()
-        .eq('id', existingSession.id);
-    }
-    
-    // STEP 2: Create new attendance session
-    // For substitutions: faculty_id = original faculty, substitute_faculty_id = substitute
-    const sessionData: any = {
-      faculty_id: isSubstitute && originalFacultyId ? originalFacultyId : facultyId,
-      subject_id: subjectId,
-      slot_id: slotId,
-      date: today,
-      start_time: new Date().toISOString(),
-      target_dept: targetDept,
-      target_year: targetYear,
-      target_section: targetSection,
-      batch: batch || null,
-      total_students: totalStudents,
-      is_substitute: isSubstitute,
-      substitute_faculty_id: isSubstitute ? facultyId : null,
-    };
-    
-    const { data, error } = await supabase
-      .from('attendance_sessions')
-      .insert(sessionData)
-      .select('id')
-      .single();
+export async function uploadAttendanceSession(
+  upload: AttendanceUpload
+): Promise<{ result: AttendanceUploadResult | null; error: string | null; errorCode?: string }> {
+  const { data, error } = await supabase.rpc('upsert_attendance_session', {
+    payload: {
+      client_id: upload.clientId,
+      subject_id: upload.subjectId,
+      slot_id: upload.slotId,
+      date: upload.date ?? null,
+      target_dept: upload.targetDept,
+      target_year: upload.targetYear,
+      target_section: upload.targetSection,
+      batch: upload.batch ?? null,
+      total_students: upload.totalStudents,
+      start_time: upload.startTime ?? null,
+      is_substitute: !!upload.isSubstitute,
+      original_faculty_id: upload.originalFacultyId ?? null,
+      base_session_id: upload.base?.sessionId ?? null,
+      base_version: upload.base?.version ?? null,
+      force: !!upload.force,
+      records: upload.records,
+    },
+  });
+
+  if (error) {
+    log.error('Session upload failed:', error);
+    return { result: null, error: error.message, errorCode: error.code };
+  }
 
-    if (error) {
-      log.error('Error creating session:', error);
-      return { sessionId: null, error: error.message };
-    }
+  const result = toUploadResult(data);
+  if (result.rejected.length > 0) {
+    log.warn(`${result.rejected.length} record(s) rejected by roster validation:`, result.rejected);
+  }
+  return { result, error: null };
+}
 
-    return { sessionId: data?.id || null, error: null };
-  } catch (error) {
-    log.error('Create session error:', error);
-    return { sessionId: null, error: 'Failed to create session' };
+const toUploadResult = (data: any): AttendanceUploadResult => ({
+  status: data.status,
+  sessionId: data.session_id ?? null,
+  version: data.version ?? null,
+  rejected: (data.rejected || []).map((r: any) => ({ studentId: r.student_id, reason: r.reason })),
+});
+
+export interface AttendanceEdit {
+  // Client ID of this edit - retries are no-ops once applied
+  clientId: string;
+  sessionId: string;
+  // Session version the edit was made on (conflict check)
+  baseVersion?: number | null;
+  force?: boolean;
+  records: Pick<AttendanceRecordInput, 'studentId' | 'status' | 'isLate' | 'leftEarly'>[];
+}
+
+/**
+ * Apply a history edit to an existing session (`update_attendance_session`).
+ * Only statuses and punctuality change; the scanner evidence stays.
+ */
+export async function updateAttendanceSession(
+  edit: AttendanceEdit
+): Promise<{ result: AttendanceUploadResult | null; error: string | null; errorCode?: string }> {
+  const { data, error } = await supabase.rpc('update_attendance_session', {
+    payload: {
+      client_id: edit.clientId,
+      session_id: edit.sessionId,
+      base_version: edit.baseVersion ?? null,
+      force: !!edit.force,
+      records: edit.records,
+    },
+  });
+
+  if (error) {
+    log.error('Session edit failed:', error);
+    return { result: null, error: error.message, errorCode: error.code };
   }
+
+  const result = toUploadResult(data);
+  if (result.rejected.length > 0) {
+    log.warn(`${result.rejected.length} edited record(s) rejected:`, result.rejected);
+  }
+  return { result, error: null };
 }
 
 /**
@@ -533,7 +569,7 @@ export async function checkExistingSession(
   originalFacultyId?: string | null
 ): Promise<boolean> {
   try {
-    const today = new Date().toISOString().split('T')[0];
+    const today = getSessionDate();
     const targetFacultyId = isSubstitute && originalFacultyId ? originalFacultyId : facultyId;
     
     const { data } = await supabase
@@ -552,61 +588,26 @@ export async function checkExistingSession(
 }
 
 /**
- * Submit attendance logs for a session
+ * Submit attendance taken online. Re-scans replace today's session for the
+ * slot (force), in one atomic upload.
  */
 export async function submitAttendance(
-  sessionId: string,
-  facultyId: string,
-  records: { studentId: string; status: 'present' | 'absent' | 'od' | 'leave' }[]
-): Promise<{ success: boolean; error: string | null }> {
+  upload: Omit<AttendanceUpload, 'force' | 'base'>
+): Promise<{ success: boolean; error: string | null; sessionId: string | null; rejected: AttendanceUploadResult['rejected'] }> {
   try {
-    // Insert attendance logs
-    const insertData = records.map(r => ({
-      session_id: sessionId,
-      student_id: r.studentId,
-      status: r.status,
-      marked_at: new Date().toISOString(),
-      is_manual: true,
-    }));
+    const { result, error } = await uploadAttendanceSession({ ...upload, force: true });
 
-    const { error: logError } = await supabase
-      .from('attendance_logs')
-      .insert(insertData);
-
-    if (logError) {
-      log.error('Error inserting logs:', logError);
-      return { success: false, error: logError.message };
+    if (error || !result) {
+      return { success: false, error: error || 'Failed to submit attendance', sessionId: null, rejected: [] };
     }
-
-    // Update session counts
-    // IMPORTANT: Count each status EXACTLY once to satisfy valid_counts constraint
-    const presentCount = records.filter(r => r.status === 'present').length;
-    const absentCount = records.filter(r => r.status === 'absent').length;
-    const odCount = records.filter(r => r.status === 'od').length;
-    const leaveCount = records.filter(r => r.status === 'leave').length;
-
-    const { error: updateError } = await supabase
-      .from('attendance_sessions')
-      .update({
-        present_count: presentCount,
-        absent_count: absentCount,
-        od_count: odCount,
-        leave_count: leaveCount,
-        end_time: new Date().toISOString(),
-        is_synced: true,
-        synced_at: new Date().toISOString(),
-      })
-      .eq('id', sessionId);
-
-    if (updateError) {
-      log.error('Error updating session:', updateError);
-      return { success: false, error: updateError.message };
+    if (result.status === 'rejected') {
+      return { success: false, error: 'No students matched this class roster', sessionId: null, rejected: result.rejected };
     }
 
-    return { success: true, error: null };
+    return { success: true, error: null, sessionId: result.sessionId, rejected: result.rejected };
   } catch (error) {
     log.error('Submit attendance error:', error);
-    return { success: false, error: 'Failed to submit attendance' };
+    return { success: false, error: 'Failed to submit attendance', sessionId: null, rejected: [] };
   }
 }
 
@@ -643,6 +644,8 @@ export async function getAttendanceHistory(
         present_count,
         absent_count,
         od_count,
+        late_count,
+        left_early_count,
         total_students,
         is_substitute,
         substitute_faculty_id,
@@ -703,6 +706,30 @@ export async function getAttendanceHistory(
   }
 }
 
+/**
+ * Get the uploaded scan event log for a session (all scanners), oldest first
+ */
+export async function getSessionScanEvents(sessionId: string): Promise<ScanEvent[]> {
+  try {
+    const { data, error } = await supabase
+      .from('attendance_scan_events')
+      .select('events')
+      .eq('session_id', sessionId);
+
+    if (error) {
+      log.error('Error fetching scan events:', error);
+      return [];
+    }
+
+    return (data || [])
+      .flatMap((row: any) => (row.events || []) as ScanEvent[])
+      .sort((a, b) => a.at - b.at);
+  } catch (error) {
+    log.error('Scan events fetch error:', error);
+    return [];
+  }
+}
+
 /**
  * Get quick stats for dashboard — uses server-side RPC (single call)
  */
@@ -712,9 +739,7 @@ export async function getDashboardStats(facultyId: string): Promise<{
   totalStudents: number;
 }> {
   try {
-    const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-    const today = days[new Date().getDay()];
-    const todayStr = new Date().toISOString().split('T')[0];
+    const { date: todayStr, dayName: today } = getCampusClock();
 
     const { data, error } = await supabase.rpc('get_dashboard_stats', {
       p_faculty_id: facultyId,
@@ -783,7 +808,7 @@ export async function getFacultySubjects(facultyId: string): Promise<{ id: strin
  */
 export async function getClassPermissions(
   studentIds: string[],
-  date: string = new Date().toISOString().split('T')[0]
+  date: string = getSessionDate()
 ): Promise<{ student_id: string; type: 'od' | 'leave' }[]> {
   try {
     const { data, error } = await supabase
@@ -129,6 +129,7 @@ export async function getCachedRostersMap(): Promise<Record<string, CachedRoster
               name: s.name,
               rollNo: s.roll_no,
               bluetoothUUID: s.bluetooth_uuid,
+              beaconSecret: s.beacon_secret,
               batch: s.batch
            });
        }
@@ -153,9 +154,9 @@ export async function cacheRoster(roster: CachedRoster): Promise<void> {
        const students = roster.students;
        for (let i = 0; i < students.length; i += 50) {
           const chunk = students.slice(i, i + 50);
-          const placeholders = chunk.map(() => '(?, ?, ?, ?, ?, ?)').join(', ');
-          const values = chunk.flatMap(s => [s.id, roster.classId, s.name, s.rollNo, s.bluetoothUUID || null, s.batch || null]);
-          await db.runAsync(`INSERT INTO students (id, class_id, name, roll_no, bluetooth_uuid, batch) VALUES ${placeholders}`, values);
+          const placeholders = chunk.map(() => '(?, ?, ?, ?, ?, ?, ?)').join(', ');
+          const values = chunk.flatMap(s => [s.id, roster.classId, s.name, s.rollNo, s.bluetoothUUID || null, s.beaconSecret || null, s.batch || null]);
+          await db.runAsync(`INSERT INTO students (id, class_id, name, roll_no, bluetooth_uuid, beacon_secret, batch) VALUES ${placeholders}`, values);
        }
     });
 
@@ -176,6 +177,9 @@ export async function cacheRoster(roster: CachedRoster): Promise<void> {
  *
  * Before: 9 rosters × 60 students = 540 sequential db.runAsync() in one block → 3-5s freeze
  * After:  9 transactions with batch inserts + yields between each → zero freeze
+ *
+ * Rosters carrying `delta` are applied as a diff (upsert changed students,
+ * drop tombstones) instead of replacing the class.
  */
 export async function cacheAllRosters(rosters: CachedRoster[] | Record<string, CachedRoster>): Promise<void> {
   try {
@@ -189,23 +193,35 @@ export async function cacheAllRosters(rosters: CachedRoster[] | Record<string, C
       await db.withTransactionAsync(async () => {
         // Upsert roster metadata
         await db.runAsync(
-          `INSERT OR REPLACE INTO rosters (class_id, subject_name, subject_id, section, cached_at) VALUES (?, ?, ?, ?, ?)`, 
-          [r.classId, r.subjectName, r.subjectId || null, r.section, r.cachedAt]
+          `INSERT OR REPLACE INTO rosters (class_id, subject_name, subject_id, section, cached_at, synced_through, full_synced_at) VALUES (?, ?, ?, ?, ?, ?, ?)`, 
+          [r.classId, r.subjectName, r.subjectId || null, r.section, r.cachedAt, r.syncedThrough || null, r.fullSyncedAt || null]
         );
         
-        // Clear old students
-        await db.runAsync(`DELETE FROM students WHERE class_id = ?`, [r.classId]);
+        if (r.delta) {
+          // Delta: drop tombstoned students, upsert the changed ones below
+          const removed = r.delta.removedStudentIds;
+          for (let i = 0; i < removed.length; i += 50) {
+            const chunk = removed.slice(i, i + 50);
+            await db.runAsync(
+              `DELETE FROM students WHERE class_id = ? AND id IN (${chunk.map(() => '?').join(',')})`,
+              [r.classId, ...chunk]
+            );
+          }
+        } else {
+          // Full roster: clear old students
+          await db.runAsync(`DELETE FROM students WHERE class_id = ?`, [r.classId]);
+        }
         
         // Batch insert students in chunks of 50 (1 SQL call per chunk instead of 1 per student)
         const students = r.students;
         for (let i = 0; i < students.length; i += 50) {
           const chunk = students.slice(i, i + 50);
-          const placeholders = chunk.map(() => '(?, ?, ?, ?, ?, ?)').join(', ');
+          const placeholders = chunk.map(() => '(?, ?, ?, ?, ?, ?, ?)').join(', ');
           const values = chunk.flatMap(s => [
-            s.id, r.classId, s.name, s.rollNo, s.bluetoothUUID || null, s.batch || null
+            s.id, r.classId, s.name, s.rollNo, s.bluetoothUUID || null, s.beaconSecret || null, s.batch || null
           ]);
           await db.runAsync(
-            `INSERT INTO students (id, class_id, name, roll_no, bluetooth_uuid, batch) VALUES ${placeholders}`,
+            `INSERT OR REPLACE INTO students (id, class_id, name, roll_no, bluetooth_uuid, beacon_secret, batch) VALUES ${placeholders}`,
             values
           );
         }
@@ -225,6 +241,26 @@ export async function cacheAllRosters(rosters: CachedRoster[] | Record<string, C
   }
 }
 
+/**
+ * Per-class delta sync marks, keyed by class id.
+ */
+export async function getRosterSyncMarks(): Promise<Record<string, { syncedThrough: string | null; fullSyncedAt: string | null }>> {
+  try {
+    const db = await getSqliteDb();
+    const rows = await db.getAllAsync<{ class_id: string; synced_through: string | null; full_synced_at: string | null }>(
+      `SELECT class_id, synced_through, full_synced_at FROM rosters`
+    );
+    const marks: Record<string, { syncedThrough: string | null; fullSyncedAt: string | null }> = {};
+    for (const row of rows) {
+      marks[row.class_id] = { syncedThrough: row.synced_through, fullSyncedAt: row.full_synced_at };
+    }
+    return marks;
+  } catch (error) {
+    log.error("Error reading roster sync marks:", error);
+    return {};
+  }
+}
+
 export async function getCachedRosters(): Promise<CachedRoster[]> {
   const map = await getCachedRostersMap();
   return Object.values(map);
@@ -254,6 +290,7 @@ export async function getCachedRosterResponse(classId: string): Promise<CachedRo
             name: s.name,
             rollNo: s.roll_no,
             bluetoothUUID: s.bluetooth_uuid,
+            beaconSecret: s.beacon_secret,
             batch: s.batch
          }))
      };
@@ -434,52 +471,27 @@ export async function getCachedWatchlist(): Promise<any[] | null> {
 }
 
 // ============================================================================
-// ATTENDANCE DRAFTS (OFFLINE CACHING)
+// SUBJECT MATRIX CACHING (Class Hub, students x subjects)
 // ============================================================================
 
-export async function saveDraftAttendance(slotId: string | number, students: any[]): Promise<void> {
-  // Fire-and-forget: drafts must NEVER block touch events
+export async function cacheSubjectMatrix(matrix: any): Promise<void> {
+  // Fire-and-forget: don't block UI for caching
   InteractionManager.runAfterInteractions(async () => {
     try {
-      const today = new Date().toISOString().split('T')[0];
-      const key = `${STORAGE_KEYS.ATTENDANCE_DRAFTS_PREFIX}${slotId}_${today}`;
-      
-      // Only save essential data to keep size small
-      const draftData = students.map(s => ({
-        id: s.id,
-        status: s.status,
-        timestamp: s.detectedAt || Date.now()
-      }));
-
-      await storage.setItem(key, JSON.stringify(draftData));
-      // Skip setCacheTimestamp for drafts — timestamps aren't used for draft staleness
+      await storage.setItem(STORAGE_KEYS.SUBJECT_MATRIX, JSON.stringify(matrix));
+      await setCacheTimestamp("subject_matrix");
     } catch (error) {
-      log.error("Error saving draft attendance:", error);
+      log.error("Error caching subject matrix:", error);
     }
   });
 }
 
-export async function getDraftAttendance(slotId: string | number): Promise<any[] | null> {
+export async function getCachedSubjectMatrix(): Promise<any | null> {
   try {
-    const today = new Date().toISOString().split('T')[0];
-    const key = `${STORAGE_KEYS.ATTENDANCE_DRAFTS_PREFIX}${slotId}_${today}`;
-    
-    const data = await storage.getItem(key);
-    return data ? JSON.parse(data) : null;
+    const cached = await storage.getItem(STORAGE_KEYS.SUBJECT_MATRIX);
+    return cached ? JSON.parse(cached) : null;
   } catch (error) {
-    log.error("Error getting draft attendance:", error);
+    log.error("Error getting cached subject matrix:", error);
     return null;
   }
 }
-
-export async function clearDraftAttendance(slotId: string | number): Promise<void> {
-  try {
-    const today = new Date().toISOString().split('T')[0];
-    const key = `${STORAGE_KEYS.ATTENDANCE_DRAFTS_PREFIX}${slotId}_${today}`;
-    
-    await storage.removeItem(key);
-    log.info(`Cleared draft for slot ${slotId}`);
-  } catch (error) {
-    log.error("Error clearing draft attendance:", error);
-  }
-}
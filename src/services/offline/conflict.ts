@@ -0,0 +1,190 @@
+/**
+ * Sync conflicts - queued submissions whose server session changed underneath
+ *
+ * A submission remembers the server session it was based on (`base`). If the
+ * uploader finds a different session or a newer version on the server it
+ * parks the submission as CONFLICT with the server copy in `serverVersion`.
+ * The faculty then picks, per student, which version to keep.
+ */
+
+import { supabase } from "../../config/supabase";
+import { PendingSubmission, SessionSnapshot } from "./types";
+import { getPendingSubmissions, queueSubmission, removePendingSubmission } from "./queue";
+import createLogger from '../../utils/logger';
+
+const log = createLogger('SyncConflict');
+
+type AttendanceStatus = SessionSnapshot['records'][number]['status'];
+
+export type ConflictChoice = 'local' | 'server';
+
+export interface ConflictRow {
+  studentId: string;
+  name?: string;
+  rollNo?: string;
+  base?: AttendanceStatus;
+  local?: AttendanceStatus;
+  server?: AttendanceStatus;
+  // Both sides changed the student away from the base (true conflict)
+  bothChanged: boolean;
+  // What a plain three-way merge would pick
+  suggested: ConflictChoice;
+}
+
+/**
+ * Current server copy of a faculty's session for a slot/date, or null if
+ * there is none. Throws on query errors so callers can retry.
+ */
+export async function fetchSessionSnapshot(
+  facultyId: string,
+  date: string,
+  slotId: string
+): Promise<SessionSnapshot | null> {
+  const { data: session, error } = await supabase
+    .from('attendance_sessions')
+    .select('id, version, updated_at')
+    .eq('faculty_id', facultyId)
+    .eq('date', date)
+    .eq('slot_id', slotId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!session) return null;
+
+  return toSnapshot(session);
+}
+
+/**
+ * Current server copy of a session by id (history edits), or null if it was
+ * deleted. Throws on query errors.
+ */
+export async function fetchSessionSnapshotById(sessionId: string): Promise<SessionSnapshot | null> {
+  const { data: session, error } = await supabase
+    .from('attendance_sessions')
+    .select('id, version, updated_at')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!session) return null;
+
+  return toSnapshot(session);
+}
+
+async function toSnapshot(session: { id: string; version: number | null; updated_at: string | null }): Promise<SessionSnapshot> {
+  const { data: logs, error: logsError } = await supabase
+    .from('attendance_logs')
+    .select('student_id, status, student:students(full_name, roll_no)')
+    .eq('session_id', session.id);
+
+  if (logsError) throw logsError;
+
+  return {
+    sessionId: session.id,
+    version: session.version ?? 1,
+    updatedAt: session.updated_at ?? undefined,
+    records: (logs || []).map((l: any) => ({
+      studentId: l.student_id,
+      status: l.status,
+      name: l.student?.full_name,
+      rollNo: l.student?.roll_no,
+    })),
+  };
+}
+
+export async function getConflicts(): Promise<PendingSubmission[]> {
+  const pending = await getPendingSubmissions();
+  return pending.filter(p => p.syncStatus === 'CONFLICT');
+}
+
+/**
+ * Per-student three-way diff (base / this device / server). Only students
+ * whose local and server status differ are returned.
+ */
+export function diffConflict(submission: PendingSubmission): ConflictRow[] {
+  const server = submission.serverVersion;
+  if (!server) return [];
+
+  const baseMap = new Map((submission.base?.records || []).map(r => [r.studentId, r]));
+  const serverMap = new Map(server.records.map(r => [r.studentId, r]));
+  const localMap = new Map(submission.attendance.map(a => [a.studentId, a]));
+
+  const studentIds = new Set([...localMap.keys(), ...serverMap.keys()]);
+  const rows: ConflictRow[] = [];
+
+  for (const studentId of studentIds) {
+    const local = localMap.get(studentId)?.status;
+    const serverRecord = serverMap.get(studentId);
+    const baseRecord = baseMap.get(studentId);
+    if (local === serverRecord?.status) continue;
+
+    const base = baseRecord?.status;
+    const localChanged = local !== base;
+    const serverChanged = serverRecord?.status !== base;
+
+    rows.push({
+      studentId,
+      name: serverRecord?.name ?? baseRecord?.name,
+      rollNo: serverRecord?.rollNo ?? baseRecord?.rollNo,
+      base,
+      local,
+      server: serverRecord?.status,
+      bothChanged: !!submission.base && localChanged && serverChanged,
+      // Only the server moved → take it; otherwise this device wins by default
+      suggested: submission.base && !localChanged && serverChanged ? 'server' : 'local',
+    });
+  }
+
+  return rows.sort((a, b) => (a.rollNo || '').localeCompare(b.rollNo || '', undefined, { numeric: true }));
+}
+
+/**
+ * Apply the faculty's per-student choices. Keeping the server copy for every
+ * student drops the submission; otherwise the merged records are re-queued
+ * on top of the server version, so a further server change is caught again.
+ */
+export async function resolveConflict(
+  submission: PendingSubmission,
+  choices: Record<string, ConflictChoice>
+): Promise<void> {
+  const server = submission.serverVersion;
+  if (!server) return;
+
+  const rows = diffConflict(submission);
+  const keepServer = (studentId: string) => (choices[studentId] ?? 'local') === 'server';
+
+  if (rows.every(r => keepServer(r.studentId))) {
+    log.info('Kept server copy, dropping submission:', submission.id);
+    await removePendingSubmission(submission.id);
+    return;
+  }
+
+  const serverMap = new Map(server.records.map(r => [r.studentId, r.status]));
+  const attendance: PendingSubmission['attendance'] = [];
+
+  for (const record of submission.attendance) {
+    const serverStatus = serverMap.get(record.studentId);
+    if (serverStatus && serverStatus !== record.status && keepServer(record.studentId)) {
+      // Server status wins; this device's sighting evidence no longer applies
+      attendance.push({ studentId: record.studentId, status: serverStatus });
+    } else {
+      attendance.push(record);
+    }
+  }
+  for (const [studentId, status] of serverMap) {
+    if (!submission.attendance.some(a => a.studentId === studentId) && keepServer(studentId)) {
+      attendance.push({ studentId, status });
+    }
+  }
+
+  await queueSubmission({
+    ...submission,
+    attendance,
+    base: server,
+    serverVersion: undefined,
+    syncStatus: 'PENDING',
+    retryCount: 0,
+    nextAttemptAt: undefined,
+  });
+  log.info('Conflict resolved, re-queued:', submission.id);
+}
@@ -0,0 +1,158 @@
+import { supabase } from "../../config/supabase";
+import { DeadLetterEntry, PendingSubmission, SubmissionError } from "./types";
+import { getSqliteDb } from "./storage";
+import { queueSubmission, removePendingSubmission } from "./queue";
+import createLogger from '../../utils/logger';
+
+const log = createLogger('DeadLetter');
+
+// ============================================================================
+// DEAD-LETTER QUEUE
+// ============================================================================
+// Submissions that keep failing are moved here instead of being deleted - a
+// whole period's attendance must never vanish silently. From Sync Manager the
+// faculty can fix the payload and retry, export it, hand it to the HOD
+// (server-side dead_letter_submissions) or discard it.
+
+type DeadLetterRow = {
+  id: string;
+  data: string;
+  errors: string | null;
+  attempts: string | null;
+  dead_at: string;
+  shared_at: string | null;
+};
+
+const toEntry = (row: DeadLetterRow): DeadLetterEntry => ({
+  id: row.id,
+  submission: JSON.parse(row.data),
+  errors: row.errors ? JSON.parse(row.errors) : [],
+  attempts: row.attempts ? JSON.parse(row.attempts) : [],
+  deadAt: row.dead_at,
+  sharedAt: row.shared_at,
+});
+
+/**
+ * Move a submission out of the upload queue into the dead-letter table.
+ */
+export async function moveToDeadLetter(submission: PendingSubmission): Promise<void> {
+  const errors: SubmissionError[] = submission.errorHistory || [];
+  const db = await getSqliteDb();
+
+  await db.runAsync(
+    'INSERT OR REPLACE INTO dead_letter_submissions (id, data, errors, attempts, dead_at, shared_at) VALUES (?, ?, ?, ?, ?, NULL)',
+    [
+      submission.id,
+      JSON.stringify(submission),
+      JSON.stringify(errors),
+      JSON.stringify(errors.map(e => e.at)),
+      new Date().toISOString(),
+    ]
+  );
+  // Only dropped from the queue once safely stored
+  await removePendingSubmission(submission.id);
+
+  log.warn('Moved to dead-letter queue:', submission.id);
+}
+
+export async function getDeadLetters(): Promise<DeadLetterEntry[]> {
+  try {
+    const db = await getSqliteDb();
+    const rows = await db.getAllAsync<DeadLetterRow>(
+      'SELECT * FROM dead_letter_submissions ORDER BY dead_at DESC'
+    );
+    return rows.map(toEntry);
+  } catch (error) {
+    log.error('Failed to read dead-letter queue:', error);
+    return [];
+  }
+}
+
+export async function getDeadLetterCount(): Promise<number> {
+  try {
+    const db = await getSqliteDb();
+    const result = await db.getFirstAsync<{ count: number }>(
+      'SELECT COUNT(*) as count FROM dead_letter_submissions'
+    );
+    return result?.count || 0;
+  } catch (error) {
+    log.error('Failed to count dead-letter queue:', error);
+    return 0;
+  }
+}
+
+/**
+ * Save a corrected payload (e.g. a fixed subject) without retrying yet.
+ */
+export async function updateDeadLetter(id: string, submission: PendingSubmission): Promise<void> {
+  const db = await getSqliteDb();
+  await db.runAsync(
+    'UPDATE dead_letter_submissions SET data = ? WHERE id = ?',
+    [JSON.stringify(submission), id]
+  );
+}
+
+/**
+ * Put a dead-lettered submission back into the upload queue with a fresh
+ * retry budget. Its error history is kept.
+ */
+export async function retryDeadLetter(entry: DeadLetterEntry): Promise<void> {
+  await queueSubmission({
+    ...entry.submission,
+    retryCount: 0,
+    syncStatus: 'PENDING',
+    errorHistory: entry.errors,
+    nextAttemptAt: undefined,
+  });
+  await discardDeadLetter(entry.id);
+  log.info('Dead letter re-queued:', entry.id);
+}
+
+export async function discardDeadLetter(id: string): Promise<void> {
+  const db = await getSqliteDb();
+  await db.runAsync('DELETE FROM dead_letter_submissions WHERE id = ?', [id]);
+}
+
+/**
+ * Plain-JSON export of an entry (for Share / email).
+ */
+export function exportDeadLetter(entry: DeadLetterEntry): string {
+  return JSON.stringify(entry, null, 2);
+}
+
+/**
+ * Hand a stuck payload to the department HOD. Idempotent per submission.
+ */
+export async function shareDeadLetterWithHod(entry: DeadLetterEntry, note?: string): Promise<{ success: boolean; error: string | null }> {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return { success: false, error: 'Not authenticated' };
+
+    const { error } = await supabase
+      .from('dead_letter_submissions')
+      .upsert({
+        faculty_id: user.id,
+        submission_id: entry.id,
+        target_dept: entry.submission.classData.dept || entry.submission.classData.section.split('-')[0],
+        payload: entry.submission,
+        error_history: entry.errors,
+        note: note?.trim() || null,
+        dead_at: entry.deadAt,
+      }, { onConflict: 'faculty_id,submission_id' });
+
+    if (error) {
+      log.error('Failed to share dead letter:', error);
+      return { success: false, error: error.message };
+    }
+
+    const db = await getSqliteDb();
+    await db.runAsync(
+      'UPDATE dead_letter_submissions SET shared_at = ? WHERE id = ?',
+      [new Date().toISOString(), entry.id]
+    );
+    return { success: true, error: null };
+  } catch (error: any) {
+    log.error('Share dead letter error:', error);
+    return { success: false, error: error.message || 'Failed to share' };
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Attendance drafts - unfinished scans kept across app restarts
+ *
+ * A draft belongs to one class session: the campus date, the slot and the
+ * dept/year/section/batch being marked. Two classes in the same slot (e.g. a
+ * substitution) therefore keep separate drafts. Drafts carry the class
+ * details they were started with, so the Home screen can list and resume
+ * them. They are removed once the session is submitted or queued, and
+ * garbage-collected after DRAFT_CONFIG.MAX_AGE_HOURS.
+ */
+
+import { InteractionManager } from "react-native";
+import { getSqliteDb } from "./storage";
+import createLogger from '../../utils/logger';
+
+const log = createLogger('AttendanceDrafts');
+
+export const DRAFT_CONFIG = {
+  // Drafts not touched for this long are dropped
+  MAX_AGE_HOURS: 24,
+};
+
+export interface DraftIdentity {
+  // Campus session date (YYYY-MM-DD, see shared/campusTime)
+  date: string;
+  slotId: string;
+  dept: string;
+  year: number;
+  section: string;
+  // null = whole class
+  batch?: number | null;
+}
+
+export interface DraftStudent {
+  id: string;
+  status: 'pending' | 'present' | 'absent' | 'od' | 'leave';
+  timestamp?: number;
+  proxyFlags?: string[];
+  firstSeenAt?: number;
+  lastSeenAt?: number;
+}
+
+export interface AttendanceDraft extends DraftIdentity {
+  key: string;
+  subjectName: string;
+  // Class details the scan was opened with (Scan screen route params)
+  classData: Record<string, any>;
+  students: DraftStudent[];
+  // Students marked present/absent so far
+  markedCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+type DraftRow = {
+  key: string;
+  date: string;
+  slot_id: string;
+  dept: string;
+  year: number;
+  section: string;
+  batch: number | null;
+  subject_name: string | null;
+  class_data: string;
+  students: string;
+  marked_count: number;
+  created_at: string;
+  updated_at: string;
+};
+
+export function getDraftKey(identity: DraftIdentity): string {
+  const { date, slotId, dept, year, section, batch } = identity;
+  return `${date}|${slotId}|${dept}-${year}-${section}|${batch ?? 'all'}`;
+}
+
+const toDraft = (row: DraftRow): AttendanceDraft => ({
+  key: row.key,
+  date: row.date,
+  slotId: row.slot_id,
+  dept: row.dept,
+  year: row.year,
+  section: row.section,
+  batch: row.batch,
+  subjectName: row.subject_name || 'Class',
+  classData: JSON.parse(row.class_data),
+  students: JSON.parse(row.students),
+  markedCount: row.marked_count,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+});
+
+/**
+ * Save the current marks of a session. Fire-and-forget: drafts must never
+ * block touch events.
+ */
+export function saveDraftAttendance(
+  identity: DraftIdentity,
+  meta: { subjectName: string; classData: Record<string, any> },
+  students: DraftStudent[]
+): void {
+  InteractionManager.runAfterInteractions(async () => {
+    try {
+      // Only save essential data to keep size small
+      const draftStudents: DraftStudent[] = students.map(s => ({
+        id: s.id,
+        status: s.status,
+        timestamp: s.timestamp,
+        proxyFlags: s.proxyFlags,
+        firstSeenAt: s.firstSeenAt,
+        lastSeenAt: s.lastSeenAt,
+      }));
+      // OD / leave are pre-applied on open, so they don't make a scan "started"
+      const markedCount = draftStudents.filter(s => s.status === 'present' || s.status === 'absent').length;
+      const now = new Date().toISOString();
+
+      const db = await getSqliteDb();
+      await db.runAsync(
+        `INSERT INTO attendance_drafts
+           (key, date, slot_id, dept, year, section, batch, subject_name, class_data, students, marked_count, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(key) DO UPDATE SET subject_name = excluded.subject_name, class_data = excluded.class_data,
+           students = excluded.students, marked_count = excluded.marked_count, updated_at = excluded.updated_at`,
+        [getDraftKey(identity), identity.date, identity.slotId, identity.dept, identity.year, identity.section,
+         identity.batch ?? null, meta.subjectName, JSON.stringify(meta.classData), JSON.stringify(draftStudents),
+         markedCount, now, now]
+      );
+    } catch (error) {
+      log.error("Error saving draft attendance:", error);
+    }
+  });
+}
+
+export async function getDraftAttendance(identity: DraftIdentity): Promise<AttendanceDraft | null> {
+  try {
+    const db = await getSqliteDb();
+    const row = await db.getFirstAsync<DraftRow>(
+      'SELECT * FROM attendance_drafts WHERE key = ?',
+      [getDraftKey(identity)]
+    );
+    return row ? toDraft(row) : null;
+  } catch (error) {
+    log.error("Error getting draft attendance:", error);
+    return null;
+  }
+}
+
+export async function clearDraftAttendance(identity: DraftIdentity): Promise<void> {
+  await discardDraft(getDraftKey(identity));
+}
+
+export async function discardDraft(key: string): Promise<void> {
+  try {
+    const db = await getSqliteDb();
+    await db.runAsync('DELETE FROM attendance_drafts WHERE key = ?', [key]);
+    log.info(`Cleared draft ${key}`);
+  } catch (error) {
+    log.error("Error clearing draft attendance:", error);
+  }
+}
+
+/**
+ * Drop drafts not touched within `maxAgeHours`. Returns how many were removed.
+ */
+export async function purgeExpiredDrafts(maxAgeHours: number = DRAFT_CONFIG.MAX_AGE_HOURS): Promise<number> {
+  try {
+    const db = await getSqliteDb();
+    const cutoff = new Date(Date.now() - maxAgeHours * 60 * 60 * 1000).toISOString();
+    const result = await db.runAsync('DELETE FROM attendance_drafts WHERE updated_at < ?', [cutoff]);
+    // Slot + date keyed drafts the v9 migration could not convert
+    await db.runAsync(
+      "DELETE FROM kv_store WHERE key LIKE '@attend_me/drafts/%' AND substr(key, -10) < ?",
+      [cutoff.slice(0, 10)]
+    );
+    if (result.changes > 0) {
+      log.info(`Purged ${result.changes} expired draft(s)`);
+    }
+    return result.changes;
+  } catch (error) {
+    log.error("Error purging drafts:", error);
+    return 0;
+  }
+}
+
+/**
+ * Unfinished sessions with at least one student marked, newest first.
+ * Expired drafts are purged first.
+ */
+export async function getUnfinishedDrafts(): Promise<AttendanceDraft[]> {
+  await purgeExpiredDrafts();
+  try {
+    const db = await getSqliteDb();
+    const rows = await db.getAllAsync<DraftRow>(
+      'SELECT * FROM attendance_drafts WHERE marked_count > 0 ORDER BY updated_at DESC'
+    );
+    return rows.map(toDraft);
+  } catch (error) {
+    log.error("Error listing drafts:", error);
+    return [];
+  }
+}
@@ -0,0 +1,222 @@
+import * as SecureStore from 'expo-secure-store';
+import * as SQLite from 'expo-sqlite';
+import { Directory, File } from 'expo-file-system';
+import createLogger from '../../utils/logger';
+
+const log = createLogger('OfflineEncryption');
+
+// ============================================================================
+// ENCRYPTED OFFLINE DATABASE
+// ============================================================================
+// Rosters, history and queued attendance hold student PII, so the offline
+// database is a SQLCipher file keyed with a random 256-bit key that only
+// lives in the platform keystore (expo-secure-store). Destroying the key makes
+// the file unreadable even if deleting it fails or a backup copy survives.
+// Installs from before encryption have a plaintext 'offline.db'; it is
+// exported into the encrypted file once and then deleted.
+//
+// The file can hold unsynced attendance, so it is never deleted because it
+// cannot be opened. A missing key leaves it untouched (the keystore may just
+// be unavailable right now); a key that does not open it moves it aside as
+// offline-unreadable-*.db. Both are reported as an OfflineDatabaseOpenError.
+
+export const ENCRYPTED_DB_NAME = 'offline-secure.db';
+export const LEGACY_DB_NAME = 'offline.db';
+
+const UNREADABLE_DB_PREFIX = 'offline-unreadable-';
+
+const KEY_STORE_KEY = 'offline_db_key';
+const LEGACY_EXPORTED_KEY = 'offline_db_legacy_exported';
+
+// Background sync opens the database while the phone may be locked
+const KEY_STORE_OPTIONS: SecureStore.SecureStoreOptions = {
+  keychainAccessible: SecureStore.AFTER_FIRST_UNLOCK_THIS_DEVICE_ONLY,
+};
+
+// Raw hex key, so SQLCipher skips its passphrase derivation
+const keyLiteral = (key: string) => `"x'${key}'"`;
+
+async function generateKey(): Promise<string> {
+  const db = await SQLite.openDatabaseAsync(':memory:');
+  try {
+    const row = await db.getFirstAsync<{ key: string }>('SELECT hex(randomblob(32)) AS key');
+    if (!row?.key) throw new Error('Could not generate database key');
+    return row.key;
+  } finally {
+    await db.closeAsync();
+  }
+}
+
+export class OfflineDatabaseOpenError extends Error {
+  constructor(
+    message: string,
+    // locked: no key for an existing file; unreadable: the key does not open it
+    readonly reason: 'locked' | 'unreadable',
+    // Where an unreadable file was moved
+    readonly movedTo?: string
+  ) {
+    super(message);
+    this.name = 'OfflineDatabaseOpenError';
+  }
+}
+
+const databaseDirectory = () => {
+  const path: string = SQLite.defaultDatabaseDirectory;
+  return new Directory(path.startsWith('file://') ? path : `file://${path}`);
+};
+
+const databaseFile = (name: string) => new File(databaseDirectory(), name);
+
+async function getKey(): Promise<string | null> {
+  return SecureStore.getItemAsync(KEY_STORE_KEY, KEY_STORE_OPTIONS);
+}
+
+/**
+ * The database key. A new one is only created while there is no encrypted
+ * file it would have to open.
+ */
+async function getOrCreateKey(): Promise<string> {
+  const existing = await getKey();
+  if (existing) return existing;
+
+  if (databaseFile(ENCRYPTED_DB_NAME).exists) {
+    throw new OfflineDatabaseOpenError(
+      'The offline database key is missing from the keystore; the database was left untouched',
+      'locked'
+    );
+  }
+
+  const key = await generateKey();
+  await SecureStore.setItemAsync(KEY_STORE_KEY, key, KEY_STORE_OPTIONS);
+  return key;
+}
+
+/**
+ * Move a database file (with its WAL and shared-memory files) aside under a
+ * new name. Returns the new name.
+ */
+function moveDatabaseAside(name: string): string {
+  const movedTo = `${UNREADABLE_DB_PREFIX}${Date.now()}.db`;
+  for (const suffix of ['', '-wal', '-shm']) {
+    const file = databaseFile(`${name}${suffix}`);
+    if (file.exists) file.rename(`${movedTo}${suffix}`);
+  }
+  return movedTo;
+}
+
+/**
+ * Whether this build links SQLCipher (the `useSQLCipher` plugin option).
+ * Without it `PRAGMA key` is silently ignored.
+ */
+async function isCipherAvailable(db: SQLite.SQLiteDatabase): Promise<boolean> {
+  try {
+    const row = await db.getFirstAsync<{ cipher_version: string }>('PRAGMA cipher_version');
+    return !!row?.cipher_version;
+  } catch {
+    return false;
+  }
+}
+
+async function deleteDatabaseIfExists(name: string): Promise<void> {
+  try {
+    await SQLite.deleteDatabaseAsync(name);
+  } catch {
+    // Not there
+  }
+}
+
+/**
+ * Unlock a database opened on the encrypted file (or a backup of it). Must
+ * run before any other statement on the connection.
+ */
+export async function applyDatabaseKey(db: SQLite.SQLiteDatabase): Promise<void> {
+  const key = await getKey();
+  if (!key) throw new OfflineDatabaseOpenError('The offline database key is missing from the keystore', 'locked');
+  await db.execAsync(`PRAGMA key = ${keyLiteral(key)};`);
+}
+
+/**
+ * Export a plaintext database from before encryption into the encrypted
+ * file, keeping its schema version, then delete the plaintext copy.
+ */
+async function exportLegacyDatabase(key: string): Promise<void> {
+  if ((await SecureStore.getItemAsync(LEGACY_EXPORTED_KEY)) === 'true') return;
+
+  const legacy = await SQLite.openDatabaseAsync(LEGACY_DB_NAME);
+  try {
+    const tables = await legacy.getFirstAsync<{ count: number }>(
+      "SELECT count(*) AS count FROM sqlite_master WHERE type = 'table'"
+    );
+    if (tables?.count) {
+      const row = await legacy.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+      // A previous attempt may have died halfway through the export
+      await deleteDatabaseIfExists(ENCRYPTED_DB_NAME);
+
+      const path = `${SQLite.defaultDatabaseDirectory}/${ENCRYPTED_DB_NAME}`;
+      await legacy.execAsync(`
+        ATTACH DATABASE '${path}' AS encrypted KEY ${keyLiteral(key)};
+        SELECT sqlcipher_export('encrypted');
+        PRAGMA encrypted.user_version = ${row?.user_version ?? 0};
+        DETACH DATABASE encrypted;
+      `);
+      log.info(`Encrypted existing offline database (schema v${row?.user_version ?? 0})`);
+    }
+  } finally {
+    await legacy.closeAsync();
+  }
+
+  await deleteDatabaseIfExists(LEGACY_DB_NAME);
+  await SecureStore.setItemAsync(LEGACY_EXPORTED_KEY, 'true');
+}
+
+/**
+ * Open the offline database, encrypting a legacy plaintext one first. Builds
+ * without SQLCipher (Expo Go, web) keep using the plaintext file.
+ */
+export async function openEncryptedDatabase(): Promise<SQLite.SQLiteDatabase> {
+  const probe = await SQLite.openDatabaseAsync(':memory:');
+  const cipherAvailable = await isCipherAvailable(probe);
+  await probe.closeAsync();
+
+  if (!cipherAvailable) {
+    log.warn('SQLCipher is not available in this build; offline data is stored unencrypted');
+    return SQLite.openDatabaseAsync(LEGACY_DB_NAME);
+  }
+
+  const key = await getOrCreateKey();
+  await exportLegacyDatabase(key);
+
+  const db = await SQLite.openDatabaseAsync(ENCRYPTED_DB_NAME);
+  await db.execAsync(`PRAGMA key = ${keyLiteral(key)};`);
+  try {
+    await db.getFirstAsync('SELECT count(*) FROM sqlite_master');
+    return db;
+  } catch (error) {
+    // The key no longer matches the file (e.g. keychain reset by an OS
+    // restore). Keep the file in case the old key turns up again; the next
+    // open starts an empty database with the current key.
+    await db.closeAsync();
+    const movedTo = moveDatabaseAside(ENCRYPTED_DB_NAME);
+    log.error(`Offline database cannot be decrypted, moved to ${movedTo}:`, error);
+    throw new OfflineDatabaseOpenError('The offline database could not be decrypted and was set aside', 'unreadable', movedTo);
+  }
+}
+
+/**
+ * Destroy the database key first (so whatever is left on disk is unreadable),
+ * then delete the database files, including ones set aside as unreadable.
+ * The next open creates a new key.
+ */
+export async function destroyEncryptedDatabase(backupNames: string[] = []): Promise<void> {
+  await SecureStore.deleteItemAsync(KEY_STORE_KEY, KEY_STORE_OPTIONS);
+  for (const name of [ENCRYPTED_DB_NAME, LEGACY_DB_NAME, ...backupNames]) {
+    await deleteDatabaseIfExists(name);
+  }
+  const directory = databaseDirectory();
+  if (directory.exists) {
+    for (const entry of directory.list()) {
+      if (entry instanceof File && entry.name.startsWith(UNREADABLE_DB_PREFIX)) entry.delete();
+    }
+  }
+  log.info('Offline database key destroyed and files deleted');
+}
@@ -0,0 +1,314 @@
+/**
+ * Offline history - cached sessions/logs and queued history edits
+ *
+ * History sessions and their logs are kept in SQLite so the History tab and
+ * its edit modal work without network. An edit is queued as an
+ * `update_session` operation and uploaded by syncPendingSubmissions through
+ * the same version check (and Sync Manager conflict flow) as new sessions.
+ * Until it uploads, the edit is overlaid on the cached and fetched data.
+ */
+
+import { supabase } from "../../config/supabase";
+import type { AttendanceSession } from "../dashboardService";
+import { PendingSubmission, SessionSnapshot } from "./types";
+import { getSqliteDb } from "./storage";
+import { getPendingSubmissions, queueSubmission, removePendingSubmission } from "./queue";
+import createLogger from '../../utils/logger';
+
+const log = createLogger('OfflineHistory');
+
+type AttendanceStatus = PendingSubmission['attendance'][number]['status'];
+
+export interface HistoryLog {
+  studentId: string;
+  rollNo: string;
+  name: string;
+  status: AttendanceStatus;
+  isLate: boolean;
+  leftEarly: boolean;
+  firstSeenAt?: string;
+  lastSeenAt?: string;
+}
+
+export interface CachedSessionLogs {
+  // Server version the logs were read at (null if unknown)
+  version: number | null;
+  logs: HistoryLog[];
+}
+
+export type HistorySession = AttendanceSession & { hasPendingEdit?: boolean };
+
+type HistoryLogRow = {
+  student_id: string;
+  roll_no: string | null;
+  name: string | null;
+  status: AttendanceStatus;
+  is_late: number;
+  left_early: number;
+  first_seen_at: string | null;
+  last_seen_at: string | null;
+};
+
+// ============================================================================
+// SESSIONS
+// ============================================================================
+
+export async function cacheHistorySessions(sessions: AttendanceSession[]): Promise<void> {
+  if (sessions.length === 0) return;
+  try {
+    const db = await getSqliteDb();
+    const cachedAt = new Date().toISOString();
+    await db.withTransactionAsync(async () => {
+      for (const s of sessions) {
+        await db.runAsync(
+          `INSERT INTO history_sessions (id, date, slot_id, data, cached_at) VALUES (?, ?, ?, ?, ?)
+           ON CONFLICT(id) DO UPDATE SET date = excluded.date, slot_id = excluded.slot_id,
+             data = excluded.data, cached_at = excluded.cached_at`,
+          [s.id, s.date, String(s.slot_id ?? ''), JSON.stringify(s), cachedAt]
+        );
+      }
+    });
+  } catch (error) {
+    log.error('Error caching history sessions:', error);
+  }
+}
+
+/**
+ * Cached sessions for one day (YYYY-MM-DD).
+ */
+export async function getCachedHistorySessions(date: string): Promise<AttendanceSession[]> {
+  try {
+    const db = await getSqliteDb();
+    const rows = await db.getAllAsync<{ data: string }>(
+      'SELECT data FROM history_sessions WHERE date = ? ORDER BY slot_id ASC',
+      [date]
+    );
+    return rows.map(r => JSON.parse(r.data));
+  } catch (error) {
+    log.error('Error reading cached history:', error);
+    return [];
+  }
+}
+
+// ============================================================================
+// LOGS
+// ============================================================================
+
+async function cacheSessionLogs(sessionId: string, version: number | null, logs: HistoryLog[]): Promise<void> {
+  const db = await getSqliteDb();
+  await db.withTransactionAsync(async () => {
+    await db.runAsync('UPDATE history_sessions SET version = ? WHERE id = ?', [version, sessionId]);
+    await db.runAsync('DELETE FROM history_logs WHERE session_id = ?', [sessionId]);
+    for (const l of logs) {
+      await db.runAsync(
+        `INSERT INTO history_logs (session_id, student_id, roll_no, name, status, is_late, left_early, first_seen_at, last_seen_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [sessionId, l.studentId, l.rollNo, l.name, l.status, l.isLate ? 1 : 0, l.leftEarly ? 1 : 0,
+         l.firstSeenAt || null, l.lastSeenAt || null]
+      );
+    }
+  });
+}
+
+const toHistoryLog = (row: any): HistoryLog => ({
+  studentId: row.student_id,
+  rollNo: row.students?.roll_no || '',
+  name: row.students?.full_name || 'Unknown Student',
+  status: row.status,
+  isLate: !!row.is_late,
+  leftEarly: !!row.left_early,
+  firstSeenAt: row.first_seen_at || undefined,
+  lastSeenAt: row.last_seen_at || undefined,
+});
+
+const LOG_COLUMNS = `
+  session_id,
+  student_id,
+  status,
+  is_late,
+  left_early,
+  first_seen_at,
+  last_seen_at,
+  students:student_id (roll_no, full_name)
+`;
+
+/**
+ * Download a session's logs (and its version) and cache them. Throws on
+ * query errors.
+ */
+export async function fetchSessionLogs(sessionId: string): Promise<CachedSessionLogs> {
+  const [{ data: session, error: sessionError }, { data: rows, error }] = await Promise.all([
+    supabase.from('attendance_sessions').select('version').eq('id', sessionId).maybeSingle(),
+    supabase.from('attendance_logs').select(LOG_COLUMNS).eq('session_id', sessionId),
+  ]);
+
+  if (sessionError) throw sessionError;
+  if (error) throw error;
+
+  const result = { version: session?.version ?? null, logs: (rows || []).map(toHistoryLog) };
+  await cacheSessionLogs(sessionId, result.version, result.logs);
+  return overlayPendingEdit(sessionId, result);
+}
+
+/**
+ * Cache the logs of a day's sessions in the background so they can be
+ * edited offline later.
+ */
+export async function prefetchSessionLogs(sessionIds: string[]): Promise<void> {
+  if (sessionIds.length === 0) return;
+  try {
+    const [{ data: sessions, error: sessionError }, { data: rows, error }] = await Promise.all([
+      supabase.from('attendance_sessions').select('id, version').in('id', sessionIds),
+      supabase.from('attendance_logs').select(LOG_COLUMNS).in('session_id', sessionIds),
+    ]);
+    if (sessionError) throw sessionError;
+    if (error) throw error;
+
+    const versions = new Map((sessions || []).map((s: any) => [s.id, s.version as number]));
+    for (const sessionId of sessionIds) {
+      const logs = (rows || []).filter((r: any) => r.session_id === sessionId).map(toHistoryLog);
+      await cacheSessionLogs(sessionId, versions.get(sessionId) ?? null, logs);
+    }
+  } catch (error) {
+    log.warn('Could not prefetch session logs:', error);
+  }
+}
+
+/**
+ * Cached logs for a session with any pending edit applied, or null if the
+ * session was never downloaded.
+ */
+export async function getCachedSessionLogs(sessionId: string): Promise<CachedSessionLogs | null> {
+  try {
+    const db = await getSqliteDb();
+    const session = await db.getFirstAsync<{ version: number | null }>(
+      'SELECT version FROM history_sessions WHERE id = ?',
+      [sessionId]
+    );
+    const rows = await db.getAllAsync<HistoryLogRow>(
+      'SELECT * FROM history_logs WHERE session_id = ? ORDER BY roll_no ASC',
+      [sessionId]
+    );
+    if (rows.length === 0) return null;
+
+    return overlayPendingEdit(sessionId, {
+      version: session?.version ?? null,
+      logs: rows.map(r => ({
+        studentId: r.student_id,
+        rollNo: r.roll_no || '',
+        name: r.name || 'Unknown Student',
+        status: r.status,
+        isLate: !!r.is_late,
+        leftEarly: !!r.left_early,
+        firstSeenAt: r.first_seen_at || undefined,
+        lastSeenAt: r.last_seen_at || undefined,
+      })),
+    });
+  } catch (error) {
+    log.error('Error reading cached session logs:', error);
+    return null;
+  }
+}
+
+// ============================================================================
+// EDITS
+// ============================================================================
+
+async function getPendingEdits(): Promise<Map<string, PendingSubmission>> {
+  const pending = await getPendingSubmissions();
+  return new Map(
+    pending
+      .filter(p => p.operation === 'update_session' && p.sessionId)
+      .map(p => [p.sessionId!, p])
+  );
+}
+
+async function overlayPendingEdit(sessionId: string, cached: CachedSessionLogs): Promise<CachedSessionLogs> {
+  const edit = (await getPendingEdits()).get(sessionId);
+  if (!edit) return cached;
+
+  const edited = new Map(edit.attendance.map(a => [a.studentId, a]));
+  return {
+    ...cached,
+    logs: cached.logs.map(l => {
+      const e = edited.get(l.studentId);
+      return e ? { ...l, status: e.status, isLate: !!e.isLate, leftEarly: !!e.leftEarly } : l;
+    }),
+  };
+}
+
+/**
+ * Mark sessions that have a queued edit and show the edited counts.
+ */
+export async function withPendingEdits(sessions: AttendanceSession[]): Promise<HistorySession[]> {
+  const edits = await getPendingEdits();
+  if (edits.size === 0) return sessions;
+
+  return sessions.map(s => {
+    const edit = edits.get(s.id);
+    if (!edit) return s;
+    const count = (status: AttendanceStatus) => edit.attendance.filter(a => a.status === status).length;
+    return {
+      ...s,
+      present_count: count('present'),
+      absent_count: count('absent'),
+      od_count: count('od'),
+      late_count: edit.attendance.filter(a => a.status === 'present' && a.isLate).length,
+      left_early_count: edit.attendance.filter(a => a.status === 'present' && a.leftEarly).length,
+      hasPendingEdit: true,
+    };
+  });
+}
+
+/**
+ * Queue an edit of a server session. A newer edit of the same session
+ * replaces the queued one but keeps its base, so the version check still
+ * compares against what the faculty originally edited.
+ */
+export async function queueSessionEdit(session: AttendanceSession, logs: HistoryLog[]): Promise<PendingSubmission> {
+  const previous = (await getPendingEdits()).get(session.id);
+
+  let base: SessionSnapshot | undefined = previous?.base ?? undefined;
+  if (!previous) {
+    const cached = await getCachedSessionLogs(session.id);
+    if (cached && cached.version !== null) {
+      base = {
+        sessionId: session.id,
+        version: cached.version,
+        records: cached.logs.map(l => ({ studentId: l.studentId, status: l.status, name: l.name, rollNo: l.rollNo })),
+      };
+    }
+  }
+
+  const submission: PendingSubmission = {
+    // Fresh id per edit: the server treats a repeated id as already applied
+    id: `edit-${session.id}-${Date.now()}`,
+    operation: 'update_session',
+    sessionId: session.id,
+    sessionDate: session.date,
+    classData: {
+      slotId: String(session.slot_id),
+      subjectName: session.subject?.name || 'Class',
+      section: `${session.target_dept}-${session.target_year}-${session.target_section}`,
+      dept: session.target_dept,
+      year: session.target_year,
+      sectionLetter: session.target_section,
+    },
+    attendance: logs.map(l => ({
+      studentId: l.studentId,
+      status: l.status,
+      isLate: l.status === 'present' && l.isLate,
+      leftEarly: l.status === 'present' && l.leftEarly,
+    })),
+    submittedAt: new Date().toISOString(),
+    retryCount: 0,
+    base,
+    syncStatus: 'PENDING',
+  };
+
+  // Queue first: if that fails the previous edit is still there
+  await queueSubmission(submission);
+  if (previous) await removePendingSubmission(previous.id);
+  log.info('History edit queued:', submission.id);
+  return submission;
+}
@@ -3,18 +3,52 @@ export * from "./storage";
 export * from "./queue";
 export * from "./cache";
 export * from "./sync";
+export * from "./scanLog";
+export * from "./conflict";
+export * from "./deadLetter";
+export * from "./schedule";
+export * from "./permissions";
+export * from "./history";
+export * from "./drafts";
 
-import { migrateToSQLite } from "./migrate";
+import { getSqliteDb } from "./storage";
+import createLogger from '../../utils/logger';
+import { getMigrationStatus, subscribeMigrationStatus, LATEST_SCHEMA_VERSION } from "./migrate";
+import type { MigrationStatus } from "./migrate";
+
+const log = createLogger('Offline');
+
+/**
+ * Initialize the offline service (open the database and run pending
+ * migrations). Should be called at app startup; safe to await repeatedly.
+ */
+export async function initOffline(): Promise<MigrationStatus> {
+  await getSqliteDb();
+  return getMigrationStatus();
+}
 
 /**
- * Initialize the offline service.
- * Should be called at app startup.
+ * Attendance on this device that has not reached the server (queued,
+ * conflicting or dead-lettered submissions and history edits), or null when
+ * it cannot be counted (e.g. the database is locked or unreadable). Unlike
+ * the badge counts, an error is never reported as 0.
  */
-export async function initOffline() {
-  await migrateToSQLite();
+export async function getUnsyncedCount(): Promise<number | null> {
+  try {
+    const db = await getSqliteDb();
+    const result = await db.getFirstAsync<{ count: number }>(
+      `SELECT (SELECT COUNT(*) FROM pending_submissions)
+            + (SELECT COUNT(*) FROM dead_letter_submissions) AS count`
+    );
+    return result?.count ?? 0;
+  } catch (error) {
+    log.error('Could not count unsynced attendance:', error);
+    return null;
+  }
 }
 
-export { migrateToSQLite };
+export { getMigrationStatus, subscribeMigrationStatus, LATEST_SCHEMA_VERSION };
+export type { MigrationStatus };
 
 // Re-export specific storage keys for convenience if needed by consumers
 import { STORAGE_KEYS } from "./types";
@@ -1,71 +1,443 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
-import { SQLiteStorageAdapter, getStorage } from "./storage";
+import * as SQLite from 'expo-sqlite';
+import { applyDatabaseKey } from './encryption';
 import createLogger from '../../utils/logger';
 
 const log = createLogger('Migration');
 
-const MIGRATION_KEY = 'MIGRATION_V1_COMPLETE';
+// ============================================================================
+// OFFLINE DATABASE MIGRATIONS
+// ============================================================================
+// The schema version lives in SQLite's own `PRAGMA user_version`. Migrations
+// are append-only: never edit one that has shipped, add a new entry instead.
+// Each runs in its own transaction together with the version bump, so a crash
+// leaves the database at the last fully applied version.
+
+type Migration = {
+  version: number;
+  name: string;
+  up: (db: SQLite.SQLiteDatabase) => Promise<void>;
+};
+
+const LEGACY_MIGRATION_KEY = 'MIGRATION_V1_COMPLETE';
+
+async function addColumnIfMissing(db: SQLite.SQLiteDatabase, table: string, column: string, type: string) {
+  const columns = await db.getAllAsync<{ name: string }>(`PRAGMA table_info(${table})`);
+  if (!columns.some(c => c.name === column)) {
+    await db.execAsync(`ALTER TABLE ${table} ADD COLUMN ${column} ${type};`);
+  }
+}
 
 /**
- * Migrates data from AsyncStorage to SQLite.
- * This should be run on app startup before the offline service is fully used.
+ * Move slot + UTC-date keyed drafts (`@attend_me/drafts/<slot>_<date>`) into
+ * attendance_drafts. They carry no class details, so these come from the
+ * cached schedule of the same day (and the cached roster when a slot has
+ * more than one class). Drafts that can't be matched stay in kv_store until
+ * purgeExpiredDrafts drops them.
  */
-export async function migrateToSQLite(): Promise<void> {
-  try {
-    const storage = getStorage();
-    
-    // Ensure we are actually using SQLite before migrating
-    if (!(storage instanceof SQLiteStorageAdapter)) {
-      log.info('storage.ts is not configured for SQLite. Skipping migration.');
-      return;
+async function convertLegacyDrafts(db: SQLite.SQLiteDatabase) {
+  const legacy = await db.getAllAsync<{ key: string; value: string | null }>(
+    "SELECT key, value FROM kv_store WHERE key LIKE '@attend_me/drafts/%'"
+  );
+  if (legacy.length === 0) return;
+
+  const readJson = async (key: string) => {
+    const row = await db.getFirstAsync<{ value: string | null }>('SELECT value FROM kv_store WHERE key = ?', [key]);
+    try {
+      return row?.value ? JSON.parse(row.value) : null;
+    } catch {
+      return null;
     }
+  };
+  const schedule: any[] = (await readJson('@attend_me/today_schedule')) || [];
+  const scheduleDate: string | undefined = (await readJson('@attend_me/cache_timestamps'))?.today_schedule?.slice(0, 10);
 
-    const sqlite = storage;
-    
-    // 1. Check if already migrated
-    const migrated = await sqlite.getItem(MIGRATION_KEY);
-    if (migrated === 'true') {
-      log.info('SQLite migration already complete.');
-      return;
+  let converted = 0;
+  for (const { key, value } of legacy) {
+    const rest = key.slice('@attend_me/drafts/'.length);
+    const split = rest.lastIndexOf('_');
+    const slotId = rest.slice(0, split);
+    const date = rest.slice(split + 1);
+    let students: any[];
+    try {
+      students = JSON.parse(value || '[]');
+    } catch {
+      continue;
     }
+    if (split <= 0 || date !== scheduleDate || !Array.isArray(students) || students.length === 0) continue;
 
-    log.info('Starting migration from AsyncStorage to SQLite...');
+    let candidates = schedule.filter(c => String(c.slot_id) === slotId && c.target_dept);
+    if (candidates.length > 1) {
+      const owner = await db.getFirstAsync<{ class_id: string }>(
+        'SELECT class_id FROM students WHERE id = ?', [students[0].id]
+      );
+      candidates = candidates.filter(c => `${c.target_dept}-${c.target_year}-${c.target_section}` === owner?.class_id);
+    }
+    if (candidates.length !== 1) continue;
 
-    // 2. Get all data from AsyncStorage
-    const keys = await AsyncStorage.getAllKeys();
-    const relevantKeys = keys.filter(k => k !== MIGRATION_KEY); // just in case
+    const cls = candidates[0];
+    const batch = cls.batch ?? null;
+    const markedCount = students.filter(s => s.status === 'present' || s.status === 'absent').length;
+    const now = new Date().toISOString();
+    await db.runAsync(
+      `INSERT OR IGNORE INTO attendance_drafts
+         (key, date, slot_id, dept, year, section, batch, subject_name, class_data, students, marked_count, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [`${date}|${slotId}|${cls.target_dept}-${cls.target_year}-${cls.target_section}|${batch ?? 'all'}`,
+       date, slotId, cls.target_dept, cls.target_year, cls.target_section, batch, cls.subject?.name || 'Class',
+       JSON.stringify(cls), JSON.stringify(students), markedCount, now, now]
+    );
+    await db.runAsync('DELETE FROM kv_store WHERE key = ?', [key]);
+    converted++;
+  }
+  log.info(`Converted ${converted} of ${legacy.length} legacy attendance draft(s)`);
+}
 
-    if (relevantKeys.length === 0) {
-      log.info('No data in AsyncStorage to migrate.');
-      await sqlite.setItem(MIGRATION_KEY, 'true');
-      return;
-    }
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'Base tables',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS kv_store (key TEXT PRIMARY KEY NOT NULL, value TEXT);
+
+        CREATE TABLE IF NOT EXISTS local_notifications (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          type TEXT NOT NULL,
+          title TEXT NOT NULL,
+          body TEXT NOT NULL,
+          data TEXT, -- JSON
+          priority TEXT,
+          is_read INTEGER DEFAULT 0,
+          created_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS local_substitutions (
+           id TEXT PRIMARY KEY,
+           original_faculty_id TEXT NOT NULL,
+           substitute_faculty_id TEXT,
+           subject_name TEXT,
+           subject_code TEXT,
+           original_faculty_name TEXT,
+           target_dept TEXT,
+           target_year INTEGER,
+           target_section TEXT,
+           slot_id TEXT,
+           date TEXT,
+           status TEXT,
+           requested_at TEXT,
+           is_hidden INTEGER DEFAULT 0
+        );
+
+        CREATE TABLE IF NOT EXISTS local_class_swaps (
+           id TEXT PRIMARY KEY,
+           faculty_a_id TEXT NOT NULL,
+           faculty_b_id TEXT NOT NULL,
+           faculty_a_name TEXT,
+           faculty_b_name TEXT,
+           slot_a_id TEXT,
+           slot_b_id TEXT,
+           date TEXT,
+           status TEXT,
+           requested_at TEXT,
+           is_hidden INTEGER DEFAULT 0
+        );
+
+        CREATE TABLE IF NOT EXISTS rosters (
+           class_id TEXT PRIMARY KEY,
+           subject_name TEXT,
+           subject_id TEXT,
+           section TEXT,
+           cached_at TEXT
+        );
 
-    const pairs = await AsyncStorage.multiGet(relevantKeys);
-    
-    // 3. Prepare data for SQLite
-    const validPairs: [string, string][] = [];
-    for (const [key, value] of pairs) {
-      if (value !== null) {
-        validPairs.push([key, value]);
+        CREATE TABLE IF NOT EXISTS students (
+           id TEXT PRIMARY KEY,
+           class_id TEXT,
+           name TEXT,
+           roll_no TEXT,
+           bluetooth_uuid TEXT,
+           batch INTEGER
+        );
+
+        CREATE TABLE IF NOT EXISTS pending_submissions (
+           id TEXT PRIMARY KEY,
+           data TEXT,
+           slot_id TEXT,
+           date TEXT,
+           created_at TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS scan_events (
+           id INTEGER PRIMARY KEY AUTOINCREMENT,
+           session_key TEXT NOT NULL,
+           type TEXT NOT NULL,
+           at INTEGER NOT NULL,
+           data TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_scan_events_session ON scan_events (session_key);
+      `);
+    },
+  },
+  {
+    version: 2,
+    name: 'Copy AsyncStorage data',
+    up: async (db) => {
+      // Installs that already moved over recorded it in the kv store
+      const done = await db.getFirstAsync<{ value: string }>(
+        'SELECT value FROM kv_store WHERE key = ?',
+        [LEGACY_MIGRATION_KEY]
+      );
+      if (done?.value === 'true') return;
+
+      const keys = (await AsyncStorage.getAllKeys()).filter(k => k !== LEGACY_MIGRATION_KEY);
+      const pairs = keys.length > 0 ? await AsyncStorage.multiGet(keys) : [];
+
+      let copied = 0;
+      for (const [key, value] of pairs) {
+        if (value === null) continue;
+        await db.runAsync('INSERT OR REPLACE INTO kv_store (key, value) VALUES (?, ?)', [key, value]);
+        copied++;
       }
-    }
+      await db.runAsync(
+        'INSERT OR REPLACE INTO kv_store (key, value) VALUES (?, ?)',
+        [LEGACY_MIGRATION_KEY, 'true']
+      );
+      log.info(`Copied ${copied} items from AsyncStorage`);
+    },
+  },
+  {
+    version: 3,
+    name: 'Beacon secrets',
+    up: (db) => addColumnIfMissing(db, 'students', 'beacon_secret', 'TEXT'),
+  },
+  {
+    version: 4,
+    name: 'Co-scan submissions',
+    // Co-scan submissions are deduplicated per co-scan, not per slot
+    up: (db) => addColumnIfMissing(db, 'pending_submissions', 'coscan_id', 'TEXT'),
+  },
+  {
+    version: 5,
+    name: 'Dead-letter queue',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS dead_letter_submissions (
+           id TEXT PRIMARY KEY,
+           data TEXT NOT NULL,
+           errors TEXT,
+           attempts TEXT,
+           dead_at TEXT NOT NULL,
+           shared_at TEXT
+        );
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: 'Roster delta sync marks',
+    up: async (db) => {
+      await addColumnIfMissing(db, 'rosters', 'synced_through', 'TEXT');
+      await addColumnIfMissing(db, 'rosters', 'full_synced_at', 'TEXT');
+    },
+  },
+  {
+    version: 7,
+    name: 'Offline permissions',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS local_permissions (
+           id TEXT PRIMARY KEY,
+           class_id TEXT NOT NULL,
+           student_id TEXT NOT NULL,
+           type TEXT NOT NULL,
+           start_date TEXT NOT NULL,
+           end_date TEXT NOT NULL,
+           start_time TEXT,
+           end_time TEXT,
+           created_at TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_local_permissions_student ON local_permissions (student_id);
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: 'Offline history',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS history_sessions (
+           id TEXT PRIMARY KEY,
+           date TEXT NOT NULL,
+           slot_id TEXT,
+           data TEXT NOT NULL,
+           version INTEGER,
+           cached_at TEXT
+        );
+        CREATE INDEX IF NOT EXISTS idx_history_sessions_date ON history_sessions (date);
 
-    // 4. Batch insert into SQLite
-    if (validPairs.length > 0) {
-      await sqlite.multiSet(validPairs);
-      log.info(`Successfully migrated ${validPairs.length} items to SQLite.`);
-    }
+        CREATE TABLE IF NOT EXISTS history_logs (
+           session_id TEXT NOT NULL,
+           student_id TEXT NOT NULL,
+           roll_no TEXT,
+           name TEXT,
+           status TEXT NOT NULL,
+           is_late INTEGER DEFAULT 0,
+           left_early INTEGER DEFAULT 0,
+           first_seen_at TEXT,
+           last_seen_at TEXT,
+           PRIMARY KEY (session_id, student_id)
+        );
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: 'Session-keyed attendance drafts',
+    up: async (db) => {
+      await db.execAsync(`
+        CREATE TABLE IF NOT EXISTS attendance_drafts (
+           key TEXT PRIMARY KEY,
+           date TEXT NOT NULL,
+           slot_id TEXT NOT NULL,
+           dept TEXT NOT NULL,
+           year INTEGER NOT NULL,
+           section TEXT NOT NULL,
+           batch INTEGER,
+           subject_name TEXT,
+           class_data TEXT NOT NULL,
+           students TEXT NOT NULL,
+           marked_count INTEGER DEFAULT 0,
+           created_at TEXT NOT NULL,
+           updated_at TEXT NOT NULL
+        );
+      `);
+      await convertLegacyDrafts(db);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
 
-    // 5. Mark migration as complete
-    await sqlite.setItem(MIGRATION_KEY, 'true');
-    log.info('Migration marked as complete.');
+// ============================================================================
+// STATUS
+// ============================================================================
+
+export interface MigrationStatus {
+  state: 'idle' | 'running' | 'done' | 'failed';
+  fromVersion: number;
+  toVersion: number;
+  // Migration currently being applied
+  current?: { version: number; name: string };
+  // Set once a failed migration forced a backup of the database file
+  backupName?: string;
+  // The database file itself could not be opened (see encryption.ts)
+  openFailure?: 'locked' | 'unreadable';
+  // Where an unreadable database file was moved
+  movedTo?: string;
+  error?: string;
+}
+
+let status: MigrationStatus = { state: 'idle', fromVersion: 0, toVersion: LATEST_SCHEMA_VERSION };
+const listeners = new Set<(status: MigrationStatus) => void>();
+
+function setStatus(next: Partial<MigrationStatus>) {
+  status = { ...status, ...next };
+  listeners.forEach(listener => listener(status));
+}
+
+export function getMigrationStatus(): MigrationStatus {
+  return status;
+}
 
-    // Optional: Clear AsyncStorage to free space / avoid confusion
-    // await AsyncStorage.clear();
-    
-  } catch (error) {
-    log.error('Critical error during migration:', error);
-    // Do NOT mark as complete so we can retry next time
+/**
+ * Listen for migration progress (e.g. on the splash screen). Returns an
+ * unsubscribe function.
+ */
+export function subscribeMigrationStatus(listener: (status: MigrationStatus) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// ============================================================================
+// RUNNER
+// ============================================================================
+
+async function getUserVersion(db: SQLite.SQLiteDatabase): Promise<number> {
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  return row?.user_version ?? 0;
+}
+
+async function applyMigration(db: SQLite.SQLiteDatabase, migration: Migration): Promise<void> {
+  await db.withExclusiveTransactionAsync(async (txn) => {
+    await migration.up(txn);
+    await txn.execAsync(`PRAGMA user_version = ${migration.version}`);
+  });
+}
+
+/**
+ * Copy the database file aside before retrying a failed migration, so a
+ * second failure can't take unsynced attendance with it.
+ */
+async function backupDatabase(db: SQLite.SQLiteDatabase, version: number): Promise<string> {
+  const backupName = `offline-backup-v${version}-${Date.now()}.db`;
+  const destDatabase = await SQLite.openDatabaseAsync(backupName);
+  try {
+    // The backup holds the same PII, so it is encrypted with the same key
+    await applyDatabaseKey(destDatabase);
+    await SQLite.backupDatabaseAsync({ sourceDatabase: db, destDatabase });
+  } finally {
+    await destDatabase.closeAsync();
+  }
+  return backupName;
+}
+
+/**
+ * Report that the database file could not be opened, so no migration ran.
+ */
+export function reportOpenFailure(failure: { reason: 'locked' | 'unreadable'; movedTo?: string; message: string }): void {
+  setStatus({ state: 'failed', openFailure: failure.reason, movedTo: failure.movedTo, error: failure.message });
+}
+
+/**
+ * Bring the offline database up to LATEST_SCHEMA_VERSION. A failing
+ * migration is retried once after backing up the database file; if it fails
+ * again the error is thrown and the database stays at the last good version.
+ */
+export async function runMigrations(db: SQLite.SQLiteDatabase): Promise<void> {
+  const fromVersion = await getUserVersion(db);
+  const pending = MIGRATIONS.filter(m => m.version > fromVersion);
+
+  if (pending.length === 0) {
+    setStatus({ state: 'done', fromVersion, current: undefined });
+    return;
   }
+
+  log.info(`Migrating offline database v${fromVersion} -> v${LATEST_SCHEMA_VERSION}`);
+  setStatus({ state: 'running', fromVersion });
+
+  for (const migration of pending) {
+    setStatus({ current: { version: migration.version, name: migration.name } });
+    try {
+      await applyMigration(db, migration);
+    } catch (error) {
+      log.error(`Migration v${migration.version} (${migration.name}) failed, retrying after backup:`, error);
+      try {
+        const backupName = await backupDatabase(db, migration.version - 1);
+        log.info('Database backed up to', backupName);
+        setStatus({ backupName });
+        await applyMigration(db, migration);
+      } catch (retryError: any) {
+        log.error(`Migration v${migration.version} failed again:`, retryError);
+        setStatus({ state: 'failed', error: retryError?.message || String(retryError) });
+        throw retryError;
+      }
+    }
+    log.info(`Applied migration v${migration.version}: ${migration.name}`);
+  }
+
+  setStatus({ state: 'done', current: undefined });
 }
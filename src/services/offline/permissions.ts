@@ -0,0 +1,150 @@
+import { supabase } from "../../config/supabase";
+import { getSqliteDb } from "./storage";
+import { setCacheTimestamp, getCacheTimestamp } from "./cache";
+import { getSessionDate, getCampusTime } from "../../shared/campusTime";
+import createLogger from '../../utils/logger';
+
+const log = createLogger('PermissionCache');
+
+// ============================================================================
+// OFFLINE PERMISSION CACHE
+// ============================================================================
+// Active OD / leave permissions for every cached class are downloaded with the
+// rosters, so an offline scan can pre-mark them exactly like the server's
+// auto_apply_permissions trigger would:
+// - leave: the day falls between start_date and end_date
+// - od:    the day falls in the range AND the time is within start/end time
+// When several match, the most recently granted one wins.
+
+type PermissionRow = {
+  id: string;
+  student_id: string;
+  type: 'od' | 'leave';
+  start_date: string;
+  end_date: string;
+  start_time: string | null;
+  end_time: string | null;
+  created_at: string;
+};
+
+// Postgres TIME may come back as "HH:MM" or "HH:MM:SS"
+const normalizeTime = (t: string | null) => (t && t.length === 5 ? `${t}:00` : t);
+
+/**
+ * Download active permissions (not yet ended) for one class and replace the
+ * cached set for it.
+ */
+export async function syncClassPermissions(
+  classId: string,
+  dept: string,
+  year: number,
+  section: string
+): Promise<number> {
+  const { data, error } = await supabase
+    .from('attendance_permissions')
+    .select('id, student_id, type, start_date, end_date, start_time, end_time, created_at, student:students!inner(dept, year, section)')
+    .eq('is_active', true)
+    .gte('end_date', getSessionDate())
+    .eq('student.dept', dept)
+    .eq('student.year', year)
+    .eq('student.section', section);
+
+  if (error) throw error;
+
+  const rows = (data || []) as unknown as PermissionRow[];
+  const db = await getSqliteDb();
+  await db.withTransactionAsync(async () => {
+    await db.runAsync('DELETE FROM local_permissions WHERE class_id = ?', [classId]);
+    for (const p of rows) {
+      await db.runAsync(
+        `INSERT OR REPLACE INTO local_permissions (id, class_id, student_id, type, start_date, end_date, start_time, end_time, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [p.id, classId, p.student_id, p.type, p.start_date, p.end_date,
+         normalizeTime(p.start_time), normalizeTime(p.end_time), p.created_at]
+      );
+    }
+  });
+
+  return rows.length;
+}
+
+/**
+ * Refresh the permission cache for every synced class. Failures are logged
+ * per class so one bad class doesn't keep the rest stale.
+ */
+export async function syncPermissionsForClasses(
+  classes: { classId: string; dept: string; year: number; section: string }[]
+): Promise<void> {
+  let failed = 0;
+  for (const cls of classes) {
+    try {
+      await syncClassPermissions(cls.classId, cls.dept, cls.year, cls.section);
+    } catch (error) {
+      failed++;
+      log.error(`Failed to sync permissions for ${cls.classId}:`, error);
+    }
+  }
+
+  if (failed === 0) {
+    await setCacheTimestamp('permissions');
+  }
+
+  // Ended permissions and classes no longer taught are never needed offline
+  try {
+    const db = await getSqliteDb();
+    await db.runAsync('DELETE FROM local_permissions WHERE end_date < ?', [getSessionDate()]);
+    const classIds = classes.map(c => c.classId);
+    if (classIds.length === 0) {
+      await db.runAsync('DELETE FROM local_permissions');
+    } else {
+      await db.runAsync(
+        `DELETE FROM local_permissions WHERE class_id NOT IN (${classIds.map(() => '?').join(',')})`,
+        classIds
+      );
+    }
+  } catch (error) {
+    log.warn('Could not prune ended permissions:', error);
+  }
+}
+
+/**
+ * Which students have an OD / leave in effect at `at`, using the same rules
+ * as the server trigger. Returns studentId → type.
+ */
+export async function getCachedPermissions(
+  studentIds: string[],
+  at: Date = new Date()
+): Promise<Map<string, 'od' | 'leave'>> {
+  const result = new Map<string, 'od' | 'leave'>();
+  if (studentIds.length === 0) return result;
+
+  const date = getSessionDate(at);
+  const time = getCampusTime(at);
+
+  try {
+    const db = await getSqliteDb();
+    const wanted = new Set(studentIds);
+    const rows = await db.getAllAsync<PermissionRow>(
+      `SELECT * FROM local_permissions
+       WHERE start_date <= ? AND end_date >= ?
+         AND (type = 'leave' OR (start_time <= ? AND end_time >= ?))
+       ORDER BY created_at DESC`,
+      [date, date, time, time]
+    );
+
+    for (const row of rows) {
+      // Newest first, so the first hit per student wins
+      if (wanted.has(row.student_id) && !result.has(row.student_id)) {
+        result.set(row.student_id, row.type);
+      }
+    }
+  } catch (error) {
+    log.error('Failed to read cached permissions:', error);
+  }
+
+  return result;
+}
+
+export async function getPermissionsCachedAt(): Promise<Date | null> {
+  return getCacheTimestamp('permissions');
+}
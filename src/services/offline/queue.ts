@@ -1,5 +1,7 @@
 import { PendingSubmission, STORAGE_KEYS } from "./types";
 import { getStorage, getSqliteDb, SQLiteStorageAdapter } from "./storage";
+import { getSessionDate } from "../../shared/campusTime";
+import { supabase } from "../../config/supabase";
 import createLogger from '../../utils/logger';
 
 const log = createLogger('OfflineQueue');
@@ -33,36 +35,89 @@ export async function getPendingSubmissions(): Promise<PendingSubmission[]> {
   }
 }
 
+/**
+ * Stamp a new submission with the signed-in faculty member (the local
+ * session, so this works offline). Re-queued items keep their owner.
+ */
+async function withOwner(submission: PendingSubmission): Promise<PendingSubmission> {
+  if (submission.facultyId) return submission;
+  const facultyId = await getSignedInFacultyId();
+  return facultyId ? { ...submission, facultyId } : submission;
+}
+
+/**
+ * The signed-in faculty member from the local session (works offline).
+ */
+export async function getSignedInFacultyId(): Promise<string | null> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    return session?.user.id ?? null;
+  } catch (error) {
+    log.warn("Could not read the session:", error);
+    return null;
+  }
+}
+
+/**
+ * Whether `facultyId` may upload a submission. Items without an owner were
+ * queued before owners were recorded and are uploaded as before.
+ */
+export function isOwnedBy(submission: PendingSubmission, facultyId: string | null): boolean {
+  return !submission.facultyId || submission.facultyId === facultyId;
+}
+
+// Campus date a submission is filed under: the edited session's date for
+// history edits, otherwise the day it was taken
+const queueDate = (submission: PendingSubmission): string =>
+  submission.operation === 'update_session' && submission.sessionDate
+    ? submission.sessionDate
+    : getSessionDate(new Date(submission.submittedAt));
+
 /**
  * Add a new submission to the queue.
  * Handles deduplication by replacing existing submissions for the same slot/date.
+ * Co-scan submissions only replace this device's earlier upload for the same
+ * co-scan - other contributors' data is merged on the server, never dropped.
+ * History edits (`update_session`) are only replaced by id, and a new scan
+ * never replaces them. Only the same faculty member's submissions are
+ * replaced; on a shared phone another user's queued period is kept.
  */
 export async function queueSubmission(submission: PendingSubmission): Promise<void> {
   const storage = getStorage();
+  submission = await withOwner(submission);
 
   if (storage instanceof SQLiteStorageAdapter) {
     try {
       const db = await getSqliteDb();
-      const newDate = submission.submittedAt.split("T")[0];
+      const newDate = queueDate(submission);
       const newSlot = submission.classData.slotId;
+      const coScanId = submission.coScanId || '';
+      const owner = submission.facultyId || '';
       
       await db.withTransactionAsync(async () => {
          // Delete conflicting (deduplication) using optimized columns
          // This avoids fetching all rows and filtering in JS.
-         await db.runAsync(
-             'DELETE FROM pending_submissions WHERE slot_id = ? AND date = ?',
-             [String(newSlot), newDate]
-         );
+         // History edits replace by id only (see history.ts).
+         if (submission.operation !== 'update_session') {
+           await db.runAsync(
+               `DELETE FROM pending_submissions
+                WHERE slot_id = ? AND date = ? AND IFNULL(coscan_id, '') = ?
+                  AND IFNULL(json_extract(data, '$.operation'), '') <> 'update_session'
+                  AND IFNULL(json_extract(data, '$.facultyId'), '') = ?`,
+               [String(newSlot), newDate, coScanId, owner]
+           );
+         }
          
          // Insert new submission
          await db.runAsync(
-             'INSERT OR REPLACE INTO pending_submissions (id, data, slot_id, date, created_at) VALUES (?, ?, ?, ?, ?)',
+             'INSERT OR REPLACE INTO pending_submissions (id, data, slot_id, date, created_at, coscan_id) VALUES (?, ?, ?, ?, ?, ?)',
              [
                  submission.id, 
                  JSON.stringify(submission), 
                  String(newSlot), 
                  newDate, 
-                 new Date().toISOString()
+                 new Date().toISOString(),
+                 coScanId || null
              ]
          );
       });
@@ -80,13 +135,17 @@ export async function queueSubmission(submission: PendingSubmission): Promise<vo
     let pending = await getPendingSubmissions();
 
     // DEDUPLICATION / OVERRIDE LOGIC
-    const newDate = submission.submittedAt.split("T")[0];
+    const newDate = queueDate(submission);
     const newSlot = submission.classData.slotId;
     
     const initialCount = pending.length;
     pending = pending.filter((p) => {
-      const pDate = p.submittedAt.split("T")[0];
-      return !(p.classData.slotId === newSlot && pDate === newDate);
+      if (p.id === submission.id) return false;
+      if (submission.operation === 'update_session' || p.operation === 'update_session') return true;
+      const pDate = queueDate(p);
+      const sameCoScan = (p.coScanId || '') === (submission.coScanId || '');
+      const sameOwner = (p.facultyId || '') === (submission.facultyId || '');
+      return !(p.classData.slotId === newSlot && pDate === newDate && sameCoScan && sameOwner);
     });
 
     if (pending.length < initialCount) {
@@ -0,0 +1,112 @@
+import { supabase } from "../../config/supabase";
+import { ScanEvent } from "./types";
+import { getSqliteDb } from "./storage";
+import createLogger from '../../utils/logger';
+
+const log = createLogger('ScanLog');
+
+// Local logs are kept this long if they never get uploaded
+const SCAN_LOG_RETENTION_DAYS = 7;
+
+// ============================================================================
+// SCAN SESSION EVENT LOG
+// ============================================================================
+// Every scan session writes a compact timeline (detections, overrides, timer
+// changes, ...) to SQLite so "why was roll 12 marked present?" can be answered
+// after submission. The log is uploaded with the session's attendance_logs.
+
+export function createScanSessionKey(): string {
+  return `scan-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export async function recordScanEvent(sessionKey: string, event: ScanEvent): Promise<void> {
+  try {
+    const db = await getSqliteDb();
+    const { type, at, ...data } = event;
+    await db.runAsync(
+      'INSERT INTO scan_events (session_key, type, at, data) VALUES (?, ?, ?, ?)',
+      [sessionKey, type, at, JSON.stringify(data)]
+    );
+  } catch (error) {
+    // Never let logging break a scan
+    log.error('Failed to record scan event:', error);
+  }
+}
+
+export async function getScanEvents(sessionKey: string): Promise<ScanEvent[]> {
+  try {
+    const db = await getSqliteDb();
+    const rows = await db.getAllAsync<{ type: string; at: number; data: string | null }>(
+      'SELECT type, at, data FROM scan_events WHERE session_key = ? ORDER BY at ASC, id ASC',
+      [sessionKey]
+    );
+    return rows.map(row => ({
+      ...(row.data ? JSON.parse(row.data) : {}),
+      type: row.type,
+      at: row.at,
+    }));
+  } catch (error) {
+    log.error('Failed to read scan events:', error);
+    return [];
+  }
+}
+
+export async function clearScanEvents(sessionKey: string): Promise<void> {
+  try {
+    const db = await getSqliteDb();
+    await db.runAsync('DELETE FROM scan_events WHERE session_key = ?', [sessionKey]);
+  } catch (error) {
+    log.error('Failed to clear scan events:', error);
+  }
+}
+
+// Logs of sessions still waiting in the upload queue or the dead-letter queue
+// are kept, however old, so they can still go up with their attendance
+export async function purgeOldScanEvents(days = SCAN_LOG_RETENTION_DAYS): Promise<void> {
+  try {
+    const db = await getSqliteDb();
+    const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+    await db.runAsync(
+      `DELETE FROM scan_events
+       WHERE at < ?
+         AND session_key NOT IN (
+           SELECT json_extract(data, '$.scanSessionKey') FROM pending_submissions
+           WHERE json_extract(data, '$.scanSessionKey') IS NOT NULL
+           UNION
+           SELECT json_extract(data, '$.scanSessionKey') FROM dead_letter_submissions
+           WHERE json_extract(data, '$.scanSessionKey') IS NOT NULL
+         )`,
+      [cutoff]
+    );
+  } catch (error) {
+    log.error('Failed to purge scan events:', error);
+  }
+}
+
+/**
+ * Upload the local event log for a scan session and clear it on success.
+ * Failures are logged and swallowed - the attendance itself is already saved.
+ */
+export async function uploadScanEvents(sessionKey: string, sessionId: string): Promise<boolean> {
+  try {
+    const events = await getScanEvents(sessionKey);
+    if (events.length === 0) return true;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return false;
+
+    const { error } = await supabase.from('attendance_scan_events').insert({
+      session_id: sessionId,
+      uploaded_by: user.id,
+      events,
+    });
+    if (error) throw error;
+
+    await clearScanEvents(sessionKey);
+    log.info(`Uploaded ${events.length} scan events for session ${sessionId}`);
+    return true;
+  } catch (error) {
+    log.error('Failed to upload scan events:', error);
+    return false;
+  }
+}
@@ -0,0 +1,109 @@
+import { FailureClass, PendingSubmission, STORAGE_KEYS, SyncOptions } from "./types";
+import { getStorage } from "./storage";
+import { getPendingSubmissions, getSignedInFacultyId, isOwnedBy } from "./queue";
+import createLogger from '../../utils/logger';
+
+const log = createLogger('UploadSchedule');
+
+// ============================================================================
+// UPLOAD SCHEDULING
+// ============================================================================
+// Every failed upload is classified and rescheduled with jittered exponential
+// backoff instead of being hammered on every sync trigger:
+// - network:    retried with backoff (capped low - reconnects wake it anyway),
+//               never counts against the retry budget
+// - auth:       the whole queue pauses until the user signs in again
+// - validation: bad payload, dead-lettered after a short budget
+// - server:     anything else, dead-lettered after the full budget
+
+export const RETRY_CONFIG = {
+  BASE_DELAY_MS: 30 * 1000,
+  MAX_DELAY_MS: 30 * 60 * 1000,
+  NETWORK_MAX_DELAY_MS: 5 * 60 * 1000,
+  // ± share of the delay, so phones that lost the network together don't retry together
+  JITTER: 0.3,
+  MAX_RETRIES: 5,
+  MAX_VALIDATION_RETRIES: 2,
+};
+
+export function classifyFailure(err: any): FailureClass {
+  const message = String(err?.message || '');
+  const code = String(err?.code || '');
+
+  if (
+    message.includes('Network request failed') ||
+    message.includes('fetch') ||
+    message.toLowerCase().includes('network') ||
+    code === 'PGRST000'
+  ) {
+    return 'network';
+  }
+  if (err?.status === 401 || code === 'PGRST301' || /jwt|not authenticated|no user logged in/i.test(message)) {
+    return 'auth';
+  }
+  // 22xxx data exceptions, 23xxx constraint violations, our own payload checks
+  if (/^2[23]/.test(code) || /missing subject|rejected by roster|session no longer exists/i.test(message)) {
+    return 'validation';
+  }
+  return 'server';
+}
+
+/**
+ * Delay before attempt number `attempt` (1-based) of a failing item.
+ */
+export function backoffDelay(attempt: number, failureClass: FailureClass = 'server'): number {
+  const cap = failureClass === 'network' ? RETRY_CONFIG.NETWORK_MAX_DELAY_MS : RETRY_CONFIG.MAX_DELAY_MS;
+  const delay = Math.min(cap, RETRY_CONFIG.BASE_DELAY_MS * 2 ** Math.max(0, attempt - 1));
+  const jitter = delay * RETRY_CONFIG.JITTER * (Math.random() * 2 - 1);
+  return Math.round(delay + jitter);
+}
+
+export function retryBudget(failureClass: FailureClass): number {
+  return failureClass === 'validation' ? RETRY_CONFIG.MAX_VALIDATION_RETRIES : RETRY_CONFIG.MAX_RETRIES;
+}
+
+export function isDue(submission: PendingSubmission, options: SyncOptions = {}, now = Date.now()): boolean {
+  if (options.ignoreBackoff || !submission.nextAttemptAt) return true;
+  if (options.networkRestored && submission.failureClass === 'network') return true;
+  return new Date(submission.nextAttemptAt).getTime() <= now;
+}
+
+/**
+ * When the next queued item becomes due (ISO), or null if nothing is waiting
+ * or uploads are paused for re-login.
+ */
+export async function getNextDueAt(): Promise<string | null> {
+  if (await isUploadPausedForAuth()) return null;
+
+  // Another user's items are never uploaded by this one
+  const facultyId = await getSignedInFacultyId();
+  const pending = (await getPendingSubmissions()).filter(
+    p => p.syncStatus !== 'CONFLICT' && isOwnedBy(p, facultyId)
+  );
+  if (pending.length === 0) return null;
+
+  const soonest = Math.min(
+    ...pending.map(p => (p.nextAttemptAt ? new Date(p.nextAttemptAt).getTime() : Date.now()))
+  );
+  return new Date(soonest).toISOString();
+}
+
+// ============================================================================
+// AUTH PAUSE
+// ============================================================================
+
+export async function isUploadPausedForAuth(): Promise<boolean> {
+  return (await getStorage().getItem(STORAGE_KEYS.UPLOADS_PAUSED_FOR_AUTH)) === 'true';
+}
+
+export async function pauseUploadsForAuth(): Promise<void> {
+  log.warn('Auth error - pausing uploads until the next sign-in');
+  await getStorage().setItem(STORAGE_KEYS.UPLOADS_PAUSED_FOR_AUTH, 'true');
+}
+
+export async function resumeUploads(): Promise<void> {
+  if (await isUploadPausedForAuth()) {
+    log.info('Signed in - resuming uploads');
+    await getStorage().removeItem(STORAGE_KEYS.UPLOADS_PAUSED_FOR_AUTH);
+  }
+}
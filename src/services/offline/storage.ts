@@ -53,6 +53,8 @@ export const AsyncStorageAdapter: StorageAdapter = {
  * In the future, this can switch to SQLite based on configuration/availability.
  */
 import * as SQLite from 'expo-sqlite';
+import { runMigrations, getMigrationStatus, reportOpenFailure } from './migrate';
+import { openEncryptedDatabase, destroyEncryptedDatabase, OfflineDatabaseOpenError } from './encryption';
 
 let sqliteDbPromise: Promise<SQLite.SQLiteDatabase> | null = null;
 
@@ -60,83 +62,20 @@ export async function getSqliteDb(): Promise<SQLite.SQLiteDatabase> {
   if (!sqliteDbPromise) {
     sqliteDbPromise = (async () => {
       try {
-        const db = await SQLite.openDatabaseAsync('offline.db');
-        await db.execAsync(`
-        PRAGMA journal_mode = WAL;
-        CREATE TABLE IF NOT EXISTS kv_store (key TEXT PRIMARY KEY NOT NULL, value TEXT);
-        
-        CREATE TABLE IF NOT EXISTS local_notifications (
-          id TEXT PRIMARY KEY,
-          user_id TEXT NOT NULL,
-          type TEXT NOT NULL,
-          title TEXT NOT NULL,
-          body TEXT NOT NULL,
-          data TEXT, -- JSON
-          priority TEXT,
-          is_read INTEGER DEFAULT 0,
-          created_at TEXT NOT NULL
-        );
+        const db = await openEncryptedDatabase();
+        await db.execAsync('PRAGMA journal_mode = WAL;');
+        await runMigrations(db);
 
-        CREATE TABLE IF NOT EXISTS local_substitutions (
-           id TEXT PRIMARY KEY,
-           original_faculty_id TEXT NOT NULL,
-           substitute_faculty_id TEXT,
-           subject_name TEXT,
-           subject_code TEXT,
-           original_faculty_name TEXT,
-           target_dept TEXT,
-           target_year INTEGER,
-           target_section TEXT,
-           slot_id TEXT,
-           date TEXT,
-           status TEXT,
-           requested_at TEXT,
-           is_hidden INTEGER DEFAULT 0
-        );
-
-        CREATE TABLE IF NOT EXISTS local_class_swaps (
-           id TEXT PRIMARY KEY,
-           faculty_a_id TEXT NOT NULL,
-           faculty_b_id TEXT NOT NULL,
-           faculty_a_name TEXT,
-           faculty_b_name TEXT,
-           slot_a_id TEXT,
-           slot_b_id TEXT,
-           date TEXT,
-           status TEXT,
-           requested_at TEXT,
-           is_hidden INTEGER DEFAULT 0
-        );
-        
-        CREATE TABLE IF NOT EXISTS rosters (
-           class_id TEXT PRIMARY KEY,
-           subject_name TEXT,
-           subject_id TEXT,
-           section TEXT,
-           cached_at TEXT
-        );
-        
-        CREATE TABLE IF NOT EXISTS students (
-           id TEXT PRIMARY KEY,
-           class_id TEXT,
-           name TEXT,
-           roll_no TEXT,
-           bluetooth_uuid TEXT,
-           batch INTEGER
-        );
-        
-        CREATE TABLE IF NOT EXISTS pending_submissions (
-           id TEXT PRIMARY KEY,
-           data TEXT,
-           slot_id TEXT,
-           date TEXT,
-           created_at TEXT
-        );
-      `);
         log.info('Database initialized successfully');
         return db;
       } catch (error) {
         log.error('Failed to initialize database:', error);
+        if (error instanceof OfflineDatabaseOpenError) {
+          reportOpenFailure({ reason: error.reason, movedTo: error.movedTo, message: error.message });
+          // Retry on the next call: the keystore may come back, and an
+          // unreadable file has been moved out of the way
+          sqliteDbPromise = null;
+        }
         throw error;
       }
     })();
@@ -144,14 +83,33 @@ export async function getSqliteDb(): Promise<SQLite.SQLiteDatabase> {
   return sqliteDbPromise;
 }
 
+/**
+ * Close the database and destroy it together with its encryption key. The
+ * next getSqliteDb() starts from an empty database. Callers are responsible
+ * for making sure nothing unsynced is lost (see signOutCompletely).
+ */
+export async function wipeOfflineDatabase(): Promise<void> {
+  if (sqliteDbPromise) {
+    try {
+      const db = await sqliteDbPromise;
+      await db.closeAsync();
+    } catch (error) {
+      log.warn('Could not close database before wipe:', error);
+    }
+    sqliteDbPromise = null;
+  }
+
+  const { backupName } = getMigrationStatus();
+  await destroyEncryptedDatabase(backupName ? [backupName] : []);
+}
+
 /**
  * SQLite Implementation
  */
 export class SQLiteStorageAdapter implements StorageAdapter {
-  private db: Promise<SQLite.SQLiteDatabase>;
-
-  constructor() {
-    this.db = getSqliteDb();
+  // Resolved per call so the adapter survives a wipe (new database)
+  private get db(): Promise<SQLite.SQLiteDatabase> {
+    return getSqliteDb();
   }
 
   async getItem(key: string): Promise<string | null> {
@@ -1,6 +1,8 @@
+import { isAuthApiError, isAuthSessionMissingError } from "@supabase/supabase-js";
 import { supabase } from "../../config/supabase";
 import { 
   PendingSubmission, 
+  SyncOptions,
   SyncResult, 
   SyncStatus, 
   STORAGE_KEYS,
@@ -11,9 +13,27 @@ import {
   getPendingSubmissions, 
   removePendingSubmission, 
   getPendingCount,
-  queueSubmission 
+  queueSubmission,
+  isOwnedBy,
+  getSignedInFacultyId,
 } from "./queue";
 import { getStorage } from "./storage";
+import { uploadScanEvents } from "./scanLog";
+import { mergeCoScanSubmission } from "../coScanService";
+import { fetchSessionSnapshot, fetchSessionSnapshotById } from "./conflict";
+import { getSessionDate } from "../../shared/campusTime";
+import { uploadAttendanceSession, updateAttendanceSession } from "../dashboardService";
+import { moveToDeadLetter } from "./deadLetter";
+import { syncPermissionsForClasses } from "./permissions";
+import {
+  classifyFailure,
+  backoffDelay,
+  retryBudget,
+  isDue,
+  isUploadPausedForAuth,
+  pauseUploadsForAuth,
+  resumeUploads,
+} from "./schedule";
 import { 
     cacheRoster, 
     cacheAllRosters, 
@@ -22,6 +42,7 @@ import {
     isCacheValid,
     getCachedRostersMap,
     purgeStaleRosters,
+    getRosterSyncMarks,
 } from "./cache";
 import createLogger from '../../utils/logger';
 
@@ -59,28 +80,100 @@ export async function getSyncStatus(rosterExpiryHours = 24): Promise<SyncStatus>
 // UPLOAD SYNC (Pending Submissions)
 // ============================================================================
 
-export async function syncPendingSubmissions(): Promise<SyncResult> {
+// getUser() also returns no user when the request itself failed; only a
+// missing or rejected session means the user has to sign in again
+const isSignedOut = (error: unknown): boolean =>
+  !error ||
+  isAuthSessionMissingError(error) ||
+  (isAuthApiError(error) && error.status >= 400 && error.status < 500 && error.status !== 429);
+
+/**
+ * The user could not be checked (offline, server down): back off every due
+ * item as a network failure instead of pausing the queue.
+ */
+async function deferForNetwork(
+  pending: PendingSubmission[],
+  error: any,
+  options: SyncOptions
+): Promise<SyncResult> {
+  const facultyId = await getSignedInFacultyId();
+  const message = error?.message || 'Network Error';
+  const now = Date.now();
+  let failed = 0;
+  let deferred = 0;
+
+  for (const submission of pending) {
+    if (!isOwnedBy(submission, facultyId) || submission.syncStatus === 'CONFLICT') continue;
+    if (!isDue(submission, options, now)) {
+      deferred++;
+      continue;
+    }
+
+    failed++;
+    submission.failureClass = 'network';
+    submission.errorHistory = [
+      ...(submission.errorHistory || []),
+      { at: new Date().toISOString(), message, failureClass: 'network' },
+    ];
+    const delay = backoffDelay(submission.errorHistory.length, 'network');
+    submission.nextAttemptAt = new Date(now + delay).toISOString();
+    await queueSubmission(submission);
+  }
+
+  log.info(`Could not check the signed-in user (${message}), retrying ${failed} item(s) later`);
+  return { synced: 0, failed, conflicts: 0, errors: ['Network Error'], deferred };
+}
+
+export async function syncPendingSubmissions(options: SyncOptions = {}): Promise<SyncResult> {
   const pending = await getPendingSubmissions();
   if (pending.length === 0) {
     return { synced: 0, failed: 0, conflicts: 0, errors: [] };
   }
 
+  // Paused on an auth error; a manual sync may try again (and re-pause)
+  if (!options.ignoreBackoff && (await isUploadPausedForAuth())) {
+    return { synced: 0, failed: 0, conflicts: 0, errors: ["Uploads paused - sign in again"], authPaused: true };
+  }
+
   log.info(`Processing ${pending.length} pending submissions...`);
   
-  const { data: { user } } = await supabase.auth.getUser();
-  if (!user) return { synced: 0, failed: 0, conflicts: 0, errors: ["No user logged in"] };
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (!user && !isSignedOut(userError)) {
+    return deferForNetwork(pending, userError, options);
+  }
+  if (!user) {
+    await pauseUploadsForAuth();
+    return { synced: 0, failed: 0, conflicts: 0, errors: ["No user logged in"], authPaused: true };
+  }
+  await resumeUploads();
 
   let synced = 0;
   let failed = 0;
   let conflicts = 0;
+  let deferred = 0;
+  let otherUser = 0;
+  let authPaused = false;
   const errors: string[] = [];
+  const now = Date.now();
 
   for (const submission of pending) {
+    // Recorded by someone who kept their offline data at logout: never
+    // upload it under this user's id
+    if (!isOwnedBy(submission, user.id)) {
+        otherUser++;
+        continue;
+    }
+
     if (submission.syncStatus === 'CONFLICT') {
         conflicts++;
         continue;
     }
 
+    if (!isDue(submission, options, now)) {
+        deferred++;
+        continue;
+    }
+
     try {
       // VALIDATION
       if (!submission.attendance || !Array.isArray(submission.attendance) || submission.attendance.length === 0) {
@@ -90,36 +183,40 @@ export async function syncPendingSubmissions(): Promise<SyncResult> {
         continue;
       }
 
-      const { slotId } = submission.classData;
-      const sessionDate = submission.submittedAt.split("T")[0];
-      
-      const presentCount = submission.attendance.filter((a) => a.status === "present").length;
-      const absentCount = submission.attendance.filter((a) => a.status === "absent").length;
-      const odCount = submission.attendance.filter((a) => a.status === "od").length;
-      const leaveCount = submission.attendance.filter((a) => a.status === "leave").length;
-      const totalStudents = submission.attendance.length;
-
-      // OVERWRITE LOGIC (User requested removal of conflict system)
-      // Always delete existing session for this slot/date to ensure client data takes precedence.
-      // Foreign key cascades should handle log cleanup if configured, otherwise we risk orphaned logs 
-      // (but assuming cascade or just leaving them for now as per previous forceSync logic).
-      
-      const { error: deleteError } = await supabase
-        .from('attendance_sessions')
-        .delete()
-        .eq('faculty_id', user.id)
-        .eq('date', sessionDate)
-        .eq('slot_id', slotId);
-
-      if (deleteError) {
-          log.error('Failed to clear existing session for overwrite:', deleteError);
-          // We continue to try insert, or throw? 
-          // If delete fails, insert might duplicate if no unique constraint.
-          // Let's throw to be safe and retry later.
-          throw deleteError;
+      // CO-SCAN: merged into the shared session, never overwrites it
+      if (submission.coScanId) {
+        const { sessionId, rejected, error: mergeError } = await mergeCoScanSubmission(
+          submission.coScanId,
+          submission.attendance,
+          submission.attendance.length,
+          submission.deviceId
+        );
+        if (mergeError || !sessionId) throw new Error(mergeError || 'Co-scan merge failed');
+        if (rejected.length > 0) {
+          errors.push(`${rejected.length} student(s) skipped for ${submission.classData.subjectName}`);
+        }
+
+        if (submission.scanSessionKey) {
+          await uploadScanEvents(submission.scanSessionKey, sessionId);
+        }
+        await removePendingSubmission(submission.id);
+        synced++;
+        continue;
       }
 
+      // HISTORY EDIT: statuses of an existing session, same version check
+      if (submission.operation === 'update_session') {
+        if (await uploadSessionEdit(submission, errors)) {
+          synced++;
+        } else {
+          conflicts++;
+        }
+        continue;
+      }
 
+      const slotId = String(submission.classData.slotId || '0');
+      const sessionDate = getSessionDate(new Date(submission.submittedAt));
+      
       // SELF-HEALING: Check for missing subjectId
       let finalSubjectId = submission.classData.subjectId;
       if (!finalSubjectId && submission.classData.subjectName) {
@@ -151,45 +248,55 @@ export async function syncPendingSubmissions(): Promise<SyncResult> {
          throw new Error(`Missing Subject ID for ${submission.classData.subjectName} and could not resolve it.`);
       }
 
-      // INSERT
-      const { data: session, error: sessionError } = await supabase
-        .from("attendance_sessions")
-        .insert({
-          faculty_id: user.id,
-          date: sessionDate,
-          slot_id: slotId || '0', // fallback to '0' string if somehow null
-          subject_id: finalSubjectId,
-          target_dept: submission.classData.dept || submission.classData.classId?.split("-")[0],
-          target_section: submission.classData.section,
-          target_year: submission.classData.year || 1,
-          batch: submission.classData.batch,
-          present_count: presentCount,
-          absent_count: absentCount,
-          od_count: odCount,
-          leave_count: leaveCount,
-          total_students: totalStudents,
-          start_time: submission.submittedAt,
-          end_time: submission.submittedAt,
-          is_synced: true,
-          synced_at: new Date().toISOString(),
-        })
-        .select()
-        .single();
-
-      if (sessionError) throw sessionError;
-
-      // LOGS
-      const logs = submission.attendance.map((a) => ({
-        session_id: session.id,
-        student_id: a.studentId,
-        status: a.status,
-        marked_at: submission.submittedAt,
-        is_manual: true,
-      }));
-
-      const { error: logsError } = await supabase.from("attendance_logs").insert(logs);
-
-      if (logsError) throw logsError;
+      // ATOMIC UPLOAD: session + logs in one transaction, idempotent on the
+      // submission ID. Only writes over the server session it was based on.
+      const { result, error: uploadError, errorCode: uploadErrorCode } = await uploadAttendanceSession({
+        clientId: submission.id,
+        subjectId: finalSubjectId,
+        slotId,
+        date: sessionDate,
+        targetDept: submission.classData.dept || submission.classData.classId?.split("-")[0] || '',
+        targetYear: submission.classData.year || 1,
+        targetSection: submission.classData.sectionLetter || submission.classData.section,
+        batch: submission.classData.batch,
+        totalStudents: submission.attendance.length,
+        startTime: submission.submittedAt,
+        base: submission.base ? { sessionId: submission.base.sessionId, version: submission.base.version } : null,
+        force: submission.forceSync,
+        records: submission.attendance,
+      });
+
+      if (uploadError || !result) {
+        throw Object.assign(new Error(uploadError || 'Session upload failed'), { code: uploadErrorCode });
+      }
+
+      if (result.status === 'conflict') {
+        // Server session changed since the snapshot - the faculty decides in Sync Manager
+        const serverSession = await fetchSessionSnapshot(user.id, sessionDate, slotId);
+        if (!serverSession) {
+          // Nothing to show the faculty - retry like any other failure
+          throw new Error('Server session changed but could not be loaded');
+        }
+        log.warn('Server session changed since snapshot, parking as conflict:', submission.id);
+        submission.syncStatus = 'CONFLICT';
+        submission.serverVersion = serverSession;
+        await queueSubmission(submission);
+        conflicts++;
+        continue;
+      }
+
+      if (result.status === 'rejected' || !result.sessionId) {
+        throw new Error(`All ${submission.attendance.length} records rejected by roster validation`);
+      }
+
+      if (result.rejected.length > 0) {
+        errors.push(`${result.rejected.length} student(s) skipped for ${submission.classData.subjectName}`);
+      }
+
+      // Scan event log travels with the logs (non-fatal)
+      if (submission.scanSessionKey) {
+        await uploadScanEvents(submission.scanSessionKey, result.sessionId);
+      }
 
       // SUCCESS
       await removePendingSubmission(submission.id);
@@ -197,47 +304,117 @@ export async function syncPendingSubmissions(): Promise<SyncResult> {
 
     } catch (err: any) {
       log.error('Sync failed for item:', submission.id, JSON.stringify(err));
-      
-      const isNetworkError = 
-        err.message?.includes('Network request failed') || 
-        err.message?.includes('fetch') ||
-        err.message?.includes('network') ||
-        err.code === 'PGRST000'; // Postgrest connection error rarely triggers this code client info but checking anyway
-
-      if (isNetworkError) {
-         log.info('Network error, skipping retry increment.');
-         // Do NOT increment retry count, just keep in queue
-         // We do not modify submission, so it stays as is.
-         failed++;
-         errors.push('Network Error');
-         continue; 
-      }
 
+      const failureClass = classifyFailure(err);
+      const message = err.message || err.code || 'Unknown Error';
       failed++;
-      errors.push(err.message || 'Unknown Error');
-      
-      submission.retryCount = (submission.retryCount || 0) + 1;
-      if (submission.retryCount > 5) {
-          log.error('Max retries reached, removing:', submission.id);
-          // Optional: Move to "Dead Letter Queue" instead of deleting?
-          // For now, delete to clear queue.
-          await removePendingSubmission(submission.id);
-      } else {
-          await queueSubmission(submission);
+      errors.push(failureClass === 'network' ? 'Network Error' : message);
+
+      submission.failureClass = failureClass;
+      submission.errorHistory = [
+        ...(submission.errorHistory || []),
+        { at: new Date().toISOString(), message, failureClass },
+      ];
+
+      if (failureClass === 'auth') {
+        // Every other item would fail the same way - stop until re-login
+        await queueSubmission(submission);
+        await pauseUploadsForAuth();
+        authPaused = true;
+        break;
       }
+
+      // Network errors are rescheduled but never use up the retry budget
+      if (failureClass !== 'network') {
+        submission.retryCount = (submission.retryCount || 0) + 1;
+      }
+
+      if (submission.retryCount > retryBudget(failureClass)) {
+          log.error('Max retries reached, moving to dead-letter queue:', submission.id);
+          try {
+              await moveToDeadLetter(submission);
+              continue;
+          } catch (dlqError) {
+              // Never drop it - keep it queued rather than lose the period
+              log.error('Dead-letter move failed, keeping in queue:', dlqError);
+          }
+      }
+
+      const delay = backoffDelay(submission.errorHistory.length, failureClass);
+      submission.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+      log.info(`Retrying ${submission.id} (${failureClass}) in ${Math.round(delay / 1000)}s`);
+      await queueSubmission(submission);
+    }
+  }
+
+  return { synced, failed, conflicts, errors, deferred, authPaused, otherUser };
+}
+
+/**
+ * Upload a queued history edit. Returns false if it was parked as a
+ * conflict; throws on failure so the caller's retry handling applies.
+ * Students the server skipped are reported in `errors`.
+ */
+async function uploadSessionEdit(submission: PendingSubmission, errors: string[]): Promise<boolean> {
+  if (!submission.sessionId) {
+    throw new Error('Edited session no longer exists');
+  }
+
+  const { result, error, errorCode } = await updateAttendanceSession({
+    clientId: submission.id,
+    sessionId: submission.sessionId,
+    baseVersion: submission.base?.version,
+    force: submission.forceSync,
+    records: submission.attendance,
+  });
+
+  if (error || !result) {
+    throw Object.assign(new Error(error || 'Session edit failed'), { code: errorCode });
+  }
+
+  if (result.status === 'conflict') {
+    const serverSession = await fetchSessionSnapshotById(submission.sessionId);
+    if (!serverSession) {
+      throw new Error('Edited session no longer exists');
     }
+    log.warn('Session changed since it was edited, parking as conflict:', submission.id);
+    submission.syncStatus = 'CONFLICT';
+    submission.serverVersion = serverSession;
+    await queueSubmission(submission);
+    return false;
   }
 
-  return { synced, failed, conflicts, errors };
+  if (result.status === 'rejected' || !result.sessionId) {
+    throw new Error('Edited session no longer exists');
+  }
+
+  if (result.rejected.length > 0) {
+    errors.push(`${result.rejected.length} student(s) skipped for ${submission.classData.subjectName}`);
+  }
+
+  await removePendingSubmission(submission.id);
+  return true;
 }
 
 // ============================================================================
 // DOWNLOAD SYNC (Rosters)
 // ============================================================================
+// Rosters sync incrementally: each cached class keeps the newest server
+// `students.updated_at` it has seen and only asks for rows changed since.
+// Deactivated students come back as tombstones. A class is re-downloaded in
+// full when it has no mark or its last full download is older than the window.
+
+export const ROSTER_SYNC_CONFIG = {
+  FULL_RESYNC_AFTER_HOURS: 7 * 24,
+  DELTA_OVERLAP_MS: 5 * 60 * 1000,
+};
 
 export async function syncRosters(
   facultyId: string,
+  options: { forceFull?: boolean; fullResyncAfterHours?: number } = {},
 ): Promise<{ success: boolean; count: number; error?: string }> {
+  const fullResyncAfterHours = options.fullResyncAfterHours ?? ROSTER_SYNC_CONFIG.FULL_RESYNC_AFTER_HOURS;
+
   try {
     log.info("Starting Smart Roster Sync...");
 
@@ -293,25 +470,43 @@ export async function syncRosters(
     await purgeStaleRosters(validKeys);
     
     // 3. Sync and Update
+    const marks = await getRosterSyncMarks();
+    const fullResyncBefore = Date.now() - fullResyncAfterHours * 60 * 60 * 1000;
     let updatedCount = 0;
-    const syncedRosters: any[] = [];
+    let deltaCount = 0;
+    const syncedRosters: CachedRoster[] = [];
     
     for (const cls of allClasses) {
       // Yield to JS event loop between network calls so touches stay responsive
       await yieldToUI();
 
       const classKey = `${cls.target_dept}-${cls.target_year}-${cls.target_section}`;
+      const mark = marks[classKey];
 
-      // Optimization: if cache is very fresh (<1h), maybe skip?
-      // For now, force fetch to ensure accuracy.
+      // Delta only when we have a mark and the last full download is recent
+      // enough; a periodic full resync also catches students moved out of the class
+      const useDelta =
+        !options.forceFull &&
+        !!mark?.syncedThrough &&
+        !!mark.fullSyncedAt &&
+        new Date(mark.fullSyncedAt).getTime() > fullResyncBefore;
 
-      const { data: students, error } = await supabase
+      let query = supabase
         .from("students")
-        .select("id, name:full_name, roll_number:roll_no, bluetooth_uuid, batch")
+        .select("id, name:full_name, roll_number:roll_no, bluetooth_uuid, beacon_secret, batch, is_active, updated_at")
         .eq("dept", cls.target_dept)
         .eq("year", cls.target_year)
-        .eq("section", cls.target_section)
-        .order("roll_no");
+        .eq("section", cls.target_section);
+
+      if (useDelta) {
+        // Overlap the window so rows committed late with an older updated_at aren't missed
+        const since = new Date(new Date(mark.syncedThrough!).getTime() - ROSTER_SYNC_CONFIG.DELTA_OVERLAP_MS);
+        query = query.gte("updated_at", since.toISOString());
+      } else {
+        query = query.eq("is_active", true);
+      }
+
+      const { data: students, error } = await query.order("roll_no");
 
       if (error) {
         log.error(`Failed to sync roster: ${classKey}`, error);
@@ -321,31 +516,57 @@ export async function syncRosters(
       // Yield again before array processing
       await yieldToUI();
 
+      const rows = students || [];
+      const syncedThrough = rows.reduce<string | null>(
+        (latest, s: any) => (s.updated_at && (!latest || s.updated_at > latest) ? s.updated_at : latest),
+        useDelta ? mark.syncedThrough : null
+      );
+      const toCached = (s: any): CachedStudent => ({
+        id: s.id,
+        name: s.name, 
+        rollNo: s.roll_number,
+        bluetoothUUID: s.bluetooth_uuid,
+        beaconSecret: s.beacon_secret,
+        batch: s.batch,
+      });
+
       syncedRosters.push({
         classId: classKey,
         slotId: 0, 
         subjectName: cls.subject_name,
         subjectId: cls.subject_id,
         section: `${cls.target_dept}-${cls.target_year}-${cls.target_section}`,
-        students: (students || []).map((s: any) => ({
-          id: s.id,
-          name: s.name, 
-          rollNo: s.roll_number,
-          bluetoothUUID: s.bluetooth_uuid,
-          batch: s.batch,
-        })),
+        students: rows.filter((s: any) => s.is_active !== false).map(toCached),
         cachedAt: new Date().toISOString(),
+        syncedThrough,
+        fullSyncedAt: useDelta ? mark.fullSyncedAt : new Date().toISOString(),
+        delta: useDelta
+          ? { removedStudentIds: rows.filter((s: any) => s.is_active === false).map((s: any) => s.id) }
+          : undefined,
       });
 
       updatedCount++;
+      if (useDelta) deltaCount++;
     }
 
+    log.info(`Roster sync: ${updatedCount - deltaCount} full, ${deltaCount} delta`);
+
     // 4. Save Final Map (Merged & GC'd)
     if (updatedCount > 0) {
         await cacheAllRosters(syncedRosters);
         await storage.setItem(STORAGE_KEYS.LAST_SYNC_TIME, new Date().toISOString());
     }
 
+    // 5. OD / leave for the same classes, so offline scans can pre-mark them
+    await syncPermissionsForClasses(
+      allClasses.map(cls => ({
+        classId: `${cls.target_dept}-${cls.target_year}-${cls.target_section}`,
+        dept: cls.target_dept,
+        year: cls.target_year,
+        section: cls.target_section,
+      }))
+    );
+
     return { success: true, count: updatedCount };
 
   } catch (error: any) {
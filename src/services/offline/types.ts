@@ -19,11 +19,12 @@ export const STORAGE_KEYS = {
   // Tier 2 - Enhanced
   HISTORY: "@attend_me/history",
   WATCHLIST: "@attend_me/watchlist",
+  SUBJECT_MATRIX: "@attend_me/subject_matrix",
   CLASS_STATS: "@attend_me/class_stats",
 
   // Metadata
   CACHE_TIMESTAMPS: "@attend_me/cache_timestamps",
-  ATTENDANCE_DRAFTS_PREFIX: "@attend_me/drafts/",
+  UPLOADS_PAUSED_FOR_AUTH: "@attend_me/uploads_paused_auth",
 };
 
 // ============================================================================
@@ -35,6 +36,8 @@ export interface CachedStudent {
   name: string;
   rollNo: string;
   bluetoothUUID: string | null;
+  // Per-student secret for rotating beacon tokens (verified offline)
+  beaconSecret?: string | null;
   batch?: number;
 }
 
@@ -46,11 +49,23 @@ export interface CachedRoster {
   section: string;
   students: CachedStudent[];
   cachedAt: string;
+  // Newest server `students.updated_at` seen for this class (delta high-water mark)
+  syncedThrough?: string | null;
+  // When the class was last downloaded in full (device time)
+  fullSyncedAt?: string | null;
+  // Set when `students` only holds rows changed since `syncedThrough`;
+  // the listed ids were deactivated and must be dropped from the cache
+  delta?: { removedStudentIds: string[] };
 }
 
 export interface PendingSubmission {
   id: string;
+  // create_session (default): a scanned period; update_session: a history
+  // edit of the existing server session `sessionId`
+  operation?: 'create_session' | 'update_session';
   sessionId?: string;
+  // History edits: date of the edited session (campus date, YYYY-MM-DD)
+  sessionDate?: string;
   classData: {
     slotId: string;
     subjectName: string;
@@ -65,15 +80,103 @@ export interface PendingSubmission {
   attendance: {
     studentId: string;
     status: "present" | "absent" | "od" | "leave";
+    detectedAt?: string;
+    // Rotating beacon token evidence, re-verified server-side
+    beaconToken?: string;
+    tokenWindow?: number;
+    // Proxy-phone flags for the class incharge to review
+    proxyFlags?: string[];
+    // Scanner sightings within the period and derived punctuality
+    firstSeenAt?: string;
+    lastSeenAt?: string;
+    isLate?: boolean;
+    leftEarly?: boolean;
   }[];
   submittedAt: string;
+  // Faculty member who recorded it; only they upload it (another user may
+  // sign in on this phone after a "keep offline data" logout). Missing on
+  // items queued before owners were recorded.
+  facultyId?: string;
   retryCount: number;
+  // One entry per failed upload attempt
+  errorHistory?: SubmissionError[];
+  // Backoff schedule: not retried before this (ISO), and why the last try failed
+  nextAttemptAt?: string;
+  failureClass?: FailureClass;
+  // Local scan event log to upload with the session (see scanLog.ts)
+  scanSessionKey?: string;
+  // Co-scan: merged server-side with other devices instead of replacing the session
+  coScanId?: string;
+  deviceId?: string;
+  // Server session this submission was based on (null = none existed,
+  // undefined = unknown, e.g. scanned from the cached roster)
+  base?: SessionSnapshot | null;
   // Conflict Resolution Fields
   syncStatus?: 'PENDING' | 'CONFLICT' | 'SYNCED' | 'FAILED';
-  serverVersion?: any; // To store conflicting server data
+  serverVersion?: SessionSnapshot; // Server copy that changed after `base`
   forceSync?: boolean;
 }
 
+export type FailureClass = 'network' | 'auth' | 'validation' | 'server';
+
+export interface SubmissionError {
+  at: string;
+  message: string;
+  failureClass?: FailureClass;
+}
+
+// A submission that exhausted its retries, kept for the faculty to fix
+export interface DeadLetterEntry {
+  id: string;
+  submission: PendingSubmission;
+  errors: SubmissionError[];
+  // Timestamps of every upload attempt
+  attempts: string[];
+  deadAt: string;
+  // Set once handed to the HOD
+  sharedAt?: string | null;
+}
+
+export interface SessionSnapshot {
+  sessionId: string;
+  version: number;
+  updatedAt?: string;
+  records: {
+    studentId: string;
+    status: "present" | "absent" | "od" | "leave";
+    name?: string;
+    rollNo?: string;
+  }[];
+}
+
+export type ScanEventType =
+  | 'scan_start'
+  | 'scan_pause'
+  | 'detection'
+  | 'manual_override'
+  | 'timer_change'
+  | 'rescan'
+  | 'autopilot_toggle'
+  | 'proxy_flag'
+  | 'submit';
+
+export interface ScanEvent {
+  type: ScanEventType;
+  at: number; // epoch ms
+  studentId?: string;
+  // Detections
+  rssi?: number;
+  strategy?: string;
+  deviceId?: string;
+  // Manual overrides
+  from?: string;
+  to?: string;
+  // Timer seconds / auto-pilot on-off
+  value?: number | boolean;
+  // Proxy flags (shared_device / device_hopping)
+  reasons?: string[];
+}
+
 export interface SyncStatus {
   lastSyncTime: string | null;
   pendingCount: number;
@@ -110,4 +213,17 @@ export interface SyncResult {
     failed: number;
     conflicts: number;
     errors: string[];
+    // Items skipped because their backoff has not elapsed
+    deferred?: number;
+    // Uploads stopped on an auth error until the user signs in again
+    authPaused?: boolean;
+    // Items recorded by another faculty member, kept until they sign in
+    otherUser?: number;
+}
+
+export interface SyncOptions {
+    // Manual "Sync Now": try every item regardless of its schedule
+    ignoreBackoff?: boolean;
+    // Connectivity just returned: items waiting out a network failure are due
+    networkRestored?: boolean;
 }
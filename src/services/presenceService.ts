@@ -0,0 +1,308 @@
+/**
+ * Presence Service - RSSI smoothing and dwell-time presence model
+ *
+ * A single advertisement is not proof of presence (a student walking past the
+ * door is heard too). Each student gets a sliding window of RSSI samples that
+ * is smoothed with an exponential moving average. A student only becomes
+ * present after `minSightings` smoothed samples above `minRssi`, spread over
+ * at least `minDwellMs`.
+ *
+ * Thresholds come from app_config (key `ble_presence`) with optional per-room
+ * overrides, so calibration can tune them without an app release:
+ *
+ *   {
+ *     "default": { "min_rssi": -85, "min_sightings": 3, "min_dwell_seconds": 15, "smoothing": 0.4 },
+ *     "rooms":   { "A-101": { "min_rssi": -78, "min_dwell_seconds": 20 } }
+ *   }
+ */
+
+import { supabase } from '../config/supabase';
+import { getStorage } from './offline/storage';
+import createLogger from '../utils/logger';
+
+const log = createLogger('Presence');
+
+const PRESENCE_CONFIG_KEY = 'ble_presence';
+const PRESENCE_CACHE_KEY = '@attend_me/presence_config';
+
+export interface PresenceThresholds {
+  // Smoothed RSSI a sample must reach to count as a sighting
+  minRssi: number;
+  // Sightings required inside the window
+  minSightings: number;
+  // Time between first and latest sighting before marking present
+  minDwellMs: number;
+  // EMA factor (0-1): higher reacts faster, lower smooths more
+  smoothing: number;
+  // Samples older than this are dropped
+  windowMs: number;
+}
+
+export const DEFAULT_PRESENCE_THRESHOLDS: PresenceThresholds = {
+  minRssi: -85,
+  minSightings: 3,
+  minDwellMs: 15 * 1000,
+  smoothing: 0.4,
+  windowMs: 60 * 1000,
+};
+
+// Shape stored in app_config (snake_case, seconds)
+export interface PresenceConfigEntry {
+  min_rssi?: number;
+  min_sightings?: number;
+  min_dwell_seconds?: number;
+  smoothing?: number;
+  window_seconds?: number;
+  // Set by Beacon Doctor room calibration
+  calibrated_at?: string;
+  calibration?: Record<CalibrationSpot, RssiDistribution>;
+}
+
+export interface PresenceConfig {
+  default?: PresenceConfigEntry;
+  rooms?: Record<string, PresenceConfigEntry>;
+}
+
+export interface PresenceState {
+  smoothedRssi: number;
+  sightings: number;
+  dwellMs: number;
+  isPresent: boolean;
+  // True only on the sample that crossed the threshold
+  becamePresent: boolean;
+}
+
+// =====================================================
+// CONFIG
+// =====================================================
+
+const applyEntry = (base: PresenceThresholds, entry?: PresenceConfigEntry): PresenceThresholds => {
+  if (!entry) return base;
+  return {
+    minRssi: entry.min_rssi ?? base.minRssi,
+    minSightings: entry.min_sightings ?? base.minSightings,
+    minDwellMs: entry.min_dwell_seconds !== undefined ? entry.min_dwell_seconds * 1000 : base.minDwellMs,
+    smoothing: entry.smoothing ?? base.smoothing,
+    windowMs: entry.window_seconds !== undefined ? entry.window_seconds * 1000 : base.windowMs,
+  };
+};
+
+// Normalize room labels so "a-101 " and "A-101" share a profile
+export const normalizeRoomKey = (room: string): string => room.trim().toUpperCase();
+
+export const resolvePresenceThresholds = (
+  config: PresenceConfig | null,
+  room?: string | null
+): PresenceThresholds => {
+  const base = applyEntry(DEFAULT_PRESENCE_THRESHOLDS, config?.default);
+  if (!room || !config?.rooms) return base;
+
+  const key = normalizeRoomKey(room);
+  const roomEntry = Object.entries(config.rooms).find(([name]) => normalizeRoomKey(name) === key)?.[1];
+  return applyEntry(base, roomEntry);
+};
+
+/**
+ * Load the presence config from app_config, falling back to the last cached
+ * copy when offline (scanning must work without network).
+ */
+export const getPresenceConfig = async (): Promise<PresenceConfig | null> => {
+  try {
+    const { data, error } = await supabase
+      .from('app_config')
+      .select('value')
+      .eq('key', PRESENCE_CONFIG_KEY)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    const config = (data?.value as PresenceConfig) || null;
+    if (config) {
+      await getStorage().setItem(PRESENCE_CACHE_KEY, JSON.stringify(config));
+    }
+    return config;
+  } catch (error) {
+    log.warn('Falling back to cached presence config:', error);
+    try {
+      const cached = await getStorage().getItem(PRESENCE_CACHE_KEY);
+      return cached ? JSON.parse(cached) : null;
+    } catch {
+      return null;
+    }
+  }
+};
+
+export const getPresenceThresholds = async (room?: string | null): Promise<PresenceThresholds> => {
+  const config = await getPresenceConfig();
+  const thresholds = resolvePresenceThresholds(config, room);
+  log.info('Thresholds for room', room || '(none)', thresholds);
+  return thresholds;
+};
+
+// =====================================================
+// ROOM CALIBRATION
+// =====================================================
+
+// Where the test beacon is placed while the faculty stands at the podium
+export type CalibrationSpot = 'front_row' | 'back_row' | 'outside_door';
+
+export interface RssiDistribution {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  p10: number;
+  p90: number;
+}
+
+const percentile = (sorted: number[], p: number): number => {
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round((sorted.length - 1) * p)));
+  return sorted[index];
+};
+
+export const summarizeRssi = (samples: number[]): RssiDistribution | null => {
+  if (samples.length === 0) return null;
+  const sorted = [...samples].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    mean: Math.round(sorted.reduce((sum, v) => sum + v, 0) / sorted.length),
+    median: percentile(sorted, 0.5),
+    p10: percentile(sorted, 0.1),
+    p90: percentile(sorted, 0.9),
+  };
+};
+
+export interface RoomProfileResult {
+  entry: PresenceConfigEntry;
+  // Inside and outside readings overlap - threshold alone can't separate them
+  overlap: boolean;
+  // Gap between weakest in-room and strongest outside reading (dB)
+  marginDb: number;
+}
+
+/**
+ * Derive a room profile from the three calibration spots. The threshold sits
+ * between the weakest back-row reading and the strongest reading outside the
+ * door; a small margin is compensated with a longer dwell time.
+ */
+export const buildRoomProfile = (
+  calibration: Record<CalibrationSpot, RssiDistribution>
+): RoomProfileResult => {
+  const insideFloor = calibration.back_row.p10;
+  const outsideCeiling = calibration.outside_door.p90;
+  const marginDb = insideFloor - outsideCeiling;
+  const overlap = marginDb <= 0;
+
+  const minRssi = overlap ? insideFloor : Math.round((insideFloor + outsideCeiling) / 2);
+  const dwellSeconds = overlap ? 30 : marginDb >= 10 ? 10 : 20;
+
+  return {
+    entry: {
+      min_rssi: minRssi,
+      min_dwell_seconds: dwellSeconds,
+      calibrated_at: new Date().toISOString(),
+      calibration,
+    },
+    overlap,
+    marginDb,
+  };
+};
+
+/**
+ * Store a room profile in app_config.ble_presence.rooms (via RPC, faculty
+ * cannot write app_config directly).
+ */
+export const saveRoomProfile = async (
+  room: string,
+  entry: PresenceConfigEntry
+): Promise<{ success: boolean; error: string | null }> => {
+  try {
+    const { error } = await supabase.rpc('save_room_presence_profile', {
+      p_room: normalizeRoomKey(room),
+      p_profile: entry,
+    });
+    if (error) throw error;
+
+    // Refresh the offline copy so the next scan picks it up immediately
+    await getPresenceConfig();
+    log.info('Saved room profile for', room, entry);
+    return { success: true, error: null };
+  } catch (error: any) {
+    log.error('Failed to save room profile:', error);
+    return { success: false, error: error?.message || 'Failed to save room profile' };
+  }
+};
+
+// =====================================================
+// TRACKER
+// =====================================================
+
+interface Sample {
+  at: number;
+  smoothed: number;
+}
+
+interface Track {
+  samples: Sample[];
+  smoothed: number | null;
+  isPresent: boolean;
+}
+
+/**
+ * Per-key (student UUID) presence tracker. Create one per scan.
+ */
+export const createPresenceTracker = (thresholds: PresenceThresholds) => {
+  const tracks = new Map<string, Track>();
+
+  const observe = (key: string, rssi: number, at: number = Date.now()): PresenceState => {
+    let track = tracks.get(key);
+    if (!track) {
+      track = { samples: [], smoothed: null, isPresent: false };
+      tracks.set(key, track);
+    }
+
+    track.smoothed = track.smoothed === null
+      ? rssi
+      : thresholds.smoothing * rssi + (1 - thresholds.smoothing) * track.smoothed;
+
+    track.samples.push({ at, smoothed: track.smoothed });
+    track.samples = track.samples.filter(s => at - s.at <= thresholds.windowMs);
+
+    const strong = track.samples.filter(s => s.smoothed >= thresholds.minRssi);
+    const dwellMs = strong.length > 0 ? strong[strong.length - 1].at - strong[0].at : 0;
+
+    const wasPresent = track.isPresent;
+    if (!wasPresent && strong.length >= thresholds.minSightings && dwellMs >= thresholds.minDwellMs) {
+      track.isPresent = true;
+    }
+
+    return {
+      smoothedRssi: track.smoothed,
+      sightings: strong.length,
+      dwellMs,
+      isPresent: track.isPresent,
+      becamePresent: track.isPresent && !wasPresent,
+    };
+  };
+
+  const reset = () => tracks.clear();
+
+  return { observe, reset };
+};
+
+export type PresenceTracker = ReturnType<typeof createPresenceTracker>;
+
+export default {
+  DEFAULT_PRESENCE_THRESHOLDS,
+  normalizeRoomKey,
+  resolvePresenceThresholds,
+  getPresenceConfig,
+  getPresenceThresholds,
+  summarizeRssi,
+  buildRoomProfile,
+  saveRoomProfile,
+  createPresenceTracker,
+};
@@ -0,0 +1,125 @@
+/**
+ * Punctuality Service - Late arrival and early exit within a period
+ *
+ * The scanner records when each student was first and last seen. From those
+ * and the period's start/end time a present student is classified as:
+ * - late:       first seen more than `graceMinutes` after start_time
+ * - left early: not seen during the final `exitWindowMinutes` of the period
+ *
+ * Late is only judged when the scan was already running when the grace
+ * period ended; a scan started later cannot tell a late arrival from a
+ * student who was there all along. Left-early is only judged when the scan
+ * itself reached the final window (someone was seen in it); a scan submitted
+ * mid-period says nothing about who stayed.
+ *
+ * Settings come from app_config (key `punctuality`):
+ *
+ *   { "grace_minutes": 10, "exit_window_minutes": 10 }
+ */
+
+import { supabase } from '../config/supabase';
+import { getStorage } from './offline/storage';
+import { getSessionDate, campusTimeOnDay } from '../shared/campusTime';
+import createLogger from '../utils/logger';
+
+const log = createLogger('Punctuality');
+
+const PUNCTUALITY_CONFIG_KEY = 'punctuality';
+const PUNCTUALITY_CACHE_KEY = '@attend_me/punctuality_config';
+
+export interface PunctualityConfig {
+  graceMinutes: number;
+  exitWindowMinutes: number;
+}
+
+export const DEFAULT_PUNCTUALITY: PunctualityConfig = {
+  graceMinutes: 10,
+  exitWindowMinutes: 10,
+};
+
+export interface PunctualityResult {
+  isLate: boolean;
+  leftEarly: boolean;
+}
+
+export interface SeenWindow {
+  firstSeenAt?: number;
+  lastSeenAt?: number;
+}
+
+const fromConfigValue = (value: any): PunctualityConfig => ({
+  graceMinutes: value?.grace_minutes ?? DEFAULT_PUNCTUALITY.graceMinutes,
+  exitWindowMinutes: value?.exit_window_minutes ?? DEFAULT_PUNCTUALITY.exitWindowMinutes,
+});
+
+/**
+ * Load punctuality settings, falling back to the cached copy when offline.
+ */
+export const getPunctualityConfig = async (): Promise<PunctualityConfig> => {
+  try {
+    const { data, error } = await supabase
+      .from('app_config')
+      .select('value')
+      .eq('key', PUNCTUALITY_CONFIG_KEY)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (data?.value) {
+      await getStorage().setItem(PUNCTUALITY_CACHE_KEY, JSON.stringify(data.value));
+    }
+    return fromConfigValue(data?.value);
+  } catch (error) {
+    log.warn('Falling back to cached punctuality config:', error);
+    try {
+      const cached = await getStorage().getItem(PUNCTUALITY_CACHE_KEY);
+      return fromConfigValue(cached ? JSON.parse(cached) : null);
+    } catch {
+      return DEFAULT_PUNCTUALITY;
+    }
+  }
+};
+
+// Campus "HH:MM" (or "HH:MM:SS") on the campus date of `day` → epoch ms
+export const timeOnDay = (time: string, day: Date = new Date()): number =>
+  campusTimeOnDay(getSessionDate(day), time);
+
+/**
+ * Classify every student seen by the scanner. Students never seen (manual
+ * marks, absentees) get no flags. `scanStartedAt` is when the scanner first
+ * ran (epoch ms); without it nobody is marked late.
+ */
+export const classifyPunctuality = <T extends SeenWindow>(
+  students: T[],
+  period: { startTime?: string; endTime?: string; day?: Date; scanStartedAt?: number },
+  config: PunctualityConfig = DEFAULT_PUNCTUALITY
+): Map<T, PunctualityResult> => {
+  const results = new Map<T, PunctualityResult>();
+  const day = period.day ?? new Date();
+  const start = period.startTime ? timeOnDay(period.startTime, day) : null;
+  const end = period.endTime ? timeOnDay(period.endTime, day) : null;
+
+  const lateAfter = start !== null ? start + config.graceMinutes * 60 * 1000 : null;
+  const coveredLateWindow = lateAfter !== null && period.scanStartedAt !== undefined && period.scanStartedAt <= lateAfter;
+  const exitWindowStart = end !== null ? end - config.exitWindowMinutes * 60 * 1000 : null;
+
+  // Did the scan reach the final window at all?
+  const lastSeenOverall = Math.max(0, ...students.map(s => s.lastSeenAt || 0));
+  const coveredExitWindow = exitWindowStart !== null && lastSeenOverall >= exitWindowStart;
+
+  for (const student of students) {
+    if (!student.firstSeenAt) continue;
+    results.set(student, {
+      isLate: coveredLateWindow && student.firstSeenAt > lateAfter!,
+      leftEarly: coveredExitWindow && (student.lastSeenAt || student.firstSeenAt) < exitWindowStart!,
+    });
+  }
+  return results;
+};
+
+export default {
+  DEFAULT_PUNCTUALITY,
+  getPunctualityConfig,
+  classifyPunctuality,
+  timeOnDay,
+};
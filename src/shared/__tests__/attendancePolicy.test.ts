@@ -0,0 +1,219 @@
+import {
+  DEFAULT_ATTENDANCE_POLICY,
+  setAttendancePolicyConfig,
+  getAttendancePolicy,
+  roundPercentage,
+  evaluateAttendance,
+  getAttendanceStanding,
+  getSessionsNeeded,
+  type AttendancePolicy,
+  type AttendanceCounts,
+} from '../attendancePolicy';
+
+const policy = (overrides: Partial<AttendancePolicy> = {}): AttendancePolicy => ({
+  ...DEFAULT_ATTENDANCE_POLICY,
+  ...overrides,
+});
+
+const counts = (overrides: Partial<AttendanceCounts> = {}): AttendanceCounts => ({
+  present: 0,
+  absent: 0,
+  od: 0,
+  leave: 0,
+  medical_leave: 0,
+  ...overrides,
+});
+
+afterEach(() => {
+  setAttendancePolicyConfig(null);
+});
+
+describe('getAttendancePolicy', () => {
+  it('is the default policy until configured', () => {
+    expect(getAttendancePolicy()).toEqual(DEFAULT_ATTENDANCE_POLICY);
+    expect(getAttendancePolicy('CSE')).toEqual(DEFAULT_ATTENDANCE_POLICY);
+  });
+
+  it('applies institution settings, then department overrides', () => {
+    setAttendancePolicyConfig({
+      warning_threshold: 70,
+      od: 'excluded',
+      departments: { ECE: { warning_threshold: 80 } },
+    });
+    expect(getAttendancePolicy('CSE')).toMatchObject({ warning_threshold: 70, od: 'excluded' });
+    expect(getAttendancePolicy('ECE')).toMatchObject({ warning_threshold: 80, od: 'excluded' });
+  });
+
+  it('keeps the other rounding field when only one is overridden', () => {
+    setAttendancePolicyConfig({
+      rounding: { mode: 'floor' },
+      departments: { ECE: { rounding: { decimals: 0 } } },
+    });
+    expect(getAttendancePolicy('CSE').rounding).toEqual({ mode: 'floor', decimals: 2 });
+    expect(getAttendancePolicy('ECE').rounding).toEqual({ mode: 'floor', decimals: 0 });
+    expect(evaluateAttendance(counts({ present: 2, absent: 1 }), getAttendancePolicy('CSE')).percentage).toBe(66.66);
+  });
+});
+
+describe('evaluateAttendance', () => {
+  describe('with the default policy', () => {
+    it('counts OD as attended and leave as missed', () => {
+      expect(evaluateAttendance(counts({ present: 6, absent: 2, od: 1, leave: 1 }))).toEqual({
+        attended: 7,
+        conducted: 10,
+        percentage: 70,
+      });
+    });
+
+    it('counts medical leave as missed', () => {
+      expect(evaluateAttendance(counts({ present: 6, absent: 2, medical_leave: 2 })).percentage).toBe(60);
+    });
+
+    it('is 0 with no sessions conducted', () => {
+      expect(evaluateAttendance(counts())).toEqual({ attended: 0, conducted: 0, percentage: 0 });
+    });
+  });
+
+  describe.each([
+    ['od', { present: 6, absent: 2, od: 2 }],
+    ['leave', { present: 6, absent: 2, leave: 2 }],
+    ['medical_leave', { present: 6, absent: 2, medical_leave: 2 }],
+  ] as const)('%s sessions', (status, sample) => {
+    it('add to attended and conducted when counted as attended', () => {
+      expect(evaluateAttendance(counts(sample), policy({ [status]: 'attended' }))).toEqual({
+        attended: 8,
+        conducted: 10,
+        percentage: 80,
+      });
+    });
+
+    it('add to conducted only when counted as missed', () => {
+      expect(evaluateAttendance(counts(sample), policy({ [status]: 'missed' }))).toEqual({
+        attended: 6,
+        conducted: 10,
+        percentage: 60,
+      });
+    });
+
+    it('are left out when excluded', () => {
+      expect(evaluateAttendance(counts(sample), policy({ [status]: 'excluded' }))).toEqual({
+        attended: 6,
+        conducted: 8,
+        percentage: 75,
+      });
+    });
+  });
+
+  it('is 0 when every session is excluded', () => {
+    expect(evaluateAttendance(counts({ od: 3 }), policy({ od: 'excluded' })).percentage).toBe(0);
+  });
+
+  describe('lab sessions', () => {
+    const withLab = counts({ present: 4, absent: 2, lab: counts({ present: 3, absent: 1 }) });
+
+    it('count once with lab_weight 1', () => {
+      expect(evaluateAttendance(withLab)).toEqual({ attended: 7, conducted: 10, percentage: 70 });
+    });
+
+    it('count lab_weight times', () => {
+      expect(evaluateAttendance(withLab, policy({ lab_weight: 2 }))).toEqual({
+        attended: 10,
+        conducted: 14,
+        percentage: 71.43,
+      });
+    });
+
+    it('apply the OD / leave rules to lab sessions too', () => {
+      const labLeave = counts({ present: 6, absent: 2, lab: counts({ leave: 1 }) });
+      expect(evaluateAttendance(labLeave, policy({ lab_weight: 2 })).conducted).toBe(10);
+      expect(evaluateAttendance(labLeave, policy({ lab_weight: 2, leave: 'excluded' })).conducted).toBe(8);
+    });
+  });
+
+  describe('rounding', () => {
+    const twoThirds = counts({ present: 2, absent: 1 });
+
+    it('rounds to the configured decimals', () => {
+      expect(evaluateAttendance(twoThirds).percentage).toBe(66.67);
+      expect(evaluateAttendance(twoThirds, policy({ rounding: { mode: 'round', decimals: 0 } })).percentage).toBe(67);
+    });
+
+    it('floors when configured', () => {
+      expect(evaluateAttendance(twoThirds, policy({ rounding: { mode: 'floor', decimals: 2 } })).percentage).toBe(66.66);
+      expect(evaluateAttendance(twoThirds, policy({ rounding: { mode: 'floor', decimals: 0 } })).percentage).toBe(66);
+    });
+  });
+
+  describe('floating point error', () => {
+    const floor0 = policy({ rounding: { mode: 'floor', decimals: 0 } });
+
+    it('floors 29 of 100 to 29, not 28 (0.29 * 100 = 28.999...)', () => {
+      expect((29 / 100) * 100).toBeLessThan(29);
+      expect(evaluateAttendance(counts({ present: 29, absent: 71 }), floor0).percentage).toBe(29);
+    });
+
+    it('floors 57 of 100 to 57', () => {
+      expect(evaluateAttendance(counts({ present: 57, absent: 43 }), floor0).percentage).toBe(57);
+    });
+
+    it('keeps exact values exact with two decimals', () => {
+      expect(evaluateAttendance(counts({ present: 29, absent: 71 })).percentage).toBe(29);
+      expect(roundPercentage(28.999999999999996, policy({ rounding: { mode: 'floor', decimals: 2 } }))).toBe(29);
+    });
+  });
+});
+
+describe('getAttendanceStanding', () => {
+  it('uses the default 75 / 65 thresholds', () => {
+    expect(getAttendanceStanding(75)).toBe('good');
+    expect(getAttendanceStanding(74.99)).toBe('warning');
+    expect(getAttendanceStanding(65)).toBe('warning');
+    expect(getAttendanceStanding(64.99)).toBe('critical');
+  });
+
+  it('uses the policy thresholds', () => {
+    const strict = policy({ warning_threshold: 85, critical_threshold: 75 });
+    expect(getAttendanceStanding(80, strict)).toBe('warning');
+    expect(getAttendanceStanding(74, strict)).toBe('critical');
+    expect(getAttendanceStanding(85, strict)).toBe('good');
+  });
+});
+
+describe('getSessionsNeeded', () => {
+  // 6 of 10 = 60%
+  const sixOfTen = counts({ present: 6, absent: 4 });
+
+  it('is the fewest remaining sessions that reach the target', () => {
+    // 23 of 30 = 76.7%, 22 of 30 = 73.3%
+    expect(getSessionsNeeded(sixOfTen, { sessions: 20 }, 75)).toBe(17);
+  });
+
+  it('reaches the target exactly when it can', () => {
+    // 6 of 8 = 75%
+    expect(getSessionsNeeded(counts({ present: 3, absent: 1 }), { sessions: 4 }, 75)).toBe(3);
+  });
+
+  it('is null when attending every remaining session is not enough', () => {
+    // 11 of 15 = 73.3%
+    expect(getSessionsNeeded(sixOfTen, { sessions: 5 }, 75)).toBeNull();
+  });
+
+  it('is 0 when already above the target', () => {
+    expect(getSessionsNeeded(counts({ present: 9, absent: 1 }), { sessions: 2 }, 75)).toBe(0);
+    expect(getSessionsNeeded(counts({ present: 9, absent: 1 }), { sessions: 0 }, 75)).toBe(0);
+  });
+
+  it('is null with nothing remaining and the target missed', () => {
+    expect(getSessionsNeeded(sixOfTen, { sessions: 0 }, 75)).toBeNull();
+  });
+
+  it('weighs remaining lab sessions', () => {
+    expect(getSessionsNeeded(sixOfTen, { sessions: 10, labSessions: 5 }, 75, policy({ lab_weight: 2 }))).toBe(17);
+  });
+
+  it('uses the policy to count existing sessions', () => {
+    // With OD excluded: 6 of 8; 75% of (8 + 4) = 9
+    const withOd = counts({ present: 6, absent: 2, od: 2 });
+    expect(getSessionsNeeded(withOd, { sessions: 4 }, 75, policy({ od: 'excluded' }))).toBe(3);
+  });
+});
@@ -0,0 +1,246 @@
+import {
+  DEFAULT_CAMPUS_TIMEZONE,
+  setCampusTimezone,
+  getCampusTimezone,
+  setPeriodTimes,
+  getCampusClock,
+  getSessionDate,
+  getCampusTime,
+  getUtcOffsetMinutes,
+  campusTimeOnDay,
+  getDayName,
+  addDays,
+  timeToSeconds,
+  getPeriodNumber,
+  getPeriodTimes,
+  isWithinSlot,
+  findSlotAt,
+} from '../campusTime';
+
+const NEW_YORK = 'America/New_York';
+
+afterEach(() => {
+  setCampusTimezone(DEFAULT_CAMPUS_TIMEZONE);
+  setPeriodTimes({});
+});
+
+describe('campus timezone', () => {
+  it('defaults to Asia/Kolkata', () => {
+    expect(getCampusTimezone()).toBe('Asia/Kolkata');
+  });
+
+  it('rejects an unknown zone and keeps the current one', () => {
+    expect(setCampusTimezone('Mars/Olympus_Mons')).toBe(false);
+    expect(getCampusTimezone()).toBe('Asia/Kolkata');
+  });
+
+  it('applies a known zone to the helpers', () => {
+    expect(setCampusTimezone(NEW_YORK)).toBe(true);
+    // 03:00 UTC is still the previous evening in New York
+    expect(getSessionDate(new Date('2025-01-15T03:00:00Z'))).toBe('2025-01-14');
+  });
+});
+
+describe('getSessionDate around midnight IST', () => {
+  it('is the previous day until 18:30 UTC', () => {
+    expect(getSessionDate(new Date('2025-03-14T18:29:59Z'))).toBe('2025-03-14');
+  });
+
+  it('turns over at 18:30 UTC (00:00 IST)', () => {
+    expect(getSessionDate(new Date('2025-03-14T18:30:00Z'))).toBe('2025-03-15');
+    expect(getSessionDate(new Date('2025-03-15T00:00:00+05:30'))).toBe('2025-03-15');
+  });
+
+  it('differs from the UTC date before 05:30 IST', () => {
+    const at = new Date('2025-03-15T05:29:00+05:30');
+    expect(at.toISOString().slice(0, 10)).toBe('2025-03-14');
+    expect(getSessionDate(at)).toBe('2025-03-15');
+  });
+
+  it('rolls over month and year ends', () => {
+    expect(getSessionDate(new Date('2024-12-31T18:30:00Z'))).toBe('2025-01-01');
+    expect(getSessionDate(new Date('2024-02-28T18:30:00Z'))).toBe('2024-02-29');
+  });
+});
+
+describe('getCampusClock', () => {
+  it('reports midnight as 00:00:00', () => {
+    const clock = getCampusClock(new Date('2025-03-15T00:00:00+05:30'));
+    expect(clock).toEqual({
+      date: '2025-03-15',
+      time: '00:00:00',
+      secondsOfDay: 0,
+      dayName: 'Saturday',
+    });
+  });
+
+  it('reports the last second of the day', () => {
+    const clock = getCampusClock(new Date('2025-03-15T23:59:59+05:30'));
+    expect(clock.date).toBe('2025-03-15');
+    expect(clock.secondsOfDay).toBe(86399);
+    expect(getCampusTime(new Date('2025-03-15T23:59:59+05:30'))).toBe('23:59:59');
+  });
+});
+
+describe('getUtcOffsetMinutes', () => {
+  it('is +05:30 in India all year', () => {
+    expect(getUtcOffsetMinutes(new Date('2025-01-15T12:00:00Z'))).toBe(330);
+    expect(getUtcOffsetMinutes(new Date('2025-07-15T12:00:00Z'))).toBe(330);
+  });
+
+  it('follows DST in a DST zone', () => {
+    expect(getUtcOffsetMinutes(new Date('2025-01-15T12:00:00Z'), NEW_YORK)).toBe(-300);
+    expect(getUtcOffsetMinutes(new Date('2025-07-15T12:00:00Z'), NEW_YORK)).toBe(-240);
+  });
+
+  it('ignores milliseconds', () => {
+    expect(getUtcOffsetMinutes(new Date('2025-01-15T12:00:00.999Z'))).toBe(330);
+  });
+});
+
+describe('campusTimeOnDay', () => {
+  it('converts an IST wall-clock time', () => {
+    expect(campusTimeOnDay('2025-03-15', '09:30')).toBe(Date.parse('2025-03-15T04:00:00Z'));
+    expect(campusTimeOnDay('2025-03-15', '00:00:00')).toBe(Date.parse('2025-03-14T18:30:00Z'));
+  });
+
+  it('round-trips with getCampusClock', () => {
+    const at = campusTimeOnDay('2025-03-15', '23:59:30');
+    expect(getCampusClock(new Date(at))).toMatchObject({ date: '2025-03-15', time: '23:59:30' });
+  });
+
+  it('uses standard time before the spring-forward change', () => {
+    // New York moved to EDT at 02:00 on 2025-03-09
+    expect(campusTimeOnDay('2025-03-08', '09:00', NEW_YORK)).toBe(Date.parse('2025-03-08T14:00:00Z'));
+  });
+
+  it('uses daylight time on and after the spring-forward day', () => {
+    expect(campusTimeOnDay('2025-03-09', '09:00', NEW_YORK)).toBe(Date.parse('2025-03-09T13:00:00Z'));
+    expect(campusTimeOnDay('2025-03-10', '09:00', NEW_YORK)).toBe(Date.parse('2025-03-10T13:00:00Z'));
+  });
+
+  it('uses standard time after the fall-back change', () => {
+    // New York went back to EST at 02:00 on 2025-11-02
+    expect(campusTimeOnDay('2025-11-01', '12:00', NEW_YORK)).toBe(Date.parse('2025-11-01T16:00:00Z'));
+    expect(campusTimeOnDay('2025-11-02', '12:00', NEW_YORK)).toBe(Date.parse('2025-11-02T17:00:00Z'));
+  });
+
+  it('round-trips across the DST change', () => {
+    for (const date of ['2025-03-08', '2025-03-09', '2025-11-02', '2025-11-03']) {
+      const at = campusTimeOnDay(date, '10:15', NEW_YORK);
+      expect(getCampusClock(new Date(at), NEW_YORK)).toMatchObject({ date, time: '10:15:00' });
+    }
+  });
+});
+
+describe('calendar dates', () => {
+  it('names weekdays as master_timetables does', () => {
+    expect(getDayName('2025-03-15')).toBe('Saturday');
+    expect(getDayName('2025-03-17')).toBe('Monday');
+  });
+
+  it('adds days across month, year and leap-day boundaries', () => {
+    expect(addDays('2025-01-31', 1)).toBe('2025-02-01');
+    expect(addDays('2024-12-31', 1)).toBe('2025-01-01');
+    expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+    expect(addDays('2025-03-01', -1)).toBe('2025-02-28');
+  });
+});
+
+describe('getPeriodNumber', () => {
+  it.each([
+    ['p1', '1'],
+    ['mon_1', '1'],
+    ['1', '1'],
+    ['p07', '7'],
+    ['fri_8', '8'],
+    [3, '3'],
+  ])('parses %p as period %p', (slotId, period) => {
+    expect(getPeriodNumber(slotId)).toBe(period);
+  });
+
+  it.each([null, undefined, '', 'lab', 'p'])('returns null for %p', slotId => {
+    expect(getPeriodNumber(slotId)).toBeNull();
+  });
+
+  it('looks up configured period times by slot id', () => {
+    setPeriodTimes({ '1': { start_time: '09:30', end_time: '10:20' } });
+    expect(getPeriodTimes('mon_1')).toEqual({ start_time: '09:30', end_time: '10:20' });
+    expect(getPeriodTimes('p2')).toBeNull();
+    expect(getPeriodTimes(null)).toBeNull();
+  });
+});
+
+describe('timeToSeconds', () => {
+  it('accepts HH:MM and HH:MM:SS', () => {
+    expect(timeToSeconds('09:30')).toBe(34200);
+    expect(timeToSeconds('09:30:15')).toBe(34215);
+    expect(timeToSeconds('00:00')).toBe(0);
+  });
+});
+
+describe('isWithinSlot', () => {
+  const at = (time: string) => new Date(`2025-03-15T${time}+05:30`);
+  const period = { start_time: '09:30', end_time: '10:20' };
+
+  it('includes the start and excludes the end', () => {
+    expect(isWithinSlot(period, at('09:29:59'))).toBe(false);
+    expect(isWithinSlot(period, at('09:30:00'))).toBe(true);
+    expect(isWithinSlot(period, at('10:19:59'))).toBe(true);
+    expect(isWithinSlot(period, at('10:20:00'))).toBe(false);
+  });
+
+  it('applies grace before the start and after the end', () => {
+    const grace = { graceBeforeMinutes: 10, graceAfterMinutes: 5 };
+    expect(isWithinSlot(period, at('09:20:00'), grace)).toBe(true);
+    expect(isWithinSlot(period, at('09:19:59'), grace)).toBe(false);
+    expect(isWithinSlot(period, at('10:24:59'), grace)).toBe(true);
+    expect(isWithinSlot(period, at('10:25:00'), grace)).toBe(false);
+  });
+
+  describe('a slot crossing midnight', () => {
+    const night = { start_time: '22:00', end_time: '01:00' };
+
+    it('is running before and after midnight', () => {
+      expect(isWithinSlot(night, at('22:00:00'))).toBe(true);
+      expect(isWithinSlot(night, at('23:59:59'))).toBe(true);
+      expect(isWithinSlot(night, at('00:00:00'))).toBe(true);
+      expect(isWithinSlot(night, at('00:59:59'))).toBe(true);
+    });
+
+    it('is not running outside it', () => {
+      expect(isWithinSlot(night, at('01:00:00'))).toBe(false);
+      expect(isWithinSlot(night, at('12:00:00'))).toBe(false);
+      expect(isWithinSlot(night, at('21:59:59'))).toBe(false);
+    });
+
+    it('applies grace on both sides of midnight', () => {
+      const grace = { graceBeforeMinutes: 15, graceAfterMinutes: 15 };
+      expect(isWithinSlot(night, at('21:45:00'), grace)).toBe(true);
+      expect(isWithinSlot(night, at('01:14:59'), grace)).toBe(true);
+      expect(isWithinSlot(night, at('01:15:00'), grace)).toBe(false);
+    });
+  });
+
+  it('judges the campus clock, not UTC', () => {
+    // 04:00 UTC is 09:30 IST
+    expect(isWithinSlot(period, new Date('2025-03-15T04:00:00Z'))).toBe(true);
+    expect(isWithinSlot(period, new Date('2025-03-15T04:00:00Z'), { timeZone: 'UTC' })).toBe(false);
+  });
+});
+
+describe('findSlotAt', () => {
+  const slots = [
+    { slot_id: 'p1', start_time: '09:30', end_time: '10:20' },
+    { slot_id: 'p2', start_time: '10:20', end_time: '11:10' },
+  ];
+
+  it('finds the running slot, the later one at a shared boundary', () => {
+    expect(findSlotAt(slots, new Date('2025-03-15T09:45:00+05:30'))?.slot_id).toBe('p1');
+    expect(findSlotAt(slots, new Date('2025-03-15T10:20:00+05:30'))?.slot_id).toBe('p2');
+  });
+
+  it('returns null between periods', () => {
+    expect(findSlotAt(slots, new Date('2025-03-15T12:00:00+05:30'))).toBeNull();
+  });
+});
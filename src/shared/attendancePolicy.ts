@@ -0,0 +1,178 @@
+/**
+ * Attendance policy - how a student's attendance percentage is computed
+ *
+ * This is the one definition of the formula. The app applies it to the raw
+ * counts returned by the class aggregate RPCs. The SQL
+ * attendance_percentage(policy, ...) behind view_student_aggregates is a
+ * port of evaluateAttendance() and must change together with it. This file
+ * has no imports so the Supabase edge functions (Deno) can share it.
+ *
+ * The policy comes from app_config `attendance_policy` (applied with
+ * setAttendancePolicyConfig). `departments` holds per-department overrides.
+ * Both merge over DEFAULT_ATTENDANCE_POLICY field by field, and `rounding`
+ * one level deeper, the same way the SQL attendance_policy() merges JSONB.
+ */
+
+// How an OD / leave / medical leave session is counted
+export type CountAs = 'attended' | 'missed' | 'excluded';
+
+export interface AttendancePolicy {
+  // Below this a student is short of attendance (e.g. 75)
+  warning_threshold: number;
+  // Below this even condonation is out (e.g. 65)
+  critical_threshold: number;
+  od: CountAs;
+  leave: CountAs;
+  medical_leave: CountAs;
+  // A lab session counts this many times (2 = labs weigh double)
+  lab_weight: number;
+  rounding: {
+    mode: 'round' | 'floor';
+    decimals: number;
+  };
+}
+
+// Any subset of the policy, e.g. { rounding: { mode: 'floor' } }
+export type AttendancePolicyOverrides = Partial<Omit<AttendancePolicy, 'rounding'>> & {
+  rounding?: Partial<AttendancePolicy['rounding']>;
+};
+
+export interface AttendancePolicyConfig extends AttendancePolicyOverrides {
+  departments?: Record<string, AttendancePolicyOverrides>;
+}
+
+export interface StatusCounts {
+  present: number;
+  absent: number;
+  od: number;
+  // Leave that is not medical
+  leave: number;
+  medical_leave: number;
+}
+
+/**
+ * Sessions of a student by status. The top-level counts are lectures; lab
+ * sessions are counted separately so the policy can weigh them.
+ */
+export interface AttendanceCounts extends StatusCounts {
+  lab?: StatusCounts;
+}
+
+export interface AttendanceResult {
+  // Weighted sessions counted as attended / counted at all
+  attended: number;
+  conducted: number;
+  percentage: number;
+}
+
+export type AttendanceStanding = 'good' | 'warning' | 'critical';
+
+export const DEFAULT_ATTENDANCE_POLICY: AttendancePolicy = {
+  warning_threshold: 75,
+  critical_threshold: 65,
+  od: 'attended',
+  leave: 'missed',
+  medical_leave: 'missed',
+  lab_weight: 1,
+  rounding: { mode: 'round', decimals: 2 },
+};
+
+const EMPTY_COUNTS: StatusCounts = { present: 0, absent: 0, od: 0, leave: 0, medical_leave: 0 };
+
+// Absorbs binary floating point error (e.g. 0.29 * 100 = 28.999...)
+const EPSILON = 1e-9;
+
+let policyConfig: AttendancePolicyConfig = {};
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export function setAttendancePolicyConfig(config: AttendancePolicyConfig | null): void {
+  policyConfig = config && typeof config === 'object' ? { ...config } : {};
+}
+
+/**
+ * Policy for a department: defaults, then the institution's settings, then
+ * the department's overrides.
+ */
+export function getAttendancePolicy(dept?: string | null): AttendancePolicy {
+  const { departments, ...institution } = policyConfig;
+  const overrides = dept ? departments?.[dept] : undefined;
+  return {
+    ...DEFAULT_ATTENDANCE_POLICY,
+    ...institution,
+    ...overrides,
+    rounding: { ...DEFAULT_ATTENDANCE_POLICY.rounding, ...institution.rounding, ...overrides?.rounding },
+  };
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+export function roundPercentage(value: number, policy: AttendancePolicy): number {
+  const factor = 10 ** policy.rounding.decimals;
+  const scaled = value * factor;
+  const rounded = policy.rounding.mode === 'floor'
+    ? Math.floor(scaled + EPSILON)
+    : Math.round(scaled + EPSILON);
+  return rounded / factor;
+}
+
+/**
+ * Attended / conducted sessions and the percentage under a policy.
+ */
+export function evaluateAttendance(
+  counts: AttendanceCounts,
+  policy: AttendancePolicy = getAttendancePolicy()
+): AttendanceResult {
+  const lab = counts.lab ?? EMPTY_COUNTS;
+  const weighted = (status: keyof StatusCounts) => counts[status] + lab[status] * policy.lab_weight;
+
+  let attended = weighted('present');
+  let missed = weighted('absent');
+  const rules: [keyof StatusCounts, CountAs][] = [
+    ['od', policy.od],
+    ['leave', policy.leave],
+    ['medical_leave', policy.medical_leave],
+  ];
+  for (const [status, countAs] of rules) {
+    if (countAs === 'attended') attended += weighted(status);
+    else if (countAs === 'missed') missed += weighted(status);
+  }
+
+  const conducted = attended + missed;
+  return {
+    attended,
+    conducted,
+    percentage: conducted > 0 ? roundPercentage((attended / conducted) * 100, policy) : 0,
+  };
+}
+
+export function getAttendanceStanding(
+  percentage: number,
+  policy: AttendancePolicy = getAttendancePolicy()
+): AttendanceStanding {
+  if (percentage < policy.critical_threshold) return 'critical';
+  if (percentage < policy.warning_threshold) return 'warning';
+  return 'good';
+}
+
+/**
+ * How many of the remaining sessions (a lab counts lab_weight times) a
+ * student must attend to reach `target`%, or null if attending all of them
+ * is not enough. Every remaining session is assumed to end up attended or
+ * missed.
+ */
+export function getSessionsNeeded(
+  counts: AttendanceCounts,
+  remaining: { sessions: number; labSessions?: number },
+  target: number,
+  policy: AttendancePolicy = getAttendancePolicy()
+): number | null {
+  const { attended, conducted } = evaluateAttendance(counts, policy);
+  const remainingWeight = remaining.sessions + (remaining.labSessions ?? 0) * policy.lab_weight;
+  const needed = Math.max(0, Math.ceil((target * (conducted + remainingWeight)) / 100 - attended - EPSILON));
+  return needed <= remainingWeight ? needed : null;
+}
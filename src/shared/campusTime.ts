@@ -0,0 +1,264 @@
+/**
+ * Campus time - dates and period times in the institution's timezone
+ *
+ * Session dates and period start/end times are campus wall-clock values, no
+ * matter which timezone the phone or the edge function runtime is in. This
+ * file has no imports so the app and the Supabase edge functions (Deno)
+ * share it as-is.
+ *
+ * The timezone comes from app_config `campus_timezone` (applied with
+ * setCampusTimezone); Asia/Kolkata until then. Period times come from
+ * master_timetables via the `get_period_times` RPC (setPeriodTimes).
+ */
+
+export const DEFAULT_CAMPUS_TIMEZONE = 'Asia/Kolkata';
+
+// Used when the runtime has no Intl timezone data (IST, no DST)
+const FALLBACK_OFFSET_MINUTES = 330;
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export interface PeriodTimes {
+  // "HH:MM" or "HH:MM:SS"
+  start_time: string;
+  end_time: string;
+}
+
+export interface CampusClock {
+  // YYYY-MM-DD
+  date: string;
+  // HH:MM:SS
+  time: string;
+  secondsOfDay: number;
+  dayName: string;
+}
+
+let campusTimezone = DEFAULT_CAMPUS_TIMEZONE;
+let periodTimes: Record<string, PeriodTimes> = {};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// ============================================================================
+// CONFIGURATION
+// ============================================================================
+
+export function getCampusTimezone(): string {
+  return campusTimezone;
+}
+
+/**
+ * Use `timeZone` (IANA name) for every helper below. An unknown zone is
+ * rejected (returns false) rather than silently shifting every date.
+ */
+export function setCampusTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+  } catch {
+    return false;
+  }
+  campusTimezone = timeZone;
+  return true;
+}
+
+/**
+ * Period number → times, e.g. { "1": { start_time: "09:30", end_time: "10:20" } }.
+ */
+export function setPeriodTimes(times: Record<string, PeriodTimes>): void {
+  periodTimes = { ...times };
+}
+
+// ============================================================================
+// WALL CLOCK
+// ============================================================================
+
+type WallClock = { year: number; month: number; day: number; hour: number; minute: number; second: number };
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function wallClock(at: Date, timeZone: string): WallClock {
+  try {
+    const parts = getFormatter(timeZone).formatToParts(at);
+    const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+    return {
+      year: get('year'),
+      month: get('month'),
+      day: get('day'),
+      // Some engines print midnight as "24" despite h23
+      hour: get('hour') % 24,
+      minute: get('minute'),
+      second: get('second'),
+    };
+  } catch {
+    const shifted = new Date(at.getTime() + FALLBACK_OFFSET_MINUTES * 60 * 1000);
+    return {
+      year: shifted.getUTCFullYear(),
+      month: shifted.getUTCMonth() + 1,
+      day: shifted.getUTCDate(),
+      hour: shifted.getUTCHours(),
+      minute: shifted.getUTCMinutes(),
+      second: shifted.getUTCSeconds(),
+    };
+  }
+}
+
+/**
+ * Campus date, time and weekday at an instant.
+ */
+export function getCampusClock(at: Date = new Date(), timeZone: string = campusTimezone): CampusClock {
+  const c = wallClock(at, timeZone);
+  const date = `${c.year}-${pad(c.month)}-${pad(c.day)}`;
+  return {
+    date,
+    time: `${pad(c.hour)}:${pad(c.minute)}:${pad(c.second)}`,
+    secondsOfDay: c.hour * 3600 + c.minute * 60 + c.second,
+    dayName: getDayName(date),
+  };
+}
+
+/**
+ * Date (YYYY-MM-DD) a session at `at` belongs to. Use this instead of
+ * toISOString(), which is a UTC date (the previous day before 05:30 IST).
+ */
+export function getSessionDate(at: Date = new Date(), timeZone: string = campusTimezone): string {
+  return getCampusClock(at, timeZone).date;
+}
+
+/**
+ * Campus time of day as HH:MM:SS.
+ */
+export function getCampusTime(at: Date = new Date(), timeZone: string = campusTimezone): string {
+  return getCampusClock(at, timeZone).time;
+}
+
+/**
+ * Minutes the campus clock is ahead of UTC at an instant.
+ */
+export function getUtcOffsetMinutes(at: Date = new Date(), timeZone: string = campusTimezone): number {
+  const c = wallClock(at, timeZone);
+  const asUtc = Date.UTC(c.year, c.month - 1, c.day, c.hour, c.minute, c.second);
+  return Math.round((asUtc - Math.floor(at.getTime() / 1000) * 1000) / 60000);
+}
+
+/**
+ * Instant (epoch ms) of a campus wall-clock time on a campus date.
+ */
+export function campusTimeOnDay(date: string, time: string, timeZone: string = campusTimezone): number {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hours, minutes, seconds] = time.split(':').map(Number);
+  const asUtc = Date.UTC(year, month - 1, day, hours || 0, minutes || 0, seconds || 0);
+
+  // The offset at the first guess can differ across a DST change; a second
+  // pass with the offset at the guessed instant settles it
+  const guess = asUtc - getUtcOffsetMinutes(new Date(asUtc), timeZone) * 60 * 1000;
+  return asUtc - getUtcOffsetMinutes(new Date(guess), timeZone) * 60 * 1000;
+}
+
+// ============================================================================
+// CALENDAR DATES (YYYY-MM-DD, timezone-free)
+// ============================================================================
+
+const parseDate = (date: string) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day);
+};
+
+const formatDate = (ms: number) => {
+  const d = new Date(ms);
+  return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+};
+
+/**
+ * Weekday name ("Monday") of a calendar date, as used by master_timetables.day.
+ */
+export function getDayName(date: string): string {
+  return DAY_NAMES[new Date(parseDate(date)).getUTCDay()];
+}
+
+export function addDays(date: string, days: number): string {
+  return formatDate(parseDate(date) + days * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Calendar date of a Date as the device shows it (date pickers). Not the
+ * campus date of the instant: a picker's "15 March" stays 15 March.
+ */
+export function toDateString(d: Date): string {
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+// ============================================================================
+// PERIODS
+// ============================================================================
+
+/**
+ * "HH:MM" or "HH:MM:SS" → seconds since midnight.
+ */
+export function timeToSeconds(time: string): number {
+  const [hours, minutes, seconds] = time.split(':').map(Number);
+  return (hours || 0) * 3600 + (minutes || 0) * 60 + (seconds || 0);
+}
+
+/**
+ * Period number of a slot id ("p1", "mon_1" or "1" → "1"), or null.
+ */
+export function getPeriodNumber(slotId: string | number | null | undefined): string | null {
+  if (slotId === null || slotId === undefined) return null;
+  const match = String(slotId).match(/(\d+)$/);
+  return match ? String(Number(match[1])) : null;
+}
+
+/**
+ * Configured start/end of a slot's period, or null if unknown.
+ */
+export function getPeriodTimes(slotId: string | number | null | undefined): PeriodTimes | null {
+  const period = getPeriodNumber(slotId);
+  return period ? periodTimes[period] ?? null : null;
+}
+
+/**
+ * Whether the campus clock at `at` is inside [start, end) of a slot, with
+ * optional grace before the start / after the end. A slot whose end is not
+ * after its start is taken to cross midnight.
+ */
+export function isWithinSlot(
+  slot: PeriodTimes,
+  at: Date = new Date(),
+  options: { graceBeforeMinutes?: number; graceAfterMinutes?: number; timeZone?: string } = {}
+): boolean {
+  const now = getCampusClock(at, options.timeZone ?? campusTimezone).secondsOfDay;
+  const start = timeToSeconds(slot.start_time) - (options.graceBeforeMinutes ?? 0) * 60;
+  const end = timeToSeconds(slot.end_time) + (options.graceAfterMinutes ?? 0) * 60;
+
+  if (timeToSeconds(slot.end_time) <= timeToSeconds(slot.start_time)) {
+    return now >= start || now < end;
+  }
+  return now >= start && now < end;
+}
+
+/**
+ * The slot running at `at`, or null between periods.
+ */
+export function findSlotAt<T extends PeriodTimes>(
+  slots: T[],
+  at: Date = new Date(),
+  timeZone: string = campusTimezone
+): T | null {
+  return slots.find(slot => isWithinSlot(slot, at, { timeZone })) ?? null;
+}
@@ -2,3 +2,6 @@
 // Theme, hooks, and global components
 
 export * from './theme';
+export * from './campusTime';
+export * from './attendancePolicy';
+export * from './parentMessages';
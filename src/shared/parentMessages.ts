@@ -0,0 +1,81 @@
+/**
+ * Parent messages - templates for low-attendance notifications to parents
+ *
+ * The incharge edits a template in the app and previews it per student; the
+ * notify-parents edge function renders the same template again before it is
+ * sent. This file has no imports so both can share it.
+ *
+ * Placeholders are written as {name}. A line with a placeholder that has no
+ * value for a student (e.g. {classes_needed} before the semester end date is
+ * set) is left out of that student's message, so templates keep optional
+ * sentences on their own lines.
+ */
+
+export type ParentMessageChannel = 'sms' | 'whatsapp';
+
+export interface ParentMessageVars {
+  name: string;
+  roll_no: string;
+  percentage: string;
+  // The policy's warning threshold
+  required: string;
+  // Remaining classes to attend to reach {required}%
+  classes_needed?: string | null;
+  remaining?: string | null;
+  // e.g. "DBMS 58%, OS 62%"
+  subject_shortfalls?: string | null;
+  // e.g. "CSE 3-A"
+  class: string;
+}
+
+export const PARENT_MESSAGE_PLACEHOLDERS: { key: keyof ParentMessageVars; label: string }[] = [
+  { key: 'name', label: 'Student name' },
+  { key: 'roll_no', label: 'Roll number' },
+  { key: 'percentage', label: 'Attendance %' },
+  { key: 'required', label: 'Required %' },
+  { key: 'subject_shortfalls', label: 'Subjects below required' },
+  { key: 'classes_needed', label: 'Classes needed' },
+  { key: 'remaining', label: 'Classes remaining' },
+  { key: 'class', label: 'Class' },
+];
+
+export const DEFAULT_PARENT_TEMPLATES: Record<ParentMessageChannel, string> = {
+  sms: [
+    'Dear Parent, attendance of {name} ({roll_no}, {class}) is {percentage}%, below the required {required}%.',
+    'Short in: {subject_shortfalls}.',
+    '{name} must attend {classes_needed} of the remaining {remaining} classes.',
+    '- Class Incharge',
+  ].join('\n'),
+  whatsapp: [
+    'Dear Parent,',
+    '',
+    'This is to inform you that the attendance of {name} ({roll_no}, {class}) is {percentage}%, which is below the required {required}%.',
+    'Subjects below {required}%: {subject_shortfalls}.',
+    'To reach {required}%, {name} must attend {classes_needed} of the remaining {remaining} classes this semester.',
+    '',
+    'Please ensure your ward attends all upcoming classes.',
+    '',
+    'Regards,',
+    'Class Incharge',
+  ].join('\n'),
+};
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+/**
+ * The message for one student. Unknown placeholders are kept as written.
+ */
+export function renderParentMessage(template: string, vars: ParentMessageVars): string {
+  const values = vars as unknown as Record<string, string | null | undefined>;
+  const isKnown = (key: string) => PARENT_MESSAGE_PLACEHOLDERS.some(p => p.key === key);
+
+  return template
+    .split('\n')
+    .filter(line => {
+      const keys = Array.from(line.matchAll(PLACEHOLDER), match => match[1]);
+      return keys.every(key => !isKnown(key) || !!values[key]);
+    })
+    .map(line => line.replace(PLACEHOLDER, (match, key: string) => (isKnown(key) ? values[key]! : match)))
+    .join('\n')
+    .trim();
+}
@@ -3,29 +3,29 @@
  * Utility functions for time and slot management
  */
 
-export const SLOT_TIMINGS: Record<string, string> = {
-  '1': '09:30 AM - 10:20 AM',
-  '2': '10:20 AM - 11:10 AM',
-  '3': '11:10 AM - 12:00 PM',
-  '4': '12:00 PM - 12:50 PM', // Lunch? Usually break
-  '5': '12:50 PM - 01:40 PM',
-  '6': '01:40 PM - 02:30 PM',
-  '7': '02:30 PM - 03:20 PM',
-  '8': '03:20 PM - 04:10 PM',
+import { getPeriodNumber, getPeriodTimes } from '../shared/campusTime';
+
+// "13:40" / "13:40:00" → "01:40 PM"
+const to12Hour = (time: string): string => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const suffix = hours >= 12 ? 'PM' : 'AM';
+  return `${String(hours % 12 || 12).padStart(2, '0')}:${String(minutes || 0).padStart(2, '0')} ${suffix}`;
 };
 
+/**
+ * "Period 3 (11:10 AM - 12:00 PM)". Times come from master_timetables (see
+ * campusTimeService); without them only the period number is shown.
+ */
 export const getSlotLabel = (slotId: string | undefined | null): string => {
   if (!slotId) return 'Unknown Slot';
-  
-  // Handle "mon_1" -> "1"
-  const cleanId = slotId.toString().includes('_') ? slotId.toString().split('_')[1] : slotId.toString();
-  
-  const time = SLOT_TIMINGS[cleanId];
-  if (time) {
-    return `Period ${cleanId} (${time})`;
+
+  const period = getPeriodNumber(slotId) ?? slotId.toString();
+  const times = getPeriodTimes(slotId);
+  if (times) {
+    return `Period ${period} (${to12Hour(times.start_time)} - ${to12Hour(times.end_time)})`;
   }
-  
-  return `Period ${cleanId}`;
+
+  return `Period ${period}`;
 };
 
 export const formatTime = (date: Date): string => {
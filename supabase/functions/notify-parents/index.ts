@@ -0,0 +1,200 @@
+/**
+ * Supabase Edge Function: notify-parents
+ *
+ * Sends a low-attendance message to the parents of selected students of one
+ * class and records each one in parent_notifications (schema section 36).
+ * Only an active class incharge of that class may call it.
+ *
+ * body: {
+ *   dept, year, section, channel: "sms" | "whatsapp", template,
+ *   recipients: [{ student_id, vars: { percentage, required, classes_needed,
+ *                  remaining, subject_shortfalls } }]
+ * }
+ * returns: { success, campaign_id, results: [{ student_id, status, error }] }
+ *   status is "simulated" for every message when MESSAGING_PROVIDER=stub
+ *
+ * name, roll_no, class and the parent's number come from the database, not
+ * from the request.
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { renderParentMessage, type ParentMessageVars } from "../../../src/shared/parentMessages.ts";
+import { getProvider, type Channel, type SendResult } from "./providers.ts";
+
+// A class is at most a few dozen students; this keeps one call well inside
+// the function's time limit
+const MAX_RECIPIENTS = 100;
+
+interface Recipient {
+  student_id: string;
+  vars: Partial<ParentMessageVars>;
+}
+
+interface NotifyRequest {
+  dept: string;
+  year: number;
+  section: string;
+  channel: Channel;
+  template: string;
+  recipients: Recipient[];
+}
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// Parent numbers are stored as typed; 10 digits means an Indian mobile
+const toMsisdn = (mobile: string | null): string | null => {
+  const digits = (mobile || "").replace(/\D/g, "").replace(/^0+/, "");
+  if (digits.length === 10) return `91${digits}`;
+  return digits.length > 10 ? digits : null;
+};
+
+serve(async (req: Request) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    // @ts-ignore: Deno.env
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    // @ts-ignore: Deno.env
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!; // Writes the notification tables
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    // 1. Caller
+    const jwt = (req.headers.get("Authorization") || "").replace(/^Bearer\s+/i, "");
+    const { data: { user } } = await supabase.auth.getUser(jwt);
+    if (!user) return json({ success: false, error: "Not authenticated" }, 401);
+
+    // 2. Request
+    const { dept, year, section, channel, template, recipients }: NotifyRequest = await req.json();
+    if (!dept || !year || !section || !template?.trim() || !Array.isArray(recipients) || recipients.length === 0) {
+      return json({ success: false, error: "Missing required fields" }, 400);
+    }
+    if (channel !== "sms" && channel !== "whatsapp") {
+      return json({ success: false, error: "Unknown channel" }, 400);
+    }
+    if (recipients.length > MAX_RECIPIENTS) {
+      return json({ success: false, error: `At most ${MAX_RECIPIENTS} students per campaign` }, 400);
+    }
+
+    const { data: incharge } = await supabase
+      .from("class_incharges")
+      .select("id")
+      .eq("faculty_id", user.id)
+      .eq("dept", dept)
+      .eq("year", year)
+      .eq("section", section)
+      .eq("is_active", true)
+      .maybeSingle();
+    if (!incharge) return json({ success: false, error: "Not the incharge of this class" }, 403);
+
+    // 3. Students of this class only
+    const { data: students, error: studentsError } = await supabase
+      .from("students")
+      .select("id, full_name, roll_no, parent_mobile")
+      .in("id", recipients.map(r => r.student_id))
+      .eq("dept", dept)
+      .eq("year", year)
+      .eq("section", section)
+      .eq("is_active", true);
+    if (studentsError) throw studentsError;
+
+    const byId = new Map((students || []).map(s => [s.id, s]));
+    if (byId.size === 0) return json({ success: false, error: "No students of this class selected" }, 400);
+    const className = `${dept} ${year}-${section}`;
+
+    // Fails on a missing or unknown MESSAGING_PROVIDER, before anything is recorded
+    const provider = getProvider(channel);
+
+    // 4. Campaign and one queued row per student
+    const { data: campaign, error: campaignError } = await supabase
+      .from("parent_notification_campaigns")
+      .insert({ created_by: user.id, dept, year, section, channel, template })
+      .select("id")
+      .single();
+    if (campaignError) throw campaignError;
+
+    const rows = recipients
+      .filter(r => byId.has(r.student_id))
+      .map(r => {
+        const student = byId.get(r.student_id)!;
+        const to = toMsisdn(student.parent_mobile);
+        return {
+          campaign_id: campaign.id,
+          student_id: student.id,
+          parent_mobile: to,
+          message: renderParentMessage(template, {
+            percentage: "",
+            required: "",
+            ...r.vars,
+            name: student.full_name,
+            roll_no: student.roll_no,
+            class: className,
+          }),
+          status: to ? "queued" : "failed",
+          provider: provider.name,
+          error: to ? null : "No parent mobile number",
+        };
+      });
+
+    const { data: queued, error: queueError } = await supabase
+      .from("parent_notifications")
+      .insert(rows)
+      .select("id, student_id, parent_mobile, message, status, error");
+    if (queueError) throw queueError;
+
+    // 5. Send, one at a time to stay within provider rate limits
+    const results = [];
+    for (const row of queued || []) {
+      if (row.status !== "queued") {
+        results.push({ student_id: row.student_id, status: row.status, error: row.error });
+        continue;
+      }
+
+      let result: SendResult;
+      try {
+        result = await provider.send({ to: row.parent_mobile, body: row.message });
+      } catch (error: any) {
+        result = { ok: false, error: error.message };
+      }
+
+      const now = new Date().toISOString();
+      const status = !result.ok ? "failed" : result.simulated ? "simulated" : "sent";
+      const sendError = result.ok ? null : result.error ?? "Send failed";
+      await supabase
+        .from("parent_notifications")
+        .update({
+          status,
+          provider_message_id: result.providerMessageId ?? null,
+          error: sendError,
+          sent_at: status === "sent" ? now : null,
+          updated_at: now,
+        })
+        .eq("id", row.id);
+
+      results.push({ student_id: row.student_id, status, error: sendError });
+    }
+
+    // Students not in this class are reported, not recorded
+    for (const r of recipients) {
+      if (!byId.has(r.student_id)) {
+        results.push({ student_id: r.student_id, status: "failed", error: "Not a student of this class" });
+      }
+    }
+
+    return json({ success: true, campaign_id: campaign.id, results });
+  } catch (error: any) {
+    console.error("notify-parents failed:", error);
+    return json({ success: false, error: error.message }, 500);
+  }
+});
@@ -0,0 +1,116 @@
+/**
+ * Outbound messaging providers for notify-parents
+ *
+ * MESSAGING_PROVIDER selects them and must be set; notify-parents refuses to
+ * run without it:
+ * - "stub": sends nothing; messages are recorded as `simulated`
+ * - "live": SMS through an HTTP gateway, WhatsApp through the WhatsApp
+ *   Business Cloud API
+ *
+ * Secrets for "live":
+ * - SMS_GATEWAY_URL, SMS_GATEWAY_API_KEY, SMS_SENDER_ID (optional)
+ * - WHATSAPP_PHONE_NUMBER_ID, WHATSAPP_ACCESS_TOKEN
+ */
+
+export type Channel = "sms" | "whatsapp";
+
+export interface OutboundMessage {
+  // E.164 without the "+" (e.g. 919876543210)
+  to: string;
+  body: string;
+}
+
+export interface SendResult {
+  ok: boolean;
+  // Accepted without sending anything (stub provider)
+  simulated?: boolean;
+  providerMessageId?: string;
+  error?: string;
+}
+
+export interface MessagingProvider {
+  name: string;
+  send(message: OutboundMessage): Promise<SendResult>;
+}
+
+// @ts-ignore: Deno.env
+const env = (key: string): string | undefined => Deno.env.get(key);
+
+export class StubProvider implements MessagingProvider {
+  name = "stub";
+
+  async send(_message: OutboundMessage): Promise<SendResult> {
+    return { ok: true, simulated: true, providerMessageId: `stub-${crypto.randomUUID()}` };
+  }
+}
+
+/**
+ * Generic HTTP SMS gateway: POST { to, sender, message } with a bearer key,
+ * expects { id } (or { message_id }) back.
+ */
+export class SmsGatewayProvider implements MessagingProvider {
+  name = "sms-gateway";
+
+  async send(message: OutboundMessage): Promise<SendResult> {
+    const url = env("SMS_GATEWAY_URL");
+    const apiKey = env("SMS_GATEWAY_API_KEY");
+    if (!url || !apiKey) return { ok: false, error: "SMS gateway is not configured" };
+
+    const res = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ to: message.to, sender: env("SMS_SENDER_ID"), message: message.body }),
+    });
+    const result = await res.json().catch(() => ({}));
+
+    if (!res.ok) {
+      return { ok: false, error: result.error?.message || result.error || `SMS gateway returned ${res.status}` };
+    }
+    return { ok: true, providerMessageId: String(result.id ?? result.message_id ?? "") || undefined };
+  }
+}
+
+/**
+ * WhatsApp Business Cloud API text message. Note that WhatsApp only delivers
+ * free-form text within 24 hours of the parent's last message; outside that
+ * window it is rejected and recorded as failed.
+ */
+export class WhatsAppBusinessProvider implements MessagingProvider {
+  name = "whatsapp-business";
+
+  async send(message: OutboundMessage): Promise<SendResult> {
+    const phoneNumberId = env("WHATSAPP_PHONE_NUMBER_ID");
+    const accessToken = env("WHATSAPP_ACCESS_TOKEN");
+    if (!phoneNumberId || !accessToken) return { ok: false, error: "WhatsApp Business is not configured" };
+
+    const res = await fetch(`https://graph.facebook.com/v19.0/${phoneNumberId}/messages`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        messaging_product: "whatsapp",
+        to: message.to,
+        type: "text",
+        text: { body: message.body },
+      }),
+    });
+    const result = await res.json().catch(() => ({}));
+
+    if (!res.ok) {
+      return { ok: false, error: result.error?.message || `WhatsApp returned ${res.status}` };
+    }
+    return { ok: true, providerMessageId: result.messages?.[0]?.id };
+  }
+}
+
+export function getProvider(channel: Channel): MessagingProvider {
+  const provider = env("MESSAGING_PROVIDER");
+  if (provider === "stub") return new StubProvider();
+  if (provider === "live") return channel === "sms" ? new SmsGatewayProvider() : new WhatsAppBusinessProvider();
+  throw new Error(provider ? `Unknown MESSAGING_PROVIDER "${provider}"` : "MESSAGING_PROVIDER is not set");
+}
@@ -7,6 +7,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { create } from "https://deno.land/x/djwt@v2.8/mod.ts";
+import { getCampusClock, setCampusTimezone, DEFAULT_CAMPUS_TIMEZONE } from "../../../src/shared/campusTime.ts";
 
 // reused from send-push
 const FCM_PROJECT_ID = "mrce-attend-me"; 
@@ -86,25 +87,20 @@ serve(async (req: Request) => {
     // However, cron might run every minute or 10 mins. 
     // Safe bet: Check for classes starting between [now + 9 mins, now + 11 mins] to allow some drift.
     
-    // Convert current UTC to IST (Asia/Kolkata)
-    const now = new Date();
-    // Add 5.5 hours for IST
-    const istOffset = 5.5 * 60 * 60 * 1000;
-    const istNow = new Date(now.getTime() + istOffset);
-    
-    const targetTime = new Date(istNow.getTime() + 10 * 60 * 1000); // +10 mins
-    
-    const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-    const dayName = days[istNow.getDay()];
-    
-    // Format HH:mm:00
-    const pad = (n: number) => n.toString().padStart(2, '0');
-    // We'll check for strict HH:mm match or range if DB stores time differently
-    // Assuming DB stores 'HH:mm:ss' or 'HH:mm'
-    // Let's broaden search slightly? or strict?
-    // User asked for "10 min reminders". 
-    // Let's format target time strictly HH:mm (e.g., 09:30)
-    const timeStr = `${pad(targetTime.getHours())}:${pad(targetTime.getMinutes())}`; // '09:30' partial match
+    // Campus wall clock 10 minutes from now (timezone from app_config)
+    const { data: tzConfig } = await supabase
+        .from('app_config')
+        .select('value')
+        .eq('key', 'campus_timezone')
+        .maybeSingle();
+    if (typeof tzConfig?.value === 'string' && !setCampusTimezone(tzConfig.value)) {
+        console.warn(`Unknown campus_timezone "${tzConfig.value}", using ${DEFAULT_CAMPUS_TIMEZONE}`);
+    }
+
+    const target = getCampusClock(new Date(Date.now() + 10 * 60 * 1000));
+    const dayName = target.dayName;
+    // 'HH:mm' (e.g. '09:30'), matched as a prefix of the TIME column
+    const timeStr = target.time.slice(0, 5);
     
     // 3. Query Master Timetable
     // Need profiles joined for push_token